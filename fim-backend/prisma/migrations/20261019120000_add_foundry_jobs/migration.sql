@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."FoundryJobType" AS ENUM ('CREATE', 'START', 'STOP', 'DELETE', 'RESTART');
+
+-- CreateEnum
+CREATE TYPE "public"."FoundryJobStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."foundry_jobs" (
+    "id" TEXT NOT NULL,
+    "type" "public"."FoundryJobType" NOT NULL,
+    "status" "public"."FoundryJobStatus" NOT NULL DEFAULT 'PENDING',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "message" TEXT,
+    "error" TEXT,
+    "instance_id" TEXT,
+    "requested_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "foundry_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "foundry_jobs_status_created_at_idx" ON "public"."foundry_jobs"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_jobs" ADD CONSTRAINT "foundry_jobs_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_jobs" ADD CONSTRAINT "foundry_jobs_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "public"."FoundryCorrectionKind" AS ENUM ('STATUS_DRIFT', 'CONTAINER_MISSING', 'ORPHAN_ADOPTED', 'ORPHAN_REPORTED');
+
+-- CreateTable
+CREATE TABLE "public"."foundry_status_corrections" (
+    "id" TEXT NOT NULL,
+    "kind" "public"."FoundryCorrectionKind" NOT NULL,
+    "instance_id" TEXT,
+    "container_id" TEXT,
+    "container_name" TEXT,
+    "previous_status" "public"."FoundryInstanceStatus",
+    "new_status" "public"."FoundryInstanceStatus",
+    "reason" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "foundry_status_corrections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "foundry_status_corrections_created_at_idx" ON "public"."foundry_status_corrections"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_status_corrections" ADD CONSTRAINT "foundry_status_corrections_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
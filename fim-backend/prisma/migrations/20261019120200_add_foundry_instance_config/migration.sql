@@ -0,0 +1,14 @@
+-- CreateEnum
+CREATE TYPE "public"."FoundryRestartPolicy" AS ENUM ('NO', 'ON_FAILURE', 'UNLESS_STOPPED', 'ALWAYS');
+
+-- AlterEnum
+ALTER TYPE "public"."FoundryJobType" ADD VALUE 'RECREATE';
+
+-- AlterTable
+ALTER TABLE "public"."foundry_instances" ADD COLUMN     "image" TEXT NOT NULL DEFAULT 'felddy/foundryvtt',
+ADD COLUMN     "image_tag" TEXT NOT NULL DEFAULT 'latest',
+ADD COLUMN     "foundry_version" TEXT,
+ADD COLUMN     "memory_limit_mb" INTEGER,
+ADD COLUMN     "cpu_limit" DOUBLE PRECISION,
+ADD COLUMN     "env" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "restart_policy" "public"."FoundryRestartPolicy" NOT NULL DEFAULT 'UNLESS_STOPPED';
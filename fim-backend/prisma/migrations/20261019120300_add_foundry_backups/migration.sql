@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "public"."FoundryJobType" ADD VALUE 'BACKUP';
+ALTER TYPE "public"."FoundryJobType" ADD VALUE 'RESTORE';
+
+-- AlterTable
+ALTER TABLE "public"."foundry_jobs" ADD COLUMN     "payload" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."foundry_backups" (
+    "id" TEXT NOT NULL,
+    "instance_id" TEXT,
+    "instance_name" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "size_bytes" BIGINT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "foundry_version" TEXT,
+    "image" TEXT NOT NULL,
+    "created_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "foundry_backups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "foundry_backups_instance_id_created_at_idx" ON "public"."foundry_backups"("instance_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_backups" ADD CONSTRAINT "foundry_backups_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_backups" ADD CONSTRAINT "foundry_backups_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "public"."FoundryBackupTrigger" AS ENUM ('MANUAL', 'SCHEDULED');
+
+-- CreateEnum
+CREATE TYPE "public"."FoundryBackupRunningPolicy" AS ENUM ('SKIP', 'QUIESCE', 'LIVE');
+
+-- CreateEnum
+CREATE TYPE "public"."FoundryBackupRunStatus" AS ENUM ('SUCCEEDED', 'FAILED', 'SKIPPED');
+
+-- AlterTable
+ALTER TABLE "public"."foundry_backups" ADD COLUMN     "trigger" "public"."FoundryBackupTrigger" NOT NULL DEFAULT 'MANUAL';
+
+-- CreateTable
+CREATE TABLE "public"."foundry_backup_schedules" (
+    "id" TEXT NOT NULL,
+    "instance_id" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "keep_daily" INTEGER NOT NULL DEFAULT 7,
+    "keep_weekly" INTEGER NOT NULL DEFAULT 4,
+    "running_policy" "public"."FoundryBackupRunningPolicy" NOT NULL DEFAULT 'QUIESCE',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "foundry_backup_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."foundry_backup_runs" (
+    "id" TEXT NOT NULL,
+    "instance_id" TEXT,
+    "trigger" "public"."FoundryBackupTrigger" NOT NULL,
+    "status" "public"."FoundryBackupRunStatus" NOT NULL,
+    "backup_id" TEXT,
+    "message" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "foundry_backup_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "foundry_backup_schedules_instance_id_key" ON "public"."foundry_backup_schedules"("instance_id");
+
+-- CreateIndex
+CREATE INDEX "foundry_backup_runs_instance_id_started_at_idx" ON "public"."foundry_backup_runs"("instance_id", "started_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_backup_schedules" ADD CONSTRAINT "foundry_backup_schedules_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_backup_runs" ADD CONSTRAINT "foundry_backup_runs_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_backup_runs" ADD CONSTRAINT "foundry_backup_runs_backup_id_fkey" FOREIGN KEY ("backup_id") REFERENCES "public"."foundry_backups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "public"."Role" ADD VALUE 'GM';
+
+-- CreateTable
+CREATE TABLE "public"."foundry_instance_members" (
+    "id" TEXT NOT NULL,
+    "instance_id" TEXT NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "invited_by_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "foundry_instance_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "foundry_instance_members_user_id_idx" ON "public"."foundry_instance_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "foundry_instance_members_instance_id_user_id_key" ON "public"."foundry_instance_members"("instance_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_instance_members" ADD CONSTRAINT "foundry_instance_members_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_instance_members" ADD CONSTRAINT "foundry_instance_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
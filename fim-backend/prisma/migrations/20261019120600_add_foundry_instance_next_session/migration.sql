@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."foundry_instances" ADD COLUMN     "next_session_at" TIMESTAMP(3);
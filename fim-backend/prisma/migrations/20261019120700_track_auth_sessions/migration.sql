@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "ip_address" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "revoked_at" TIMESTAMP(3),
+ADD COLUMN     "user_agent" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ADD COLUMN     "session_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_user_id_idx" ON "public"."sessions"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."refresh_tokens" ADD CONSTRAINT "refresh_tokens_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."SecurityEventType" AS ENUM ('REFRESH_TOKEN_REUSE');
+
+-- Refresh tokens are stored as SHA-256 hashes; hash the tokens that were stored in plaintext
+ALTER TABLE "public"."refresh_tokens" RENAME COLUMN "token" TO "token_hash";
+ALTER INDEX "public"."refresh_tokens_token_key" RENAME TO "refresh_tokens_token_hash_key";
+UPDATE "public"."refresh_tokens" SET "token_hash" = encode(sha256(convert_to("token_hash", 'UTF8')), 'hex');
+
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ADD COLUMN     "family_id" TEXT,
+ADD COLUMN     "revoked_at" TIMESTAMP(3),
+ADD COLUMN     "rotated_at" TIMESTAMP(3);
+
+-- Every existing token starts a family of its own
+UPDATE "public"."refresh_tokens" SET "family_id" = md5(random()::text || "id"::text);
+ALTER TABLE "public"."refresh_tokens" ALTER COLUMN "family_id" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."security_events" (
+    "id" TEXT NOT NULL,
+    "type" "public"."SecurityEventType" NOT NULL,
+    "user_id" INTEGER,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "details" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_family_id_idx" ON "public"."refresh_tokens"("family_id");
+
+-- CreateIndex
+CREATE INDEX "security_events_user_id_created_at_idx" ON "public"."security_events"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_created_at_idx" ON "public"."security_events"("type", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."security_events" ADD CONSTRAINT "security_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."invites" (
+    "id" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "email" TEXT,
+    "role" "public"."Role" NOT NULL DEFAULT 'PLAYER',
+    "created_by_id" INTEGER,
+    "used_by_id" INTEGER,
+    "expires_at" TIMESTAMP(3),
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invite_instances" (
+    "invite_id" TEXT NOT NULL,
+    "instance_id" TEXT NOT NULL,
+
+    CONSTRAINT "invite_instances_pkey" PRIMARY KEY ("invite_id","instance_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invites_token_hash_key" ON "public"."invites"("token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invites_used_by_id_key" ON "public"."invites"("used_by_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."invites" ADD CONSTRAINT "invites_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invites" ADD CONSTRAINT "invites_used_by_id_fkey" FOREIGN KEY ("used_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invite_instances" ADD CONSTRAINT "invite_instances_invite_id_fkey" FOREIGN KEY ("invite_id") REFERENCES "public"."invites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invite_instances" ADD CONSTRAINT "invite_instances_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."two_factor_credentials" (
+    "user_id" INTEGER NOT NULL,
+    "secret" TEXT NOT NULL,
+    "recovery_codes" TEXT[],
+    "enabled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "two_factor_credentials_pkey" PRIMARY KEY ("user_id")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."two_factor_credentials" ADD CONSTRAINT "two_factor_credentials_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
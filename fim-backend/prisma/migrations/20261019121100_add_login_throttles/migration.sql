@@ -0,0 +1,18 @@
+-- AlterEnum
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'LOGIN_FAILED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'LOGIN_LOCKED';
+ALTER TYPE "public"."SecurityEventType" ADD VALUE 'LOGIN_UNLOCKED';
+
+-- CreateEnum
+CREATE TYPE "public"."LoginThrottleKind" AS ENUM ('ACCOUNT', 'IP');
+
+-- CreateTable
+CREATE TABLE "public"."login_throttles" (
+    "kind" "public"."LoginThrottleKind" NOT NULL,
+    "subject" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "locked_until" TIMESTAMP(3),
+    "last_failure_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "login_throttles_pkey" PRIMARY KEY ("kind","subject")
+);
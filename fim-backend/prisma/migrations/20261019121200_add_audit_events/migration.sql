@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."audit_events" (
+    "id" TEXT NOT NULL,
+    "actor_id" INTEGER,
+    "actor_email" TEXT,
+    "action" TEXT NOT NULL,
+    "target_type" TEXT,
+    "target_id" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "details" JSONB,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_created_at_idx" ON "public"."audit_events"("created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actor_id_created_at_idx" ON "public"."audit_events"("actor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_target_type_target_id_created_at_idx" ON "public"."audit_events"("target_type", "target_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_created_at_idx" ON "public"."audit_events"("action", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."audit_events" ADD CONSTRAINT "audit_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."client_logs" (
+    "id" TEXT NOT NULL,
+    "user_id" INTEGER,
+    "level" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "component" TEXT,
+    "action" TEXT,
+    "data" JSONB,
+    "stack" TEXT,
+    "url" TEXT,
+    "user_agent" TEXT,
+    "ip_address" TEXT,
+    "occurred_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "client_logs_created_at_idx" ON "public"."client_logs"("created_at");
+
+-- CreateIndex
+CREATE INDEX "client_logs_user_id_created_at_idx" ON "public"."client_logs"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "client_logs_component_created_at_idx" ON "public"."client_logs"("component", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."client_logs" ADD CONSTRAINT "client_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."foundry_health_samples" (
+    "id" TEXT NOT NULL,
+    "instance_id" TEXT NOT NULL,
+    "health_status" TEXT NOT NULL,
+    "world" TEXT,
+    "system" TEXT,
+    "system_version" TEXT,
+    "foundry_version" TEXT,
+    "users" INTEGER,
+    "response_time_ms" INTEGER,
+    "error" TEXT,
+    "checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "foundry_health_samples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "foundry_health_samples_instance_id_checked_at_idx" ON "public"."foundry_health_samples"("instance_id", "checked_at");
+
+-- CreateIndex
+CREATE INDEX "foundry_health_samples_checked_at_idx" ON "public"."foundry_health_samples"("checked_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."foundry_health_samples" ADD CONSTRAINT "foundry_health_samples_instance_id_fkey" FOREIGN KEY ("instance_id") REFERENCES "public"."foundry_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
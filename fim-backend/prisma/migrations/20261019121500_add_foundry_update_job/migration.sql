@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."FoundryJobType" ADD VALUE 'UPDATE';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."two_factor_credentials" ADD COLUMN     "last_used_step" INTEGER;
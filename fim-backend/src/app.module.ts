@@ -1,5 +1,6 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
@@ -10,6 +11,13 @@ import { PrismaModule } from './prisma/prisma.module';
 import { FoundryModule } from './foundry/foundry.module';
 import { LoggerModule } from './common/logger/logger.module';
 import { HealthModule } from './health/health.module';
+import { PagesModule } from './pages/pages.module';
+import { InvitesModule } from './invites/invites.module';
+import { AuditModule } from './audit/audit.module';
+import { ClientLogsModule } from './client-logs/client-logs.module';
+import { RequestIdMiddleware } from './common/request-context/request-id.middleware';
+import { MetricsModule } from './metrics/metrics.module';
+import { HttpMetricsMiddleware } from './metrics/http-metrics.middleware';
 
 @Module({
   imports: [
@@ -20,12 +28,18 @@ import { HealthModule } from './health/health.module';
       ttl: 60000,
       limit: 100,
     }]),
+    ScheduleModule.forRoot(),
     AuthModule,
     UsersModule,
     PrismaModule,
     FoundryModule,
     LoggerModule,
     HealthModule,
+    PagesModule,
+    InvitesModule,
+    AuditModule,
+    ClientLogsModule,
+    MetricsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -36,4 +50,8 @@ import { HealthModule } from './health/health.module';
     },
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestIdMiddleware, HttpMetricsMiddleware).forRoutes('*');
+  }
+}
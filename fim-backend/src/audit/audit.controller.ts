@@ -0,0 +1,59 @@
+import { Controller, Get, UseGuards, Query, DefaultValuePipe, ParseIntPipe, BadRequestException } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuditService } from './audit.service';
+import { AuditEventResponseDto } from './dto/audit-event-response.dto';
+
+@ApiTags('audit')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List audit events, newest first (Admin only)' })
+  @ApiQuery({ name: 'action', required: false, description: 'An action or the start of one, e.g. `instance.` for every instance action' })
+  @ApiQuery({ name: 'actorId', required: false, type: Number })
+  @ApiQuery({ name: 'targetType', required: false, enum: ['user', 'instance', 'page', 'invite', 'session'] })
+  @ApiQuery({ name: 'targetId', required: false })
+  @ApiQuery({ name: 'since', required: false, description: 'ISO 8601 date and time' })
+  @ApiQuery({ name: 'until', required: false, description: 'ISO 8601 date and time' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'At most 500; defaults to 100' })
+  @ApiResponse({ status: 200, description: 'Recorded audit events.', type: [AuditEventResponseDto] })
+  @ApiResponse({ status: 400, description: 'Bad Request: A date is invalid.' })
+  findAll(
+    @Query('action') action?: string,
+    @Query('actorId', new ParseIntPipe({ optional: true })) actorId?: number,
+    @Query('targetType') targetType?: string,
+    @Query('targetId') targetId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit = 100,
+  ): Promise<AuditEventResponseDto[]> {
+    return this.auditService.findAll({
+      action: action || undefined,
+      actorId,
+      targetType: targetType || undefined,
+      targetId: targetId || undefined,
+      since: this.parseDate(since, 'since'),
+      until: this.parseDate(until, 'until'),
+      limit: Math.min(Math.max(limit, 1), 500),
+    });
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO 8601 date`);
+    }
+    return date;
+  }
+}
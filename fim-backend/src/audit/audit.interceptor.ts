@@ -0,0 +1,119 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Prisma } from '@prisma/client';
+import type { Request } from 'express';
+import { Observable, catchError, concatMap, from, switchMap } from 'rxjs';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { getSessionMetadata } from '../auth/sessions.service';
+import { AuditService } from './audit.service';
+import { AUDIT_KEY, AuditMetadata } from './decorators/audit.decorator';
+
+/**
+ * Writes an audit event for every route marked with {@link Audit}, after the route has finished.
+ * The target's state is captured before and after the handler runs, so the event shows what changed.
+ * Failed calls are recorded too, with the error; the response itself is passed through unchanged.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const audit = this.reflector.get<AuditMetadata | undefined>(
+      AUDIT_KEY,
+      context.getHandler(),
+    );
+    if (!audit || context.getType() !== 'http') {
+      return next.handle();
+    }
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & Partial<Pick<AuthenticatedRequest, 'user'>>>();
+    const param = audit.param ?? 'id';
+    const paramTargetId = audit.self
+      ? request.user && String(request.user.userId)
+      : request.params?.[param];
+    const otherParams = Object.fromEntries(
+      Object.entries(request.params ?? {}).filter(([key]) => key !== param),
+    );
+    const details = {
+      ...(Object.keys(otherParams).length > 0 ? { params: otherParams } : {}),
+      ...(audit.recordBody ? { body: request.body as unknown } : {}),
+    };
+    const { ipAddress, userAgent } = getSessionMetadata(request);
+    const record = (
+      targetId: string | undefined,
+      before: Record<string, unknown> | null,
+      after: Record<string, unknown> | null,
+      error?: string,
+    ) =>
+      this.auditService.record({
+        action: audit.action,
+        actor: request.user
+          ? { id: request.user.userId, email: request.user.email }
+          : undefined,
+        targetType: audit.target,
+        targetId,
+        before,
+        after,
+        details:
+          Object.keys(details).length > 0
+            ? (JSON.parse(JSON.stringify(details)) as Prisma.InputJsonValue)
+            : undefined,
+        error,
+        ipAddress,
+        userAgent,
+      });
+
+    return from(this.auditService.snapshot(audit.target, paramTargetId)).pipe(
+      switchMap((before) =>
+        next.handle().pipe(
+          concatMap(async (response: unknown) => {
+            const targetId =
+              paramTargetId ?? responseTargetId(response, audit.responseKey);
+            const after = await this.auditService.snapshot(
+              audit.target,
+              targetId,
+            );
+            await record(targetId, before, after);
+            return response;
+          }),
+          catchError(async (error: unknown) => {
+            await record(paramTargetId, before, before, errorMessage(error));
+            throw error;
+          }),
+        ),
+      ),
+    );
+  }
+}
+
+function responseTargetId(response: unknown, key = 'id'): string | undefined {
+  const value =
+    response && typeof response === 'object'
+      ? (response as Record<string, unknown>)[key]
+      : undefined;
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : undefined;
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof HttpException) {
+    const response = error.getResponse();
+    const message =
+      typeof response === 'object'
+        ? (response as { message?: unknown }).message
+        : response;
+    return Array.isArray(message) ? message.join(', ') : String(message);
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditInterceptor } from './audit.interceptor';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LoggerModule } from '../common/logger/logger.module';
+
+@Module({
+  imports: [PrismaModule, LoggerModule],
+  providers: [
+    AuditService,
+    // Applies to every route, but only acts on those marked with @Audit
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
+  ],
+  controllers: [AuditController],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,101 @@
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditService, diffSnapshots } from './audit.service';
+
+describe('AuditService', () => {
+  let service: AuditService;
+  let create: jest.Mock;
+
+  const instance = {
+    name: 'curse-of-strahd',
+    status: 'RUNNING',
+    port: 30001,
+    env: { FOUNDRY_PASSWORD: 'hunter2', FOUNDRY_LICENSE_KEY: 'ABCD-1234' },
+  };
+
+  beforeEach(() => {
+    create = jest.fn(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve({ id: 'event-1', ...data }),
+    );
+    const prisma = {
+      auditEvent: { create },
+      foundryInstance: {
+        findUnique: jest.fn(() => Promise.resolve(instance)),
+      },
+    };
+    service = new AuditService(
+      prisma as unknown as PrismaService,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps only the fields an action changed', () => {
+    expect(
+      diffSnapshots(
+        { role: 'PLAYER', email: 'sam@example.com' },
+        { role: 'GM', email: 'sam@example.com' },
+      ),
+    ).toEqual({ before: { role: 'PLAYER' }, after: { role: 'GM' } });
+    expect(diffSnapshots({ role: 'GM' }, { role: 'GM' })).toEqual({
+      before: null,
+      after: null,
+    });
+    expect(diffSnapshots(null, { role: 'GM' })).toEqual({
+      before: null,
+      after: { role: 'GM' },
+    });
+  });
+
+  it('records the actor, the target and what changed', async () => {
+    await service.record({
+      action: 'user.role.update',
+      actor: { id: 1, email: 'admin@example.com' },
+      targetType: 'user',
+      targetId: '2',
+      before: { role: 'PLAYER', isActive: true },
+      after: { role: 'GM', isActive: true },
+      ipAddress: '203.0.113.7',
+    });
+
+    const [{ data }] = create.mock.calls[0] as [{ data: unknown }];
+    expect(data).toEqual(
+      expect.objectContaining({
+        action: 'user.role.update',
+        actorId: 1,
+        actorEmail: 'admin@example.com',
+        targetType: 'user',
+        targetId: '2',
+        before: { role: 'PLAYER' },
+        after: { role: 'GM' },
+        success: true,
+        ipAddress: '203.0.113.7',
+      }),
+    );
+  });
+
+  it('does not throw when the event cannot be recorded', async () => {
+    create.mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(
+      service.record({ action: 'instance.start', error: 'Not found' }),
+    ).resolves.toBeNull();
+  });
+
+  it('records which environment variables an instance has, but not their values', async () => {
+    const snapshot = await service.snapshot('instance', 'instance-1');
+
+    expect(snapshot).toEqual({
+      name: 'curse-of-strahd',
+      status: 'RUNNING',
+      port: 30001,
+      envKeys: ['FOUNDRY_LICENSE_KEY', 'FOUNDRY_PASSWORD'],
+    });
+    expect(JSON.stringify(snapshot)).not.toContain('hunter2');
+  });
+});
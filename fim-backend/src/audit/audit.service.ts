@@ -0,0 +1,218 @@
+import { Injectable } from '@nestjs/common';
+import { AuditEvent, Prisma } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * The kinds of records whose state is captured before and after an audited action.
+ */
+export type AuditTargetType =
+  | 'user'
+  | 'instance'
+  | 'page'
+  | 'invite'
+  | 'session';
+
+type Snapshot = Record<string, unknown>;
+
+/**
+ * An action to record.
+ */
+export interface AuditEntry {
+  action: string;
+  actor?: { id: number; email: string };
+  targetType?: AuditTargetType;
+  targetId?: string;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+  details?: Prisma.InputJsonValue;
+  error?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Narrows down the recorded audit events.
+ */
+export interface AuditEventFilter {
+  action?: string;
+  actorId?: number;
+  targetType?: string;
+  targetId?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/**
+ * Keeps a persistent record of who did what to which user, instance, page or invitation.
+ * Records only hold the fields an action changed, and never passwords, secrets or environment values.
+ */
+@Injectable()
+export class AuditService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(AuditService.name);
+  }
+
+  /**
+   * Records an action. A failure to record is logged rather than thrown, so it never undoes the action itself.
+   * @param entry The action, its actor and target, the target's state before and after it and where the request came from.
+   * @returns The recorded event, or null if it could not be recorded.
+   */
+  async record(entry: AuditEntry): Promise<AuditEvent | null> {
+    const { before, after } = diffSnapshots(entry.before, entry.after);
+    try {
+      return await this.prisma.auditEvent.create({
+        data: {
+          action: entry.action,
+          actorId: entry.actor?.id,
+          actorEmail: entry.actor?.email,
+          targetType: entry.targetType,
+          targetId: entry.targetId,
+          before: toJson(before),
+          after: toJson(after),
+          details: entry.details,
+          success: !entry.error,
+          error: entry.error,
+          ipAddress: entry.ipAddress,
+          userAgent: entry.userAgent,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit event ${entry.action}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Retrieves recorded audit events, newest first.
+   * @param filter The action, actor, target and time range to narrow the events down to, and how many to return.
+   */
+  async findAll(filter: AuditEventFilter): Promise<AuditEvent[]> {
+    return this.prisma.auditEvent.findMany({
+      where: {
+        action: filter.action ? { startsWith: filter.action } : undefined,
+        actorId: filter.actorId,
+        targetType: filter.targetType,
+        targetId: filter.targetId,
+        createdAt: { gte: filter.since, lte: filter.until },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit,
+    });
+  }
+
+  /**
+   * Captures the current state of a record, leaving out anything secret.
+   * @param targetType The kind of record.
+   * @param targetId The ID of the record.
+   * @returns The state, or null if the record does not exist or its kind has no state worth recording.
+   */
+  async snapshot(
+    targetType: AuditTargetType | undefined,
+    targetId: string | undefined,
+  ): Promise<Snapshot | null> {
+    if (!targetType || !targetId) {
+      return null;
+    }
+    const numericId = Number(targetId);
+    switch (targetType) {
+      case 'user':
+        return Number.isInteger(numericId)
+          ? this.prisma.user.findUnique({
+              where: { id: numericId },
+              select: {
+                email: true,
+                firstName: true,
+                lastName: true,
+                role: true,
+                isActive: true,
+              },
+            })
+          : null;
+      case 'instance': {
+        const instance = await this.prisma.foundryInstance.findUnique({
+          where: { id: targetId },
+          select: {
+            name: true,
+            status: true,
+            port: true,
+            ownerId: true,
+            image: true,
+            imageTag: true,
+            foundryVersion: true,
+            memoryLimitMb: true,
+            cpuLimit: true,
+            restartPolicy: true,
+            nextSessionAt: true,
+            env: true,
+          },
+        });
+        if (!instance) {
+          return null;
+        }
+        // Environment values include the Foundry license and passwords; only which variables are set is recorded
+        const { env, ...rest } = instance;
+        return {
+          ...rest,
+          envKeys: Object.keys((env ?? {}) as Record<string, unknown>).sort(),
+        };
+      }
+      case 'page':
+        return Number.isInteger(numericId)
+          ? this.prisma.page.findUnique({
+              where: { id: numericId },
+              select: {
+                title: true,
+                url: true,
+                description: true,
+                isActive: true,
+              },
+            })
+          : null;
+      case 'invite':
+        return this.prisma.invite.findUnique({
+          where: { id: targetId },
+          select: { email: true, role: true, expiresAt: true, usedAt: true },
+        });
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Reduces the state before and after an action to the fields that changed.
+ * A record that was created or deleted keeps its whole state on the side where it exists.
+ * @param before The state before the action.
+ * @param after The state after the action.
+ */
+export function diffSnapshots(
+  before: Snapshot | null | undefined,
+  after: Snapshot | null | undefined,
+): { before: Snapshot | null; after: Snapshot | null } {
+  if (!before || !after) {
+    return { before: before ?? null, after: after ?? null };
+  }
+  const changed = [
+    ...new Set([...Object.keys(before), ...Object.keys(after)]),
+  ].filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  if (changed.length === 0) {
+    return { before: null, after: null };
+  }
+  const pick = (snapshot: Snapshot) =>
+    Object.fromEntries(changed.map((key) => [key, snapshot[key] ?? null]));
+  return { before: pick(before), after: pick(after) };
+}
+
+function toJson(snapshot: Snapshot | null): Prisma.InputJsonValue | undefined {
+  // Dates and other values become what they look like in an API response
+  return snapshot
+    ? (JSON.parse(JSON.stringify(snapshot)) as Prisma.InputJsonValue)
+    : undefined;
+}
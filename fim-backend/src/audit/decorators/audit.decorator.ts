@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuditTargetType } from '../audit.service';
+
+export const AUDIT_KEY = 'audit';
+
+export interface AuditOptions {
+  /** What kind of record the action changes; its state is recorded before and after the action. */
+  target?: AuditTargetType;
+  /** The route parameter holding the target's ID; defaults to `id`. */
+  param?: string;
+  /** The target is the acting user, e.g. for `profile` routes. */
+  self?: boolean;
+  /** The property of the response holding the target's ID when the route has none, e.g. for a create. */
+  responseKey?: string;
+  /** Also records the request body. Never set this for bodies that may contain passwords or codes. */
+  recordBody?: boolean;
+}
+
+export interface AuditMetadata extends AuditOptions {
+  action: string;
+}
+
+/**
+ * Records every call of the route, whether it succeeds or fails, as an audit event.
+ * Written by {@link AuditInterceptor}, which runs after the guards, so the actor is known.
+ * @param action A dotted name for the action, e.g. `instance.start`.
+ */
+export const Audit = (action: string, options: AuditOptions = {}) =>
+  SetMetadata(AUDIT_KEY, { action, ...options } satisfies AuditMetadata);
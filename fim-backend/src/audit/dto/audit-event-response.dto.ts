@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AuditEventResponseDto {
+  @ApiProperty({ example: 'clx0a1u2d3i4t5e6v7', description: 'Audit event ID' })
+  id: string;
+
+  @ApiProperty({ example: 1, description: 'The ID of the user who acted; null for anonymous requests or deleted users', nullable: true })
+  actorId: number | null;
+
+  @ApiProperty({ example: 'admin@example.com', description: 'The email of the user who acted, as it was at the time', nullable: true })
+  actorEmail: string | null;
+
+  @ApiProperty({ example: 'user.role.update', description: 'What was done' })
+  action: string;
+
+  @ApiProperty({ example: 'user', description: 'The kind of record the action concerned', nullable: true })
+  targetType: string | null;
+
+  @ApiProperty({ example: '2', description: 'The ID of the record the action concerned', nullable: true })
+  targetId: string | null;
+
+  @ApiProperty({ example: { role: 'PLAYER' }, description: 'The fields the action changed, as they were before', nullable: true })
+  before: unknown;
+
+  @ApiProperty({ example: { role: 'GM' }, description: 'The fields the action changed, as they are after', nullable: true })
+  after: unknown;
+
+  @ApiProperty({ example: { params: { userId: '2' } }, description: 'Further route parameters and, for some actions, the request body', nullable: true })
+  details: unknown;
+
+  @ApiProperty({ example: true, description: 'Whether the action succeeded' })
+  success: boolean;
+
+  @ApiProperty({ example: null, description: 'Why the action failed (if it did)', nullable: true })
+  error: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', description: 'IP address the request came from', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...', description: 'User agent of the request', nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '2026-10-19T12:00:00.000Z', description: 'When the action happened' })
+  createdAt: Date;
+}
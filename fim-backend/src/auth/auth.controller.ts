@@ -1,9 +1,9 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, UseGuards, Request, Put } from '@nestjs/common';
+import { Controller, Post, Body, HttpCode, HttpStatus, UseGuards, Request, Put, Get, Delete, Param, ParseIntPipe, Req, Query, DefaultValuePipe, ParseEnumPipe } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { RegisterUserDto } from './dto/register-user.dto';
 import { LoginUserDto } from './dto/login-user.dto';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
-import { ApiTags, ApiResponse, ApiOperation } from '@nestjs/swagger';
+import { ApiTags, ApiResponse, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { LoggerService } from '../common/logger/logger.service';
 import { AuthResponseDto } from './dto/auth-response.dto'; // Import AuthResponseDto
@@ -11,21 +11,39 @@ import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { Role, SecurityEventType, Session } from '@prisma/client';
+import type { Request as ExpressRequest } from 'express';
+import { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { SessionsService, getSessionMetadata } from './sessions.service';
+import { RegistrationInfoDto } from './dto/registration-info.dto';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-response.dto';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SecurityEventsService } from './security-events.service';
+import { AccountLockoutResponseDto, SecurityEventResponseDto } from './dto/security-event-response.dto';
+import { Audit } from '../audit/decorators/audit.decorator';
 
 @ApiTags('auth')
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
+    private readonly sessionsService: SessionsService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+    private readonly securityEventsService: SecurityEventsService,
     private readonly logger: LoggerService,
   ) {
     this.logger.setContext(AuthController.name);
   }
 
   @Post('register')
+  @Audit('user.register', { target: 'user', responseKey: 'id' })
   @ApiOperation({ summary: 'Register a new user' })
   @ApiResponse({ status: 201, description: 'User successfully registered.' })
-  @ApiResponse({ status: 400, description: 'Bad Request: Invalid input or email already exists.' })
+  @ApiResponse({ status: 400, description: 'Bad Request: Invalid input, email already exists or the invitation cannot be used.' })
+  @ApiResponse({ status: 403, description: 'Forbidden: Registration is closed, or invite-only and no invitation was given.' })
   async register(@Body() registerUserDto: RegisterUserDto) {
     this.logger.log(`Received registration request for email: ${registerUserDto.email}`);
     const result = await this.authService.register(registerUserDto);
@@ -33,14 +51,24 @@ export class AuthController {
     return result;
   }
 
+  @Get('registration')
+  @ApiOperation({ summary: 'Get the registration mode and what an invitation grants' })
+  @ApiQuery({ name: 'invite', required: false, description: 'An invitation code to look up' })
+  @ApiResponse({ status: 200, description: 'The registration mode and the invitation, if one was given.', type: RegistrationInfoDto })
+  @ApiResponse({ status: 404, description: 'Not Found: The invitation is invalid or has expired.' })
+  getRegistrationInfo(@Query('invite') invite?: string): Promise<RegistrationInfoDto> {
+    return this.authService.getRegistrationInfo(invite);
+  }
+
   @Post('login')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Log in a user and get JWT tokens' })
-  @ApiResponse({ status: 200, description: 'User successfully logged in.', type: AuthResponseDto })
+  @ApiResponse({ status: 200, description: 'User successfully logged in, or a two-factor challenge to complete with /auth/2fa/verify.', type: AuthResponseDto })
   @ApiResponse({ status: 401, description: 'Unauthorized: Invalid credentials.' })
-  async login(@Body() loginUserDto: LoginUserDto): Promise<AuthResponseDto> {
+  @ApiResponse({ status: 429, description: 'Too Many Requests: Too many failed logins for this account or address; try again later.' })
+  async login(@Body() loginUserDto: LoginUserDto, @Req() req: ExpressRequest): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
     this.logger.log(`Received login request for email: ${loginUserDto.email}`);
-    const result = await this.authService.login(loginUserDto);
+    const result = await this.authService.login(loginUserDto, getSessionMetadata(req));
     this.logger.log(`Login successful for email: ${loginUserDto.email}`);
     return result;
   }
@@ -50,13 +78,23 @@ export class AuthController {
   @ApiOperation({ summary: 'Refresh access token using refresh token' })
   @ApiResponse({ status: 200, description: 'Access token successfully refreshed.', type: AuthResponseDto })
   @ApiResponse({ status: 401, description: 'Unauthorized: Invalid or expired refresh token.' })
-  async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<AuthResponseDto> {
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto, @Req() req: ExpressRequest): Promise<AuthResponseDto> {
     this.logger.log('Received refresh token request.');
-    const result = await this.authService.refreshTokens(refreshTokenDto.refreshToken);
+    const result = await this.authService.refreshTokens(refreshTokenDto.refreshToken, getSessionMetadata(req));
     this.logger.log('Tokens refreshed successfully.');
     return result;
   }
 
+  @Post('logout')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Log out by revoking the refresh token family and session of a refresh token' })
+  @ApiResponse({ status: 200, description: 'Logged out. The refresh token and its session can no longer be used.' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<{ message: string }> {
+    this.logger.log('Received logout request.');
+    await this.authService.logout(refreshTokenDto.refreshToken);
+    return { message: 'Logged out successfully.' };
+  }
+
   @Post('forgot-password')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Initiate password reset' })
@@ -82,6 +120,7 @@ export class AuthController {
   }
 
   @Put('change-password')
+  @Audit('user.password.change', { target: 'user', self: true })
   @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Change user password' })
@@ -93,4 +132,107 @@ export class AuthController {
     this.logger.log('Password has been successfully changed.');
     return result;
   }
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the active sessions of the current user' })
+  @ApiResponse({ status: 200, description: 'Active sessions, most recently used first.', type: [SessionResponseDto] })
+  async getSessions(@Req() req: AuthenticatedRequest): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionsService.findActive(req.user.userId);
+    return sessions.map((session) => this.toSessionResponse(session, req.user.sessionId));
+  }
+
+  @Delete('sessions/:id')
+  @Audit('session.revoke', { target: 'session' })
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke one of the current user\'s sessions' })
+  @ApiResponse({ status: 204, description: 'Session revoked; its tokens can no longer be used.' })
+  @ApiResponse({ status: 404, description: 'Not Found: The user has no active session with this ID.' })
+  async revokeSession(@Req() req: AuthenticatedRequest, @Param('id') id: string): Promise<void> {
+    this.logger.log(`Received request from user ID ${req.user.userId} to revoke session ${id}`);
+    await this.sessionsService.revoke(req.user.userId, id);
+  }
+
+  @Get('users/:userId/sessions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the active sessions of a user (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Active sessions, most recently used first.', type: [SessionResponseDto] })
+  async getUserSessions(@Req() req: AuthenticatedRequest, @Param('userId', ParseIntPipe) userId: number): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionsService.findActive(userId);
+    return sessions.map((session) => this.toSessionResponse(session, req.user.sessionId));
+  }
+
+  @Delete('users/:userId/sessions')
+  @Audit('user.sessions.revoke', { target: 'user', param: 'userId' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke every session of a user (Admin only)' })
+  @ApiResponse({ status: 200, description: 'All sessions of the user revoked.' })
+  async revokeUserSessions(@Req() req: AuthenticatedRequest, @Param('userId', ParseIntPipe) userId: number): Promise<{ count: number }> {
+    this.logger.log(`Admin ${req.user.userId} revoking all sessions of user ID ${userId}`);
+    return this.sessionsService.revokeAll(userId);
+  }
+
+  @Get('lockouts')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the accounts that are locked out after too many failed logins (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Current lockouts, the longest first.', type: [AccountLockoutResponseDto] })
+  getLockouts(): Promise<AccountLockoutResponseDto[]> {
+    return this.loginAttemptsService.findLockedAccounts();
+  }
+
+  @Delete('users/:userId/lockout')
+  @Audit('user.unlock', { target: 'user', param: 'userId' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unlock an account and forget its failed logins (Admin only)' })
+  @ApiResponse({ status: 204, description: 'Account unlocked.' })
+  @ApiResponse({ status: 404, description: 'Not Found: The user is not found or has no failed logins.' })
+  async unlockUser(@Req() req: AuthenticatedRequest, @Param('userId', ParseIntPipe) userId: number): Promise<void> {
+    this.logger.log(`Admin ${req.user.userId} unlocking user ID ${userId}`);
+    await this.loginAttemptsService.unlock(userId, req.user.userId);
+  }
+
+  @Get('security-events')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List security events such as failed logins and lockouts, newest first (Admin only)' })
+  @ApiQuery({ name: 'type', required: false, enum: SecurityEventType })
+  @ApiQuery({ name: 'userId', required: false, type: Number })
+  @ApiQuery({ name: 'ipAddress', required: false })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'At most 500; defaults to 100' })
+  @ApiResponse({ status: 200, description: 'Recorded security events.', type: [SecurityEventResponseDto] })
+  async getSecurityEvents(
+    @Query('type', new ParseEnumPipe(SecurityEventType, { optional: true })) type?: SecurityEventType,
+    @Query('userId', new ParseIntPipe({ optional: true })) userId?: number,
+    @Query('ipAddress') ipAddress?: string,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit = 100,
+  ): Promise<SecurityEventResponseDto[]> {
+    const events = await this.securityEventsService.findRecent({ type, userId, ipAddress, limit: Math.min(Math.max(limit, 1), 500) });
+    return events.map(({ user, ...event }) => ({ ...event, userEmail: user?.email ?? null }));
+  }
+
+  private toSessionResponse(session: Session, currentSessionId: string): SessionResponseDto {
+    return {
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expires: session.expires,
+      current: session.id === currentSessionId,
+    };
+  }
 }
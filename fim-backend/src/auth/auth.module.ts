@@ -9,6 +9,14 @@ import { LocalStrategy } from './strategies/local.strategy';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { PrismaModule } from '../prisma/prisma.module';
 import { LoggerModule } from '../common/logger/logger.module';
+import { MailModule } from '../mail/mail.module';
+import { InvitesModule } from '../invites/invites.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { SessionsService } from './sessions.service';
+import { SecurityEventsService } from './security-events.service';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { LoginAttemptsService } from './login-attempts.service';
 
 @Module({
   imports: [
@@ -25,9 +33,12 @@ import { LoggerModule } from '../common/logger/logger.module';
     PrismaModule,
     ConfigModule,
     LoggerModule,
+    MailModule,
+    InvitesModule,
+    MetricsModule,
   ],
-  providers: [AuthService, LocalStrategy, JwtStrategy],
-  controllers: [AuthController],
+  providers: [AuthService, SessionsService, SecurityEventsService, TwoFactorService, LoginAttemptsService, LocalStrategy, JwtStrategy],
+  controllers: [AuthController, TwoFactorController],
   exports: [AuthService],
 })
 export class AuthModule {}
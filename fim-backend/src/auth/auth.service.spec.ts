@@ -1,5 +1,24 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { ThrottlerException } from '@nestjs/throttler';
 import { Test, TestingModule } from '@nestjs/testing';
+import { RefreshToken, Role, SecurityEventType } from '@prisma/client';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { UsersService } from '../users/users.service';
 import { AuthService } from './auth.service';
+import { SecurityEventsService } from './security-events.service';
+import { SessionsService } from './sessions.service';
+import { MailService } from '../mail/mail.service';
+import { InMemoryMailTransport } from '../mail/transports/in-memory.transport';
+import { InvitesService } from '../invites/invites.service';
+import { TwoFactorService } from './two-factor.service';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-response.dto';
+import { LoginAttemptsService } from './login-attempts.service';
 
 describe('AuthService', () => {
   let service: AuthService;
@@ -16,3 +35,409 @@ describe('AuthService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('AuthService refresh token rotation', () => {
+  let service: AuthService;
+  let mail: InMemoryMailTransport;
+  let updateUser: jest.Mock<Promise<unknown>, [{ data: object }]>;
+  let refreshTokens: RefreshToken[];
+  let securityEvents: { record: jest.Mock };
+  let twoFactor: {
+    isEnabled: jest.Mock;
+    isRequiredFor: jest.Mock;
+    verify: jest.Mock;
+  };
+  let loginAttempts: {
+    assertNotLocked: jest.Mock;
+    recordFailure: jest.Mock;
+    recordSuccess: jest.Mock;
+  };
+
+  const user = {
+    id: 1,
+    email: 'player@example.com',
+    password: bcrypt.hashSync('secret', 4),
+    firstName: 'Pat',
+    lastName: 'Player',
+    role: Role.PLAYER,
+    isActive: true,
+  };
+  const config: Record<string, string> = {
+    JWT_SECRET: 'access-secret',
+    JWT_EXPIRES_IN: '3600s',
+    JWT_REFRESH_SECRET: 'refresh-secret',
+    JWT_REFRESH_EXPIRES_IN: '7d',
+    FRONTEND_URL: 'https://fim.example.com/',
+  };
+  const hash = (token: string) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+  beforeEach(() => {
+    refreshTokens = [];
+    mail = new InMemoryMailTransport();
+    updateUser = jest.fn<Promise<unknown>, [{ data: object }]>(() =>
+      Promise.resolve(user),
+    );
+    const revoke = ({
+      where,
+      data,
+    }: {
+      where: { familyId?: string; id?: number };
+      data: Partial<RefreshToken>;
+    }) => {
+      const matched = refreshTokens.filter(
+        (t) =>
+          (where.familyId === undefined || t.familyId === where.familyId) &&
+          (where.id === undefined || t.id === where.id) &&
+          !t.revokedAt &&
+          (!('rotatedAt' in data) || !t.rotatedAt),
+      );
+      matched.forEach((t) => Object.assign(t, data));
+      return Promise.resolve({ count: matched.length });
+    };
+    const prisma = {
+      refreshToken: {
+        findUnique: jest.fn(({ where }: { where: { tokenHash: string } }) =>
+          Promise.resolve(
+            refreshTokens.find((t) => t.tokenHash === where.tokenHash) ?? null,
+          ),
+        ),
+        create: jest.fn(
+          ({
+            data,
+          }: {
+            data: Omit<
+              RefreshToken,
+              'id' | 'rotatedAt' | 'revokedAt' | 'createdAt'
+            >;
+          }) => {
+            const token = {
+              id: refreshTokens.length + 1,
+              rotatedAt: null,
+              revokedAt: null,
+              createdAt: new Date(),
+              ...data,
+            };
+            refreshTokens.push(token);
+            return Promise.resolve(token);
+          },
+        ),
+        updateMany: jest.fn(revoke),
+      },
+      session: {
+        updateMany: jest.fn(() => Promise.resolve({ count: 1 })),
+      },
+      user: {
+        update: updateUser,
+      },
+      $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) =>
+        fn(prisma),
+      ),
+    };
+    const sessions = {
+      create: jest.fn(() => Promise.resolve({ id: 'session-1' })),
+      isActive: jest.fn(() => Promise.resolve(true)),
+      extend: jest.fn(() => Promise.resolve()),
+    };
+    const users = {
+      findByEmail: jest.fn(() => Promise.resolve(user)),
+      findOne: jest.fn(() => Promise.resolve(user)),
+    };
+    securityEvents = { record: jest.fn(() => Promise.resolve()) };
+    twoFactor = {
+      isEnabled: jest.fn(() => Promise.resolve(false)),
+      isRequiredFor: jest.fn(() => false),
+      verify: jest.fn(() => Promise.resolve(true)),
+    };
+    loginAttempts = {
+      assertNotLocked: jest.fn(() => Promise.resolve()),
+      recordFailure: jest.fn(() => Promise.resolve()),
+      recordSuccess: jest.fn(() => Promise.resolve()),
+    };
+
+    const configService = {
+      get: (key: string) => config[key],
+    } as unknown as ConfigService;
+    service = new AuthService(
+      users as unknown as UsersService,
+      new JwtService(),
+      configService,
+      prisma as unknown as PrismaService,
+      new LoggerService(),
+      sessions as unknown as SessionsService,
+      securityEvents as unknown as SecurityEventsService,
+      new MailService(mail, configService, new LoggerService()),
+      {} as InvitesService,
+      twoFactor as unknown as TwoFactorService,
+      loginAttempts as unknown as LoginAttemptsService,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const login = () =>
+    service.login({
+      email: user.email,
+      password: 'secret',
+    }) as Promise<AuthResponseDto>;
+
+  it('stores refresh tokens hashed', async () => {
+    const { refreshToken } = await login();
+
+    expect(refreshTokens).toHaveLength(1);
+    expect(refreshTokens[0].tokenHash).toBe(hash(refreshToken));
+    expect(refreshTokens[0].tokenHash).not.toBe(refreshToken);
+  });
+
+  it('rotates the refresh token within its family', async () => {
+    const { refreshToken } = await login();
+
+    const refreshed = await service.refreshTokens(refreshToken);
+
+    expect(refreshed.refreshToken).not.toBe(refreshToken);
+    expect(refreshTokens).toHaveLength(2);
+    expect(refreshTokens[0].rotatedAt).toBeInstanceOf(Date);
+    expect(refreshTokens[1].familyId).toBe(refreshTokens[0].familyId);
+  });
+
+  it('revokes the whole family and records a security event when a rotated token is reused', async () => {
+    const { refreshToken } = await login();
+    const { refreshToken: latest } = await service.refreshTokens(refreshToken);
+
+    await expect(
+      service.refreshTokens(refreshToken, { ipAddress: '203.0.113.7' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+
+    expect(refreshTokens.every((t) => t.revokedAt)).toBe(true);
+    expect(securityEvents.record).toHaveBeenCalledWith(
+      SecurityEventType.REFRESH_TOKEN_REUSE,
+      expect.objectContaining({
+        userId: user.id,
+        metadata: { ipAddress: '203.0.113.7' },
+      }),
+    );
+    await expect(service.refreshTokens(latest)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('revokes the family on logout', async () => {
+    const { refreshToken } = await login();
+
+    await service.logout(refreshToken);
+
+    await expect(service.refreshTokens(refreshToken)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(securityEvents.record).not.toHaveBeenCalled();
+  });
+
+  it('emails a link to the reset password page instead of logging the token', async () => {
+    await service.forgotPassword({ email: user.email });
+
+    const [message] = mail.sentTo(user.email);
+    const token = new URL(
+      /https:\/\/\S+/.exec(message.text)![0],
+    ).searchParams.get('token')!;
+    expect(message.text).toContain(
+      'https://fim.example.com/reset-password?token=',
+    );
+    expect(updateUser.mock.calls[0][0]).toMatchObject({
+      data: { passwordResetToken: hash(token) },
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    it('issues a challenge instead of tokens and completes the login with a valid code', async () => {
+      twoFactor.isEnabled.mockResolvedValue(true);
+
+      const challenge = (await service.login({
+        email: user.email,
+        password: 'secret',
+      })) as TwoFactorChallengeResponseDto;
+
+      expect(challenge.twoFactor).toBe('verify');
+      expect(challenge).not.toHaveProperty('accessToken');
+      expect(refreshTokens).toHaveLength(0);
+
+      const tokens = await service.verifyTwoFactorLogin(
+        challenge.challengeToken,
+        { code: '123456' },
+      );
+      expect(twoFactor.verify).toHaveBeenCalledWith(user.id, {
+        code: '123456',
+      });
+      expect(refreshTokens[0].tokenHash).toBe(hash(tokens.refreshToken));
+    });
+
+    it('rejects a wrong code', async () => {
+      twoFactor.isEnabled.mockResolvedValue(true);
+      twoFactor.verify.mockResolvedValue(false);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const { challengeToken } = (await service.login({
+        email: user.email,
+        password: 'secret',
+      })) as TwoFactorChallengeResponseDto;
+
+      await expect(
+        service.verifyTwoFactorLogin(challengeToken, { code: '000000' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(refreshTokens).toHaveLength(0);
+    });
+
+    it('asks users whose role requires it to set up two-factor authentication first', async () => {
+      twoFactor.isRequiredFor.mockReturnValue(true);
+
+      await expect(login()).resolves.toMatchObject({ twoFactor: 'setup' });
+    });
+
+    it('does not accept access tokens or tampered tokens as challenge tokens', async () => {
+      const { accessToken } = await login();
+
+      await expect(
+        service.verifyTwoFactorLogin(accessToken, { code: '123456' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(
+        service.verifyTwoFactorLogin('not-a-token', { code: '123456' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+  });
+
+  describe('failed logins', () => {
+    it('counts a wrong password and forgets the failures after a successful login', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await expect(
+        service.login(
+          { email: user.email, password: 'wrong' },
+          { ipAddress: '203.0.113.7' },
+        ),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(loginAttempts.recordFailure).toHaveBeenCalledWith(user.email, {
+        ipAddress: '203.0.113.7',
+      });
+
+      await login();
+      expect(loginAttempts.recordSuccess).toHaveBeenCalledWith(user.email);
+    });
+
+    it('rejects a locked out login without checking the password', async () => {
+      loginAttempts.assertNotLocked.mockRejectedValue(
+        new ThrottlerException('Too many failed login attempts'),
+      );
+
+      await expect(login()).rejects.toBeInstanceOf(ThrottlerException);
+      expect(loginAttempts.recordFailure).not.toHaveBeenCalled();
+      expect(refreshTokens).toHaveLength(0);
+    });
+
+    it('counts a wrong two-factor code against the account', async () => {
+      twoFactor.isEnabled.mockResolvedValue(true);
+      twoFactor.verify.mockResolvedValue(false);
+      const { challengeToken } = (await service.login({
+        email: user.email,
+        password: 'secret',
+      })) as TwoFactorChallengeResponseDto;
+
+      await expect(
+        service.verifyTwoFactorLogin(challengeToken, { code: '000000' }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(loginAttempts.recordFailure).toHaveBeenCalledWith(
+        user.email,
+        {},
+        'two-factor',
+      );
+      expect(loginAttempts.recordSuccess).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('AuthService registration', () => {
+  let service: AuthService;
+  let mode: string | undefined;
+  let users: { findByEmail: jest.Mock; create: jest.Mock };
+  let invites: { redeem: jest.Mock; preview: jest.Mock };
+
+  const registration = {
+    email: 'new@example.com',
+    password: 'Password123!',
+    firstName: 'New',
+    lastName: 'Player',
+  };
+
+  beforeEach(() => {
+    mode = undefined;
+    users = {
+      findByEmail: jest.fn(() => Promise.resolve(null)),
+      create: jest.fn(() => Promise.resolve({ id: 2 })),
+    };
+    invites = {
+      redeem: jest.fn(() => Promise.resolve({ id: 3 })),
+      preview: jest.fn(() => Promise.resolve({ role: Role.PLAYER })),
+    };
+    service = new AuthService(
+      users as unknown as UsersService,
+      new JwtService(),
+      {
+        get: (key: string) =>
+          key === 'FIM_REGISTRATION_MODE' ? mode : undefined,
+      } as unknown as ConfigService,
+      {} as PrismaService,
+      new LoggerService(),
+      {} as SessionsService,
+      {} as SecurityEventsService,
+      {} as MailService,
+      invites as unknown as InvitesService,
+      {} as TwoFactorService,
+      {} as LoginAttemptsService,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is invite-only by default', async () => {
+    await expect(service.register(registration)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+
+    await expect(
+      service.register({ ...registration, inviteToken: 'code' }),
+    ).resolves.toEqual({ id: 3 });
+    expect(invites.redeem).toHaveBeenCalledWith('code', registration);
+    expect(users.create).not.toHaveBeenCalled();
+  });
+
+  it('lets anyone register when registration is open', async () => {
+    mode = 'open';
+
+    await expect(service.register(registration)).resolves.toEqual({ id: 2 });
+  });
+
+  it('rejects every registration when registration is closed', async () => {
+    mode = 'closed';
+
+    await expect(
+      service.register({ ...registration, inviteToken: 'code' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(service.getRegistrationInfo('code')).resolves.toEqual({
+      mode: 'closed',
+      invite: null,
+    });
+    expect(invites.redeem).not.toHaveBeenCalled();
+  });
+
+  it('falls back to invite-only for an unknown mode', () => {
+    mode = 'everyone';
+
+    expect(service.getRegistrationMode()).toBe('invite');
+  });
+});
@@ -1,4 +1,4 @@
-import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcryptjs';
@@ -6,14 +6,33 @@ import { UsersService } from '../users/users.service';
 import { RegisterUserDto } from './dto/register-user.dto';
 import { LoginUserDto } from './dto/login-user.dto';
 import { PrismaService } from '../prisma/prisma.service';
-import { User } from '@prisma/client'; // Import User from Prisma client
+import { RefreshToken, SecurityEventType, User } from '@prisma/client'; // Import User from Prisma client
 import { Role } from '@prisma/client'; // Import Role from Prisma client
 import { LoggerService } from '../common/logger/logger.service';
 import { AuthResponseDto } from './dto/auth-response.dto'; // Import AuthResponseDto
+import { JwtPayload } from './interfaces/jwt-payload.interface';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import * as crypto from 'crypto';
+import { SessionMetadata, SessionsService } from './sessions.service';
+import { SecurityEventsService } from './security-events.service';
+import { MailService } from '../mail/mail.service';
+import { InvitesService } from '../invites/invites.service';
+import { REGISTRATION_MODES, RegistrationInfoDto, RegistrationMode } from './dto/registration-info.dto';
+import { TwoFactorCode, TwoFactorService, TwoFactorSetup } from './two-factor.service';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-response.dto';
+import { LoginAttemptsService } from './login-attempts.service';
+
+const PASSWORD_RESET_EXPIRES_MINUTES = 60;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = 300;
+// Keeps challenge tokens from being accepted as access tokens and vice versa
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'fim-2fa-challenge';
+
+interface TwoFactorChallengePayload {
+  sub: number;
+  purpose: TwoFactorChallengeResponseDto['twoFactor'];
+}
 
 @Injectable()
 export class AuthService {
@@ -23,6 +42,12 @@ export class AuthService {
     private configService: ConfigService,
     private prisma: PrismaService,
     private logger: LoggerService,
+    private sessionsService: SessionsService,
+    private securityEventsService: SecurityEventsService,
+    private mailService: MailService,
+    private invitesService: InvitesService,
+    private twoFactorService: TwoFactorService,
+    private loginAttemptsService: LoginAttemptsService,
   ) {
     this.logger.setContext(AuthService.name);
   }
@@ -48,20 +73,113 @@ export class AuthService {
     }
   }
 
+  private getRefreshTokenExpiry(): Date {
+    const expiresAt = new Date();
+    const expiresInDays = parseInt(this.configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS') || '7');
+    expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+    return expiresAt;
+  }
+
   /**
-   * Registers a new user.
+   * Refresh tokens are stored as SHA-256 hashes so a leaked database does not leak usable tokens.
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private signRefreshToken(payload: JwtPayload): string {
+    // The token ID keeps two tokens signed within the same second from being identical
+    return this.jwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
+      expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN'),
+      jwtid: crypto.randomUUID(),
+    });
+  }
+
+  /**
+   * Revokes every token of a refresh token family together with the session it belongs to.
+   */
+  private async revokeFamily(familyId: string, sessionId: string | null): Promise<void> {
+    const revokedAt = new Date();
+    await this.prisma.$transaction(async (prisma) => {
+      await prisma.refreshToken.updateMany({
+        where: { familyId, revokedAt: null },
+        data: { revokedAt },
+      });
+      if (sessionId) {
+        await prisma.session.updateMany({
+          where: { id: sessionId, revokedAt: null },
+          data: { revokedAt },
+        });
+      }
+    });
+  }
+
+  /**
+   * A rotated refresh token was presented again, so either its owner or someone who stole it holds a newer token.
+   * As there is no telling which, the whole family is revoked and the user has to log in again.
+   */
+  private async handleRefreshTokenReuse(storedToken: RefreshToken, metadata: SessionMetadata): Promise<void> {
+    this.logger.warn(`Refresh token reuse detected for user ${storedToken.userId}. Revoking token family ${storedToken.familyId}.`);
+    await this.revokeFamily(storedToken.familyId, storedToken.sessionId);
+    await this.securityEventsService.record(SecurityEventType.REFRESH_TOKEN_REUSE, {
+      userId: storedToken.userId,
+      metadata,
+      details: { familyId: storedToken.familyId, sessionId: storedToken.sessionId, tokenId: storedToken.id },
+    });
+  }
+
+  /**
+   * Reads the registration mode from `FIM_REGISTRATION_MODE`. Registration is invite-only unless configured otherwise.
+   */
+  getRegistrationMode(): RegistrationMode {
+    const mode = this.configService.get<string>('FIM_REGISTRATION_MODE') || 'invite';
+    if (!(REGISTRATION_MODES as readonly string[]).includes(mode)) {
+      this.logger.warn(`Unknown registration mode "${mode}", falling back to invite-only`);
+      return 'invite';
+    }
+    return mode as RegistrationMode;
+  }
+
+  /**
+   * Tells the registration page whether it can register and what an invitation grants.
+   * @param inviteToken The invitation code from the registration link, if any.
+   * @throws NotFoundException if the invitation code is unknown, used or expired.
+   */
+  async getRegistrationInfo(inviteToken?: string): Promise<RegistrationInfoDto> {
+    const mode = this.getRegistrationMode();
+    const invite = inviteToken && mode !== 'closed' ? await this.invitesService.preview(inviteToken) : null;
+    return { mode, invite };
+  }
+
+  /**
+   * Registers a new user. Depending on the registration mode, an invitation is required;
+   * an account created with an invitation gets the invitation's role and instances.
    * @param registerUserDto The data for registering the user.
    * @returns The newly created user.
-   * @throws BadRequestException if a user with the given email already exists.
+   * @throws ForbiddenException if registration is closed, or invite-only and no invitation was given.
+   * @throws BadRequestException if a user with the given email already exists or the invitation cannot be used.
    */
   async register(registerUserDto: RegisterUserDto): Promise<User> {
     this.logger.log(`Attempting to register user: ${registerUserDto.email}`);
+    const mode = this.getRegistrationMode();
+    if (mode === 'closed') {
+      this.logger.warn(`Registration rejected for ${registerUserDto.email}: registration is closed`);
+      throw new ForbiddenException('Registration is closed');
+    }
+    if (mode === 'invite' && !registerUserDto.inviteToken) {
+      this.logger.warn(`Registration rejected for ${registerUserDto.email}: no invitation`);
+      throw new ForbiddenException('Registration requires an invitation');
+    }
     const existingUser = await this.usersService.findByEmail(registerUserDto.email);
     if (existingUser) {
       this.logger.warn(`Registration failed: User with email ${registerUserDto.email} already exists`);
       throw new BadRequestException('User with this email already exists');
     }
-    const newUser = await this.usersService.create(registerUserDto);
+    const { inviteToken, ...data } = registerUserDto;
+    const newUser = inviteToken
+      ? await this.invitesService.redeem(inviteToken, data)
+      : await this.usersService.create(data);
     this.logger.log(`User registered successfully: ${newUser.email}`);
     return newUser;
   }
@@ -94,40 +212,132 @@ export class AuthService {
   }
 
   /**
-   * Logs in a user and generates access and refresh tokens.
+   * Logs in a user, starts a session and generates access and refresh tokens for it.
+   * Users with two-factor authentication, or whose role requires it, get a challenge token instead
+   * and complete the login with {@link verifyTwoFactorLogin}.
+   * Failed logins are counted against the account and the address they come from, which are locked out after too many.
    * @param loginUserDto The login credentials.
-   * @returns An object containing the access token and refresh token.
+   * @param metadata The device the user is logging in from.
+   * @returns An object containing the access token and refresh token, or a two-factor challenge.
    * @throws UnauthorizedException if credentials are invalid.
+   * @throws ThrottlerException if the account or address is locked out.
    */
-  async login(loginUserDto: LoginUserDto): Promise<AuthResponseDto> {
+  async login(loginUserDto: LoginUserDto, metadata: SessionMetadata = {}): Promise<AuthResponseDto | TwoFactorChallengeResponseDto> {
     this.logger.log(`Attempting to log in user: ${loginUserDto.email}`);
+    await this.loginAttemptsService.assertNotLocked(loginUserDto.email, metadata);
     const user = await this.validateUser(loginUserDto.email, loginUserDto.password);
     if (!user) {
       this.logger.error(`Login failed: Invalid credentials for user ${loginUserDto.email}`);
+      await this.loginAttemptsService.recordFailure(loginUserDto.email, metadata);
       throw new UnauthorizedException('Invalid credentials');
     }
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      this.logger.log(`User ${user.email} authenticated. Waiting for the second factor.`);
+      return this.createTwoFactorChallenge(user.id, 'verify');
+    }
+    if (this.twoFactorService.isRequiredFor(user.role)) {
+      this.logger.log(`User ${user.email} authenticated, but must set up two-factor authentication first.`);
+      return this.createTwoFactorChallenge(user.id, 'setup');
+    }
     this.logger.log(`User ${user.email} authenticated. Generating tokens.`);
+    await this.loginAttemptsService.recordSuccess(user.email);
+    return this.issueTokens(user, metadata);
+  }
 
-    const payload = { email: user.email, sub: user.id, role: user.role };
-    const accessToken = this.jwtService.sign(payload, {
+  /**
+   * Completes a login that is waiting for the second factor.
+   * @param challengeToken The challenge token returned by the login.
+   * @param factor A code from the authenticator app or a recovery code.
+   * @param metadata The device the user is logging in from.
+   * @returns An object containing access and refresh tokens.
+   * @throws UnauthorizedException if the challenge token is invalid or expired, the user is not found/inactive, or the code is wrong.
+   * @throws ThrottlerException if the account or address is locked out.
+   */
+  async verifyTwoFactorLogin(challengeToken: string, factor: TwoFactorCode, metadata: SessionMetadata = {}): Promise<AuthResponseDto> {
+    const user = await this.resolveTwoFactorChallenge(challengeToken);
+    await this.loginAttemptsService.assertNotLocked(user.email, metadata);
+    if (!(await this.twoFactorService.verify(user.id, factor))) {
+      this.logger.warn(`Two-factor verification failed for user ${user.email}`);
+      await this.loginAttemptsService.recordFailure(user.email, metadata, 'two-factor');
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+    this.logger.log(`User ${user.email} passed two-factor verification. Generating tokens.`);
+    await this.loginAttemptsService.recordSuccess(user.email);
+    return this.issueTokens(user, metadata);
+  }
+
+  /**
+   * Starts the two-factor setup a login requires before it can complete.
+   * @param challengeToken A `setup` challenge token returned by the login.
+   * @throws UnauthorizedException if the challenge token is invalid, expired or not for a setup.
+   */
+  async beginTwoFactorEnrollment(challengeToken: string): Promise<TwoFactorSetup> {
+    const user = await this.resolveTwoFactorChallenge(challengeToken, 'setup');
+    return this.twoFactorService.beginSetup(user);
+  }
+
+  /**
+   * Confirms the two-factor setup a login requires. The login is then completed with {@link verifyTwoFactorLogin}.
+   * @param challengeToken A `setup` challenge token returned by the login.
+   * @param code The current code from the authenticator app.
+   * @returns The recovery codes.
+   * @throws UnauthorizedException if the challenge token is invalid, expired or not for a setup.
+   * @throws BadRequestException if the code is wrong.
+   */
+  async confirmTwoFactorEnrollment(challengeToken: string, code: string): Promise<string[]> {
+    const user = await this.resolveTwoFactorChallenge(challengeToken, 'setup');
+    return this.twoFactorService.enable(user.id, code);
+  }
+
+  private createTwoFactorChallenge(userId: number, purpose: TwoFactorChallengePayload['purpose']): TwoFactorChallengeResponseDto {
+    const payload: TwoFactorChallengePayload = { sub: userId, purpose };
+    const challengeToken = this.jwtService.sign(payload, {
       secret: this.configService.get<string>('JWT_SECRET'),
-      expiresIn: this.configService.get<string>('JWT_EXPIRES_IN'),
+      expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+      audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
     });
+    return { twoFactor: purpose, challengeToken, expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN };
+  }
 
-    const refreshToken = this.jwtService.sign(payload, {
-      secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
-      expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN'),
-    });
+  private async resolveTwoFactorChallenge(challengeToken: string, purpose?: TwoFactorChallengePayload['purpose']): Promise<User> {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = this.jwtService.verify<TwoFactorChallengePayload>(challengeToken, {
+        secret: this.configService.get<string>('JWT_SECRET'),
+        audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+      });
+    } catch {
+      throw new UnauthorizedException('Login has expired, please sign in again');
+    }
+    if (purpose && payload.purpose !== purpose) {
+      throw new UnauthorizedException('Invalid challenge token');
+    }
+    const user = await this.usersService.findOne(payload.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('User not found or inactive');
+    }
+    return user;
+  }
 
-    const expiresAt = new Date();
-    const expiresInDays = parseInt(this.configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS') || '7');
-    expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+  private async issueTokens(user: Omit<User, 'password'>, metadata: SessionMetadata): Promise<AuthResponseDto> {
+    const expiresAt = this.getRefreshTokenExpiry();
+    const session = await this.sessionsService.create(user.id, expiresAt, metadata);
+
+    const payload = { email: user.email, sub: user.id, role: user.role, sid: session.id };
+    const accessToken = this.jwtService.sign(payload, {
+      secret: this.configService.get<string>('JWT_SECRET'),
+      expiresIn: this.configService.get<string>('JWT_EXPIRES_IN'),
+    });
 
+    // Each login starts a new refresh token family
+    const refreshToken = this.signRefreshToken(payload);
     await this.prisma.refreshToken.create({
       data: {
-        token: refreshToken,
+        tokenHash: this.hashToken(refreshToken),
+        familyId: crypto.randomUUID(),
         userId: user.id,
         expiresAt: expiresAt,
+        sessionId: session.id,
       },
     });
 
@@ -146,11 +356,13 @@ export class AuthService {
 
   /**
    * Refreshes access and refresh tokens using a valid refresh token.
+   * The refresh token is rotated: it cannot be used again, and presenting it again revokes its whole family.
    * @param refreshToken The refresh token.
+   * @param metadata The device the request came from, recorded if the token turns out to be reused.
    * @returns An object containing new access and refresh tokens.
-   * @throws UnauthorizedException if the refresh token is invalid or expired, or user is not found/inactive.
+   * @throws UnauthorizedException if the refresh token is invalid, expired, revoked or reused, its session has been revoked, or user is not found/inactive.
    */
-  async refreshTokens(refreshToken: string): Promise<AuthResponseDto> {
+  async refreshTokens(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthResponseDto> {
     this.logger.log('Attempting to refresh tokens.');
     const decoded = this.jwtService.decode(refreshToken);
     if (!decoded || !decoded.sub) {
@@ -160,12 +372,16 @@ export class AuthService {
     this.logger.debug(`Decoded refresh token for user ID: ${decoded.sub}`);
 
     const storedToken = await this.prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
+      where: { tokenHash: this.hashToken(refreshToken) },
     });
     this.logger.debug(`Stored token found: ${!!storedToken}`);
 
-    if (!storedToken || storedToken.expiresAt < new Date()) {
-      this.logger.warn('Refresh token failed: Token not found or expired.');
+    if (!storedToken || storedToken.revokedAt || storedToken.expiresAt < new Date()) {
+      this.logger.warn('Refresh token failed: Token not found, revoked or expired.');
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    if (storedToken.rotatedAt) {
+      await this.handleRefreshTokenReuse(storedToken, metadata);
       throw new UnauthorizedException('Invalid or expired refresh token');
     }
     this.logger.debug(`Refresh token is valid. User ID: ${storedToken.userId}`);
@@ -177,35 +393,51 @@ export class AuthService {
     }
     this.logger.log(`User ${user.email} found for token refresh. Generating new tokens.`);
 
-    const payload = { email: user.email, sub: user.id, role: user.role };
+    // Refresh tokens issued before sessions were tracked get a session of their own
+    const sessionId = storedToken.sessionId ?? (await this.sessionsService.create(user.id, storedToken.expiresAt)).id;
+    if (!(await this.sessionsService.isActive(sessionId, user.id))) {
+      this.logger.warn(`Refresh token failed: Session ${sessionId} has been revoked or has expired.`);
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    const payload = { email: user.email, sub: user.id, role: user.role, sid: sessionId };
     const newAccessToken = this.jwtService.sign(payload, {
       secret: this.configService.get<string>('JWT_SECRET'),
       expiresIn: this.configService.get<string>('JWT_EXPIRES_IN'),
     });
 
-    // Invalidate the old refresh token and create a new one within a transaction
-    this.logger.debug(`Invalidating old refresh token for user ${user.email} and generating new one.`);
-    const { newRefreshToken, expiresAt } = await this.prisma.$transaction(async (prisma) => {
-      await prisma.refreshToken.delete({ where: { id: storedToken.id } });
-
-      const newRefreshToken = this.jwtService.sign(payload, {
-        secret: this.configService.get<string>('JWT_REFRESH_SECRET'),
-        expiresIn: this.configService.get<string>('JWT_REFRESH_EXPIRES_IN'),
+    // Mark the old refresh token as rotated and create its successor in the same family within a transaction.
+    // The rotation only succeeds for the first of several concurrent requests with the same token.
+    this.logger.debug(`Rotating refresh token for user ${user.email}.`);
+    const rotated = await this.prisma.$transaction(async (prisma) => {
+      const { count } = await prisma.refreshToken.updateMany({
+        where: { id: storedToken.id, rotatedAt: null, revokedAt: null },
+        data: { rotatedAt: new Date() },
       });
+      if (count === 0) {
+        return null;
+      }
 
-      const expiresAt = new Date();
-      const expiresInDays = parseInt(this.configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS') || '7');
-      expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+      const newRefreshToken = this.signRefreshToken(payload);
+      const expiresAt = this.getRefreshTokenExpiry();
 
       await prisma.refreshToken.create({
         data: {
-          token: newRefreshToken,
+          tokenHash: this.hashToken(newRefreshToken),
+          familyId: storedToken.familyId,
           userId: user.id,
           expiresAt: expiresAt,
+          sessionId,
         },
       });
       return { newRefreshToken, expiresAt };
     });
+    if (!rotated) {
+      await this.handleRefreshTokenReuse(storedToken, metadata);
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    const { newRefreshToken, expiresAt } = rotated;
+    await this.sessionsService.extend(sessionId, expiresAt);
 
     this.logger.log(`Tokens refreshed successfully for user ${user.email}`);
     const expiresInStr = this.configService.get<string>('JWT_EXPIRES_IN') || '3600s';
@@ -221,6 +453,23 @@ export class AuthService {
     };
   }
 
+  /**
+   * Logs out the session a refresh token belongs to by revoking its token family and the session.
+   * Unknown or already revoked tokens are ignored, so logging out twice is harmless.
+   * @param refreshToken The refresh token of the session to log out.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+    });
+    if (!storedToken) {
+      this.logger.warn('Logout: Refresh token not found.');
+      return;
+    }
+    await this.revokeFamily(storedToken.familyId, storedToken.sessionId);
+    this.logger.log(`User ${storedToken.userId} logged out. Token family ${storedToken.familyId} revoked.`);
+  }
+
   async forgotPassword(forgotPasswordDto: ForgotPasswordDto): Promise<void> {
     this.logger.log(`Password reset request for: ${forgotPasswordDto.email}`);
     const user = await this.usersService.findByEmail(forgotPasswordDto.email);
@@ -236,7 +485,7 @@ export class AuthService {
       .update(resetToken)
       .digest('hex');
 
-    const passwordResetExpires = new Date(Date.now() + 3600000); // 1 hour from now
+    const passwordResetExpires = new Date(Date.now() + PASSWORD_RESET_EXPIRES_MINUTES * 60000);
 
     await this.prisma.user.update({
       where: { email: forgotPasswordDto.email },
@@ -248,9 +497,12 @@ export class AuthService {
 
     this.logger.log(`Generated password reset token for ${user.email}`);
 
-    // In a real application, you would send an email to the user with the resetToken.
-    // For this example, we'll just log it.
-    this.logger.log(`Password reset token for ${user.email}: ${resetToken}`);
+    // A delivery failure is logged but not reported, so the response does not reveal whether the account exists
+    try {
+      await this.mailService.sendPasswordReset(user, resetToken, PASSWORD_RESET_EXPIRES_MINUTES);
+    } catch (error) {
+      this.logger.error(`Failed to send password reset email to ${user.email}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
   async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
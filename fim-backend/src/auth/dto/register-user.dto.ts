@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength, MaxLength, Matches } from 'class-validator';
+import { IsEmail, IsString, MinLength, MaxLength, Matches, IsOptional } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class RegisterUserDto {
@@ -22,4 +22,9 @@ export class RegisterUserDto {
   @ApiProperty({ example: 'Doe', description: 'The last name of the user' })
   @IsString()
   lastName: string;
+
+  @ApiProperty({ example: 'q3XbZ8m1...', description: 'An invitation code; required unless registration is open', required: false })
+  @IsOptional()
+  @IsString()
+  inviteToken?: string;
 }
\ No newline at end of file
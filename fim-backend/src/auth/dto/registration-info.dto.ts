@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { InvitePreviewDto } from '../../invites/dto/invite-response.dto';
+
+export const REGISTRATION_MODES = ['open', 'invite', 'closed'] as const;
+
+/**
+ * Who may create an account: anyone (`open`), only people with an invitation (`invite`) or nobody (`closed`).
+ */
+export type RegistrationMode = (typeof REGISTRATION_MODES)[number];
+
+export class RegistrationInfoDto {
+  @ApiProperty({ enum: REGISTRATION_MODES, example: 'invite', description: 'Who may create an account' })
+  mode: RegistrationMode;
+
+  @ApiProperty({ type: InvitePreviewDto, description: 'What the given invitation grants', nullable: true })
+  invite: InvitePreviewDto | null;
+}
@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SecurityEventType } from '@prisma/client';
+
+export class SecurityEventResponseDto {
+  @ApiProperty({ example: 'clx0s1e2c3e4v5e6n7', description: 'Security event ID' })
+  id: string;
+
+  @ApiProperty({ example: 'LOGIN_FAILED', enum: SecurityEventType, description: 'What happened' })
+  type: SecurityEventType;
+
+  @ApiProperty({ example: 1, description: 'The ID of the affected user, if the event concerns a known account', nullable: true })
+  userId: number | null;
+
+  @ApiProperty({ example: 'player@example.com', description: 'The email of the affected user', nullable: true })
+  userEmail: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', description: 'IP address the request came from', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...', description: 'User agent of the request', nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ example: { email: 'player@example.com', stage: 'password', failures: 3 }, description: 'Further details, depending on the type', nullable: true })
+  details: unknown;
+
+  @ApiProperty({ example: '2026-10-19T12:00:00.000Z', description: 'When the event happened' })
+  createdAt: Date;
+}
+
+export class AccountLockoutResponseDto {
+  @ApiProperty({ example: 'player@example.com', description: 'The email the failed logins were for' })
+  email: string;
+
+  @ApiProperty({ example: 1, description: 'The ID of the account with this email, if there is one', nullable: true })
+  userId: number | null;
+
+  @ApiProperty({ example: 6, description: 'Failed logins counted towards the lockout' })
+  failures: number;
+
+  @ApiProperty({ example: '2026-10-19T12:02:00.000Z', description: 'When the lockout ends' })
+  lockedUntil: Date;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SessionResponseDto {
+  @ApiProperty({ example: 'clx0s1e2s3s4i5o6n7', description: 'Session ID' })
+  id: string;
+
+  @ApiProperty({ example: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) ...', description: 'User agent of the device that logged in', nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', description: 'IP address the login came from', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ example: '2026-10-19T12:00:00.000Z', description: 'When the user logged in' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2026-10-19T13:00:00.000Z', description: 'When the session last refreshed its tokens' })
+  lastUsedAt: Date;
+
+  @ApiProperty({ example: '2026-10-26T13:00:00.000Z', description: 'When the session ends unless it is used again' })
+  expires: Date;
+
+  @ApiProperty({ example: true, description: 'Whether this is the session the request was made with' })
+  current: boolean;
+}
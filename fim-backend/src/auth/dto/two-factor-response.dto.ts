@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({ enum: ['verify', 'setup'], example: 'verify', description: 'Whether the user must enter a code (`verify`) or first set up two-factor authentication (`setup`)' })
+  twoFactor: 'verify' | 'setup';
+
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...', description: 'Short-lived token that stands in for the password in the second step' })
+  challengeToken: string;
+
+  @ApiProperty({ example: 300, description: 'Challenge token expiration time in seconds' })
+  expiresIn: number;
+}
+
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({ example: 'JBSWY3DPEHPK3PXP', description: 'The TOTP secret, for entering it into the authenticator app by hand' })
+  secret: string;
+
+  @ApiProperty({ example: 'otpauth://totp/Foundry%20Instance%20Manager:admin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Foundry%20Instance%20Manager', description: 'The provisioning URI' })
+  otpauthUrl: string;
+
+  @ApiProperty({ example: 'data:image/png;base64,iVBORw0KGgo...', description: 'The provisioning URI as a QR code image' })
+  qrCodeDataUrl: string;
+}
+
+export class RecoveryCodesResponseDto {
+  @ApiProperty({ example: ['a1b2c-3d4e5', 'f6a7b-8c9d0'], description: 'Single-use recovery codes; they are only shown once', type: [String] })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorStatusResponseDto {
+  @ApiProperty({ example: true, description: 'Whether two-factor authentication is enabled' })
+  enabled: boolean;
+
+  @ApiProperty({ example: true, description: 'Whether the user\'s role requires two-factor authentication' })
+  required: boolean;
+
+  @ApiProperty({ example: 8, description: 'How many unused recovery codes are left' })
+  recoveryCodesRemaining: number;
+}
@@ -0,0 +1,36 @@
+import { IsString, IsNotEmpty, IsOptional, Matches, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+const TOTP_CODE_PATTERN = /^\s*\d{3}\s?\d{3}\s*$/;
+
+export class TwoFactorCodeDto {
+  @ApiProperty({ example: '123456', description: 'The current code from the authenticator app' })
+  @Matches(TOTP_CODE_PATTERN, { message: 'The code must consist of 6 digits' })
+  code: string;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...', description: 'The challenge token returned by the login' })
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+}
+
+export class VerifyTwoFactorDto extends TwoFactorChallengeDto {
+  @ApiProperty({ example: '123456', description: 'The current code from the authenticator app', required: false })
+  @IsOptional()
+  @Matches(TOTP_CODE_PATTERN, { message: 'The code must consist of 6 digits' })
+  code?: string;
+
+  @ApiProperty({ example: 'a1b2c-3d4e5', description: 'A recovery code, instead of a code from the authenticator app', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  recoveryCode?: string;
+}
+
+export class ConfirmTwoFactorEnrollmentDto extends TwoFactorChallengeDto {
+  @ApiProperty({ example: '123456', description: 'The current code from the authenticator app' })
+  @Matches(TOTP_CODE_PATTERN, { message: 'The code must consist of 6 digits' })
+  code: string;
+}
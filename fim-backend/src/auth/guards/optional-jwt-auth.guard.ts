@@ -0,0 +1,12 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * Lets every request through, and sets `request.user` when it carries a valid access token.
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest<TUser>(err: unknown, user: TUser): TUser | null {
+    return err || !user ? null : user;
+  }
+}
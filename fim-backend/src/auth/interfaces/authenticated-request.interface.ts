@@ -0,0 +1,14 @@
+import type { Request } from 'express';
+import { Role } from '@prisma/client';
+
+/**
+ * An Express request that has passed JwtAuthGuard; `user` is what JwtStrategy.validate returns.
+ */
+export interface AuthenticatedRequest extends Request {
+  user: {
+    userId: number;
+    email: string;
+    role: Role;
+    sessionId: string;
+  };
+}
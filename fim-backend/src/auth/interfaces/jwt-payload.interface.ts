@@ -4,4 +4,5 @@ export interface JwtPayload {
   email: string;
   sub: number; // User ID
   role: Role;
+  sid: string; // Session ID
 }
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { NotFoundException } from '@nestjs/common';
+import { ThrottlerException } from '@nestjs/throttler';
+import {
+  LoginThrottle,
+  LoginThrottleKind,
+  SecurityEventType,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { SecurityEventsService } from './security-events.service';
+
+type Key = { kind: LoginThrottleKind; subject: string };
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  let metrics: MetricsService;
+  let throttles: LoginThrottle[];
+  let record: jest.Mock<Promise<unknown>, [SecurityEventType, object]>;
+
+  const email = 'player@example.com';
+  const metadata = { ipAddress: '203.0.113.7' };
+  const find = ({ kind, subject }: Key) =>
+    throttles.find((t) => t.kind === kind && t.subject === subject);
+  const fail = async (times: number, ipAddress = metadata.ipAddress) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(email, { ipAddress });
+    }
+  };
+  const accountLockoutSeconds = () =>
+    Math.round(
+      (find({
+        kind: LoginThrottleKind.ACCOUNT,
+        subject: email,
+      })!.lockedUntil!.getTime() -
+        Date.now()) /
+        1000,
+    );
+
+  beforeEach(() => {
+    throttles = [];
+    record = jest.fn<Promise<unknown>, [SecurityEventType, object]>(() =>
+      Promise.resolve({}),
+    );
+    const prisma = {
+      loginThrottle: {
+        findMany: jest.fn(
+          ({
+            where,
+          }: {
+            where: {
+              OR?: Key[];
+              kind?: LoginThrottleKind;
+              lockedUntil: { gt: Date };
+            };
+          }) =>
+            Promise.resolve(
+              throttles.filter(
+                (t) =>
+                  (!where.OR || where.OR.some((key) => find(key) === t)) &&
+                  (!where.kind || t.kind === where.kind) &&
+                  !!t.lockedUntil &&
+                  t.lockedUntil > where.lockedUntil.gt,
+              ),
+            ),
+        ),
+        // Only the narrow deletes the service makes: stale counters, or every counter of an account
+        deleteMany: jest.fn(
+          ({ where }: { where: Key & { lastFailureAt?: { lt: Date } } }) => {
+            const before = throttles.length;
+            throttles = throttles.filter(
+              (t) =>
+                !(
+                  t.kind === where.kind &&
+                  t.subject === where.subject &&
+                  (!where.lastFailureAt ||
+                    (t.lastFailureAt < where.lastFailureAt.lt &&
+                      (!t.lockedUntil ||
+                        t.lockedUntil < where.lastFailureAt.lt)))
+                ),
+            );
+            return Promise.resolve({ count: before - throttles.length });
+          },
+        ),
+        upsert: jest.fn(
+          ({
+            where,
+            create,
+          }: {
+            where: { kind_subject: Key };
+            create: LoginThrottle;
+          }) => {
+            let throttle = find(where.kind_subject);
+            if (throttle) {
+              throttle.failures += 1;
+              throttle.lastFailureAt = create.lastFailureAt;
+            } else {
+              throttle = { ...create, lockedUntil: null };
+              throttles.push(throttle);
+            }
+            return Promise.resolve({ ...throttle });
+          },
+        ),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { kind_subject: Key };
+            data: Partial<LoginThrottle>;
+          }) =>
+            Promise.resolve({
+              ...Object.assign(find(where.kind_subject)!, data),
+            }),
+        ),
+      },
+      user: {
+        findUnique: jest.fn(
+          ({ where }: { where: { email?: string; id?: number } }) =>
+            Promise.resolve(
+              where.email === email || where.id === 1 ? { id: 1, email } : null,
+            ),
+        ),
+        findMany: jest.fn(() => Promise.resolve([{ id: 1, email }])),
+      },
+    };
+    metrics = new MetricsService();
+    service = new LoginAttemptsService(
+      prisma as unknown as PrismaService,
+      { record } as unknown as SecurityEventsService,
+      metrics,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records every failed attempt as a security event', async () => {
+    await service.recordFailure(email, metadata, 'two-factor');
+
+    expect(record).toHaveBeenCalledWith(SecurityEventType.LOGIN_FAILED, {
+      userId: 1,
+      metadata,
+      details: { email, stage: 'two-factor', failures: 1 },
+    });
+    await expect(
+      service.assertNotLocked(email, metadata),
+    ).resolves.toBeUndefined();
+    await expect(metrics.render()).resolves.toContain(
+      'fim_logins_total{result="failure"} 1',
+    );
+  });
+
+  it('locks the account out after five failures and doubles the lockout with every further one', async () => {
+    await fail(4);
+    await expect(
+      service.assertNotLocked(email, metadata),
+    ).resolves.toBeUndefined();
+
+    await fail(1);
+    expect(accountLockoutSeconds()).toBe(60);
+    expect(record).toHaveBeenCalledWith(
+      SecurityEventType.LOGIN_LOCKED,
+      expect.objectContaining({ userId: 1 }),
+    );
+    // From another address, so only the account is locked
+    await expect(
+      service.assertNotLocked(email.toUpperCase(), {
+        ipAddress: '198.51.100.1',
+      }),
+    ).rejects.toBeInstanceOf(ThrottlerException);
+
+    await fail(2);
+    expect(accountLockoutSeconds()).toBe(240);
+    await fail(10);
+    expect(accountLockoutSeconds()).toBe(3600);
+  });
+
+  it('locks out an address that fails across many accounts', async () => {
+    for (let i = 0; i < 20; i++) {
+      await service.recordFailure(`user${i}@example.com`, metadata);
+    }
+
+    await expect(
+      service.assertNotLocked('someone-else@example.com', metadata),
+    ).rejects.toThrow('Too many failed login attempts');
+    await expect(
+      service.assertNotLocked('someone-else@example.com', {
+        ipAddress: '198.51.100.1',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('forgets the failures of an account after a successful login, but not those of the address', async () => {
+    await fail(4);
+
+    await service.recordSuccess(email);
+
+    expect(
+      find({ kind: LoginThrottleKind.ACCOUNT, subject: email }),
+    ).toBeUndefined();
+    expect(
+      find({ kind: LoginThrottleKind.IP, subject: metadata.ipAddress })!
+        .failures,
+    ).toBe(4);
+  });
+
+  it('lets an admin unlock an account', async () => {
+    await fail(5, '198.51.100.1');
+    await expect(service.findLockedAccounts()).resolves.toEqual([
+      expect.objectContaining({ email, userId: 1, failures: 5 }),
+    ]);
+
+    await service.unlock(1, 9);
+
+    await expect(
+      service.assertNotLocked(email, metadata),
+    ).resolves.toBeUndefined();
+    expect(record).toHaveBeenLastCalledWith(SecurityEventType.LOGIN_UNLOCKED, {
+      userId: 1,
+      details: { unlockedBy: 9 },
+    });
+    await expect(service.unlock(1, 9)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,284 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ThrottlerException } from '@nestjs/throttler';
+import {
+  LoginThrottle,
+  LoginThrottleKind,
+  SecurityEventType,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SecurityEventsService } from './security-events.service';
+import { SessionMetadata } from './sessions.service';
+
+// Failures allowed before a lockout; an address is shared by every account behind it, so it gets more
+const MAX_FAILURES: Record<LoginThrottleKind, number> = {
+  [LoginThrottleKind.ACCOUNT]: 5,
+  [LoginThrottleKind.IP]: 20,
+};
+// Failures are forgotten once this long has passed since the last one and any lockout has ended
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const BASE_LOCKOUT_SECONDS = 60;
+const MAX_LOCKOUT_SECONDS = 60 * 60;
+
+/**
+ * Which step of the login failed.
+ */
+export type LoginFailureStage = 'password' | 'two-factor';
+
+/**
+ * An account that is currently locked out of logging in.
+ */
+export interface AccountLockout {
+  email: string;
+  userId: number | null;
+  failures: number;
+  lockedUntil: Date;
+}
+
+/**
+ * Tracks failed logins per account and per IP address and locks either out for a while once there are too many.
+ * Each failure past the limit doubles the lockout, up to an hour. Every failed attempt is recorded as a security event.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly securityEventsService: SecurityEventsService,
+    private readonly metricsService: MetricsService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(LoginAttemptsService.name);
+  }
+
+  /**
+   * Rejects a login attempt before its credentials are checked if the account or the address it comes from is locked out.
+   * The rejected attempt is recorded as a failure, but does not extend the lockout.
+   * @param email The email the login is for.
+   * @param metadata The device the login comes from.
+   * @throws ThrottlerException if the account or address is locked out.
+   */
+  async assertNotLocked(
+    email: string,
+    metadata: SessionMetadata = {},
+  ): Promise<void> {
+    const now = new Date();
+    const throttles = await this.prisma.loginThrottle.findMany({
+      where: {
+        OR: this.subjectsOf(email, metadata),
+        lockedUntil: { gt: now },
+      },
+    });
+    if (throttles.length === 0) {
+      return;
+    }
+    const lockedUntil = Math.max(
+      ...throttles.map((throttle) => throttle.lockedUntil!.getTime()),
+    );
+    this.metricsService.recordLogin('locked');
+    await this.securityEventsService.record(SecurityEventType.LOGIN_FAILED, {
+      userId: await this.findUserId(email),
+      metadata,
+      details: {
+        email,
+        blocked: true,
+        lockedUntil: new Date(lockedUntil).toISOString(),
+      },
+    });
+    const minutes = Math.ceil((lockedUntil - now.getTime()) / 60000);
+    throw new ThrottlerException(
+      `Too many failed login attempts. Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`,
+    );
+  }
+
+  /**
+   * Counts a failed login against the account and the address it came from, locking them out once they reach their limit.
+   * @param email The email the login was for; it need not belong to an account.
+   * @param metadata The device the login came from.
+   * @param stage Which step of the login failed.
+   */
+  async recordFailure(
+    email: string,
+    metadata: SessionMetadata = {},
+    stage: LoginFailureStage = 'password',
+  ): Promise<void> {
+    this.metricsService.recordLogin('failure');
+    const userId = await this.findUserId(email);
+    const throttles: LoginThrottle[] = [];
+    for (const subject of this.subjectsOf(email, metadata)) {
+      throttles.push(await this.countFailure(subject.kind, subject.subject));
+    }
+    const account = throttles.find((t) => t.kind === LoginThrottleKind.ACCOUNT);
+
+    await this.securityEventsService.record(SecurityEventType.LOGIN_FAILED, {
+      userId,
+      metadata,
+      details: { email, stage, failures: account?.failures ?? 0 },
+    });
+    for (const throttle of throttles) {
+      // Only the failure that starts a lockout leaves it running past the failure itself
+      if (
+        throttle.lockedUntil &&
+        throttle.lockedUntil > throttle.lastFailureAt
+      ) {
+        await this.securityEventsService.record(
+          SecurityEventType.LOGIN_LOCKED,
+          {
+            userId:
+              throttle.kind === LoginThrottleKind.ACCOUNT ? userId : undefined,
+            metadata,
+            details: {
+              kind: throttle.kind,
+              subject: throttle.subject,
+              failures: throttle.failures,
+              lockedUntil: throttle.lockedUntil.toISOString(),
+            },
+          },
+        );
+      }
+    }
+  }
+
+  /**
+   * Forgets the failed logins of an account after a successful login. Failures from the address are kept.
+   * @param email The email of the account.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    this.metricsService.recordLogin('success');
+    await this.prisma.loginThrottle.deleteMany({
+      where: {
+        kind: LoginThrottleKind.ACCOUNT,
+        subject: this.normalizeEmail(email),
+      },
+    });
+  }
+
+  /**
+   * Retrieves the accounts that are currently locked out, the longest lockout first.
+   */
+  async findLockedAccounts(): Promise<AccountLockout[]> {
+    const throttles = await this.prisma.loginThrottle.findMany({
+      where: {
+        kind: LoginThrottleKind.ACCOUNT,
+        lockedUntil: { gt: new Date() },
+      },
+      orderBy: { lockedUntil: 'desc' },
+    });
+    const users = await this.prisma.user.findMany({
+      where: {
+        email: {
+          in: throttles.map((throttle) => throttle.subject),
+          mode: 'insensitive',
+        },
+      },
+      select: { id: true, email: true },
+    });
+    return throttles.map((throttle) => ({
+      email: throttle.subject,
+      userId:
+        users.find(
+          (user) => this.normalizeEmail(user.email) === throttle.subject,
+        )?.id ?? null,
+      failures: throttle.failures,
+      lockedUntil: throttle.lockedUntil!,
+    }));
+  }
+
+  /**
+   * Lifts the lockout of an account and forgets its failed logins.
+   * @param userId The ID of the account.
+   * @param adminId The ID of the admin unlocking the account.
+   * @throws NotFoundException if the user is not found or has no failed logins.
+   */
+  async unlock(userId: number, adminId: number): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    const { count } = await this.prisma.loginThrottle.deleteMany({
+      where: {
+        kind: LoginThrottleKind.ACCOUNT,
+        subject: this.normalizeEmail(user.email),
+      },
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        `User with ID ${user.id} has no failed logins to clear`,
+      );
+    }
+    await this.securityEventsService.record(SecurityEventType.LOGIN_UNLOCKED, {
+      userId: user.id,
+      details: { unlockedBy: adminId },
+    });
+    this.logger.log(`User ${user.id} unlocked by admin ${adminId}`);
+  }
+
+  private async countFailure(
+    kind: LoginThrottleKind,
+    subject: string,
+  ): Promise<LoginThrottle> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - FAILURE_WINDOW_MS);
+    // Start over once the earlier failures are old and no lockout is running or recently ended
+    await this.prisma.loginThrottle.deleteMany({
+      where: {
+        kind,
+        subject,
+        lastFailureAt: { lt: staleBefore },
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: staleBefore } }],
+      },
+    });
+    const throttle = await this.prisma.loginThrottle.upsert({
+      where: { kind_subject: { kind, subject } },
+      create: { kind, subject, failures: 1, lastFailureAt: now },
+      update: { failures: { increment: 1 }, lastFailureAt: now },
+    });
+    const excess = throttle.failures - MAX_FAILURES[kind];
+    if (excess < 0) {
+      return throttle;
+    }
+    const lockoutSeconds = Math.min(
+      BASE_LOCKOUT_SECONDS * 2 ** excess,
+      MAX_LOCKOUT_SECONDS,
+    );
+    this.logger.warn(
+      `Locking out ${kind.toLowerCase()} ${subject} for ${lockoutSeconds}s after ${throttle.failures} failed logins`,
+    );
+    return this.prisma.loginThrottle.update({
+      where: { kind_subject: { kind, subject } },
+      data: { lockedUntil: new Date(now.getTime() + lockoutSeconds * 1000) },
+    });
+  }
+
+  private subjectsOf(
+    email: string,
+    metadata: SessionMetadata,
+  ): { kind: LoginThrottleKind; subject: string }[] {
+    const subjects: { kind: LoginThrottleKind; subject: string }[] = [
+      { kind: LoginThrottleKind.ACCOUNT, subject: this.normalizeEmail(email) },
+    ];
+    // The address Express resolved through the trusted proxies only, so a client cannot rotate or borrow it
+    if (metadata.ipAddress) {
+      subjects.push({
+        kind: LoginThrottleKind.IP,
+        subject: metadata.ipAddress,
+      });
+    }
+    return subjects;
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private async findUserId(email: string): Promise<number | undefined> {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+    return user?.id;
+  }
+}
@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, SecurityEvent, SecurityEventType } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionMetadata } from './sessions.service';
+
+export interface SecurityEventInput {
+  userId?: number;
+  metadata?: SessionMetadata;
+  details?: Prisma.InputJsonValue;
+}
+
+/**
+ * Narrows down the recorded security events.
+ */
+export interface SecurityEventFilter {
+  type?: SecurityEventType;
+  userId?: number;
+  ipAddress?: string;
+  limit: number;
+}
+
+/**
+ * A security event together with the email of the affected user.
+ */
+export type SecurityEventWithUser = SecurityEvent & {
+  user: { email: string } | null;
+};
+
+/**
+ * Keeps a persistent record of security-relevant authentication events, such as a refresh token being replayed
+ * or a failed login.
+ */
+@Injectable()
+export class SecurityEventsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(SecurityEventsService.name);
+  }
+
+  /**
+   * Records a security event.
+   * @param type What happened.
+   * @param input The affected user, the request the event came from and any further details.
+   * @returns The recorded event.
+   */
+  async record(
+    type: SecurityEventType,
+    input: SecurityEventInput = {},
+  ): Promise<SecurityEvent> {
+    const event = await this.prisma.securityEvent.create({
+      data: {
+        type,
+        userId: input.userId,
+        ipAddress: input.metadata?.ipAddress,
+        userAgent: input.metadata?.userAgent,
+        details: input.details,
+      },
+    });
+    this.logger.warn(
+      `Security event ${type}${input.userId ? ` for user ${input.userId}` : ''} from ${input.metadata?.ipAddress ?? 'unknown address'}`,
+    );
+    return event;
+  }
+
+  /**
+   * Retrieves recorded security events, newest first.
+   * @param filter The type, user and address to narrow the events down to, and how many to return.
+   */
+  async findRecent(
+    filter: SecurityEventFilter,
+  ): Promise<SecurityEventWithUser[]> {
+    return this.prisma.securityEvent.findMany({
+      where: {
+        type: filter.type,
+        userId: filter.userId,
+        ipAddress: filter.ipAddress,
+      },
+      include: { user: { select: { email: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: filter.limit,
+    });
+  }
+}
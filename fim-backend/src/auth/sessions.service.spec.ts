@@ -0,0 +1,148 @@
+import { NotFoundException } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import type { Request } from 'express';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService, getSessionMetadata } from './sessions.service';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let sessions: Session[];
+  // Refresh tokens that have not been revoked
+  let refreshTokens: { userId: number; sessionId: string }[];
+
+  const inAWeek = () => new Date(Date.now() + 7 * 24 * 3600 * 1000);
+  const session = (id: string, userId: number, expires = inAWeek()) => ({
+    id,
+    userId,
+    expires,
+    userAgent: null,
+    ipAddress: null,
+    lastUsedAt: new Date(),
+    revokedAt: null,
+    createdAt: new Date(),
+  });
+
+  beforeEach(() => {
+    sessions = [
+      session('session-1', 1),
+      session('session-2', 1),
+      session('session-3', 2),
+    ];
+    refreshTokens = sessions.map((s) => ({
+      userId: s.userId,
+      sessionId: s.id,
+    }));
+    const matches = (
+      s: Session,
+      where: { id?: string; userId: number; revokedAt: null },
+    ) =>
+      (where.id === undefined || s.id === where.id) &&
+      s.userId === where.userId &&
+      s.revokedAt === null;
+    const prisma = {
+      session: {
+        findUnique: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(sessions.find((s) => s.id === where.id) ?? null),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id?: string; userId: number; revokedAt: null };
+            data: { revokedAt: Date };
+          }) => {
+            const matched = sessions.filter((s) => matches(s, where));
+            matched.forEach((s) => (s.revokedAt = data.revokedAt));
+            return Promise.resolve({ count: matched.length });
+          },
+        ),
+      },
+      refreshToken: {
+        updateMany: jest.fn(
+          ({ where }: { where: { sessionId?: string; userId?: number } }) => {
+            refreshTokens = refreshTokens.filter(
+              (t) =>
+                t.sessionId !== where.sessionId && t.userId !== where.userId,
+            );
+            return Promise.resolve({});
+          },
+        ),
+      },
+      $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) =>
+        fn(prisma),
+      ),
+    };
+    service = new SessionsService(
+      prisma as unknown as PrismaService,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isActive', () => {
+    it('accepts an unexpired session of the user', async () => {
+      await expect(service.isActive('session-1', 1)).resolves.toBe(true);
+    });
+
+    it('rejects sessions of other users, expired and unknown sessions', async () => {
+      sessions.push(session('session-4', 1, new Date(Date.now() - 1000)));
+
+      await expect(service.isActive('session-3', 1)).resolves.toBe(false);
+      await expect(service.isActive('session-4', 1)).resolves.toBe(false);
+      await expect(service.isActive('session-9', 1)).resolves.toBe(false);
+    });
+  });
+
+  describe('revoke', () => {
+    it('revokes the session and its refresh tokens', async () => {
+      await service.revoke(1, 'session-1');
+
+      await expect(service.isActive('session-1', 1)).resolves.toBe(false);
+      await expect(service.isActive('session-2', 1)).resolves.toBe(true);
+      expect(refreshTokens.map((t) => t.sessionId)).toEqual([
+        'session-2',
+        'session-3',
+      ]);
+    });
+
+    it('does not revoke sessions of other users', async () => {
+      await expect(service.revoke(1, 'session-3')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      await expect(service.isActive('session-3', 2)).resolves.toBe(true);
+      expect(refreshTokens).toHaveLength(3);
+    });
+  });
+
+  it('revokes every session of a user', async () => {
+    await expect(service.revokeAll(1)).resolves.toEqual({ count: 2 });
+
+    await expect(service.isActive('session-2', 1)).resolves.toBe(false);
+    await expect(service.isActive('session-3', 2)).resolves.toBe(true);
+    expect(refreshTokens).toEqual([{ userId: 2, sessionId: 'session-3' }]);
+  });
+});
+
+describe('getSessionMetadata', () => {
+  it('takes the address Express resolved rather than the raw forwarded header', () => {
+    // With the frontend at 10.0.0.2 trusted, Express skips its hop and ignores what the client put before it
+    const req = {
+      headers: {
+        'user-agent': 'Firefox',
+        'x-forwarded-for': '192.0.2.1, 203.0.113.7',
+      },
+      ip: '203.0.113.7',
+    } as unknown as Request;
+
+    expect(getSessionMetadata(req)).toEqual({
+      userAgent: 'Firefox',
+      ipAddress: '203.0.113.7',
+    });
+  });
+});
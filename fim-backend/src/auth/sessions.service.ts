@@ -0,0 +1,149 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import type { Request } from 'express';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Where a login came from, as far as the request tells.
+ */
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Reads the session metadata of a request. Logins are proxied through the frontend server,
+ * so the client address is the one Express resolves from `X-Forwarded-For`, which only counts
+ * the hops added by the proxies trusted through `TRUST_PROXY` (see main.ts); the client cannot choose it.
+ * The user agent is whatever the client sent.
+ */
+export function getSessionMetadata(req: Request): SessionMetadata {
+  return {
+    userAgent: req.headers['user-agent']?.slice(0, 512),
+    ipAddress: req.ip,
+  };
+}
+
+/**
+ * Tracks logins as server-side sessions. Every login creates a session; the access and refresh tokens
+ * issued for it carry its ID, so revoking the session invalidates both.
+ */
+@Injectable()
+export class SessionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(SessionsService.name);
+  }
+
+  /**
+   * Starts a session for a user who just logged in.
+   * @param userId The ID of the user.
+   * @param expires When the session ends unless it is extended by a token refresh.
+   * @param metadata The device the user logged in from.
+   * @returns The new session.
+   */
+  async create(
+    userId: number,
+    expires: Date,
+    metadata: SessionMetadata = {},
+  ): Promise<Session> {
+    const session = await this.prisma.session.create({
+      data: {
+        userId,
+        expires,
+        userAgent: metadata.userAgent,
+        ipAddress: metadata.ipAddress,
+      },
+    });
+    this.logger.log(`Session ${session.id} started for user ${userId}`);
+    return session;
+  }
+
+  /**
+   * Records a token refresh and extends the session.
+   * @param id The ID of the session.
+   * @param expires The new end of the session.
+   */
+  async extend(id: string, expires: Date): Promise<Session> {
+    return this.prisma.session.update({
+      where: { id },
+      data: { expires, lastUsedAt: new Date() },
+    });
+  }
+
+  /**
+   * Checks whether a session belongs to a user and has been neither revoked nor expired.
+   * @param id The ID of the session.
+   * @param userId The ID of the user the session must belong to.
+   */
+  async isActive(id: string, userId: number): Promise<boolean> {
+    const session = await this.prisma.session.findUnique({ where: { id } });
+    return (
+      !!session &&
+      session.userId === userId &&
+      !session.revokedAt &&
+      session.expires > new Date()
+    );
+  }
+
+  /**
+   * Lists a user's active sessions, most recently used first.
+   * @param userId The ID of the user.
+   */
+  async findActive(userId: number): Promise<Session[]> {
+    return this.prisma.session.findMany({
+      where: { userId, revokedAt: null, expires: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revokes one of a user's sessions and its refresh tokens.
+   * @param userId The ID of the user.
+   * @param id The ID of the session.
+   * @throws NotFoundException if the user has no active session with that ID.
+   */
+  async revoke(userId: number, id: string): Promise<void> {
+    const { count } = await this.prisma.$transaction(async (prisma) => {
+      const result = await prisma.session.updateMany({
+        where: { id, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      if (result.count > 0) {
+        await prisma.refreshToken.updateMany({
+          where: { sessionId: id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        });
+      }
+      return result;
+    });
+    if (count === 0) {
+      throw new NotFoundException(`Session with ID ${id} not found`);
+    }
+    this.logger.log(`Session ${id} of user ${userId} revoked`);
+  }
+
+  /**
+   * Revokes every session and refresh token of a user.
+   * @param userId The ID of the user.
+   * @returns The number of revoked sessions.
+   */
+  async revokeAll(userId: number): Promise<{ count: number }> {
+    const result = await this.prisma.$transaction(async (prisma) => {
+      const revoked = await prisma.session.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      await prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      return revoked;
+    });
+    this.logger.log(`Revoked ${result.count} session(s) of user ${userId}`);
+    return { count: result.count };
+  }
+}
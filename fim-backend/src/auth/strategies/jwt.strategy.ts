@@ -1,12 +1,16 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtPayload } from '../interfaces/jwt-payload.interface'; // Import JwtPayload interface
+import { SessionsService } from '../sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private sessionsService: SessionsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -17,9 +21,13 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   /**
    * Validates the JWT payload and returns the user information.
    * @param payload The JWT payload.
-   * @returns An object containing user ID, email, and role.
+   * @returns An object containing user ID, email, role and session ID.
+   * @throws UnauthorizedException if the token's session has been revoked or has expired.
    */
   async validate(payload: JwtPayload) {
-    return { userId: payload.sub, email: payload.email, role: payload.role };
+    if (!payload.sid || !(await this.sessionsService.isActive(payload.sid, payload.sub))) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+    return { userId: payload.sub, email: payload.email, role: payload.role, sessionId: payload.sid };
   }
 }
\ No newline at end of file
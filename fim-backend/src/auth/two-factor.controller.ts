@@ -0,0 +1,135 @@
+import { Controller, Post, Get, Delete, Body, HttpCode, HttpStatus, UseGuards, Req, Param, ParseIntPipe, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiResponse, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import type { Request as ExpressRequest } from 'express';
+import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { LoggerService } from '../common/logger/logger.service';
+import { AuthenticatedRequest } from './interfaces/authenticated-request.interface';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { ConfirmTwoFactorEnrollmentDto, TwoFactorChallengeDto, TwoFactorCodeDto, VerifyTwoFactorDto } from './dto/two-factor.dto';
+import { RecoveryCodesResponseDto, TwoFactorSetupResponseDto, TwoFactorStatusResponseDto } from './dto/two-factor-response.dto';
+import { getSessionMetadata } from './sessions.service';
+import { Audit } from '../audit/decorators/audit.decorator';
+
+@ApiTags('auth')
+@Controller('auth/2fa')
+export class TwoFactorController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(TwoFactorController.name);
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with a code from the authenticator app or a recovery code' })
+  @ApiResponse({ status: 200, description: 'User successfully logged in.', type: AuthResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized: Invalid or expired challenge token, or wrong code.' })
+  verify(@Body() verifyTwoFactorDto: VerifyTwoFactorDto, @Req() req: ExpressRequest): Promise<AuthResponseDto> {
+    const { challengeToken, code, recoveryCode } = verifyTwoFactorDto;
+    return this.authService.verifyTwoFactorLogin(challengeToken, { code, recoveryCode }, getSessionMetadata(req));
+  }
+
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start the two-factor setup required to complete a login' })
+  @ApiResponse({ status: 200, description: 'A new secret to add to the authenticator app.', type: TwoFactorSetupResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized: Invalid or expired challenge token.' })
+  enroll(@Body() twoFactorChallengeDto: TwoFactorChallengeDto): Promise<TwoFactorSetupResponseDto> {
+    return this.authService.beginTwoFactorEnrollment(twoFactorChallengeDto.challengeToken);
+  }
+
+  @Post('enroll/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm the two-factor setup required to complete a login' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication enabled. Complete the login with /auth/2fa/verify.', type: RecoveryCodesResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad Request: Wrong code.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized: Invalid or expired challenge token.' })
+  async confirmEnrollment(@Body() confirmTwoFactorEnrollmentDto: ConfirmTwoFactorEnrollmentDto): Promise<RecoveryCodesResponseDto> {
+    const { challengeToken, code } = confirmTwoFactorEnrollmentDto;
+    return { recoveryCodes: await this.authService.confirmTwoFactorEnrollment(challengeToken, code) };
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get the two-factor authentication status of the current user' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication status.', type: TwoFactorStatusResponseDto })
+  getStatus(@Req() req: AuthenticatedRequest): Promise<TwoFactorStatusResponseDto> {
+    return this.twoFactorService.getStatus(req.user.userId, req.user.role);
+  }
+
+  @Post('setup')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Start setting up two-factor authentication for the current user' })
+  @ApiResponse({ status: 200, description: 'A new secret to add to the authenticator app.', type: TwoFactorSetupResponseDto })
+  @ApiResponse({ status: 409, description: 'Conflict: Two-factor authentication is already enabled.' })
+  setup(@Req() req: AuthenticatedRequest): Promise<TwoFactorSetupResponseDto> {
+    return this.twoFactorService.beginSetup({ id: req.user.userId, email: req.user.email });
+  }
+
+  @Post('enable')
+  @Audit('user.two-factor.enable', { target: 'user', self: true })
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm the setup with a code from the authenticator app and enable two-factor authentication' })
+  @ApiResponse({ status: 200, description: 'Two-factor authentication enabled.', type: RecoveryCodesResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad Request: No setup was started or the code is wrong.' })
+  async enable(@Req() req: AuthenticatedRequest, @Body() twoFactorCodeDto: TwoFactorCodeDto): Promise<RecoveryCodesResponseDto> {
+    return { recoveryCodes: await this.twoFactorService.enable(req.user.userId, twoFactorCodeDto.code) };
+  }
+
+  @Post('recovery-codes')
+  @Audit('user.two-factor.recovery-codes', { target: 'user', self: true })
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replace the recovery codes of the current user' })
+  @ApiResponse({ status: 200, description: 'New recovery codes; the old ones no longer work.', type: RecoveryCodesResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad Request: Two-factor authentication is not enabled or the code is wrong.' })
+  async regenerateRecoveryCodes(@Req() req: AuthenticatedRequest, @Body() twoFactorCodeDto: TwoFactorCodeDto): Promise<RecoveryCodesResponseDto> {
+    return { recoveryCodes: await this.twoFactorService.regenerateRecoveryCodes(req.user.userId, twoFactorCodeDto.code) };
+  }
+
+  @Delete()
+  @Audit('user.two-factor.disable', { target: 'user', self: true })
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Disable two-factor authentication for the current user' })
+  @ApiResponse({ status: 204, description: 'Two-factor authentication disabled.' })
+  @ApiResponse({ status: 400, description: 'Bad Request: The code is wrong.' })
+  @ApiResponse({ status: 403, description: 'Forbidden: The user\'s role requires two-factor authentication.' })
+  async disable(@Req() req: AuthenticatedRequest, @Body() twoFactorCodeDto: TwoFactorCodeDto): Promise<void> {
+    if (this.twoFactorService.isRequiredFor(req.user.role)) {
+      throw new ForbiddenException('Two-factor authentication is required for your role');
+    }
+    if (!(await this.twoFactorService.verify(req.user.userId, { code: twoFactorCodeDto.code }))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+    await this.twoFactorService.disable(req.user.userId);
+  }
+
+  @Delete('users/:userId')
+  @Audit('user.two-factor.reset', { target: 'user', param: 'userId' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Reset two-factor authentication of a user who lost their device and recovery codes (Admin only)' })
+  @ApiResponse({ status: 204, description: 'Two-factor authentication reset; the user sets it up again at their next login if their role requires it.' })
+  @ApiResponse({ status: 404, description: 'Not Found: Two-factor authentication is not set up for this user.' })
+  async reset(@Req() req: AuthenticatedRequest, @Param('userId', ParseIntPipe) userId: number): Promise<void> {
+    this.logger.log(`Admin ${req.user.userId} resetting two-factor authentication of user ID ${userId}`);
+    await this.twoFactorService.disable(userId);
+  }
+}
@@ -0,0 +1,199 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role, TwoFactorCredential } from '@prisma/client';
+import { authenticator } from 'otplib';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TwoFactorService } from './two-factor.service';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let credential: TwoFactorCredential | null;
+  let requiredRoles: string | undefined;
+
+  const user = { id: 1, email: 'admin@example.com' };
+  // The code of the next time step, which is still accepted to allow for clock drift
+  const nextCode = (secret: string) =>
+    authenticator.clone({ epoch: Date.now() + 30000 }).generate(secret);
+
+  const enable = async () => {
+    const { secret } = await service.beginSetup(user);
+    const recoveryCodes = await service.enable(
+      user.id,
+      authenticator.generate(secret),
+    );
+    return { secret, recoveryCodes };
+  };
+
+  beforeEach(() => {
+    credential = null;
+    requiredRoles = undefined;
+    const update = (data: Partial<TwoFactorCredential>) => {
+      // Every write bumps updatedAt, as Prisma's @updatedAt does
+      credential = {
+        ...credential!,
+        ...data,
+        updatedAt: new Date(credential!.updatedAt.getTime() + 1),
+      };
+      return credential;
+    };
+    const prisma = {
+      twoFactorCredential: {
+        findUnique: jest.fn(() => Promise.resolve(credential)),
+        upsert: jest.fn(
+          ({
+            create,
+            update: data,
+          }: {
+            create: Pick<
+              TwoFactorCredential,
+              'userId' | 'secret' | 'recoveryCodes'
+            >;
+            update: Partial<TwoFactorCredential>;
+          }) => {
+            credential = credential
+              ? update(data)
+              : {
+                  ...create,
+                  enabledAt: null,
+                  lastUsedStep: null,
+                  createdAt: new Date(),
+                  updatedAt: new Date(),
+                };
+            return Promise.resolve(credential);
+          },
+        ),
+        update: jest.fn(({ data }: { data: Partial<TwoFactorCredential> }) =>
+          Promise.resolve(update(data)),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: {
+              recoveryCodes?: { has: string };
+              updatedAt?: Date;
+              OR?: [{ lastUsedStep: null }, { lastUsedStep: { lt: number } }];
+            };
+            data: Partial<TwoFactorCredential>;
+          }) => {
+            const matches =
+              !!credential &&
+              (!where.recoveryCodes ||
+                credential.recoveryCodes.includes(where.recoveryCodes.has)) &&
+              (!where.updatedAt ||
+                credential.updatedAt.getTime() === where.updatedAt.getTime()) &&
+              (!where.OR ||
+                credential.lastUsedStep === null ||
+                credential.lastUsedStep < where.OR[1].lastUsedStep.lt);
+            if (matches) {
+              update(data);
+            }
+            return Promise.resolve({ count: matches ? 1 : 0 });
+          },
+        ),
+        deleteMany: jest.fn(() => {
+          const count = credential ? 1 : 0;
+          credential = null;
+          return Promise.resolve({ count });
+        }),
+      },
+    };
+    service = new TwoFactorService(
+      prisma as unknown as PrismaService,
+      {
+        get: (key: string) =>
+          key === 'FIM_2FA_REQUIRED_ROLES' ? requiredRoles : undefined,
+      } as unknown as ConfigService,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('provisions a secret as an otpauth URI and QR code', async () => {
+    const setup = await service.beginSetup(user);
+
+    expect(setup.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+    expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`);
+    expect(setup.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+    await expect(service.isEnabled(user.id)).resolves.toBe(false);
+  });
+
+  it('only enables two-factor authentication with a valid code', async () => {
+    await service.beginSetup(user);
+
+    await expect(service.enable(user.id, '000000')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    await expect(service.isEnabled(user.id)).resolves.toBe(false);
+
+    const { secret, recoveryCodes } = await enable();
+    expect(recoveryCodes).toHaveLength(10);
+    expect(credential!.recoveryCodes).not.toContain(recoveryCodes[0]);
+    await expect(
+      service.verify(user.id, { code: nextCode(secret) }),
+    ).resolves.toBe(true);
+    await expect(service.beginSetup(user)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+  });
+
+  it('accepts each code from the app only once', async () => {
+    // Halfway through a time step, so the test cannot run into the next one
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_025_000);
+    const { secret } = await enable();
+
+    // The code that confirmed the setup cannot log in, nor can an older one
+    await expect(
+      service.verify(user.id, { code: authenticator.generate(secret) }),
+    ).resolves.toBe(false);
+    await expect(
+      service.verify(user.id, { code: nextCode(secret) }),
+    ).resolves.toBe(true);
+    await expect(
+      service.verify(user.id, { code: nextCode(secret) }),
+    ).resolves.toBe(false);
+    await expect(
+      service.verify(user.id, { code: authenticator.generate(secret) }),
+    ).resolves.toBe(false);
+  });
+
+  it('accepts each recovery code once, however it is typed', async () => {
+    const { recoveryCodes } = await enable();
+    const typed = recoveryCodes[0].toUpperCase().replace('-', ' ');
+
+    await expect(
+      service.verify(user.id, { recoveryCode: typed }),
+    ).resolves.toBe(true);
+    await expect(
+      service.verify(user.id, { recoveryCode: recoveryCodes[0] }),
+    ).resolves.toBe(false);
+    await expect(service.getStatus(user.id, Role.ADMIN)).resolves.toEqual({
+      enabled: true,
+      required: false,
+      recoveryCodesRemaining: 9,
+    });
+  });
+
+  it('rejects codes while two-factor authentication is only pending', async () => {
+    const { secret } = await service.beginSetup(user);
+
+    await expect(
+      service.verify(user.id, { code: authenticator.generate(secret) }),
+    ).resolves.toBe(false);
+  });
+
+  it('reads the roles that require two-factor authentication from the config', () => {
+    requiredRoles = 'admin, GM';
+
+    expect(service.isRequiredFor(Role.ADMIN)).toBe(true);
+    expect(service.isRequiredFor(Role.GM)).toBe(true);
+    expect(service.isRequiredFor(Role.PLAYER)).toBe(false);
+  });
+});
@@ -0,0 +1,298 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role, TwoFactorCredential } from '@prisma/client';
+import * as crypto from 'crypto';
+import { authenticator } from 'otplib';
+import * as QRCode from 'qrcode';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const ISSUER = 'Foundry Instance Manager';
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * A TOTP secret waiting to be confirmed, in the forms an authenticator app can import.
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * What the second factor of a login may be: a code from the authenticator app or one of the recovery codes.
+ */
+export interface TwoFactorCode {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Manages TOTP two-factor authentication (RFC 6238, as used by common authenticator apps) and its recovery codes.
+ * A secret is stored unconfirmed until the user proves their app generates matching codes.
+ * Codes from the app are single-use as well: the time step of the last accepted code is stored and
+ * codes of that step or an earlier one are refused, so a code seen over someone's shoulder cannot be replayed.
+ * Recovery codes are single-use and only their SHA-256 hashes are stored.
+ */
+@Injectable()
+export class TwoFactorService {
+  // Accepts the previous and next code as well, to allow for clock drift
+  private readonly authenticator = authenticator.clone({ window: 1 });
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(TwoFactorService.name);
+  }
+
+  /**
+   * Checks whether the roles listed in `FIM_2FA_REQUIRED_ROLES` (comma-separated, e.g. `ADMIN,GM`) include a role.
+   * @param role The role of the user.
+   */
+  isRequiredFor(role: Role): boolean {
+    return (this.configService.get<string>('FIM_2FA_REQUIRED_ROLES') || '')
+      .split(',')
+      .map((requiredRole) => requiredRole.trim().toUpperCase())
+      .includes(role);
+  }
+
+  /**
+   * Checks whether a user has confirmed two-factor authentication.
+   * @param userId The ID of the user.
+   */
+  async isEnabled(userId: number): Promise<boolean> {
+    return !!(await this.findEnabled(userId));
+  }
+
+  /**
+   * Reports whether two-factor authentication is enabled for a user, whether it is required and how many recovery codes are left.
+   * @param userId The ID of the user.
+   * @param role The role of the user.
+   */
+  async getStatus(
+    userId: number,
+    role: Role,
+  ): Promise<{
+    enabled: boolean;
+    required: boolean;
+    recoveryCodesRemaining: number;
+  }> {
+    const credential = await this.findEnabled(userId);
+    return {
+      enabled: !!credential,
+      required: this.isRequiredFor(role),
+      recoveryCodesRemaining: credential?.recoveryCodes.length ?? 0,
+    };
+  }
+
+  /**
+   * Generates a new secret for a user. It replaces any earlier unconfirmed secret and stays inactive until {@link enable} confirms it.
+   * @param user The ID and email of the user; the email labels the entry in the authenticator app.
+   * @returns The secret, its `otpauth://` provisioning URI and that URI as a QR code image.
+   * @throws ConflictException if two-factor authentication is already enabled.
+   */
+  async beginSetup(user: {
+    id: number;
+    email: string;
+  }): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(user.id)) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    const secret = this.authenticator.generateSecret();
+    await this.prisma.twoFactorCredential.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, secret, recoveryCodes: [] },
+      update: {
+        secret,
+        recoveryCodes: [],
+        enabledAt: null,
+        lastUsedStep: null,
+      },
+    });
+    const otpauthUrl = this.authenticator.keyuri(user.email, ISSUER, secret);
+    this.logger.log(`Two-factor setup started for user ${user.id}`);
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Confirms a pending secret with a code from the authenticator app and enables two-factor authentication.
+   * @param userId The ID of the user.
+   * @param code The current code from the authenticator app.
+   * @returns The recovery codes, which cannot be retrieved later.
+   * @throws BadRequestException if there is no pending setup or the code is wrong.
+   */
+  async enable(userId: number, code: string): Promise<string[]> {
+    const credential = await this.prisma.twoFactorCredential.findUnique({
+      where: { userId },
+    });
+    if (!credential || credential.enabledAt) {
+      throw new BadRequestException(
+        'Start the two-factor authentication setup first',
+      );
+    }
+    if (!(await this.acceptCode(credential, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.twoFactorCredential.update({
+      where: { userId },
+      data: {
+        enabledAt: new Date(),
+        recoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+      },
+    });
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks the second factor of a user. A recovery code is used up by a successful check.
+   * @param userId The ID of the user.
+   * @param factor A code from the authenticator app or a recovery code.
+   * @returns Whether the code is valid; false as well if two-factor authentication is not enabled.
+   */
+  async verify(userId: number, factor: TwoFactorCode): Promise<boolean> {
+    const credential = await this.findEnabled(userId);
+    if (!credential) {
+      return false;
+    }
+    if (factor.code) {
+      return this.acceptCode(credential, factor.code);
+    }
+    if (!factor.recoveryCode) {
+      return false;
+    }
+    const hash = this.hashRecoveryCode(factor.recoveryCode);
+    // Only removes the code if it is still there, so a code cannot be used twice by concurrent logins
+    const { count } = await this.prisma.twoFactorCredential.updateMany({
+      where: {
+        userId,
+        recoveryCodes: { has: hash },
+        updatedAt: credential.updatedAt,
+      },
+      data: {
+        recoveryCodes: credential.recoveryCodes.filter((c) => c !== hash),
+      },
+    });
+    if (count > 0) {
+      this.logger.warn(
+        `Recovery code used by user ${userId}; ${credential.recoveryCodes.length - 1} left`,
+      );
+    }
+    return count > 0;
+  }
+
+  /**
+   * Replaces the recovery codes of a user.
+   * @param userId The ID of the user.
+   * @param code The current code from the authenticator app.
+   * @returns The new recovery codes.
+   * @throws BadRequestException if two-factor authentication is not enabled or the code is wrong.
+   */
+  async regenerateRecoveryCodes(
+    userId: number,
+    code: string,
+  ): Promise<string[]> {
+    const credential = await this.findEnabled(userId);
+    if (!credential || !(await this.acceptCode(credential, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.twoFactorCredential.update({
+      where: { userId },
+      data: {
+        recoveryCodes: recoveryCodes.map((c) => this.hashRecoveryCode(c)),
+      },
+    });
+    this.logger.log(`Recovery codes regenerated for user ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Turns two-factor authentication off for a user and forgets their secret.
+   * @param userId The ID of the user.
+   * @throws NotFoundException if two-factor authentication is not set up.
+   */
+  async disable(userId: number): Promise<void> {
+    const { count } = await this.prisma.twoFactorCredential.deleteMany({
+      where: { userId },
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        'Two-factor authentication is not set up for this user',
+      );
+    }
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  private async findEnabled(
+    userId: number,
+  ): Promise<TwoFactorCredential | null> {
+    const credential = await this.prisma.twoFactorCredential.findUnique({
+      where: { userId },
+    });
+    return credential?.enabledAt ? credential : null;
+  }
+
+  /**
+   * Checks a code from the authenticator app and uses up its time step.
+   * @returns Whether the code is valid and newer than the last accepted one.
+   */
+  private async acceptCode(
+    credential: TwoFactorCredential,
+    code: string,
+  ): Promise<boolean> {
+    // Checked against a fixed time, so the step cannot change between the check and working out which step it was
+    const atNow = this.authenticator.clone({ epoch: Date.now() });
+    const delta = atNow.checkDelta(code.replace(/\s/g, ''), credential.secret);
+    if (delta === null) {
+      return false;
+    }
+    const { epoch, step } = atNow.allOptions();
+    const timeStep = Math.floor(epoch / 1000 / step) + delta;
+    // Only moves the step forward, so concurrent logins cannot both use the same code
+    const { count } = await this.prisma.twoFactorCredential.updateMany({
+      where: {
+        userId: credential.userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: timeStep } }],
+      },
+      data: { lastUsedStep: timeStep },
+    });
+    if (count === 0) {
+      this.logger.warn(
+        `Rejected a reused authentication code for user ${credential.userId}`,
+      );
+    }
+    return count > 0;
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = crypto.randomBytes(5).toString('hex');
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  /**
+   * Recovery codes are compared without case, spaces or dashes, so they can be typed as they are read.
+   */
+  private hashRecoveryCode(code: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(code.toLowerCase().replace(/[\s-]/g, ''))
+      .digest('hex');
+  }
+}
@@ -0,0 +1,87 @@
+import { Controller, Get, Post, Body, Req, Query, UseGuards, HttpCode, HttpStatus, DefaultValuePipe, ParseIntPipe, BadRequestException } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { Role } from '@prisma/client';
+import type { Request as ExpressRequest } from 'express';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { OptionalJwtAuthGuard } from '../auth/guards/optional-jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { getSessionMetadata } from '../auth/sessions.service';
+import { ClientLogsService } from './client-logs.service';
+import { CLIENT_LOG_LEVELS, CreateClientLogsDto } from './dto/create-client-logs.dto';
+import { ClientLogBatchResponseDto, ClientLogResponseDto } from './dto/client-log-response.dto';
+
+@ApiTags('client-logs')
+@Controller('client-logs')
+export class ClientLogsController {
+  constructor(private readonly clientLogsService: ClientLogsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(OptionalJwtAuthGuard)
+  // Browsers send batches every few seconds at most; anything faster is a loop or abuse
+  @Throttle({ default: { limit: 20, ttl: 60000 } })
+  @ApiOperation({ summary: 'Send warnings and errors logged in the browser; the user is recorded if signed in' })
+  @ApiResponse({ status: 202, description: 'The entries were stored.', type: ClientLogBatchResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad Request: Invalid entries, or more than 50 at once.' })
+  @ApiResponse({ status: 429, description: 'Too Many Requests: Too many batches from this address.' })
+  async create(@Req() req: ExpressRequest & Partial<Pick<AuthenticatedRequest, 'user'>>, @Body() createClientLogsDto: CreateClientLogsDto): Promise<ClientLogBatchResponseDto> {
+    const accepted = await this.clientLogsService.record(createClientLogsDto.entries, req.user?.userId, getSessionMetadata(req));
+    return { accepted };
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List client logs, newest first (Admin only)' })
+  @ApiQuery({ name: 'userId', required: false, type: Number })
+  @ApiQuery({ name: 'component', required: false })
+  @ApiQuery({ name: 'level', required: false, enum: CLIENT_LOG_LEVELS })
+  @ApiQuery({ name: 'since', required: false, description: 'ISO 8601 date and time' })
+  @ApiQuery({ name: 'until', required: false, description: 'ISO 8601 date and time' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'At most 500; defaults to 100' })
+  @ApiResponse({ status: 200, description: 'Stored client logs.', type: [ClientLogResponseDto] })
+  @ApiResponse({ status: 400, description: 'Bad Request: A date is invalid.' })
+  async findAll(
+    @Query('userId', new ParseIntPipe({ optional: true })) userId?: number,
+    @Query('component') component?: string,
+    @Query('level') level?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit = 100,
+  ): Promise<ClientLogResponseDto[]> {
+    const logs = await this.clientLogsService.findAll({
+      userId,
+      component: component || undefined,
+      level: level || undefined,
+      since: this.parseDate(since, 'since'),
+      until: this.parseDate(until, 'until'),
+      limit: Math.min(Math.max(limit, 1), 500),
+    });
+    return logs.map(({ user, ...log }) => ({ ...log, userEmail: user?.email ?? null }));
+  }
+
+  @Get('components')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List the frontend components that have sent logs (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Component names.', type: [String] })
+  findComponents(): Promise<string[]> {
+    return this.clientLogsService.findComponents();
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`${name} must be an ISO 8601 date`);
+    }
+    return date;
+  }
+}
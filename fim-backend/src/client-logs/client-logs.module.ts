@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ClientLogsService } from './client-logs.service';
+import { ClientLogsController } from './client-logs.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LoggerModule } from '../common/logger/logger.module';
+
+@Module({
+  imports: [PrismaModule, LoggerModule],
+  providers: [ClientLogsService],
+  controllers: [ClientLogsController],
+})
+export class ClientLogsModule {}
@@ -0,0 +1,97 @@
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ClientLogsService } from './client-logs.service';
+
+describe('ClientLogsService', () => {
+  let service: ClientLogsService;
+  let createMany: jest.Mock;
+  let deleteMany: jest.Mock;
+  let retentionDays: string | undefined;
+
+  const stored = () =>
+    (createMany.mock.calls[0] as [{ data: Record<string, unknown>[] }])[0].data;
+
+  beforeEach(() => {
+    retentionDays = undefined;
+    createMany = jest.fn(({ data }: { data: unknown[] }) =>
+      Promise.resolve({ count: data.length }),
+    );
+    deleteMany = jest.fn(() => Promise.resolve({ count: 3 }));
+    service = new ClientLogsService(
+      { clientLog: { createMany, deleteMany } } as unknown as PrismaService,
+      {
+        get: (key: string) =>
+          key === 'CLIENT_LOG_RETENTION_DAYS' ? retentionDays : undefined,
+      } as unknown as ConfigService,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores a batch with the user and device that sent it', async () => {
+    const count = await service.record(
+      [
+        {
+          level: 'error',
+          message: 'API GET /foundry failed',
+          component: 'API',
+          data: { status: 500 },
+          timestamp: '2026-10-19T12:00:00.000Z',
+        },
+        { level: 'warn', message: 'Slow render' },
+      ],
+      7,
+      { ipAddress: '203.0.113.7', userAgent: 'Firefox' },
+    );
+
+    expect(count).toBe(2);
+    expect(stored()[0]).toMatchObject({
+      userId: 7,
+      level: 'error',
+      component: 'API',
+      data: { status: 500 },
+      ipAddress: '203.0.113.7',
+      userAgent: 'Firefox',
+      occurredAt: new Date('2026-10-19T12:00:00.000Z'),
+    });
+    expect(stored()[1]).toMatchObject({ userId: 7, data: undefined });
+  });
+
+  it('replaces oversized data and times in the future', async () => {
+    const before = Date.now();
+    await service.record(
+      [
+        {
+          level: 'error',
+          message: 'Huge state dump',
+          data: { state: 'x'.repeat(10000) },
+          timestamp: new Date(before + 60 * 60 * 1000).toISOString(),
+        },
+      ],
+      undefined,
+    );
+
+    const [log] = stored();
+    expect(log.data).toEqual({ truncated: true, bytes: 10012 });
+    expect((log.occurredAt as Date).getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('deletes logs older than the retention period', async () => {
+    retentionDays = '30';
+    const before = Date.now();
+
+    await expect(service.pruneExpired()).resolves.toBe(3);
+
+    const [{ where }] = deleteMany.mock.calls[0] as [
+      { where: { createdAt: { lt: Date } } },
+    ];
+    const cutoff = before - 30 * 24 * 60 * 60 * 1000;
+    expect(where.createdAt.lt.getTime()).toBeGreaterThanOrEqual(cutoff);
+    expect(where.createdAt.lt.getTime()).toBeLessThan(cutoff + 1000);
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ClientLog, Prisma } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionMetadata } from '../auth/sessions.service';
+import { ClientLogEntryDto } from './dto/create-client-logs.dto';
+
+// Larger data is replaced by a note, so one noisy page cannot fill the table
+const MAX_DATA_BYTES = 8 * 1024;
+const DEFAULT_RETENTION_DAYS = 14;
+
+/**
+ * Narrows down the stored client logs.
+ */
+export interface ClientLogFilter {
+  userId?: number;
+  component?: string;
+  level?: string;
+  since?: Date;
+  until?: Date;
+  limit: number;
+}
+
+/**
+ * A stored client log with the email of the user who sent it.
+ */
+export type ClientLogWithUser = ClientLog & {
+  user: { email: string } | null;
+};
+
+/**
+ * Stores the warnings and errors that browsers send in, so problems players run into can be looked into afterwards.
+ * The frontend redacts and samples entries before sending them; the service only bounds their size.
+ * Logs are kept for `CLIENT_LOG_RETENTION_DAYS` days (14 by default).
+ */
+@Injectable()
+export class ClientLogsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ClientLogsService.name);
+  }
+
+  /**
+   * Stores a batch of entries sent by a browser.
+   * @param entries The entries.
+   * @param userId The ID of the signed-in user, if any.
+   * @param metadata The device the entries come from.
+   * @returns The number of entries stored.
+   */
+  async record(
+    entries: ClientLogEntryDto[],
+    userId: number | undefined,
+    metadata: SessionMetadata = {},
+  ): Promise<number> {
+    const now = Date.now();
+    const { count } = await this.prisma.clientLog.createMany({
+      data: entries.map((entry) => {
+        const occurredAt = entry.timestamp
+          ? new Date(entry.timestamp).getTime()
+          : now;
+        return {
+          userId,
+          level: entry.level,
+          message: entry.message,
+          component: entry.component,
+          action: entry.action,
+          data: this.boundData(entry.data),
+          stack: entry.stack,
+          url: entry.url,
+          userAgent: metadata.userAgent,
+          ipAddress: metadata.ipAddress,
+          // A browser clock can be far off; times in the future are taken as the time of arrival
+          occurredAt: new Date(Math.min(occurredAt, now)),
+        };
+      }),
+    });
+    return count;
+  }
+
+  /**
+   * Retrieves stored client logs, newest first.
+   * @param filter The user, component, level and time range to narrow the logs down to, and how many to return.
+   */
+  async findAll(filter: ClientLogFilter): Promise<ClientLogWithUser[]> {
+    return this.prisma.clientLog.findMany({
+      where: {
+        userId: filter.userId,
+        component: filter.component,
+        level: filter.level,
+        occurredAt: { gte: filter.since, lte: filter.until },
+      },
+      include: { user: { select: { email: true } } },
+      orderBy: { occurredAt: 'desc' },
+      take: filter.limit,
+    });
+  }
+
+  /**
+   * Lists the components that have sent logs, for filtering.
+   */
+  async findComponents(): Promise<string[]> {
+    const rows = await this.prisma.clientLog.findMany({
+      where: { component: { not: null } },
+      distinct: ['component'],
+      select: { component: true },
+      orderBy: { component: 'asc' },
+    });
+    return rows.map((row) => row.component!);
+  }
+
+  /**
+   * Deletes the logs older than the retention period.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneExpired(): Promise<number> {
+    const days =
+      Number(this.configService.get<string>('CLIENT_LOG_RETENTION_DAYS')) ||
+      DEFAULT_RETENTION_DAYS;
+    const { count } = await this.prisma.clientLog.deleteMany({
+      where: {
+        createdAt: { lt: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+      },
+    });
+    if (count > 0) {
+      this.logger.log(`Deleted ${count} client logs older than ${days} days`);
+    }
+    return count;
+  }
+
+  private boundData(data: unknown): Prisma.InputJsonValue | undefined {
+    if (data === undefined || data === null) {
+      return undefined;
+    }
+    const json = JSON.stringify(data);
+    if (Buffer.byteLength(json) > MAX_DATA_BYTES) {
+      return { truncated: true, bytes: Buffer.byteLength(json) };
+    }
+    return JSON.parse(json) as Prisma.InputJsonValue;
+  }
+}
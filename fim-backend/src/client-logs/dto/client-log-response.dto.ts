@@ -0,0 +1,50 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ClientLogResponseDto {
+  @ApiProperty({ example: 'clx0c1l2i3e4n5t6l7', description: 'Client log ID' })
+  id: string;
+
+  @ApiProperty({ example: 3, description: 'The ID of the signed-in user who sent the entry', nullable: true })
+  userId: number | null;
+
+  @ApiProperty({ example: 'player@example.com', description: 'The email of that user', nullable: true })
+  userEmail: string | null;
+
+  @ApiProperty({ example: 'error' })
+  level: string;
+
+  @ApiProperty({ example: 'API GET /foundry failed' })
+  message: string;
+
+  @ApiProperty({ example: 'API', nullable: true })
+  component: string | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  action: string | null;
+
+  @ApiProperty({ example: { status: 500 }, nullable: true })
+  data: unknown;
+
+  @ApiProperty({ nullable: true })
+  stack: string | null;
+
+  @ApiProperty({ example: '/dashboard', nullable: true })
+  url: string | null;
+
+  @ApiProperty({ example: 'Mozilla/5.0 (X11; Linux x86_64)', nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty({ example: '203.0.113.7', nullable: true })
+  ipAddress: string | null;
+
+  @ApiProperty({ description: 'When the entry was logged in the browser' })
+  occurredAt: Date;
+
+  @ApiProperty({ description: 'When the entry reached the backend' })
+  createdAt: Date;
+}
+
+export class ClientLogBatchResponseDto {
+  @ApiProperty({ example: 3, description: 'How many entries were stored' })
+  accepted: number;
+}
@@ -0,0 +1,59 @@
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsDateString, IsIn, IsOptional, IsString, MaxLength, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export const CLIENT_LOG_LEVELS = ['warn', 'error'] as const;
+
+export class ClientLogEntryDto {
+  @ApiProperty({ enum: CLIENT_LOG_LEVELS, example: 'error' })
+  @IsIn(CLIENT_LOG_LEVELS)
+  level: (typeof CLIENT_LOG_LEVELS)[number];
+
+  @ApiProperty({ example: 'API GET /foundry failed' })
+  @IsString()
+  @MaxLength(2000)
+  message: string;
+
+  @ApiProperty({ example: 'API', description: 'The part of the frontend that logged the entry', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  component?: string;
+
+  @ApiProperty({ example: 'USER_ACTION', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+
+  @ApiProperty({ description: 'Details of the entry, with secrets already redacted', required: false })
+  @IsOptional()
+  data?: unknown;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(8000)
+  stack?: string;
+
+  @ApiProperty({ example: '/dashboard', description: 'The page the entry was logged on', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  url?: string;
+
+  @ApiProperty({ example: '2026-10-19T12:00:00.000Z', description: 'When the entry was logged, by the clock of the browser', required: false })
+  @IsOptional()
+  @IsDateString()
+  timestamp?: string;
+}
+
+export class CreateClientLogsDto {
+  @ApiProperty({ type: [ClientLogEntryDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => ClientLogEntryDto)
+  entries: ClientLogEntryDto[];
+}
@@ -1,9 +1,16 @@
-import { Catch, ArgumentsHost, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Catch, ArgumentsHost, HttpException, HttpServer, HttpStatus } from '@nestjs/common';
 import { BaseExceptionFilter } from '@nestjs/core';
+import { LoggerService } from '../logger/logger.service';
+import { getRequestContext } from '../request-context/request-context';
 
 @Catch()
 export class AllExceptionsFilter extends BaseExceptionFilter {
-  private readonly logger = new Logger(AllExceptionsFilter.name);
+  private readonly logger = new LoggerService();
+
+  constructor(applicationRef?: HttpServer) {
+    super(applicationRef);
+    this.logger.setContext(AllExceptionsFilter.name);
+  }
 
   catch(exception: unknown, host: ArgumentsHost) {
     const ctx = host.switchToHttp();
@@ -24,14 +31,21 @@ export class AllExceptionsFilter extends BaseExceptionFilter {
       statusCode: status,
       timestamp: new Date().toISOString(),
       path: request.url,
+      // Lets a user quote the failed request so its log lines can be found
+      requestId: getRequestContext()?.requestId,
       message: typeof message === 'object' ? (message as any).message : message,
       error: exception instanceof HttpException ? (message as any).error || exception.name : 'InternalServerError',
     };
 
-    this.logger.error(
-      `HTTP Status: ${status} Error Message: ${JSON.stringify(errorResponse)}`,
-      (exception instanceof Error ? exception.stack : undefined),
-    );
+    // Client errors are expected in normal use; only server errors need their stack
+    if (status >= 500) {
+      this.logger.error(
+        `HTTP Status: ${status} Error Message: ${JSON.stringify(errorResponse)}`,
+        (exception instanceof Error ? exception.stack : undefined),
+      );
+    } else {
+      this.logger.warn(`HTTP Status: ${status} Error Message: ${JSON.stringify(errorResponse)}`);
+    }
 
     response.status(status).json(errorResponse);
   }
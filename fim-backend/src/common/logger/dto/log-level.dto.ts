@@ -0,0 +1,23 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { LOG_LEVELS, LogLevel } from '../logger.service';
+
+export class SetLogLevelDto {
+  @ApiProperty({ enum: LOG_LEVELS, example: 'debug' })
+  @IsIn(LOG_LEVELS)
+  level: LogLevel;
+
+  @ApiProperty({ example: 'FoundryService', description: 'The context to change; the default level is changed if omitted', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  context?: string;
+}
+
+export class LogLevelsResponseDto {
+  @ApiProperty({ enum: LOG_LEVELS, example: 'log', description: 'The level of every context without a level of its own' })
+  default: LogLevel;
+
+  @ApiProperty({ example: { FoundryService: 'debug' }, description: 'The contexts with a level of their own' })
+  contexts: Record<string, LogLevel>;
+}
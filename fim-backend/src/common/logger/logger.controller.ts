@@ -0,0 +1,42 @@
+import { Controller, Get, Put, Delete, Body, Param, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse, ApiOperation } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { LoggerService, LogLevelSettings } from './logger.service';
+import { LogLevelsResponseDto, SetLogLevelDto } from './dto/log-level.dto';
+
+@ApiTags('logging')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('logging')
+export class LoggerController {
+  constructor(private readonly logger: LoggerService) {
+    this.logger.setContext(LoggerController.name);
+  }
+
+  @Get('levels')
+  @ApiOperation({ summary: 'Get the log levels (Admin only)' })
+  @ApiResponse({ status: 200, description: 'The default log level and the contexts with their own.', type: LogLevelsResponseDto })
+  getLevels(): LogLevelSettings {
+    return this.logger.getLevels();
+  }
+
+  @Put('levels')
+  @ApiOperation({ summary: 'Change the log level of a context, or the default level, until the backend restarts (Admin only)' })
+  @ApiResponse({ status: 200, description: 'The log levels after the change.', type: LogLevelsResponseDto })
+  setLevel(@Body() setLogLevelDto: SetLogLevelDto): LogLevelSettings {
+    const levels = this.logger.setLevel(setLogLevelDto.level, setLogLevelDto.context);
+    this.logger.log(`Log level of ${setLogLevelDto.context || 'the default context'} set to ${setLogLevelDto.level}`);
+    return levels;
+  }
+
+  @Delete('levels/:context')
+  @ApiOperation({ summary: 'Make a context log at the default level again (Admin only)' })
+  @ApiResponse({ status: 200, description: 'The log levels after the change.', type: LogLevelsResponseDto })
+  resetLevel(@Param('context') context: string): LogLevelSettings {
+    return this.logger.resetLevel(context);
+  }
+}
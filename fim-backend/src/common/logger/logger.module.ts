@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { LoggerService } from './logger.service';
+import { LoggerController } from './logger.controller';
 
 @Module({
   providers: [LoggerService],
+  controllers: [LoggerController],
   exports: [LoggerService],
 })
 export class LoggerModule {}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import type { Request } from 'express';
+import { runWithRequestContext } from '../request-context/request-context';
+import { LogEntry, LoggerService } from './logger.service';
+
+describe('LoggerService', () => {
+  let logger: LoggerService;
+  let lines: string[];
+
+  const entries = () => lines.map((line) => JSON.parse(line) as LogEntry);
+
+  beforeEach(() => {
+    lines = [];
+    logger = new LoggerService();
+    logger.setContext('FoundryService');
+    for (const method of ['log', 'warn', 'error', 'debug'] as const) {
+      jest
+        .spyOn(console, method)
+        .mockImplementation((line: string) => lines.push(line));
+    }
+  });
+
+  afterEach(() => {
+    logger.setLevel('log');
+    logger.resetLevel('FoundryService');
+    jest.restoreAllMocks();
+  });
+
+  it('writes one JSON line per message with its level and context', () => {
+    logger.warn('Disk almost full');
+    logger.error('Container crashed', 'Error: exit 137');
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        context: 'FoundryService',
+        message: 'Disk almost full',
+      }),
+      expect.objectContaining({
+        level: 'error',
+        message: 'Container crashed',
+        trace: 'Error: exit 137',
+      }),
+    ]);
+    expect(new Date(entries()[0].timestamp).getTime()).not.toBeNaN();
+  });
+
+  it('adds the request ID, user and route within a request', () => {
+    const request = {
+      method: 'POST',
+      path: '/foundry/abc/start',
+      route: { path: '/foundry/:instanceId/start' },
+      user: { userId: 7 },
+    } as unknown as Request;
+
+    runWithRequestContext({ requestId: 'req-1', request }, () =>
+      logger.log('Starting instance'),
+    );
+    logger.log('Outside a request');
+
+    expect(entries()[0]).toMatchObject({
+      requestId: 'req-1',
+      userId: 7,
+      method: 'POST',
+      route: '/foundry/:instanceId/start',
+    });
+    expect(entries()[1]).not.toHaveProperty('requestId');
+  });
+
+  it('logs each context at its own level, which can change at runtime', () => {
+    logger.debug('Hidden at the default level');
+    logger.setLevel('debug', 'FoundryService');
+    logger.debug('Shown for this context');
+    logger.debug('Hidden for another context', 'AuthService');
+    logger.setLevel('error');
+    logger.warn('Hidden once the default is raised', 'AuthService');
+
+    expect(entries().map((entry) => entry.message)).toEqual([
+      'Shown for this context',
+    ]);
+    expect(logger.getLevels()).toEqual({
+      default: 'error',
+      contexts: { FoundryService: 'debug' },
+    });
+  });
+});
@@ -1,6 +1,78 @@
-import { Injectable, LoggerService as NestLoggerService } from '@nestjs/common';
+import { Injectable, LoggerService as NestLoggerService, Scope } from '@nestjs/common';
+import { getRequestContext } from '../request-context/request-context';
 
-@Injectable()
+/**
+ * Log levels from the most to the least severe. A context logs its own level and every level before it.
+ */
+export const LOG_LEVELS = ['error', 'warn', 'log', 'debug', 'verbose'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * The level logged by default and the levels of the contexts that differ from it.
+ */
+export interface LogLevelSettings {
+  default: LogLevel;
+  contexts: Record<string, LogLevel>;
+}
+
+/**
+ * One line of log output.
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  context?: string;
+  message: string;
+  requestId?: string;
+  userId?: number;
+  method?: string;
+  route?: string;
+  trace?: string;
+}
+
+// Shared by every logger, so a level changed at runtime applies to all of them at once
+let levelSettings: LogLevelSettings | undefined;
+
+const CONSOLE_METHODS: Record<LogLevel, (line: string) => void> = {
+  error: (line) => console.error(line),
+  warn: (line) => console.warn(line),
+  log: (line) => console.log(line),
+  debug: (line) => console.debug(line),
+  verbose: (line) => console.log(line),
+};
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the levels from `LOG_LEVEL` (the default, `log` if unset) and `LOG_LEVELS` (per context, e.g. `FoundryService=debug,PrismaService=warn`).
+ */
+function loadLevelSettings(): LogLevelSettings {
+  const defaultLevel = process.env.LOG_LEVEL?.trim().toLowerCase();
+  const contexts: Record<string, LogLevel> = {};
+  for (const pair of (process.env.LOG_LEVELS || '').split(',')) {
+    const [context, level] = pair.split('=').map((part) => part?.trim());
+    if (context && isLogLevel(level?.toLowerCase())) {
+      contexts[context] = level.toLowerCase() as LogLevel;
+    }
+  }
+  return { default: isLogLevel(defaultLevel) ? defaultLevel : 'log', contexts };
+}
+
+function getLevelSettings(): LogLevelSettings {
+  // Read on first use rather than on import, so variables loaded from .env by ConfigModule are seen
+  levelSettings ??= loadLevelSettings();
+  return levelSettings;
+}
+
+/**
+ * Writes structured log lines as JSON, one per message, with the level, context and time.
+ * Within an HTTP request each line also carries the request ID, the user and the route.
+ * Transient, so every class that injects it gets its own instance to set the context of.
+ */
+@Injectable({ scope: Scope.TRANSIENT })
 export class LoggerService implements NestLoggerService {
   private context?: string;
 
@@ -9,27 +81,88 @@ export class LoggerService implements NestLoggerService {
   }
 
   log(message: string, context?: string) {
-    const logContext = context || this.context;
-    console.log(`[LOG] ${logContext ? `[${logContext}] ` : ''}${message}`);
+    this.write('log', message, context);
   }
 
   error(message: string, trace?: string, context?: string) {
-    const logContext = context || this.context;
-    console.error(`[ERROR] ${logContext ? `[${logContext}] ` : ''}${trace ? `[${trace}] ` : ''}${message}`);
+    this.write('error', message, context, trace);
   }
 
   warn(message: string, context?: string) {
-    const logContext = context || this.context;
-    console.warn(`[WARN] ${logContext ? `[${logContext}] ` : ''}${message}`);
+    this.write('warn', message, context);
   }
 
   debug(message: string, context?: string) {
-    const logContext = context = context || this.context;
-    console.debug(`[DEBUG] ${logContext ? `[${logContext}] ` : ''}${message}`);
+    this.write('debug', message, context);
   }
 
   verbose(message: string, context?: string) {
+    this.write('verbose', message, context);
+  }
+
+  /**
+   * Checks whether a context logs messages of a level.
+   * @param level The level of the message.
+   * @param context The context; defaults to the context of this logger.
+   */
+  isLevelEnabled(level: LogLevel, context = this.context): boolean {
+    const settings = getLevelSettings();
+    const threshold = (context && settings.contexts[context]) || settings.default;
+    return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(threshold);
+  }
+
+  /**
+   * Retrieves the default level and the levels of the contexts that have their own.
+   */
+  getLevels(): LogLevelSettings {
+    const settings = getLevelSettings();
+    return { default: settings.default, contexts: { ...settings.contexts } };
+  }
+
+  /**
+   * Changes the level logged by a context, or by every context without a level of its own, until the app restarts.
+   * @param level The new level.
+   * @param context The context, e.g. `FoundryService`; the default level is changed if omitted.
+   */
+  setLevel(level: LogLevel, context?: string): LogLevelSettings {
+    const settings = getLevelSettings();
+    if (context) {
+      settings.contexts[context] = level;
+    } else {
+      settings.default = level;
+    }
+    return this.getLevels();
+  }
+
+  /**
+   * Makes a context log at the default level again.
+   * @param context The context.
+   */
+  resetLevel(context: string): LogLevelSettings {
+    delete getLevelSettings().contexts[context];
+    return this.getLevels();
+  }
+
+  private write(level: LogLevel, message: string, context?: string, trace?: string) {
     const logContext = context || this.context;
-    console.log(`[VERBOSE] ${logContext ? `[${logContext}] ` : ''}${message}`);
+    if (!this.isLevelEnabled(level, logContext)) {
+      return;
+    }
+    const requestContext = getRequestContext();
+    const request = requestContext?.request;
+    const user = (request as { user?: { userId?: number } } | undefined)?.user;
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      context: logContext,
+      message: typeof message === 'string' ? message : JSON.stringify(message),
+      requestId: requestContext?.requestId,
+      userId: user?.userId,
+      method: request?.method,
+      // The route pattern once the request is routed, e.g. /foundry/:instanceId/start, so lines group by endpoint
+      route: (request?.route as { path?: string } | undefined)?.path ?? request?.path,
+      trace,
+    };
+    CONSOLE_METHODS[level](JSON.stringify(entry));
   }
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request } from 'express';
+
+/**
+ * What is known about the HTTP request being handled, wherever in its call chain the code runs.
+ */
+export interface RequestContext {
+  requestId: string;
+  request: Request;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function, and everything it starts, within the context of a request.
+ * @param context The request and its ID.
+ * @param fn The function to run.
+ */
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  fn: () => T,
+): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Retrieves the context of the request being handled, if any.
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,24 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { runWithRequestContext } from './request-context';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs passed in by a proxy or client are only kept if they cannot break a log line or header
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request an ID, taken from its `X-Request-Id` header or generated, and echoes it in the response.
+ * The rest of the request is handled within its {@link RequestContext}, so log lines and error responses can carry the ID.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    const header = request.header(REQUEST_ID_HEADER);
+    const requestId =
+      header && VALID_REQUEST_ID.test(header) ? header : randomUUID();
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+    runWithRequestContext({ requestId, request }, next);
+  }
+}
@@ -0,0 +1,35 @@
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Checks that a value is a flat object of environment variables:
+ * keys are valid shell variable names and every value is a string.
+ */
+export function isEnvRecord(value: unknown): value is Record<string, string> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(
+    ([key, entry]) => ENV_KEY_PATTERN.test(key) && typeof entry === 'string',
+  );
+}
+
+export function IsEnvRecord(
+  validationOptions?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isEnvRecord',
+      validator: {
+        validate: (value): boolean => isEnvRecord(value),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            `${eachPrefix}$property must map variable names (letters, numbers and underscores) to string values`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { InstancePermission } from '../foundry-access.service';
+
+export const INSTANCE_PERMISSION_KEY = 'instancePermission';
+
+/**
+ * Requires the current user to hold a permission on the instance named by the `instanceId` route parameter.
+ * Enforced by {@link InstancePermissionGuard}, which must run after JwtAuthGuard.
+ */
+export const RequiresInstancePermission = (permission: InstancePermission) =>
+  SetMetadata(INSTANCE_PERMISSION_KEY, permission);
@@ -0,0 +1,9 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AddInstanceMemberDto {
+  @ApiProperty({ example: 'player@example.com', description: 'The email address of the registered user to invite' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryBackupRunStatus, FoundryBackupTrigger } from '@prisma/client';
+
+export class BackupRunResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the run' })
+  id: string;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The ID of the Foundry VTT instance; null once the instance is deleted', nullable: true })
+  instanceId: string | null;
+
+  @ApiProperty({ enum: FoundryBackupTrigger, example: FoundryBackupTrigger.SCHEDULED, description: 'Whether the backup was requested by hand or by the backup schedule' })
+  trigger: FoundryBackupTrigger;
+
+  @ApiProperty({ enum: FoundryBackupRunStatus, example: FoundryBackupRunStatus.SUCCEEDED, description: 'The outcome of the run' })
+  status: FoundryBackupRunStatus;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The backup the run produced; null if it failed, was skipped or the backup has since been pruned', nullable: true })
+  backupId: string | null;
+
+  @ApiProperty({ example: 'Instance was running and the schedule skips running instances', description: 'Why the run failed or was skipped', nullable: true })
+  message: string | null;
+
+  @ApiProperty({ example: '2023-01-01T04:00:00.000Z', description: 'When the run started' })
+  startedAt: Date;
+
+  @ApiProperty({ example: '2023-01-01T04:01:30.000Z', description: 'When the run finished', nullable: true })
+  finishedAt: Date | null;
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryBackupRunningPolicy } from '@prisma/client';
+
+export class BackupScheduleResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the schedule' })
+  id: string;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The ID of the Foundry VTT instance the schedule belongs to' })
+  instanceId: string;
+
+  @ApiProperty({ example: '0 4 * * *', description: 'Cron expression for when to take backups' })
+  cron: string;
+
+  @ApiProperty({ example: 'Europe/Berlin', description: 'IANA timezone the cron expression is evaluated in' })
+  timezone: string;
+
+  @ApiProperty({ example: 7, description: 'Number of recent days whose newest scheduled backup is kept' })
+  keepDaily: number;
+
+  @ApiProperty({ example: 4, description: 'Number of recent weeks whose newest scheduled backup is kept' })
+  keepWeekly: number;
+
+  @ApiProperty({ enum: FoundryBackupRunningPolicy, example: FoundryBackupRunningPolicy.QUIESCE, description: 'What happens when a backup is due while the instance is running' })
+  runningPolicy: FoundryBackupRunningPolicy;
+
+  @ApiProperty({ example: true, description: 'Whether the schedule is active' })
+  enabled: boolean;
+
+  @ApiProperty({ example: '2023-01-02T04:00:00.000Z', description: 'When the next backup is due; null while the schedule is disabled', nullable: true })
+  nextRunAt: Date | null;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the schedule was created' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the schedule was last changed' })
+  updatedAt: Date;
+}
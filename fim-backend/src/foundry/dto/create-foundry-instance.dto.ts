@@ -1,13 +1,21 @@
-import { IsString, IsInt, Min, Max } from 'class-validator';
+import { IsString, IsInt, IsOptional, Min, Max, Matches } from 'class-validator';
+import { FoundryInstanceConfigDto } from './foundry-instance-config.dto';
 
-export class CreateFoundryInstanceDto {
+export class CreateFoundryInstanceDto extends FoundryInstanceConfigDto {
+  // The name becomes part of the Docker container name, so it must satisfy Docker's naming rules.
   @IsString()
+  @Matches(/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/, {
+    message:
+      'Name may only contain letters, numbers, underscores, periods and hyphens, and must start with a letter or number',
+  })
   name: string;
 
+  // Leave the port out to have one picked from the FIM_PORT_RANGE pool.
+  @IsOptional()
   @IsInt()
   @Min(1024) // Example: Ports below 1024 are privileged
   @Max(65535)
-  port: number;
+  port?: number;
 
   // ownerId can be added here if needed for creation
 }
\ No newline at end of file
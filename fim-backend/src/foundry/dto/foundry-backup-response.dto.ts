@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryBackupTrigger } from '@prisma/client';
+
+export class FoundryBackupResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the backup' })
+  id: string;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The ID of the Foundry VTT instance that was backed up; null once the instance is deleted', nullable: true })
+  instanceId: string | null;
+
+  @ApiProperty({ example: 'MyAwesomeFoundry', description: 'The name of the instance at the time of the backup' })
+  instanceName: string;
+
+  @ApiProperty({ example: 'MyAwesomeFoundry-2023-01-01T12-00-00-000Z.tar.gz', description: 'The archive file name inside the backup directory' })
+  fileName: string;
+
+  @ApiProperty({ example: 52428800, description: 'The size of the compressed archive in bytes' })
+  sizeBytes: number;
+
+  @ApiProperty({ example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08', description: 'SHA-256 checksum of the archive' })
+  checksum: string;
+
+  @ApiProperty({ example: '12.331', description: 'The Foundry VTT release the instance was running, as Foundry reported it; the pinned release if it was stopped', nullable: true })
+  foundryVersion: string | null;
+
+  @ApiProperty({ example: 'felddy/foundryvtt:12', description: 'The Docker image the instance was running' })
+  image: string;
+
+  @ApiProperty({ enum: FoundryBackupTrigger, example: FoundryBackupTrigger.MANUAL, description: 'Whether the backup was requested by hand or taken by the backup schedule' })
+  trigger: FoundryBackupTrigger;
+
+  @ApiProperty({ example: 1, description: 'The ID of the user who requested the backup', nullable: true })
+  createdById: number | null;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the backup was taken' })
+  createdAt: Date;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class FoundryHealthSampleResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the sample' })
+  id: string;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The ID of the Foundry VTT instance' })
+  instanceId: string;
+
+  @ApiProperty({ example: 'healthy', enum: ['healthy', 'degraded', 'unhealthy'], description: 'The health status of the instance at the time' })
+  healthStatus: string;
+
+  @ApiProperty({ example: 'curse-of-strahd', description: 'The world being played; null while Foundry was on its setup screen', nullable: true })
+  world: string | null;
+
+  @ApiProperty({ example: 'dnd5e', description: 'The game system of the world', nullable: true })
+  system: string | null;
+
+  @ApiProperty({ example: '3.3.1', description: 'The version of the game system', nullable: true })
+  systemVersion: string | null;
+
+  @ApiProperty({ example: '12.331', description: 'The version of Foundry VTT', nullable: true })
+  foundryVersion: string | null;
+
+  @ApiProperty({ example: 3, description: 'Number of players connected to the world', nullable: true })
+  users: number | null;
+
+  @ApiProperty({ example: 42, description: 'How long Foundry took to answer, in milliseconds', nullable: true })
+  responseTimeMs: number | null;
+
+  @ApiProperty({ example: 'connect ECONNREFUSED 127.0.0.1:30001', description: 'Why the instance was not healthy', nullable: true })
+  error: string | null;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the check ran' })
+  checkedAt: Date;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryInstanceResponseDto } from './foundry-instance-response.dto';
+import { FoundryJobResponseDto } from './foundry-job-response.dto';
+
+export class FoundryInstanceConfigUpdateResponseDto {
+  @ApiProperty({ type: FoundryInstanceResponseDto, description: 'The instance with its new configuration' })
+  instance: FoundryInstanceResponseDto;
+
+  @ApiProperty({ type: FoundryJobResponseDto, description: 'The job recreating the container with the new configuration; null if the instance has no container yet', nullable: true })
+  job: FoundryJobResponseDto | null;
+}
@@ -0,0 +1,52 @@
+import { IsString, IsInt, IsNumber, IsEnum, IsOptional, Matches, Min, Max, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryRestartPolicy } from '@prisma/client';
+import { IsEnvRecord } from '../../common/validators/is-env-record.validator';
+
+// Per-instance container settings. Every field is optional: omitted fields keep their current (or default) value.
+// Nullable fields can be set to null to clear them, e.g. to remove a memory limit.
+export class FoundryInstanceConfigDto {
+  @ApiProperty({ example: 'felddy/foundryvtt', description: 'The Docker image to run, without a tag', required: false })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @Matches(/^[a-z0-9]+([._-][a-z0-9]+)*(:[0-9]+)?(\/[a-z0-9]+([._-][a-z0-9]+)*)*$/, {
+    message: 'Image must be a Docker image name without a tag, e.g. felddy/foundryvtt',
+  })
+  image?: string;
+
+  @ApiProperty({ example: '12', description: 'The image tag; for felddy/foundryvtt this selects the Foundry VTT major version', required: false })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @Matches(/^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/, { message: 'Image tag must be a valid Docker tag' })
+  imageTag?: string;
+
+  @ApiProperty({ example: '12.331', description: 'Exact Foundry VTT release to install, passed to the container as FOUNDRY_VERSION', required: false, nullable: true })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d+(\.\d+)*$/, { message: 'Foundry version must look like 12 or 12.331' })
+  foundryVersion?: string | null;
+
+  @ApiProperty({ example: 2048, description: 'Hard memory limit for the container in megabytes', required: false, nullable: true })
+  @IsOptional()
+  @IsInt()
+  @Min(256)
+  @Max(65536)
+  memoryLimitMb?: number | null;
+
+  @ApiProperty({ example: 1.5, description: 'Number of CPUs the container may use', required: false, nullable: true })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.1)
+  @Max(64)
+  cpuLimit?: number | null;
+
+  @ApiProperty({ example: { FOUNDRY_ADMIN_KEY: 'secret' }, description: 'Extra environment variables; they override the server-wide Foundry credentials', required: false })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsEnvRecord()
+  env?: Record<string, string>;
+
+  @ApiProperty({ example: 'UNLESS_STOPPED', enum: FoundryRestartPolicy, description: 'What Docker does when the container exits', required: false })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsEnum(FoundryRestartPolicy)
+  restartPolicy?: FoundryRestartPolicy;
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * What Foundry's status API reported in the latest health check of an instance.
+ */
+export class FoundryStatusDto {
+  @ApiProperty({ example: 'curse-of-strahd', description: 'The world being played; null while Foundry is on its setup screen', nullable: true })
+  world: string | null;
+
+  @ApiProperty({ example: 'dnd5e', description: 'The game system of the world', nullable: true })
+  system: string | null;
+
+  @ApiProperty({ example: '3.3.1', description: 'The version of the game system', nullable: true })
+  systemVersion: string | null;
+
+  @ApiProperty({ example: '12.331', description: 'The version of Foundry VTT', nullable: true })
+  foundryVersion: string | null;
+
+  @ApiProperty({ example: 3, description: 'Number of players connected to the world', nullable: true })
+  users: number | null;
+
+  @ApiProperty({ example: 42, description: 'How long Foundry took to answer, in milliseconds', nullable: true })
+  responseTimeMs: number | null;
+
+  @ApiProperty({ example: null, description: 'Why the instance is not healthy', nullable: true })
+  error: string | null;
+}
+
+export class FoundryInstanceHealthResponseDto extends FoundryStatusDto {
+  @ApiProperty({ example: 'healthy', enum: ['healthy', 'degraded', 'unhealthy', 'unknown'], description: 'The health status of the Foundry VTT instance (unknown unless it is running; degraded while it serves no world)' })
+  healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+class FoundryInstanceMemberUserDto {
+  @ApiProperty({ example: 2, description: 'The ID of the user' })
+  id: number;
+
+  @ApiProperty({ example: 'player@example.com', description: 'The email address of the user' })
+  email: string;
+
+  @ApiProperty({ example: 'Jane', description: 'The first name of the user' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe', description: 'The last name of the user' })
+  lastName: string;
+}
+
+export class FoundryInstanceMemberResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the membership' })
+  id: string;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The ID of the Foundry VTT instance' })
+  instanceId: string;
+
+  @ApiProperty({ example: 2, description: 'The ID of the invited user' })
+  userId: number;
+
+  @ApiProperty({ example: 1, description: 'The ID of the user who sent the invitation', nullable: true })
+  invitedById: number | null;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the user was invited' })
+  createdAt: Date;
+
+  @ApiProperty({ type: FoundryInstanceMemberUserDto, description: 'The invited user' })
+  user: FoundryInstanceMemberUserDto;
+}
@@ -1,4 +1,6 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FoundryRestartPolicy } from '@prisma/client';
+import { FoundryStatusDto } from './foundry-instance-health-response.dto';
 
 export class FoundryInstanceResponseDto {
   @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the Foundry VTT instance' })
@@ -19,12 +21,42 @@ export class FoundryInstanceResponseDto {
   @ApiProperty({ example: 1, description: 'The ID of the user who owns this instance (optional)', nullable: true })
   ownerId: number | null;
 
+  @ApiProperty({ example: 'felddy/foundryvtt', description: 'The Docker image the instance runs' })
+  image: string;
+
+  @ApiProperty({ example: '12', description: 'The tag of the Docker image' })
+  imageTag: string;
+
+  @ApiProperty({ example: '12.331', description: 'The Foundry VTT release passed to the container as FOUNDRY_VERSION', nullable: true })
+  foundryVersion: string | null;
+
+  @ApiProperty({ example: 2048, description: 'Hard memory limit in megabytes', nullable: true })
+  memoryLimitMb: number | null;
+
+  @ApiProperty({ example: 1.5, description: 'Number of CPUs the container may use', nullable: true })
+  cpuLimit: number | null;
+
+  @ApiPropertyOptional({ example: { FOUNDRY_ADMIN_KEY: 'secret' }, description: 'Extra environment variables for the container; only sent to users who may manage the instance' })
+  env?: unknown;
+
+  @ApiPropertyOptional({ example: ['FOUNDRY_ADMIN_KEY'], description: 'The names of the extra environment variables; sent instead of env to invited players', type: [String] })
+  envKeys?: string[];
+
+  @ApiProperty({ example: 'UNLESS_STOPPED', enum: FoundryRestartPolicy, description: 'What Docker does when the container exits' })
+  restartPolicy: FoundryRestartPolicy;
+
+  @ApiProperty({ example: '2023-01-06T19:00:00.000Z', description: 'When the next game session on this instance starts', nullable: true })
+  nextSessionAt: Date | null;
+
   @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'The date and time when the instance was created' })
   createdAt: Date;
 
   @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'The date and time when the instance was last updated' })
   updatedAt: Date;
 
-  @ApiProperty({ example: 'healthy', enum: ['healthy', 'unhealthy', 'unknown', 'checking'], description: 'The health status of the Foundry VTT instance' })
-  healthStatus: 'healthy' | 'unhealthy' | 'unknown' | 'checking';
+  @ApiProperty({ example: 'healthy', enum: ['healthy', 'degraded', 'unhealthy', 'unknown', 'checking'], description: 'The health status of the Foundry VTT instance' })
+  healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking';
+
+  @ApiPropertyOptional({ type: () => FoundryStatusDto, description: 'What Foundry reported in the latest health check; null unless the instance is running', nullable: true })
+  foundryStatus?: FoundryStatusDto | null;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryJobType } from '@prisma/client';
+
+export class FoundryJobResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the job' })
+  id: string;
+
+  @ApiProperty({ example: 'CREATE', enum: FoundryJobType, description: 'The lifecycle operation performed by the job' })
+  type: FoundryJobType;
+
+  @ApiProperty({ example: 'RUNNING', enum: ['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED'], description: 'The current state of the job' })
+  status: 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+  @ApiProperty({ example: 15, description: 'Completion percentage between 0 and 100' })
+  progress: number;
+
+  @ApiProperty({ example: 'Pulling image felddy/foundryvtt:latest', description: 'The step the job is currently on', nullable: true })
+  message: string | null;
+
+  @ApiProperty({ example: null, description: 'Why the job failed (if it did)', nullable: true })
+  error: string | null;
+
+  @ApiProperty({ example: { backupId: 'clsm00000000000000000000' }, description: 'Extra arguments for the operation, e.g. the backup to restore', nullable: true })
+  payload: unknown;
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The ID of the Foundry VTT instance; null once a deleted instance is gone', nullable: true })
+  instanceId: string | null;
+
+  @ApiProperty({ example: 1, description: 'The ID of the user who requested the job', nullable: true })
+  requestedById: number | null;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the job was queued' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2023-01-01T12:00:01.000Z', description: 'When the worker picked the job up', nullable: true })
+  startedAt: Date | null;
+
+  @ApiProperty({ example: '2023-01-01T12:02:00.000Z', description: 'When the job succeeded or failed', nullable: true })
+  finishedAt: Date | null;
+}
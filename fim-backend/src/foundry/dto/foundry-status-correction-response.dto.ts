@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class FoundryStatusCorrectionResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the correction' })
+  id: string;
+
+  @ApiProperty({ example: 'STATUS_DRIFT', enum: ['STATUS_DRIFT', 'CONTAINER_MISSING', 'ORPHAN_ADOPTED', 'ORPHAN_REPORTED'], description: 'What the reconciler found' })
+  kind: 'STATUS_DRIFT' | 'CONTAINER_MISSING' | 'ORPHAN_ADOPTED' | 'ORPHAN_REPORTED';
+
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The affected Foundry VTT instance (null for unadopted orphans)', nullable: true })
+  instanceId: string | null;
+
+  @ApiProperty({ example: 'a1b2c3d4e5f6', description: 'The Docker container involved', nullable: true })
+  containerId: string | null;
+
+  @ApiProperty({ example: 'foundry-MyAwesomeFoundry', description: 'The Docker container name (recorded for orphans)', nullable: true })
+  containerName: string | null;
+
+  @ApiProperty({ example: 'RUNNING', enum: ['CREATING', 'RUNNING', 'STOPPED', 'ERROR', 'DELETING'], description: 'The instance status before the correction', nullable: true })
+  previousStatus: 'CREATING' | 'RUNNING' | 'STOPPED' | 'ERROR' | 'DELETING' | null;
+
+  @ApiProperty({ example: 'STOPPED', enum: ['CREATING', 'RUNNING', 'STOPPED', 'ERROR', 'DELETING'], description: 'The instance status after the correction', nullable: true })
+  newStatus: 'CREATING' | 'RUNNING' | 'STOPPED' | 'ERROR' | 'DELETING' | null;
+
+  @ApiProperty({ example: 'Container a1b2c3d4e5f6 is exited (exit code 137) but instance was RUNNING', description: 'Why the correction was made' })
+  reason: string;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'When the correction was made' })
+  createdAt: Date;
+}
+
+export class ReconciliationSummaryResponseDto {
+  @ApiProperty({ example: 3, description: 'The number of instances that were checked' })
+  checked: number;
+
+  @ApiProperty({ type: [FoundryStatusCorrectionResponseDto], description: 'The corrections made during this pass' })
+  corrections: FoundryStatusCorrectionResponseDto[];
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MyFoundryGameResponseDto {
+  @ApiProperty({ example: 'clsm00000000000000000000', description: 'The unique identifier of the Foundry VTT instance' })
+  id: string;
+
+  @ApiProperty({ example: 'MyAwesomeFoundry', description: 'The name of the Foundry VTT instance' })
+  name: string;
+
+  @ApiProperty({ example: 'RUNNING', enum: ['CREATING', 'RUNNING', 'STOPPED', 'ERROR', 'DELETING'], description: 'The current status of the Foundry VTT instance' })
+  status: 'CREATING' | 'RUNNING' | 'STOPPED' | 'ERROR' | 'DELETING';
+
+  @ApiProperty({ example: 'healthy', enum: ['healthy', 'degraded', 'unhealthy', 'unknown', 'checking'], description: 'The health status of the Foundry VTT instance' })
+  healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking';
+
+  @ApiProperty({ example: 30000, description: 'The host port mapped to the Foundry VTT instance' })
+  port: number;
+
+  @ApiProperty({ example: 'https://games.example.com:30000', description: 'The URL players open to join the game' })
+  joinUrl: string;
+
+  @ApiProperty({ example: '2023-01-06T19:00:00.000Z', description: 'When the next game session starts', nullable: true })
+  nextSessionAt: Date | null;
+
+  @ApiProperty({ example: 'MEMBER', enum: ['OWNER', 'MEMBER'], description: 'Whether the current user runs this game or was invited to it' })
+  access: 'OWNER' | 'MEMBER';
+}
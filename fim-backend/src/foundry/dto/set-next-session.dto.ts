@@ -0,0 +1,9 @@
+import { IsDateString, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetNextSessionDto {
+  @ApiProperty({ example: '2023-01-06T19:00:00.000Z', description: 'When the next game session starts (ISO 8601), or null to clear it', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsDateString()
+  nextSessionAt: string | null;
+}
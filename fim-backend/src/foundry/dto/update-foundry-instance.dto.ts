@@ -0,0 +1,9 @@
+import { IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateFoundryInstanceDto {
+  @ApiProperty({ example: '13', description: 'The newer image tag to move the instance to; for felddy/foundryvtt this selects the Foundry VTT version' })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/, { message: 'Image tag must be a valid Docker tag' })
+  imageTag: string;
+}
@@ -0,0 +1,40 @@
+import { IsString, IsInt, IsEnum, IsBoolean, IsOptional, IsNotEmpty, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { FoundryBackupRunningPolicy } from '@prisma/client';
+
+// Replaces the whole schedule; omitted optional fields fall back to their defaults.
+export class UpsertBackupScheduleDto {
+  @ApiProperty({ example: '0 4 * * *', description: 'Cron expression for when to take backups (5 or 6 fields, seconds first when 6)' })
+  @IsString()
+  @IsNotEmpty()
+  cron: string;
+
+  @ApiProperty({ example: 'Europe/Berlin', description: 'IANA timezone the cron expression is evaluated in', required: false, default: 'UTC' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiProperty({ example: 7, description: 'Keep the newest scheduled backup of this many recent days', required: false, default: 7 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  keepDaily?: number;
+
+  @ApiProperty({ example: 4, description: 'Keep the newest scheduled backup of this many recent weeks', required: false, default: 4 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(104)
+  keepWeekly?: number;
+
+  @ApiProperty({ enum: FoundryBackupRunningPolicy, example: FoundryBackupRunningPolicy.QUIESCE, description: 'What to do when the instance is running: SKIP the backup, QUIESCE (stop it while archiving) or back it up LIVE', required: false, default: FoundryBackupRunningPolicy.QUIESCE })
+  @IsOptional()
+  @IsEnum(FoundryBackupRunningPolicy)
+  runningPolicy?: FoundryBackupRunningPolicy;
+
+  @ApiProperty({ example: true, description: 'Whether the schedule is active', required: false, default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,214 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  FoundryInstance,
+  FoundryInstanceMember,
+  FoundryInstanceStatus,
+  FoundryRestartPolicy,
+  Role,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryAccessService } from './foundry-access.service';
+
+describe('FoundryAccessService', () => {
+  let service: FoundryAccessService;
+  let members: FoundryInstanceMember[];
+
+  const instance: FoundryInstance = {
+    id: 'instance-1',
+    name: 'campaign',
+    port: 30001,
+    status: FoundryInstanceStatus.STOPPED,
+    dockerContainerId: null,
+    ownerId: 7,
+    image: 'felddy/foundryvtt',
+    imageTag: 'latest',
+    foundryVersion: null,
+    memoryLimitMb: null,
+    cpuLimit: null,
+    env: {},
+    restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+    nextSessionAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const authUser = (userId: number, email: string, role: Role) => ({
+    userId,
+    email,
+    role,
+    sessionId: `session-${userId}`,
+  });
+  const admin = authUser(1, 'admin@example.com', Role.ADMIN);
+  const owner = authUser(7, 'gm@example.com', Role.GM);
+  const member = authUser(8, 'player@example.com', Role.PLAYER);
+  const stranger = authUser(9, 'stranger@example.com', Role.PLAYER);
+
+  beforeEach(() => {
+    members = [
+      {
+        id: 'member-1',
+        instanceId: instance.id,
+        userId: member.userId,
+        invitedById: owner.userId,
+        createdAt: new Date(),
+      },
+    ];
+    const users = [member, stranger].map((user) => ({
+      id: user.userId,
+      email: user.email,
+    }));
+    const findMember = ({
+      where,
+    }: {
+      where: { instanceId_userId: { instanceId: string; userId: number } };
+    }) =>
+      Promise.resolve(
+        members.find(
+          (m) =>
+            m.instanceId === where.instanceId_userId.instanceId &&
+            m.userId === where.instanceId_userId.userId,
+        ) ?? null,
+      );
+    const prisma = {
+      foundryInstance: {
+        findUnique: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(where.id === instance.id ? instance : null),
+        ),
+      },
+      foundryInstanceMember: {
+        findUnique: jest.fn(findMember),
+        create: jest.fn(
+          ({
+            data,
+          }: {
+            data: Omit<FoundryInstanceMember, 'id' | 'createdAt'>;
+          }) => {
+            const created = {
+              id: `member-${members.length + 1}`,
+              createdAt: new Date(),
+              ...data,
+            };
+            members.push(created);
+            return Promise.resolve(created);
+          },
+        ),
+        deleteMany: jest.fn(
+          ({ where }: { where: { instanceId: string; userId: number } }) => {
+            const before = members.length;
+            members = members.filter(
+              (m) =>
+                m.instanceId !== where.instanceId || m.userId !== where.userId,
+            );
+            return Promise.resolve({ count: before - members.length });
+          },
+        ),
+      },
+      user: {
+        findUnique: jest.fn(({ where }: { where: { email: string } }) =>
+          Promise.resolve(users.find((u) => u.email === where.email) ?? null),
+        ),
+      },
+    };
+    service = new FoundryAccessService(
+      new LoggerService(),
+      prisma as unknown as PrismaService,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('assertPermission', () => {
+    it('lets admins and owners manage an instance', async () => {
+      await expect(
+        service.assertPermission(admin, instance.id, 'manage'),
+      ).resolves.toBe(instance);
+      await expect(
+        service.assertPermission(owner, instance.id, 'manage'),
+      ).resolves.toBe(instance);
+    });
+
+    it('only lets members view an instance', async () => {
+      await expect(
+        service.assertPermission(member, instance.id, 'view'),
+      ).resolves.toBe(instance);
+      await expect(
+        service.assertPermission(member, instance.id, 'operate'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('hides instances from users who have not been invited', async () => {
+      await expect(
+        service.assertPermission(stranger, instance.id, 'view'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('does not grant a GM access to instances owned by someone else', async () => {
+      await expect(
+        service.assertPermission(
+          authUser(10, 'other-gm@example.com', Role.GM),
+          instance.id,
+          'view',
+        ),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('hideSecretsFrom', () => {
+    const withEnv = {
+      ...instance,
+      env: { FOUNDRY_ADMIN_KEY: 'secret', FOUNDRY_PASSWORD: 'hunter2' },
+    };
+
+    it('sends the environment to admins and owners', () => {
+      expect(service.hideSecretsFrom(admin, withEnv)).toBe(withEnv);
+      expect(service.hideSecretsFrom(owner, withEnv)).toBe(withEnv);
+    });
+
+    it('only sends members the names of the variables', () => {
+      const hidden = service.hideSecretsFrom(member, withEnv);
+
+      expect(hidden).not.toHaveProperty('env');
+      expect(hidden).toMatchObject({
+        id: instance.id,
+        envKeys: ['FOUNDRY_ADMIN_KEY', 'FOUNDRY_PASSWORD'],
+      });
+    });
+  });
+
+  describe('members', () => {
+    it('invites a registered user by email', async () => {
+      await service.addMember(instance.id, stranger.email, owner.userId);
+
+      await expect(
+        service.assertPermission(stranger, instance.id, 'view'),
+      ).resolves.toBe(instance);
+    });
+
+    it('refuses to invite existing members and unknown users', async () => {
+      await expect(
+        service.addMember(instance.id, member.email, owner.userId),
+      ).rejects.toBeInstanceOf(ConflictException);
+      await expect(
+        service.addMember(instance.id, 'nobody@example.com', owner.userId),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('removes a member', async () => {
+      await service.removeMember(instance.id, member.userId);
+
+      await expect(
+        service.assertPermission(member, instance.id, 'view'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      await expect(
+        service.removeMember(instance.id, member.userId),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
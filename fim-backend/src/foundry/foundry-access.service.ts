@@ -0,0 +1,249 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  FoundryInstance,
+  FoundryInstanceMember,
+  Prisma,
+  Role,
+  User,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+
+/**
+ * What a user may do with a single instance:
+ * `view` its status and health, `operate` it (start, stop, restart), or `manage` it (backups, members, deletion).
+ */
+export type InstancePermission = 'view' | 'operate' | 'manage';
+
+export type FoundryInstanceMemberWithUser = FoundryInstanceMember & {
+  user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'>;
+};
+
+const MEMBER_USER_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+} as const;
+
+/**
+ * Decides per instance what a user may do, on top of their global {@link Role}.
+ * Admins may do anything; the owner of an instance may view, operate and manage it;
+ * members, i.e. players invited to the instance, may only view it.
+ */
+@Injectable()
+export class FoundryAccessService {
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly prisma: PrismaService,
+  ) {
+    this.logger.setContext(FoundryAccessService.name);
+  }
+
+  /**
+   * Lists the permissions a user holds on an instance.
+   * @param user The authenticated user.
+   * @param instance The Foundry VTT instance.
+   * @param isMember Whether the user has been invited to the instance.
+   */
+  permissionsFor(
+    user: AuthenticatedRequest['user'],
+    instance: Pick<FoundryInstance, 'ownerId'>,
+    isMember: boolean,
+  ): InstancePermission[] {
+    if (user.role === Role.ADMIN || instance.ownerId === user.userId) {
+      return ['view', 'operate', 'manage'];
+    }
+    return isMember ? ['view'] : [];
+  }
+
+  /**
+   * Makes sure a user holds a permission on an instance.
+   * Instances the user cannot see at all are reported as missing so their existence is not revealed.
+   * @param user The authenticated user.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param permission The permission the user needs.
+   * @returns The instance.
+   * @throws NotFoundException if the instance is not found or not visible to the user.
+   * @throws ForbiddenException if the user can see the instance but lacks the permission.
+   */
+  async assertPermission(
+    user: AuthenticatedRequest['user'],
+    instanceId: string,
+    permission: InstancePermission,
+  ): Promise<FoundryInstance> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    const membership =
+      instance &&
+      (await this.prisma.foundryInstanceMember.findUnique({
+        where: { instanceId_userId: { instanceId, userId: user.userId } },
+      }));
+    const permissions = instance
+      ? this.permissionsFor(user, instance, !!membership)
+      : [];
+    if (!instance || !permissions.includes('view')) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} not found.`,
+      );
+    }
+    if (!permissions.includes(permission)) {
+      throw new ForbiddenException(
+        `You do not have permission to ${permission} Foundry instance ${instance.name}.`,
+      );
+    }
+    return instance;
+  }
+
+  /**
+   * Replaces the container environment of an instance with the names of its variables unless the user may manage it.
+   * The values include the Foundry license, passwords and the admin key.
+   * @param user The authenticated user.
+   * @param instance The Foundry VTT instance, as about to be sent to the user.
+   */
+  hideSecretsFrom<T extends Pick<FoundryInstance, 'ownerId' | 'env'>>(
+    user: AuthenticatedRequest['user'],
+    instance: T,
+  ): T | (Omit<T, 'env'> & { envKeys: string[] }) {
+    // Membership never grants `manage`, so it does not need to be looked up here
+    if (this.permissionsFor(user, instance, false).includes('manage')) {
+      return instance;
+    }
+    const { env, ...rest } = instance;
+    return {
+      ...rest,
+      envKeys: Object.keys((env ?? {}) as Record<string, unknown>).sort(),
+    };
+  }
+
+  /**
+   * Builds a filter that matches the instances a user can see.
+   */
+  visibleInstancesWhere(
+    user: AuthenticatedRequest['user'],
+  ): Prisma.FoundryInstanceWhereInput {
+    if (user.role === Role.ADMIN) {
+      return {};
+    }
+    return this.ownOrInvitedInstancesWhere(user.userId);
+  }
+
+  /**
+   * Builds a filter that matches the instances a user owns or has been invited to, regardless of their role.
+   */
+  ownOrInvitedInstancesWhere(userId: number): Prisma.FoundryInstanceWhereInput {
+    return {
+      OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+    };
+  }
+
+  /**
+   * Gets the IDs of the instances a user has been invited to.
+   */
+  async memberInstanceIds(userId: number): Promise<Set<string>> {
+    const memberships = await this.prisma.foundryInstanceMember.findMany({
+      where: { userId },
+      select: { instanceId: true },
+    });
+    return new Set(memberships.map((membership) => membership.instanceId));
+  }
+
+  /**
+   * Lists the players invited to an instance, oldest invitation first.
+   * @param instanceId The ID of the Foundry VTT instance.
+   */
+  async listMembers(
+    instanceId: string,
+  ): Promise<FoundryInstanceMemberWithUser[]> {
+    return this.prisma.foundryInstanceMember.findMany({
+      where: { instanceId },
+      include: { user: { select: MEMBER_USER_SELECT } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async findInstance(instanceId: string): Promise<FoundryInstance> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    if (!instance) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} not found.`,
+      );
+    }
+    return instance;
+  }
+
+  /**
+   * Invites a user to an instance.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param email The email address of the user to invite.
+   * @param invitedById The ID of the user sending the invitation.
+   * @returns The new membership.
+   * @throws NotFoundException if the instance is not found or no user has that email address.
+   * @throws ConflictException if the user owns the instance or is already a member.
+   */
+  async addMember(
+    instanceId: string,
+    email: string,
+    invitedById: number,
+  ): Promise<FoundryInstanceMemberWithUser> {
+    const instance = await this.findInstance(instanceId);
+    const user = await this.prisma.user.findUnique({ where: { email } });
+    if (!user) {
+      throw new NotFoundException(`User with email ${email} not found.`);
+    }
+    if (user.id === instance.ownerId) {
+      throw new ConflictException(
+        `${email} already owns Foundry instance ${instance.name}.`,
+      );
+    }
+    const existing = await this.prisma.foundryInstanceMember.findUnique({
+      where: {
+        instanceId_userId: { instanceId: instance.id, userId: user.id },
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `${email} is already a member of Foundry instance ${instance.name}.`,
+      );
+    }
+
+    const member = await this.prisma.foundryInstanceMember.create({
+      data: { instanceId: instance.id, userId: user.id, invitedById },
+      include: { user: { select: MEMBER_USER_SELECT } },
+    });
+    this.logger.log(
+      `User ${user.id} invited to Foundry instance ${instance.name} by user ${invitedById}`,
+    );
+    return member;
+  }
+
+  /**
+   * Removes a user from an instance.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param userId The ID of the member to remove.
+   * @throws NotFoundException if the instance is not found or the user is not a member of it.
+   */
+  async removeMember(instanceId: string, userId: number): Promise<void> {
+    const instance = await this.findInstance(instanceId);
+    const { count } = await this.prisma.foundryInstanceMember.deleteMany({
+      where: { instanceId: instance.id, userId },
+    });
+    if (count === 0) {
+      throw new NotFoundException(
+        `User ${userId} is not a member of Foundry instance ${instance.name}.`,
+      );
+    }
+    this.logger.log(
+      `User ${userId} removed from Foundry instance ${instance.name}`,
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryRestartPolicy,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { MailService } from '../mail/mail.service';
+import { InMemoryMailTransport } from '../mail/transports/in-memory.transport';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryAlertsService } from './foundry-alerts.service';
+import { FoundryEventsService } from './foundry-events.service';
+
+describe('FoundryAlertsService', () => {
+  let service: FoundryAlertsService;
+  let events: FoundryEventsService;
+  let transport: InMemoryMailTransport;
+  let owner: { email: string; isActive: boolean } | null;
+
+  const instance = (
+    status: FoundryInstanceStatus = FoundryInstanceStatus.RUNNING,
+  ): FoundryInstance => ({
+    id: 'instance-1',
+    name: 'campaign',
+    port: 30001,
+    status,
+    dockerContainerId: 'abc',
+    ownerId: 7,
+    image: 'felddy/foundryvtt',
+    imageTag: 'latest',
+    foundryVersion: null,
+    memoryLimitMb: null,
+    cpuLimit: null,
+    env: {},
+    restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+    nextSessionAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  // Lets the asynchronous alert handlers finish
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    owner = { email: 'gm@example.com', isActive: true };
+    transport = new InMemoryMailTransport();
+    events = new FoundryEventsService();
+    const prisma = {
+      foundryInstance: {
+        findUnique: jest.fn(() => Promise.resolve({ ...instance(), owner })),
+      },
+      user: {
+        findMany: jest.fn(() =>
+          Promise.resolve([{ email: 'admin@example.com' }]),
+        ),
+      },
+    };
+    const config = { get: () => undefined } as unknown as ConfigService;
+    service = new FoundryAlertsService(
+      new LoggerService(),
+      config,
+      prisma as unknown as PrismaService,
+      events,
+      new MailService(transport, config, new LoggerService()),
+    );
+    service.onModuleInit();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('alerts the owner once when an instance goes down and again when it recovers', async () => {
+    events.publishHealth(instance(), 'unhealthy');
+    events.publishStatus(instance(FoundryInstanceStatus.ERROR));
+    await flush();
+    events.publishHealth(instance(), 'healthy');
+    await flush();
+
+    expect(transport.sentTo('gm@example.com').map((m) => m.subject)).toEqual([
+      'campaign is down',
+      'campaign is back up',
+    ]);
+  });
+
+  it('does not report a recovery for an instance that was not down', async () => {
+    events.publishHealth(instance(), 'healthy');
+    await flush();
+
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('treats stopping a down instance as the end of the outage', async () => {
+    events.publishHealth(instance(), 'unhealthy');
+    await flush();
+    events.publishStatus(instance(FoundryInstanceStatus.STOPPED));
+    events.publishHealth(instance(), 'healthy');
+    await flush();
+
+    expect(transport.sent.map((m) => m.subject)).toEqual(['campaign is down']);
+  });
+
+  it('alerts the admins when the instance has no active owner', async () => {
+    owner = null;
+    events.publishStatus(instance(FoundryInstanceStatus.ERROR));
+    await flush();
+
+    expect(transport.sentTo('admin@example.com')).toHaveLength(1);
+  });
+});
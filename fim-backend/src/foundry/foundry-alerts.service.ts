@@ -0,0 +1,129 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FoundryInstanceStatus, Role } from '@prisma/client';
+import { Subscription } from 'rxjs';
+import { LoggerService } from '../common/logger/logger.service';
+import { MailService } from '../mail/mail.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryEvent } from './interfaces/foundry-event.interface';
+
+/**
+ * Emails the owner of an instance (or the admins, for instances without an owner) when it goes down
+ * and when it comes back up. An instance counts as down once a health check fails or its container errors out;
+ * alerts are only sent on transitions, so a flapping check does not flood anyone's inbox.
+ * Disable with `FIM_INSTANCE_ALERTS=false`.
+ */
+@Injectable()
+export class FoundryAlertsService implements OnModuleInit, OnModuleDestroy {
+  private readonly downInstances = new Set<string>();
+  private subscription?: Subscription;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly foundryEventsService: FoundryEventsService,
+    private readonly mailService: MailService,
+  ) {
+    this.logger.setContext(FoundryAlertsService.name);
+  }
+
+  onModuleInit(): void {
+    if (this.configService.get<string>('FIM_INSTANCE_ALERTS') === 'false') {
+      this.logger.log('Instance alerts are disabled');
+      return;
+    }
+    this.subscription = this.foundryEventsService.stream.subscribe(
+      (event) =>
+        void this.handle(event).catch((error: Error) =>
+          this.logger.error(
+            `Failed to send alert for instance ${event.instanceId}: ${error.message}`,
+          ),
+        ),
+    );
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  async handle(event: FoundryEvent): Promise<void> {
+    if (!event.instanceId) {
+      return;
+    }
+    switch (event.type) {
+      case 'health':
+        if (event.data.healthStatus === 'unhealthy') {
+          await this.markDown(
+            event.instanceId,
+            'The instance stopped answering health checks.',
+          );
+        } else if (event.data.healthStatus === 'healthy') {
+          await this.markUp(event.instanceId);
+        }
+        break;
+      case 'status':
+        if (event.data.status === FoundryInstanceStatus.ERROR) {
+          await this.markDown(
+            event.instanceId,
+            'The container is in an error state.',
+          );
+        } else if (event.data.status === FoundryInstanceStatus.STOPPED) {
+          // Stopping an instance on purpose is not an outage, and the next start should not report a recovery
+          this.downInstances.delete(event.instanceId);
+        }
+        break;
+      case 'deleted':
+        this.downInstances.delete(event.instanceId);
+        break;
+    }
+  }
+
+  private async markDown(instanceId: string, reason: string): Promise<void> {
+    if (this.downInstances.has(instanceId)) {
+      return;
+    }
+    this.downInstances.add(instanceId);
+    await this.alert(instanceId, 'down', reason);
+  }
+
+  private async markUp(instanceId: string): Promise<void> {
+    if (!this.downInstances.delete(instanceId)) {
+      return;
+    }
+    await this.alert(instanceId, 'up');
+  }
+
+  private async alert(
+    instanceId: string,
+    state: 'up' | 'down',
+    reason?: string,
+  ): Promise<void> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+      include: { owner: { select: { email: true, isActive: true } } },
+    });
+    if (!instance) {
+      return;
+    }
+    const recipients =
+      instance.owner && instance.owner.isActive
+        ? [instance.owner.email]
+        : (
+            await this.prisma.user.findMany({
+              where: { role: Role.ADMIN, isActive: true },
+              select: { email: true },
+            })
+          ).map((admin) => admin.email);
+    this.logger.log(
+      `Instance ${instance.name} is ${state}; alerting ${recipients.length} recipient(s)`,
+    );
+    await this.mailService.sendInstanceAlert(
+      recipients,
+      instance.name,
+      state,
+      reason,
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  FoundryBackupRunningPolicy,
+  FoundryBackupSchedule,
+  FoundryBackupTrigger,
+  FoundryJobType,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryBackupScheduler } from './foundry-backup-scheduler.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import { FoundryJobsService } from './foundry-jobs.service';
+
+describe('FoundryBackupScheduler', () => {
+  let scheduler: FoundryBackupScheduler;
+  let registry: SchedulerRegistry;
+  let schedules: FoundryBackupSchedule[];
+  let jobsService: { enqueue: jest.Mock };
+  let backupsService: { recordSkippedRun: jest.Mock };
+
+  beforeEach(() => {
+    schedules = [];
+    registry = new SchedulerRegistry();
+    const prisma = {
+      foundryInstance: {
+        findUnique: jest.fn(() =>
+          Promise.resolve({ id: 'instance-1', name: 'campaign' }),
+        ),
+      },
+      foundryBackupSchedule: {
+        findMany: jest.fn(() =>
+          Promise.resolve(schedules.filter((s) => s.enabled)),
+        ),
+        findUnique: jest.fn(({ where }: { where: { instanceId: string } }) =>
+          Promise.resolve(
+            schedules.find((s) => s.instanceId === where.instanceId) ?? null,
+          ),
+        ),
+        upsert: jest.fn(
+          ({
+            where,
+            create,
+            update,
+          }: {
+            where: { instanceId: string };
+            create: Partial<FoundryBackupSchedule>;
+            update: Partial<FoundryBackupSchedule>;
+          }) => {
+            const existing = schedules.find(
+              (s) => s.instanceId === where.instanceId,
+            );
+            if (existing) {
+              Object.assign(existing, update);
+              return Promise.resolve(existing);
+            }
+            const schedule = {
+              id: `schedule-${schedules.length + 1}`,
+              keepDaily: 7,
+              keepWeekly: 4,
+              runningPolicy: FoundryBackupRunningPolicy.QUIESCE,
+              enabled: true,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              ...JSON.parse(JSON.stringify(create)),
+            } as FoundryBackupSchedule;
+            schedules.push(schedule);
+            return Promise.resolve(schedule);
+          },
+        ),
+        delete: jest.fn(({ where }: { where: { id: string } }) => {
+          schedules = schedules.filter((s) => s.id !== where.id);
+          return Promise.resolve();
+        }),
+      },
+    };
+    jobsService = { enqueue: jest.fn(() => Promise.resolve({})) };
+    backupsService = { recordSkippedRun: jest.fn(() => Promise.resolve()) };
+
+    scheduler = new FoundryBackupScheduler(
+      new LoggerService(),
+      registry,
+      prisma as unknown as PrismaService,
+      jobsService as unknown as FoundryJobsService,
+      backupsService as unknown as FoundryBackupsService,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  it('registers a cron job for a new schedule and reports its next run', async () => {
+    const schedule = await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+      timezone: 'Europe/Berlin',
+    });
+
+    expect(registry.doesExist('cron', `foundry-backup-${schedule.id}`)).toBe(
+      true,
+    );
+    expect(schedule.nextRunAt).toBeInstanceOf(Date);
+    expect(schedule.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('unregisters the cron job when a schedule is disabled', async () => {
+    const { id } = await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+    });
+
+    const schedule = await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+      enabled: false,
+    });
+
+    expect(registry.doesExist('cron', `foundry-backup-${id}`)).toBe(false);
+    expect(schedule.nextRunAt).toBeNull();
+  });
+
+  it('rejects invalid cron expressions and timezones', async () => {
+    await expect(
+      scheduler.upsertSchedule('instance-1', { cron: 'every day' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      scheduler.upsertSchedule('instance-1', {
+        cron: '0 4 * * *',
+        timezone: 'Middle/Earth',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(schedules).toHaveLength(0);
+  });
+
+  it('resets omitted retention settings instead of keeping the old ones', async () => {
+    await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+      keepDaily: 0,
+      keepWeekly: 4,
+    });
+
+    const schedule = await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+      keepWeekly: 0,
+    });
+
+    expect(schedule).toMatchObject({ keepDaily: 7, keepWeekly: 0 });
+  });
+
+  it('refuses a replacement that would keep no backups', async () => {
+    await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+      keepDaily: 3,
+    });
+
+    await expect(
+      scheduler.upsertSchedule('instance-1', {
+        cron: '0 4 * * *',
+        keepDaily: 0,
+        keepWeekly: 0,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(schedules[0]).toMatchObject({ keepDaily: 3, keepWeekly: 4 });
+  });
+
+  it('registers enabled schedules on startup', async () => {
+    schedules.push(
+      {
+        id: 'schedule-1',
+        instanceId: 'instance-1',
+        cron: '0 4 * * *',
+        timezone: 'UTC',
+        keepDaily: 7,
+        keepWeekly: 4,
+        runningPolicy: FoundryBackupRunningPolicy.QUIESCE,
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        id: 'schedule-2',
+        instanceId: 'instance-2',
+        cron: '0 4 * * *',
+        timezone: 'UTC',
+        keepDaily: 7,
+        keepWeekly: 4,
+        runningPolicy: FoundryBackupRunningPolicy.QUIESCE,
+        enabled: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    );
+
+    await scheduler.onApplicationBootstrap();
+
+    expect([...registry.getCronJobs().keys()]).toEqual([
+      'foundry-backup-schedule-1',
+    ]);
+  });
+
+  it('queues a backup job on each tick', async () => {
+    const schedule = await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+    });
+
+    await scheduler.runSchedule(schedule);
+
+    expect(jobsService.enqueue).toHaveBeenCalledWith(
+      FoundryJobType.BACKUP,
+      'instance-1',
+      undefined,
+      { scheduleId: schedule.id },
+    );
+  });
+
+  it('records a skipped run when the instance is busy', async () => {
+    const schedule = await scheduler.upsertSchedule('instance-1', {
+      cron: '0 4 * * *',
+    });
+    jobsService.enqueue.mockRejectedValue(
+      new ConflictException('START job in progress'),
+    );
+
+    await scheduler.runSchedule(schedule);
+
+    expect(backupsService.recordSkippedRun).toHaveBeenCalledWith(
+      'instance-1',
+      FoundryBackupTrigger.SCHEDULED,
+      'START job in progress',
+    );
+  });
+});
@@ -0,0 +1,232 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  FoundryBackupRunningPolicy,
+  FoundryBackupSchedule,
+  FoundryBackupTrigger,
+  FoundryJobType,
+} from '@prisma/client';
+import { CronJob, CronTime } from 'cron';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import { FoundryJobsService } from './foundry-jobs.service';
+
+const CRON_JOB_PREFIX = 'foundry-backup-';
+
+// What an omitted setting of a schedule falls back to; the same as the column defaults
+const SCHEDULE_DEFAULTS = {
+  timezone: 'UTC',
+  keepDaily: 7,
+  keepWeekly: 4,
+  runningPolicy: FoundryBackupRunningPolicy.QUIESCE,
+  enabled: true,
+};
+
+export interface BackupScheduleInput {
+  cron: string;
+  timezone?: string;
+  keepDaily?: number;
+  keepWeekly?: number;
+  runningPolicy?: FoundryBackupRunningPolicy;
+  enabled?: boolean;
+}
+
+export type BackupScheduleWithNextRun = FoundryBackupSchedule & {
+  nextRunAt: Date | null;
+};
+
+/**
+ * Queues BACKUP jobs for instances according to their backup schedules.
+ * Each enabled schedule is registered as a cron job named `foundry-backup-<scheduleId>`;
+ * a tick that finds the instance busy with another job is recorded as a skipped run.
+ */
+@Injectable()
+export class FoundryBackupScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly prisma: PrismaService,
+    private readonly foundryJobsService: FoundryJobsService,
+    private readonly foundryBackupsService: FoundryBackupsService,
+  ) {
+    this.logger.setContext(FoundryBackupScheduler.name);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    const schedules = await this.prisma.foundryBackupSchedule.findMany({
+      where: { enabled: true },
+    });
+    for (const schedule of schedules) {
+      this.register(schedule);
+    }
+    this.logger.log(`Registered ${schedules.length} backup schedule(s)`);
+  }
+
+  onModuleDestroy(): void {
+    for (const name of this.schedulerRegistry.getCronJobs().keys()) {
+      if (name.startsWith(CRON_JOB_PREFIX)) {
+        this.schedulerRegistry.deleteCronJob(name);
+      }
+    }
+  }
+
+  /**
+   * Gets the backup schedule of an instance.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @returns The schedule and the time of its next run.
+   * @throws NotFoundException if the instance has no backup schedule.
+   */
+  async getSchedule(instanceId: string): Promise<BackupScheduleWithNextRun> {
+    const schedule = await this.prisma.foundryBackupSchedule.findUnique({
+      where: { instanceId },
+    });
+    if (!schedule) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} has no backup schedule.`,
+      );
+    }
+    return this.withNextRun(schedule);
+  }
+
+  /**
+   * Creates or replaces the backup schedule of an instance and (re)registers its cron job.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param input The schedule settings.
+   * @returns The saved schedule and the time of its next run.
+   * @throws NotFoundException if the instance is not found.
+   * @throws BadRequestException if the cron expression or timezone is invalid, or the retention rules would keep nothing.
+   */
+  async upsertSchedule(
+    instanceId: string,
+    input: BackupScheduleInput,
+  ): Promise<BackupScheduleWithNextRun> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    if (!instance) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} not found.`,
+      );
+    }
+    // The whole schedule is replaced, so omitted settings go back to their defaults rather than keeping the old values
+    const data = {
+      cron: input.cron,
+      timezone: input.timezone ?? SCHEDULE_DEFAULTS.timezone,
+      keepDaily: input.keepDaily ?? SCHEDULE_DEFAULTS.keepDaily,
+      keepWeekly: input.keepWeekly ?? SCHEDULE_DEFAULTS.keepWeekly,
+      runningPolicy: input.runningPolicy ?? SCHEDULE_DEFAULTS.runningPolicy,
+      enabled: input.enabled ?? SCHEDULE_DEFAULTS.enabled,
+    };
+    try {
+      new CronTime(data.cron, data.timezone);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid backup schedule "${data.cron}" (${data.timezone}): ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    if (data.keepDaily === 0 && data.keepWeekly === 0) {
+      throw new BadRequestException(
+        'A backup schedule must keep at least one daily or weekly backup.',
+      );
+    }
+
+    const schedule = await this.prisma.foundryBackupSchedule.upsert({
+      where: { instanceId },
+      create: { instanceId, ...data },
+      update: data,
+    });
+    this.unregister(schedule.id);
+    if (schedule.enabled) {
+      this.register(schedule);
+    }
+    this.logger.log(
+      `Saved backup schedule for ${instance.name}: "${schedule.cron}" (${schedule.timezone})${schedule.enabled ? '' : ', disabled'}`,
+    );
+    return this.withNextRun(schedule);
+  }
+
+  /**
+   * Removes the backup schedule of an instance. Existing backups are kept.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @throws NotFoundException if the instance has no backup schedule.
+   */
+  async deleteSchedule(instanceId: string): Promise<void> {
+    const schedule = await this.getSchedule(instanceId);
+    this.unregister(schedule.id);
+    await this.prisma.foundryBackupSchedule.delete({
+      where: { id: schedule.id },
+    });
+    this.logger.log(`Deleted backup schedule of instance ${instanceId}`);
+  }
+
+  /**
+   * Queues a scheduled backup. Called on every tick of a schedule's cron job.
+   */
+  async runSchedule(schedule: FoundryBackupSchedule): Promise<void> {
+    try {
+      await this.foundryJobsService.enqueue(
+        FoundryJobType.BACKUP,
+        schedule.instanceId,
+        undefined,
+        { scheduleId: schedule.id },
+      );
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        await this.foundryBackupsService.recordSkippedRun(
+          schedule.instanceId,
+          FoundryBackupTrigger.SCHEDULED,
+          error.message,
+        );
+        return;
+      }
+      if (error instanceof NotFoundException) {
+        // The instance is gone; the schedule row was removed with it.
+        this.unregister(schedule.id);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private register(schedule: FoundryBackupSchedule): void {
+    const job = CronJob.from({
+      cronTime: schedule.cron,
+      timeZone: schedule.timezone,
+      onTick: () =>
+        void this.runSchedule(schedule).catch((error: Error) =>
+          this.logger.error(
+            `Scheduled backup of instance ${schedule.instanceId} failed to queue: ${error.message}`,
+          ),
+        ),
+      start: true,
+    });
+    this.schedulerRegistry.addCronJob(CRON_JOB_PREFIX + schedule.id, job);
+  }
+
+  private unregister(scheduleId: string): void {
+    const name = CRON_JOB_PREFIX + scheduleId;
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+    }
+  }
+
+  private withNextRun(
+    schedule: FoundryBackupSchedule,
+  ): BackupScheduleWithNextRun {
+    const name = CRON_JOB_PREFIX + schedule.id;
+    const nextRunAt = this.schedulerRegistry.doesExist('cron', name)
+      ? this.schedulerRegistry.getCronJob(name).nextDate().toJSDate()
+      : null;
+    return { ...schedule, nextRunAt };
+  }
+}
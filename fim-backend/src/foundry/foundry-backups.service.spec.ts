@@ -0,0 +1,379 @@
+import { InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  FoundryBackup,
+  FoundryBackupRun,
+  FoundryBackupRunningPolicy,
+  FoundryBackupRunStatus,
+  FoundryBackupSchedule,
+  FoundryBackupTrigger,
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryRestartPolicy,
+} from '@prisma/client';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  FoundryBackupManifest,
+  FoundryBackupsService,
+  selectBackupsToKeep,
+} from './foundry-backups.service';
+import { FoundryService } from './foundry.service';
+
+describe('FoundryBackupsService', () => {
+  let service: FoundryBackupsService;
+  let workDir: string;
+  let dataDir: string;
+  let backupDir: string;
+  let backups: FoundryBackup[];
+  let runs: Partial<FoundryBackupRun>[];
+  let schedule: FoundryBackupSchedule;
+  let instance: FoundryInstance;
+  let foundryService: {
+    resolveDataPaths: jest.Mock;
+    prepareDataDirectory: jest.Mock;
+    stopFoundry: jest.Mock;
+    startFoundry: jest.Mock;
+    getInstanceHealth: jest.Mock;
+  };
+
+  const worldFile = () =>
+    path.join(dataDir, 'Data', 'worlds', 'campaign', 'world.json');
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fim-backups-'));
+    dataDir = path.join(workDir, 'data', 'instance-1');
+    backupDir = path.join(workDir, 'backups');
+    await fs.mkdir(path.dirname(worldFile()), { recursive: true });
+    await fs.writeFile(worldFile(), '{"title":"Session 1"}');
+
+    backups = [];
+    runs = [];
+    schedule = {
+      id: 'schedule-1',
+      instanceId: 'instance-1',
+      cron: '0 4 * * *',
+      timezone: 'UTC',
+      keepDaily: 2,
+      keepWeekly: 0,
+      runningPolicy: FoundryBackupRunningPolicy.QUIESCE,
+      enabled: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    instance = {
+      id: 'instance-1',
+      name: 'campaign',
+      port: 30001,
+      status: FoundryInstanceStatus.STOPPED,
+      dockerContainerId: null,
+      ownerId: null,
+      image: 'felddy/foundryvtt',
+      imageTag: '12',
+      foundryVersion: '12.331',
+      memoryLimitMb: null,
+      cpuLimit: null,
+      env: {},
+      restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+      nextSessionAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const prisma = {
+      foundryInstance: {
+        findUnique: jest.fn(() => Promise.resolve(instance)),
+      },
+      foundryBackup: {
+        create: jest.fn(({ data }: { data: Partial<FoundryBackup> }) => {
+          const backup = {
+            id: `backup-${backups.length + 1}`,
+            ...data,
+            sizeBytes: BigInt(data.sizeBytes!),
+          } as FoundryBackup;
+          backups.push(backup);
+          return Promise.resolve(backup);
+        }),
+        findFirst: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(backups.find((b) => b.id === where.id) ?? null),
+        ),
+        findMany: jest.fn(
+          ({ where }: { where: { trigger: FoundryBackupTrigger } }) =>
+            Promise.resolve(
+              backups
+                .filter((b) => b.trigger === where.trigger)
+                .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+            ),
+        ),
+        delete: jest.fn(({ where }: { where: { id: string } }) => {
+          backups = backups.filter((b) => b.id !== where.id);
+          return Promise.resolve();
+        }),
+      },
+      foundryBackupSchedule: {
+        findUnique: jest.fn(() => Promise.resolve(schedule)),
+      },
+      foundryBackupRun: {
+        create: jest.fn(({ data }: { data: Partial<FoundryBackupRun> }) => {
+          runs.push(data);
+          return Promise.resolve(data);
+        }),
+      },
+    };
+    foundryService = {
+      resolveDataPaths: jest.fn(() => ({
+        hostPath: dataDir,
+        localPath: dataDir,
+      })),
+      prepareDataDirectory: jest.fn(() => Promise.resolve(dataDir)),
+      stopFoundry: jest.fn(() => Promise.resolve()),
+      startFoundry: jest.fn(() => Promise.resolve()),
+      getInstanceHealth: jest.fn(() =>
+        Promise.resolve({ healthStatus: 'healthy', foundryVersion: '12.343' }),
+      ),
+    };
+    const settings: Record<string, string> = {
+      FIM_BACKUP_DIR: backupDir,
+      FIM_BACKUP_RETENTION_COUNT: '2',
+    };
+
+    service = new FoundryBackupsService(
+      new LoggerService(),
+      { get: (key: string) => settings[key] } as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+      foundryService as unknown as FoundryService,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('writes an archive with a manifest describing it', async () => {
+    const backup = (await service.createBackup('instance-1'))!;
+
+    const archivePath = path.join(backupDir, 'instance-1', backup.fileName);
+    const manifest = JSON.parse(
+      await fs.readFile(
+        archivePath.replace('.tar.gz', '.manifest.json'),
+        'utf8',
+      ),
+    ) as FoundryBackupManifest;
+    expect(manifest).toMatchObject({
+      backupId: backup.id,
+      instanceName: 'campaign',
+      sizeBytes: (await fs.stat(archivePath)).size,
+      sha256: backup.checksum,
+      foundryVersion: '12.331',
+      image: 'felddy/foundryvtt:12',
+    });
+    expect(foundryService.stopFoundry).not.toHaveBeenCalled();
+  });
+
+  it('stops a running instance while archiving and starts it again', async () => {
+    instance.status = FoundryInstanceStatus.RUNNING;
+
+    await service.createBackup('instance-1');
+
+    expect(foundryService.stopFoundry).toHaveBeenCalled();
+    expect(foundryService.startFoundry).toHaveBeenCalled();
+  });
+
+  it('takes the Foundry version of a running instance from Foundry itself', async () => {
+    instance.status = FoundryInstanceStatus.RUNNING;
+
+    const backup = (await service.createBackup('instance-1'))!;
+
+    expect(backup.foundryVersion).toBe('12.343');
+    expect(foundryService.getInstanceHealth).toHaveBeenCalledWith('instance-1');
+  });
+
+  it('keeps the backup when the instance fails to start again', async () => {
+    instance.status = FoundryInstanceStatus.RUNNING;
+    foundryService.startFoundry.mockRejectedValue(
+      new Error('port is already allocated'),
+    );
+
+    await expect(service.createBackup('instance-1')).rejects.toThrow(
+      'port is already allocated',
+    );
+    expect(backups).toHaveLength(1);
+    const files = await fs.readdir(path.join(backupDir, 'instance-1'));
+    expect(files).toContain(backups[0].fileName);
+  });
+
+  it('only keeps the configured number of backups', async () => {
+    const first = (await service.createBackup('instance-1'))!;
+    await service.createBackup('instance-1');
+    await service.createBackup('instance-1');
+
+    expect(backups).toHaveLength(2);
+    expect(backups.map((b) => b.id)).not.toContain(first.id);
+    const files = await fs.readdir(path.join(backupDir, 'instance-1'));
+    expect(files).not.toContain(first.fileName);
+    expect(files).toHaveLength(4);
+  });
+
+  it('records each attempt in the run history', async () => {
+    const backup = (await service.createBackup('instance-1'))!;
+    foundryService.resolveDataPaths.mockReturnValue({
+      hostPath: path.join(workDir, 'missing'),
+      localPath: path.join(workDir, 'missing'),
+    });
+    await expect(service.createBackup('instance-1')).rejects.toThrow();
+
+    expect(runs).toMatchObject([
+      {
+        trigger: FoundryBackupTrigger.MANUAL,
+        status: FoundryBackupRunStatus.SUCCEEDED,
+        backupId: backup.id,
+      },
+      {
+        trigger: FoundryBackupTrigger.MANUAL,
+        status: FoundryBackupRunStatus.FAILED,
+      },
+    ]);
+  });
+
+  it('skips a running instance when its schedule says so', async () => {
+    instance.status = FoundryInstanceStatus.RUNNING;
+    schedule.runningPolicy = FoundryBackupRunningPolicy.SKIP;
+
+    const backup = await service.createBackup('instance-1', undefined, {
+      scheduleId: schedule.id,
+    });
+
+    expect(backup).toBeNull();
+    expect(foundryService.stopFoundry).not.toHaveBeenCalled();
+    expect(runs).toMatchObject([
+      {
+        trigger: FoundryBackupTrigger.SCHEDULED,
+        status: FoundryBackupRunStatus.SKIPPED,
+      },
+    ]);
+  });
+
+  it('backs up a running instance without stopping it under the LIVE policy', async () => {
+    instance.status = FoundryInstanceStatus.RUNNING;
+    schedule.runningPolicy = FoundryBackupRunningPolicy.LIVE;
+
+    const backup = await service.createBackup('instance-1', undefined, {
+      scheduleId: schedule.id,
+    });
+
+    expect(backup?.trigger).toBe(FoundryBackupTrigger.SCHEDULED);
+    expect(foundryService.stopFoundry).not.toHaveBeenCalled();
+  });
+
+  it('does not let manual backups evict scheduled ones', async () => {
+    const scheduled = (await service.createBackup('instance-1', undefined, {
+      scheduleId: schedule.id,
+    }))!;
+    await service.createBackup('instance-1');
+    await service.createBackup('instance-1');
+    await service.createBackup('instance-1');
+
+    expect(backups.map((b) => b.id)).toContain(scheduled.id);
+    expect(backups).toHaveLength(3);
+  });
+
+  it('restores the data directory from a backup', async () => {
+    const backup = (await service.createBackup('instance-1'))!;
+    await fs.writeFile(worldFile(), '{"title":"Broken by a module"}');
+    await fs.writeFile(path.join(dataDir, 'stray.txt'), 'left over');
+
+    await service.restoreBackup('instance-1', backup.id);
+
+    expect(await fs.readFile(worldFile(), 'utf8')).toBe(
+      '{"title":"Session 1"}',
+    );
+    await expect(fs.access(path.join(dataDir, 'stray.txt'))).rejects.toThrow();
+    expect(foundryService.prepareDataDirectory).toHaveBeenCalledWith(instance);
+    expect(await fs.readdir(path.dirname(dataDir))).toEqual(['instance-1']);
+  });
+
+  it('refuses to restore an archive that fails its checksum', async () => {
+    const backup = (await service.createBackup('instance-1'))!;
+    await fs.appendFile(
+      path.join(backupDir, 'instance-1', backup.fileName),
+      'tampered',
+    );
+
+    await expect(
+      service.restoreBackup('instance-1', backup.id),
+    ).rejects.toBeInstanceOf(InternalServerErrorException);
+    expect(await fs.readFile(worldFile(), 'utf8')).toBe(
+      '{"title":"Session 1"}',
+    );
+  });
+
+  it('puts the previous data back if the restore cannot be finished', async () => {
+    const backup = (await service.createBackup('instance-1'))!;
+    await fs.writeFile(worldFile(), '{"title":"Session 2"}');
+    foundryService.prepareDataDirectory.mockRejectedValue(
+      new Error('EPERM: operation not permitted, chown'),
+    );
+
+    await expect(
+      service.restoreBackup('instance-1', backup.id),
+    ).rejects.toThrow('EPERM');
+    expect(await fs.readFile(worldFile(), 'utf8')).toBe(
+      '{"title":"Session 2"}',
+    );
+    expect(await fs.readdir(path.dirname(dataDir))).toEqual(['instance-1']);
+  });
+
+  it('reports why a restore failed even if the instance does not start again', async () => {
+    const backup = (await service.createBackup('instance-1'))!;
+    instance.status = FoundryInstanceStatus.RUNNING;
+    foundryService.prepareDataDirectory.mockRejectedValue(
+      new Error('EPERM: operation not permitted, chown'),
+    );
+    foundryService.startFoundry.mockRejectedValue(
+      new Error('port is already allocated'),
+    );
+
+    await expect(
+      service.restoreBackup('instance-1', backup.id),
+    ).rejects.toThrow('EPERM');
+    expect(foundryService.startFoundry).toHaveBeenCalled();
+  });
+});
+
+describe('selectBackupsToKeep', () => {
+  const backup = (id: string, createdAt: string) => ({
+    id,
+    createdAt: new Date(createdAt),
+  });
+
+  it('keeps the newest backup of each recent day and week', () => {
+    const backups = [
+      backup('mon-early', '2026-10-12T02:00:00Z'),
+      backup('mon-late', '2026-10-12T20:00:00Z'),
+      backup('tue', '2026-10-13T04:00:00Z'),
+      backup('wed', '2026-10-14T04:00:00Z'),
+      backup('prev-sun', '2026-10-11T04:00:00Z'),
+      backup('prev-sat', '2026-10-10T04:00:00Z'),
+      backup('older-week', '2026-10-01T04:00:00Z'),
+    ];
+
+    const keep = selectBackupsToKeep(backups, { keepDaily: 2, keepWeekly: 2 });
+
+    expect([...keep].sort()).toEqual(['prev-sun', 'tue', 'wed']);
+  });
+
+  it('keeps nothing when both rules are zero', () => {
+    expect(
+      selectBackupsToKeep([backup('a', '2026-10-12T02:00:00Z')], {
+        keepDaily: 0,
+        keepWeekly: 0,
+      }).size,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,571 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  FoundryBackup,
+  FoundryBackupRun,
+  FoundryBackupRunningPolicy,
+  FoundryBackupRunStatus,
+  FoundryBackupSchedule,
+  FoundryBackupTrigger,
+  FoundryInstance,
+  FoundryInstanceStatus,
+} from '@prisma/client';
+import { createHash } from 'crypto';
+import { createReadStream, existsSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as tar from 'tar';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryService } from './foundry.service';
+import {
+  JobProgressReporter,
+  noopProgressReporter,
+  scaleProgress,
+} from './interfaces/job-progress-reporter.interface';
+
+const DEFAULT_RETENTION_COUNT = 10;
+const ARCHIVE_EXTENSION = '.tar.gz';
+const MANIFEST_EXTENSION = '.manifest.json';
+
+/**
+ * Written next to every archive so a backup can be identified and verified without the database.
+ */
+export interface FoundryBackupManifest {
+  backupId: string;
+  instanceId: string;
+  instanceName: string;
+  createdAt: string;
+  sizeBytes: number;
+  sha256: string;
+  foundryVersion: string | null;
+  image: string;
+}
+
+export interface BackupRetentionRules {
+  keepDaily: number;
+  keepWeekly: number;
+}
+
+const toDayKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Weeks start on Monday (ISO 8601); a week is identified by the date of its Monday.
+const toWeekKey = (date: Date): string => {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return toDayKey(
+    new Date(
+      Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate() - daysSinceMonday,
+      ),
+    ),
+  );
+};
+
+/**
+ * Picks which backups a grandfather-father-son style policy keeps: the newest backup of each
+ * of the last `keepDaily` days that have one, and the newest of each of the last `keepWeekly` weeks.
+ * @returns The IDs of the backups to keep.
+ */
+export function selectBackupsToKeep(
+  backups: Pick<FoundryBackup, 'id' | 'createdAt'>[],
+  rules: BackupRetentionRules,
+): Set<string> {
+  const keep = new Set<string>();
+  const days = new Set<string>();
+  const weeks = new Set<string>();
+  const newestFirst = [...backups].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  );
+  for (const backup of newestFirst) {
+    const day = toDayKey(backup.createdAt);
+    if (days.size < rules.keepDaily && !days.has(day)) {
+      days.add(day);
+      keep.add(backup.id);
+    }
+    const week = toWeekKey(backup.createdAt);
+    if (weeks.size < rules.keepWeekly && !weeks.has(week)) {
+      weeks.add(week);
+      keep.add(backup.id);
+    }
+  }
+  return keep;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sha256File(file: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(file)
+      .on('error', reject)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Snapshots an instance's data directory into compressed archives and restores them.
+ * Archives live under `FIM_BACKUP_DIR/<instanceId>/`. Of the manual backups only the newest
+ * `FIM_BACKUP_RETENTION_COUNT` per instance are kept; scheduled backups follow the daily/weekly rules of their schedule.
+ * Every attempt, successful or not, is recorded as a {@link FoundryBackupRun}.
+ *
+ * Foundry keeps its worlds in LevelDB, which is not safe to copy while it is being written to,
+ * so a running instance is stopped for the duration of a backup or restore and started again afterwards,
+ * unless its backup schedule says otherwise.
+ */
+@Injectable()
+export class FoundryBackupsService {
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly foundryService: FoundryService,
+  ) {
+    this.logger.setContext(FoundryBackupsService.name);
+  }
+
+  private get backupRoot(): string {
+    const configured = this.configService.get<string>('FIM_BACKUP_DIR');
+    if (configured) {
+      return configured;
+    }
+    return existsSync('/.dockerenv')
+      ? '/app/foundry-backups'
+      : `${process.env.HOME}/foundry-backups`;
+  }
+
+  private get retentionCount(): number {
+    const configured = parseInt(
+      this.configService.get<string>('FIM_BACKUP_RETENTION_COUNT') ?? '',
+      10,
+    );
+    return configured > 0 ? configured : DEFAULT_RETENTION_COUNT;
+  }
+
+  private archivePath(
+    backup: Pick<FoundryBackup, 'fileName'> & { instanceId: string },
+  ): string {
+    return path.join(this.backupRoot, backup.instanceId, backup.fileName);
+  }
+
+  private async findInstance(instanceId: string): Promise<FoundryInstance> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    if (!instance) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} not found.`,
+      );
+    }
+    return instance;
+  }
+
+  /**
+   * Lists the backups of an instance, newest first.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @throws NotFoundException if the instance is not found.
+   */
+  async listBackups(instanceId: string): Promise<FoundryBackup[]> {
+    await this.findInstance(instanceId);
+    return this.prisma.foundryBackup.findMany({
+      where: { instanceId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Gets a backup of an instance.
+   * @param instanceId The ID of the Foundry VTT instance the backup belongs to.
+   * @param backupId The ID of the backup.
+   * @throws NotFoundException if the instance has no such backup.
+   */
+  async findBackup(
+    instanceId: string,
+    backupId: string,
+  ): Promise<FoundryBackup> {
+    const backup = await this.prisma.foundryBackup.findFirst({
+      where: { id: backupId, instanceId },
+    });
+    if (!backup) {
+      throw new NotFoundException(
+        `Backup with ID ${backupId} not found for Foundry instance ${instanceId}.`,
+      );
+    }
+    return backup;
+  }
+
+  /**
+   * Lists the backup attempts of an instance, newest first.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param limit The maximum number of runs to return.
+   * @throws NotFoundException if the instance is not found.
+   */
+  async listRuns(instanceId: string, limit = 20): Promise<FoundryBackupRun[]> {
+    await this.findInstance(instanceId);
+    return this.prisma.foundryBackupRun.findMany({
+      where: { instanceId },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Records a backup that was not attempted, e.g. because the instance was busy.
+   */
+  async recordSkippedRun(
+    instanceId: string,
+    trigger: FoundryBackupTrigger,
+    reason: string,
+  ): Promise<FoundryBackupRun> {
+    this.logger.log(`Skipped backup of instance ${instanceId}: ${reason}`);
+    return this.prisma.foundryBackupRun.create({
+      data: {
+        instanceId,
+        trigger,
+        status: FoundryBackupRunStatus.SKIPPED,
+        message: reason,
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Archives the data directory of an instance and records the backup.
+   * Backups that fall outside the retention rules are deleted afterwards.
+   * @param instanceId The ID of the Foundry VTT instance to back up.
+   * @param report Optional callback that receives progress updates.
+   * @param options.createdById Optional ID of the user who asked for the backup.
+   * @param options.scheduleId The schedule that triggered the backup, if any; its running policy and retention rules apply.
+   * @returns The new backup, or null if the schedule's policy said to skip a running instance.
+   * @throws NotFoundException if the instance is not found.
+   * @throws BadRequestException if the instance has no data directory yet.
+   */
+  async createBackup(
+    instanceId: string,
+    report: JobProgressReporter = noopProgressReporter,
+    options: { createdById?: number; scheduleId?: string } = {},
+  ): Promise<FoundryBackup | null> {
+    const instance = await this.findInstance(instanceId);
+    const schedule = options.scheduleId
+      ? await this.prisma.foundryBackupSchedule.findUnique({
+          where: { id: options.scheduleId },
+        })
+      : null;
+    const trigger = schedule
+      ? FoundryBackupTrigger.SCHEDULED
+      : FoundryBackupTrigger.MANUAL;
+    const runningPolicy =
+      schedule?.runningPolicy ?? FoundryBackupRunningPolicy.QUIESCE;
+
+    if (
+      instance.status === FoundryInstanceStatus.RUNNING &&
+      runningPolicy === FoundryBackupRunningPolicy.SKIP
+    ) {
+      await this.recordSkippedRun(
+        instanceId,
+        trigger,
+        'Instance was running and the schedule skips running instances',
+      );
+      await report(100, 'Skipped: instance is running');
+      return null;
+    }
+
+    const startedAt = new Date();
+    let backup: FoundryBackup;
+    try {
+      backup = await this.writeArchive(instance, report, {
+        trigger,
+        quiesce: runningPolicy === FoundryBackupRunningPolicy.QUIESCE,
+        createdById: options.createdById,
+      });
+    } catch (error) {
+      await this.prisma.foundryBackupRun.create({
+        data: {
+          instanceId,
+          trigger,
+          status: FoundryBackupRunStatus.FAILED,
+          message: describeError(error),
+          startedAt,
+          finishedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+    await this.prisma.foundryBackupRun.create({
+      data: {
+        instanceId,
+        trigger,
+        status: FoundryBackupRunStatus.SUCCEEDED,
+        backupId: backup.id,
+        startedAt,
+        finishedAt: new Date(),
+      },
+    });
+
+    await report(95, 'Applying retention policy');
+    await this.pruneBackups(instanceId, trigger, schedule);
+    await report(100, 'Backup complete');
+    return backup;
+  }
+
+  private async writeArchive(
+    instance: FoundryInstance,
+    report: JobProgressReporter,
+    options: {
+      trigger: FoundryBackupTrigger;
+      quiesce: boolean;
+      createdById?: number;
+    },
+  ): Promise<FoundryBackup> {
+    const instanceId = instance.id;
+    const { localPath } = this.foundryService.resolveDataPaths(instance);
+    if (!existsSync(localPath)) {
+      throw new BadRequestException(
+        `Foundry instance ${instance.name} has no data to back up yet.`,
+      );
+    }
+
+    const createdAt = new Date();
+    const fileName = `${instance.name}-${createdAt.toISOString().replace(/[:.]/g, '-')}${ARCHIVE_EXTENSION}`;
+    const archivePath = this.archivePath({ instanceId, fileName });
+    await fs.mkdir(path.dirname(archivePath), { recursive: true });
+
+    // The configured version may be unset or stale; a running Foundry says which version it actually is
+    const foundryVersion =
+      instance.status === FoundryInstanceStatus.RUNNING
+        ? (await this.foundryService.getInstanceHealth(instanceId))
+            .foundryVersion
+        : instance.foundryVersion;
+    const stopped =
+      options.quiesce && instance.status === FoundryInstanceStatus.RUNNING;
+    if (stopped) {
+      await this.foundryService.stopFoundry(
+        instanceId,
+        scaleProgress(report, 0, 10),
+      );
+    }
+    let backup: FoundryBackup;
+    try {
+      await report(15, 'Archiving world data');
+      // Write to a temporary name so a half-written archive is never mistaken for a backup.
+      await tar.create(
+        {
+          gzip: true,
+          file: `${archivePath}.partial`,
+          cwd: localPath,
+          portable: true,
+        },
+        ['.'],
+      );
+      await fs.rename(`${archivePath}.partial`, archivePath);
+
+      await report(70, 'Verifying archive');
+      const [checksum, { size }] = await Promise.all([
+        sha256File(archivePath),
+        fs.stat(archivePath),
+      ]);
+      backup = await this.prisma.foundryBackup.create({
+        data: {
+          instanceId,
+          instanceName: instance.name,
+          fileName,
+          sizeBytes: size,
+          checksum,
+          foundryVersion,
+          image: `${instance.image}:${instance.imageTag}`,
+          trigger: options.trigger,
+          createdById: options.createdById,
+          createdAt,
+        },
+      });
+      const manifest: FoundryBackupManifest = {
+        backupId: backup.id,
+        instanceId,
+        instanceName: instance.name,
+        createdAt: createdAt.toISOString(),
+        sizeBytes: size,
+        sha256: checksum,
+        foundryVersion: backup.foundryVersion,
+        image: backup.image,
+      };
+      await fs.writeFile(
+        archivePath.replace(ARCHIVE_EXTENSION, MANIFEST_EXTENSION),
+        JSON.stringify(manifest, null, 2),
+      );
+      this.logger.log(
+        `Backed up Foundry instance ${instance.name} to ${archivePath} (${size} bytes)`,
+      );
+    } catch (error) {
+      await fs.rm(`${archivePath}.partial`, { force: true });
+      if (stopped) {
+        await this.startAgain(instance, scaleProgress(report, 80, 90), error);
+      }
+      throw error;
+    }
+    // The backup is recorded before the restart, so an instance that fails to come back still has it listed
+    if (stopped) {
+      await this.startAgain(instance, scaleProgress(report, 80, 90));
+    }
+    return backup;
+  }
+
+  /**
+   * Replaces the data directory of an instance with the contents of a backup.
+   * The current data is kept aside until the restored data is in place, and put back if anything fails.
+   * @param instanceId The ID of the Foundry VTT instance to restore.
+   * @param backupId The ID of the backup to restore.
+   * @param report Optional callback that receives progress updates.
+   * @throws NotFoundException if the instance or backup is not found.
+   * @throws InternalServerErrorException if the archive is missing or fails its checksum.
+   */
+  async restoreBackup(
+    instanceId: string,
+    backupId: string,
+    report: JobProgressReporter = noopProgressReporter,
+  ): Promise<void> {
+    const instance = await this.findInstance(instanceId);
+    const backup = await this.findBackup(instanceId, backupId);
+    const archivePath = this.archivePath({
+      instanceId,
+      fileName: backup.fileName,
+    });
+
+    await report(5, 'Verifying archive');
+    const checksum = await sha256File(archivePath).catch(() => null);
+    if (checksum !== backup.checksum) {
+      throw new InternalServerErrorException(
+        checksum === null
+          ? `Archive for backup ${backupId} is missing.`
+          : `Archive for backup ${backupId} is corrupt: checksum mismatch.`,
+      );
+    }
+
+    const wasRunning = instance.status === FoundryInstanceStatus.RUNNING;
+    if (wasRunning) {
+      await this.foundryService.stopFoundry(
+        instanceId,
+        scaleProgress(report, 10, 20),
+      );
+    }
+    try {
+      await report(25, 'Extracting backup');
+      await this.swapInArchive(instance, archivePath);
+      this.logger.log(
+        `Restored Foundry instance ${instance.name} from backup ${backupId}`,
+      );
+    } catch (error) {
+      if (wasRunning) {
+        await this.startAgain(instance, scaleProgress(report, 80, 100), error);
+      }
+      throw error;
+    }
+    if (wasRunning) {
+      await this.startAgain(instance, scaleProgress(report, 80, 100));
+    }
+    await report(100, 'Restore complete');
+  }
+
+  /**
+   * Starts an instance that was stopped for a backup or restore.
+   * If the backup or restore itself failed, a failed start is only logged so the original error is the one reported.
+   * @param cause The error the backup or restore failed with, if any.
+   */
+  private async startAgain(
+    instance: FoundryInstance,
+    report: JobProgressReporter,
+    cause?: unknown,
+  ): Promise<void> {
+    try {
+      await this.foundryService.startFoundry(instance.id, report);
+    } catch (error) {
+      this.logger.error(
+        `Failed to start Foundry instance ${instance.name} again: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      if (cause === undefined) {
+        throw error;
+      }
+    }
+  }
+
+  private async swapInArchive(
+    instance: FoundryInstance,
+    archivePath: string,
+  ): Promise<void> {
+    const { localPath } = this.foundryService.resolveDataPaths(instance);
+    const stamp = Date.now();
+    const stagingPath = `${localPath}.restore-${stamp}`;
+    const previousPath = `${localPath}.pre-restore-${stamp}`;
+
+    await fs.mkdir(stagingPath, { recursive: true });
+    try {
+      await tar.extract({ file: archivePath, cwd: stagingPath });
+    } catch (error) {
+      await fs.rm(stagingPath, { recursive: true, force: true });
+      throw error;
+    }
+
+    const hadData = existsSync(localPath);
+    if (hadData) {
+      await fs.rename(localPath, previousPath);
+    }
+    try {
+      await fs.rename(stagingPath, localPath);
+      await this.foundryService.prepareDataDirectory(instance);
+    } catch (error) {
+      this.logger.error(
+        `Restoring ${instance.name} failed; putting the previous data back`,
+      );
+      await fs.rm(localPath, { recursive: true, force: true });
+      if (hadData) {
+        await fs.rename(previousPath, localPath);
+      }
+      await fs.rm(stagingPath, { recursive: true, force: true });
+      throw error;
+    }
+    if (hadData) {
+      await fs.rm(previousPath, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Deletes the backups of an instance that the retention rules no longer cover.
+   * Manual and scheduled backups are pruned separately so a burst of manual backups never evicts the scheduled ones.
+   */
+  private async pruneBackups(
+    instanceId: string,
+    trigger: FoundryBackupTrigger,
+    schedule: FoundryBackupSchedule | null,
+  ): Promise<void> {
+    const backups = await this.prisma.foundryBackup.findMany({
+      where: { instanceId, trigger },
+      orderBy: { createdAt: 'desc' },
+    });
+    const keep = schedule
+      ? selectBackupsToKeep(backups, schedule)
+      : new Set(backups.slice(0, this.retentionCount).map((b) => b.id));
+    const expired = backups.filter((backup) => !keep.has(backup.id));
+    for (const backup of expired) {
+      const archivePath = this.archivePath({
+        instanceId,
+        fileName: backup.fileName,
+      });
+      await fs.rm(archivePath, { force: true });
+      await fs.rm(archivePath.replace(ARCHIVE_EXTENSION, MANIFEST_EXTENSION), {
+        force: true,
+      });
+      await this.prisma.foundryBackup.delete({ where: { id: backup.id } });
+      this.logger.log(
+        `Deleted backup ${backup.id} of ${backup.instanceName} under the ${trigger.toLowerCase()} retention rules`,
+      );
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import {
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryRestartPolicy,
+  Role,
+} from '@prisma/client';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryEvent } from './interfaces/foundry-event.interface';
+
+describe('FoundryEventsService', () => {
+  let service: FoundryEventsService;
+  let received: FoundryEvent[];
+
+  const instance: FoundryInstance = {
+    id: 'instance-1',
+    name: 'campaign',
+    port: 30001,
+    status: FoundryInstanceStatus.RUNNING,
+    dockerContainerId: 'abc',
+    ownerId: 7,
+    image: 'felddy/foundryvtt',
+    imageTag: 'latest',
+    foundryVersion: null,
+    memoryLimitMb: null,
+    cpuLimit: null,
+    env: {},
+    restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+    nextSessionAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeEach(() => {
+    service = new FoundryEventsService();
+    received = [];
+    service.stream.subscribe((event) => received.push(event));
+  });
+
+  it('only publishes health when it changes', () => {
+    expect(service.publishHealth(instance, 'healthy')).toBe(true);
+    expect(service.publishHealth(instance, 'healthy')).toBe(false);
+    expect(service.publishHealth(instance, 'unhealthy')).toBe(true);
+
+    expect(received.map((event) => event.data)).toEqual([
+      { healthStatus: 'healthy' },
+      { healthStatus: 'unhealthy' },
+    ]);
+  });
+
+  it('reports health again after the instance was stopped', () => {
+    service.publishHealth(instance, 'healthy');
+    service.publishStatus({
+      ...instance,
+      status: FoundryInstanceStatus.STOPPED,
+    });
+
+    expect(service.publishHealth(instance, 'healthy')).toBe(true);
+  });
+
+  describe('isVisibleTo', () => {
+    it('shows every event to admins', () => {
+      service.publishStatus({ ...instance, ownerId: null });
+
+      expect(
+        service.isVisibleTo(received[0], {
+          userId: 1,
+          email: 'admin@example.com',
+          role: Role.ADMIN,
+          sessionId: 'session-1',
+        }),
+      ).toBe(true);
+    });
+
+    it('only shows players the instances they own', () => {
+      service.publishStatus(instance);
+
+      expect(
+        service.isVisibleTo(received[0], {
+          userId: 7,
+          email: 'owner@example.com',
+          role: Role.PLAYER,
+          sessionId: 'session-1',
+        }),
+      ).toBe(true);
+      expect(
+        service.isVisibleTo(received[0], {
+          userId: 8,
+          email: 'player@example.com',
+          role: Role.PLAYER,
+          sessionId: 'session-1',
+        }),
+      ).toBe(false);
+    });
+
+    it('shows players the instances they have been invited to', () => {
+      service.publishStatus(instance);
+      const player = {
+        userId: 8,
+        email: 'player@example.com',
+        role: Role.PLAYER,
+        sessionId: 'session-1',
+      };
+
+      expect(
+        service.isVisibleTo(received[0], player, new Set([instance.id])),
+      ).toBe(true);
+      expect(
+        service.isVisibleTo(received[0], player, new Set(['other-instance'])),
+      ).toBe(false);
+    });
+  });
+});
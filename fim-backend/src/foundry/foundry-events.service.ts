@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import {
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryJob,
+  Role,
+} from '@prisma/client';
+import { Observable, Subject } from 'rxjs';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import {
+  FoundryEvent,
+  InstanceHealthStatus,
+} from './interfaces/foundry-event.interface';
+
+/**
+ * In-process event bus for Foundry instance changes.
+ * Services publish here; the SSE endpoint filters the stream per subscriber.
+ */
+@Injectable()
+export class FoundryEventsService {
+  private readonly events = new Subject<FoundryEvent>();
+  private readonly lastHealth = new Map<string, InstanceHealthStatus>();
+
+  get stream(): Observable<FoundryEvent> {
+    return this.events.asObservable();
+  }
+
+  publishStatus(instance: FoundryInstance): void {
+    if (instance.status !== FoundryInstanceStatus.RUNNING) {
+      // A stopped instance has no meaningful health; the next check after a start should always be reported.
+      this.lastHealth.delete(instance.id);
+    }
+    this.events.next({
+      type: 'status',
+      instanceId: instance.id,
+      ownerId: instance.ownerId,
+      data: instance,
+    });
+  }
+
+  /**
+   * Publishes a health check result, but only when it differs from the previous one for that instance.
+   * @returns Whether an event was published.
+   */
+  publishHealth(
+    instance: FoundryInstance,
+    healthStatus: InstanceHealthStatus,
+  ): boolean {
+    if (this.lastHealth.get(instance.id) === healthStatus) {
+      return false;
+    }
+    this.lastHealth.set(instance.id, healthStatus);
+    this.events.next({
+      type: 'health',
+      instanceId: instance.id,
+      ownerId: instance.ownerId,
+      data: { healthStatus },
+    });
+    return true;
+  }
+
+  publishJob(job: FoundryJob, ownerId: number | null): void {
+    this.events.next({
+      type: 'job',
+      instanceId: job.instanceId,
+      ownerId,
+      data: job,
+    });
+  }
+
+  publishDeleted(instance: FoundryInstance): void {
+    this.lastHealth.delete(instance.id);
+    this.events.next({
+      type: 'deleted',
+      instanceId: instance.id,
+      ownerId: instance.ownerId,
+      data: { id: instance.id },
+    });
+  }
+
+  /**
+   * Admins see every event; everyone else only sees events for instances they own or have been invited to.
+   * @param memberOf The IDs of the instances the user is a member of.
+   */
+  isVisibleTo(
+    event: FoundryEvent,
+    user: AuthenticatedRequest['user'],
+    memberOf: ReadonlySet<string> = new Set(),
+  ): boolean {
+    if (user.role === Role.ADMIN) {
+      return true;
+    }
+    if (event.instanceId !== null && memberOf.has(event.instanceId)) {
+      return true;
+    }
+    return event.ownerId !== null && event.ownerId === user.userId;
+  }
+}
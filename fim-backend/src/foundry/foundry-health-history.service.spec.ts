@@ -0,0 +1,98 @@
+import { ConfigService } from '@nestjs/config';
+import { FoundryInstance } from '@prisma/client';
+import { FoundryHealthHistoryService } from './foundry-health-history.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('FoundryHealthHistoryService', () => {
+  let service: FoundryHealthHistoryService;
+  let prisma: {
+    foundryHealthSample: {
+      createMany: jest.Mock;
+      findMany: jest.Mock;
+      deleteMany: jest.Mock;
+    };
+  };
+  let config: Record<string, string>;
+
+  beforeEach(() => {
+    prisma = {
+      foundryHealthSample: {
+        createMany: jest.fn(({ data }: { data: unknown[] }) =>
+          Promise.resolve({ count: data.length }),
+        ),
+        findMany: jest.fn(),
+        deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    config = {};
+    service = new FoundryHealthHistoryService(
+      prisma as unknown as PrismaService,
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('stores one sample per checked instance', async () => {
+    const count = await service.record([
+      {
+        instance: { id: 'instance-1' } as FoundryInstance,
+        report: {
+          healthStatus: 'healthy',
+          world: 'curse-of-strahd',
+          system: 'dnd5e',
+          systemVersion: '3.3.1',
+          foundryVersion: '12.331',
+          users: 2,
+          responseTimeMs: 12,
+          error: null,
+        },
+      },
+    ]);
+
+    expect(count).toBe(1);
+    expect(prisma.foundryHealthSample.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          instanceId: 'instance-1',
+          healthStatus: 'healthy',
+          world: 'curse-of-strahd',
+          system: 'dnd5e',
+          systemVersion: '3.3.1',
+          foundryVersion: '12.331',
+          users: 2,
+          responseTimeMs: 12,
+          error: undefined,
+        },
+      ],
+    });
+  });
+
+  it('returns the most recent samples oldest first', async () => {
+    prisma.foundryHealthSample.findMany.mockResolvedValue([
+      { id: 'newer' },
+      { id: 'older' },
+    ]);
+
+    const samples = await service.findForInstance('instance-1', new Date(), 2);
+
+    expect(samples.map((sample) => sample.id)).toEqual(['older', 'newer']);
+  });
+
+  it('deletes samples older than the retention period', async () => {
+    config.FIM_HEALTH_HISTORY_RETENTION_DAYS = '3';
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+
+    await service.pruneExpired();
+
+    expect(prisma.foundryHealthSample.deleteMany).toHaveBeenCalledWith({
+      where: { checkedAt: { lt: new Date('2026-10-16T12:00:00.000Z') } },
+    });
+  });
+});
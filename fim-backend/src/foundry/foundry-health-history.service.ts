@@ -0,0 +1,93 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FoundryHealthSample, FoundryInstance } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryStatusReport } from './interfaces/foundry-status-report.interface';
+
+const DEFAULT_RETENTION_DAYS = 7;
+
+/**
+ * Keeps the results of the periodic deep health checks as a time series per instance,
+ * so dashboards can show how an instance has been doing and who was playing.
+ * Samples are kept for `FIM_HEALTH_HISTORY_RETENTION_DAYS` days (7 by default).
+ */
+@Injectable()
+export class FoundryHealthHistoryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(FoundryHealthHistoryService.name);
+  }
+
+  /**
+   * Stores the outcome of one round of health checks.
+   * @returns The number of samples stored.
+   */
+  async record(
+    results: { instance: FoundryInstance; report: FoundryStatusReport }[],
+  ): Promise<number> {
+    if (results.length === 0) {
+      return 0;
+    }
+    const { count } = await this.prisma.foundryHealthSample.createMany({
+      data: results.map(({ instance, report }) => ({
+        instanceId: instance.id,
+        healthStatus: report.healthStatus,
+        world: report.world,
+        system: report.system,
+        systemVersion: report.systemVersion,
+        foundryVersion: report.foundryVersion,
+        users: report.users,
+        responseTimeMs: report.responseTimeMs,
+        error: report.error?.slice(0, 500),
+      })),
+    });
+    return count;
+  }
+
+  /**
+   * Lists the samples of an instance, oldest first.
+   * @param instanceId The ID of the instance.
+   * @param since Only samples taken after this time.
+   * @param limit At most this many of the most recent samples.
+   */
+  async findForInstance(
+    instanceId: string,
+    since: Date,
+    limit: number,
+  ): Promise<FoundryHealthSample[]> {
+    const samples = await this.prisma.foundryHealthSample.findMany({
+      where: { instanceId, checkedAt: { gte: since } },
+      orderBy: { checkedAt: 'desc' },
+      take: limit,
+    });
+    return samples.reverse();
+  }
+
+  /**
+   * Deletes the samples older than the retention period.
+   * @returns The number of samples deleted.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async pruneExpired(): Promise<number> {
+    const days =
+      Number(
+        this.configService.get<string>('FIM_HEALTH_HISTORY_RETENTION_DAYS'),
+      ) || DEFAULT_RETENTION_DAYS;
+    const { count } = await this.prisma.foundryHealthSample.deleteMany({
+      where: {
+        checkedAt: { lt: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+      },
+    });
+    if (count > 0) {
+      this.logger.log(
+        `Deleted ${count} health samples older than ${days} days`,
+      );
+    }
+    return count;
+  }
+}
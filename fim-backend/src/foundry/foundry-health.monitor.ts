@@ -0,0 +1,90 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { FoundryInstance } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { FoundryService } from './foundry.service';
+import { FoundryHealthHistoryService } from './foundry-health-history.service';
+import { FoundryStatusReport } from './interfaces/foundry-status-report.interface';
+
+const MONITOR_INTERVAL_NAME = 'foundry-health-monitor';
+const DEFAULT_MONITOR_INTERVAL_MS = 30000;
+
+/**
+ * The outcome of one round of health checks.
+ */
+export interface FoundryHealthRound {
+  checkedAt: Date;
+  results: { instance: FoundryInstance; report: FoundryStatusReport }[];
+}
+
+/**
+ * Periodically health-checks running instances so dashboards learn about transitions
+ * (e.g. a world that stopped answering) without polling. Each round is kept in the health history.
+ */
+@Injectable()
+export class FoundryHealthMonitor
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private checking = false;
+  private lastRound: FoundryHealthRound | null = null;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly foundryService: FoundryService,
+    private readonly healthHistory: FoundryHealthHistoryService,
+  ) {
+    this.logger.setContext(FoundryHealthMonitor.name);
+  }
+
+  onApplicationBootstrap(): void {
+    const monitorInterval =
+      parseInt(
+        this.configService.get<string>('FIM_HEALTH_MONITOR_INTERVAL_MS') ?? '',
+        10,
+      ) || DEFAULT_MONITOR_INTERVAL_MS;
+    const interval = setInterval(() => void this.check(), monitorInterval);
+    this.schedulerRegistry.addInterval(MONITOR_INTERVAL_NAME, interval);
+    this.logger.log(
+      `Checking Foundry instance health every ${monitorInterval}ms`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (this.schedulerRegistry.doesExist('interval', MONITOR_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(MONITOR_INTERVAL_NAME);
+    }
+  }
+
+  /**
+   * The latest round of checks, for readers that must not probe the instances themselves;
+   * null until the first round has finished.
+   */
+  get latestRound(): FoundryHealthRound | null {
+    return this.lastRound;
+  }
+
+  async check(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+    try {
+      const results = await this.foundryService.refreshRunningInstancesHealth();
+      this.lastRound = { checkedAt: new Date(), results };
+      await this.healthHistory.record(results);
+    } catch (error) {
+      this.logger.error(
+        `Error while checking Foundry instance health: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.checking = false;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  FoundryInstanceStatus,
+  FoundryJobStatus,
+  FoundryJobType,
+} from '@prisma/client';
+import { FoundryJobsService } from './foundry-jobs.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryEventsService } from './foundry-events.service';
+
+describe('FoundryJobsService', () => {
+  let service: FoundryJobsService;
+  let prisma: {
+    foundryInstance: { findUnique: jest.Mock; update: jest.Mock };
+    foundryJob: {
+      findFirst: jest.Mock;
+      findUnique: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    $transaction: jest.Mock;
+    $queryRaw: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      foundryInstance: { findUnique: jest.fn(), update: jest.fn() },
+      foundryJob: {
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        create: jest.fn(({ data }: { data: object }) =>
+          Promise.resolve({ id: 'job-1', status: 'PENDING', ...data }),
+        ),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      $transaction: jest.fn((callback: (tx: unknown) => Promise<unknown>) =>
+        callback(prisma),
+      ),
+      $queryRaw: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FoundryJobsService,
+        LoggerService,
+        FoundryEventsService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get<FoundryJobsService>(FoundryJobsService);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('queues a job for an idle instance', async () => {
+      prisma.foundryInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        name: 'campaign',
+      });
+      prisma.foundryJob.findFirst.mockResolvedValue(null);
+
+      const job = await service.enqueue(FoundryJobType.START, 'instance-1', 7);
+
+      expect(job).toMatchObject({
+        type: FoundryJobType.START,
+        instanceId: 'instance-1',
+        requestedById: 7,
+      });
+      expect(prisma.foundryInstance.update).not.toHaveBeenCalled();
+    });
+
+    it('moves the instance to DELETING when a delete is queued', async () => {
+      prisma.foundryInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        name: 'campaign',
+      });
+      prisma.foundryJob.findFirst.mockResolvedValue(null);
+
+      await service.enqueue(FoundryJobType.DELETE, 'instance-1');
+
+      expect(prisma.foundryInstance.update).toHaveBeenCalledWith({
+        where: { id: 'instance-1' },
+        data: { status: FoundryInstanceStatus.DELETING },
+      });
+    });
+
+    it('rejects a second job while one is still in progress', async () => {
+      prisma.foundryInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        name: 'campaign',
+      });
+      prisma.foundryJob.findFirst.mockResolvedValue({
+        id: 'job-0',
+        type: FoundryJobType.CREATE,
+        status: FoundryJobStatus.RUNNING,
+      });
+
+      await expect(
+        service.enqueue(FoundryJobType.STOP, 'instance-1'),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(prisma.foundryJob.create).not.toHaveBeenCalled();
+    });
+
+    it('checks for an active job inside the transaction, after locking the instance', async () => {
+      prisma.foundryInstance.findUnique.mockResolvedValue({
+        id: 'instance-1',
+        name: 'campaign',
+      });
+      prisma.foundryJob.findFirst.mockResolvedValue(null);
+
+      await service.enqueue(FoundryJobType.BACKUP, 'instance-1');
+
+      const [lock] = prisma.$queryRaw.mock.calls[0] as [TemplateStringsArray];
+      expect(lock.join('?')).toContain('FOR UPDATE');
+      const [lockedAt] = prisma.$queryRaw.mock.invocationCallOrder;
+      const [checkedAt] = prisma.foundryJob.findFirst.mock.invocationCallOrder;
+      const [transactionAt] = prisma.$transaction.mock.invocationCallOrder;
+      expect(transactionAt).toBeLessThan(lockedAt);
+      expect(lockedAt).toBeLessThan(checkedAt);
+    });
+
+    it('rejects an unknown instance', async () => {
+      prisma.foundryInstance.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.enqueue(FoundryJobType.START, 'missing'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('claimNext', () => {
+    it('returns null when another worker claimed the job first', async () => {
+      prisma.foundryJob.findFirst.mockResolvedValue({ id: 'job-1' });
+      prisma.foundryJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.claimNext()).resolves.toBeNull();
+      expect(prisma.foundryJob.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'job-1', status: FoundryJobStatus.PENDING },
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryJob,
+  FoundryJobStatus,
+  FoundryJobType,
+  Prisma,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryJobPayload } from './interfaces/foundry-job-payload.interface';
+
+const ACTIVE_JOB_STATUSES: FoundryJobStatus[] = [
+  FoundryJobStatus.PENDING,
+  FoundryJobStatus.RUNNING,
+];
+
+/**
+ * Persists Foundry lifecycle jobs and tracks their progress.
+ * Jobs are executed by {@link FoundryJobsWorker}; this service only manages their records.
+ */
+@Injectable()
+export class FoundryJobsService {
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly prisma: PrismaService,
+    private readonly events: FoundryEventsService,
+  ) {
+    this.logger.setContext(FoundryJobsService.name);
+  }
+
+  /**
+   * Publishes a job change to event subscribers, attributed to the owner of the job's instance.
+   */
+  private async publish(job: FoundryJob): Promise<FoundryJob> {
+    const instance = job.instanceId
+      ? await this.prisma.foundryInstance.findUnique({
+          where: { id: job.instanceId },
+        })
+      : null;
+    this.events.publishJob(job, instance?.ownerId ?? null);
+    return job;
+  }
+
+  /**
+   * Makes sure no job is pending or running for an instance.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @returns The instance.
+   * @throws NotFoundException if the instance is not found.
+   * @throws ConflictException if the instance already has a pending or running job.
+   */
+  async assertIdle(instanceId: string): Promise<FoundryInstance> {
+    return this.findIdleInstance(this.prisma, instanceId);
+  }
+
+  private async findIdleInstance(
+    client: Prisma.TransactionClient,
+    instanceId: string,
+  ): Promise<FoundryInstance> {
+    const instance = await client.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    if (!instance) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} not found.`,
+      );
+    }
+
+    const activeJob = await client.foundryJob.findFirst({
+      where: { instanceId, status: { in: ACTIVE_JOB_STATUSES } },
+    });
+    if (activeJob) {
+      throw new ConflictException(
+        `Foundry instance ${instance.name} already has a ${activeJob.type} job in progress (${activeJob.id}).`,
+      );
+    }
+    return instance;
+  }
+
+  /**
+   * Queues a lifecycle operation for an instance.
+   * Queuing a DELETE immediately moves the instance to the DELETING state.
+   * @param type The operation to perform.
+   * @param instanceId The ID of the Foundry VTT instance to operate on.
+   * @param requestedById Optional ID of the user who requested the operation.
+   * @param payload Extra arguments for the operation, e.g. the backup to restore.
+   * @returns The queued job.
+   * @throws NotFoundException if the instance is not found.
+   * @throws ConflictException if the instance already has a pending or running job.
+   */
+  async enqueue(
+    type: FoundryJobType,
+    instanceId: string,
+    requestedById?: number,
+    payload?: FoundryJobPayload,
+  ): Promise<FoundryJob> {
+    const [instance, job, updatedInstance] = await this.prisma.$transaction(
+      async (tx) => {
+        // Locks the instance row until the job is created, so a concurrent request for the same instance
+        // waits here and then sees this job as active instead of queuing a conflicting one.
+        await tx.$queryRaw`SELECT 1 FROM "foundry_instances" WHERE "id" = ${instanceId} FOR UPDATE`;
+        const idle = await this.findIdleInstance(tx, instanceId);
+        const deleting =
+          type === FoundryJobType.DELETE
+            ? await tx.foundryInstance.update({
+                where: { id: instanceId },
+                data: { status: FoundryInstanceStatus.DELETING },
+              })
+            : null;
+        const created = await tx.foundryJob.create({
+          data: {
+            type,
+            instanceId,
+            requestedById,
+            message: 'Queued',
+            payload: payload ? { ...payload } : undefined,
+          },
+        });
+        return [idle, created, deleting] as const;
+      },
+    );
+    this.logger.log(
+      `Queued ${type} job ${job.id} for Foundry instance ${instance.name}`,
+    );
+    if (updatedInstance) {
+      this.events.publishStatus(updatedInstance);
+    }
+    this.events.publishJob(job, instance.ownerId);
+    return job;
+  }
+
+  /**
+   * Gets a job by ID.
+   * @param jobId The ID of the job.
+   * @returns The job.
+   * @throws NotFoundException if the job is not found.
+   */
+  async findOne(jobId: string): Promise<FoundryJob> {
+    const job = await this.prisma.foundryJob.findUnique({
+      where: { id: jobId },
+    });
+    if (!job) {
+      throw new NotFoundException(`Foundry job with ID ${jobId} not found.`);
+    }
+    return job;
+  }
+
+  /**
+   * Claims the oldest pending job by moving it to RUNNING.
+   * The status guard on the update makes the claim safe if several workers race for the same job.
+   * @returns The claimed job, or null if the queue is empty.
+   */
+  async claimNext(): Promise<FoundryJob | null> {
+    const next = await this.prisma.foundryJob.findFirst({
+      where: { status: FoundryJobStatus.PENDING },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!next) {
+      return null;
+    }
+
+    const { count } = await this.prisma.foundryJob.updateMany({
+      where: { id: next.id, status: FoundryJobStatus.PENDING },
+      data: {
+        status: FoundryJobStatus.RUNNING,
+        startedAt: new Date(),
+        message: 'Started',
+      },
+    });
+    if (count !== 1) {
+      return null;
+    }
+    const job = await this.prisma.foundryJob.findUnique({
+      where: { id: next.id },
+    });
+    return job && this.publish(job);
+  }
+
+  async reportProgress(
+    jobId: string,
+    progress: number,
+    message: string,
+  ): Promise<void> {
+    const job = await this.prisma.foundryJob.update({
+      where: { id: jobId },
+      data: { progress: Math.min(100, Math.max(0, progress)), message },
+    });
+    await this.publish(job);
+  }
+
+  async markSucceeded(jobId: string): Promise<FoundryJob> {
+    const job = await this.prisma.foundryJob.update({
+      where: { id: jobId },
+      data: {
+        status: FoundryJobStatus.SUCCEEDED,
+        progress: 100,
+        finishedAt: new Date(),
+      },
+    });
+    return this.publish(job);
+  }
+
+  async markFailed(jobId: string, error: string): Promise<FoundryJob> {
+    const job = await this.prisma.foundryJob.update({
+      where: { id: jobId },
+      data: {
+        status: FoundryJobStatus.FAILED,
+        error,
+        finishedAt: new Date(),
+      },
+    });
+    return this.publish(job);
+  }
+
+  /**
+   * Fails jobs that were RUNNING when the process stopped; nothing is executing them anymore.
+   * @returns The number of jobs that were failed.
+   */
+  async failInterruptedJobs(): Promise<number> {
+    const { count } = await this.prisma.foundryJob.updateMany({
+      where: { status: FoundryJobStatus.RUNNING },
+      data: {
+        status: FoundryJobStatus.FAILED,
+        error: 'Interrupted by server restart',
+        finishedAt: new Date(),
+      },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { FoundryJob, FoundryJobType } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { FoundryService } from './foundry.service';
+import { FoundryJobsService } from './foundry-jobs.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import { FoundryUpdater } from './foundry-updater.service';
+import { FoundryJobPayload } from './interfaces/foundry-job-payload.interface';
+import { JobProgressReporter } from './interfaces/job-progress-reporter.interface';
+
+const WORKER_INTERVAL_NAME = 'foundry-jobs-worker';
+const DEFAULT_POLL_INTERVAL_MS = 2000;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Polls the job table and runs queued lifecycle operations one at a time, oldest first.
+ * Running jobs serially keeps concurrent image pulls and port bindings from stepping on each other.
+ */
+@Injectable()
+export class FoundryJobsWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private processing = false;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly foundryService: FoundryService,
+    private readonly foundryJobsService: FoundryJobsService,
+    private readonly foundryBackupsService: FoundryBackupsService,
+    private readonly foundryUpdater: FoundryUpdater,
+  ) {
+    this.logger.setContext(FoundryJobsWorker.name);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    const interrupted = await this.foundryJobsService.failInterruptedJobs();
+    if (interrupted > 0) {
+      this.logger.warn(
+        `Marked ${interrupted} interrupted Foundry job(s) as failed`,
+      );
+    }
+
+    const pollInterval =
+      parseInt(
+        this.configService.get<string>('FIM_JOB_POLL_INTERVAL_MS') ?? '',
+        10,
+      ) || DEFAULT_POLL_INTERVAL_MS;
+    const interval = setInterval(() => void this.drainQueue(), pollInterval);
+    this.schedulerRegistry.addInterval(WORKER_INTERVAL_NAME, interval);
+    this.logger.log(`Polling for Foundry jobs every ${pollInterval}ms`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.schedulerRegistry.doesExist('interval', WORKER_INTERVAL_NAME)) {
+      this.schedulerRegistry.deleteInterval(WORKER_INTERVAL_NAME);
+    }
+  }
+
+  /**
+   * Runs pending jobs until the queue is empty. Overlapping calls return immediately.
+   */
+  async drainQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      let job = await this.foundryJobsService.claimNext();
+      while (job) {
+        await this.runJob(job);
+        job = await this.foundryJobsService.claimNext();
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error while processing Foundry jobs: ${describeError(error)}`,
+      );
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(job: FoundryJob): Promise<void> {
+    this.logger.log(`Running ${job.type} job ${job.id}`);
+    const report: JobProgressReporter = (progress, message) =>
+      this.foundryJobsService.reportProgress(job.id, progress, message);
+
+    try {
+      await this.execute(job, report);
+      await this.foundryJobsService.markSucceeded(job.id);
+      this.logger.log(`${job.type} job ${job.id} succeeded`);
+    } catch (error) {
+      const message = describeError(error);
+      this.logger.error(`${job.type} job ${job.id} failed: ${message}`);
+      await this.foundryJobsService.markFailed(job.id, message);
+    }
+  }
+
+  private async execute(
+    job: FoundryJob,
+    report: JobProgressReporter,
+  ): Promise<void> {
+    if (!job.instanceId) {
+      throw new Error('The instance for this job no longer exists.');
+    }
+    switch (job.type) {
+      case FoundryJobType.CREATE:
+        await this.foundryService.provisionFoundryInstance(
+          job.instanceId,
+          report,
+        );
+        break;
+      case FoundryJobType.START:
+        await this.foundryService.startFoundry(job.instanceId, report);
+        break;
+      case FoundryJobType.STOP:
+        await this.foundryService.stopFoundry(job.instanceId, report);
+        break;
+      case FoundryJobType.RESTART:
+        await this.foundryService.restartFoundry(job.instanceId, report);
+        break;
+      case FoundryJobType.DELETE:
+        await this.foundryService.deleteFoundry(job.instanceId, report);
+        break;
+      case FoundryJobType.RECREATE:
+        await this.foundryService.recreateFoundry(job.instanceId, report);
+        break;
+      case FoundryJobType.BACKUP: {
+        const { scheduleId } = (job.payload ?? {}) as FoundryJobPayload;
+        await this.foundryBackupsService.createBackup(job.instanceId, report, {
+          createdById: job.requestedById ?? undefined,
+          scheduleId,
+        });
+        break;
+      }
+      case FoundryJobType.RESTORE: {
+        const { backupId } = (job.payload ?? {}) as FoundryJobPayload;
+        if (!backupId) {
+          throw new Error('The restore job does not say which backup to use.');
+        }
+        await this.foundryBackupsService.restoreBackup(
+          job.instanceId,
+          backupId,
+          report,
+        );
+        break;
+      }
+      case FoundryJobType.UPDATE: {
+        const { imageTag } = (job.payload ?? {}) as FoundryJobPayload;
+        if (!imageTag) {
+          throw new Error(
+            'The update job does not say which image tag to use.',
+          );
+        }
+        await this.foundryUpdater.updateFoundry(
+          job.instanceId,
+          imageTag,
+          report,
+          {
+            requestedById: job.requestedById ?? undefined,
+          },
+        );
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { FoundryInstanceStatus } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryMetricsCollector } from './foundry-metrics.collector';
+import { InMemoryContainerRuntime } from './runtime/in-memory.runtime';
+
+const IMAGE = 'felddy/foundryvtt:12';
+
+describe('FoundryMetricsCollector', () => {
+  let runtime: InMemoryContainerRuntime;
+  let metrics: MetricsService;
+  let instances: {
+    id: string;
+    name: string;
+    status: FoundryInstanceStatus;
+    dockerContainerId: string | null;
+  }[];
+
+  const startContainer = async (name: string) => {
+    runtime.images.add(IMAGE);
+    const id = await runtime.createContainer({
+      name,
+      image: IMAGE,
+      memoryLimitMb: 512,
+    });
+    await runtime.startContainer(id);
+    return id;
+  };
+
+  beforeEach(() => {
+    runtime = new InMemoryContainerRuntime();
+    metrics = new MetricsService();
+    instances = [];
+    const prisma = {
+      foundryInstance: { findMany: jest.fn(() => Promise.resolve(instances)) },
+      foundryJob: {
+        groupBy: jest.fn(() =>
+          Promise.resolve([{ status: 'PENDING', _count: { _all: 2 } }]),
+        ),
+      },
+    };
+    new FoundryMetricsCollector(
+      prisma as unknown as PrismaService,
+      runtime,
+      metrics,
+      new LoggerService(),
+    ).onModuleInit();
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports the status of every instance and the job queue', async () => {
+    instances.push({
+      id: 'a',
+      name: 'curse-of-strahd',
+      status: FoundryInstanceStatus.STOPPED,
+      dockerContainerId: null,
+    });
+
+    const output = await metrics.render();
+
+    expect(output).toContain(
+      'fim_instance_status{instance_id="a",instance_name="curse-of-strahd",status="STOPPED"} 1',
+    );
+    expect(output).toContain(
+      'fim_instance_status{instance_id="a",instance_name="curse-of-strahd",status="RUNNING"} 0',
+    );
+    expect(output).toContain('fim_job_queue_depth{status="pending"} 2');
+    expect(output).toContain('fim_job_queue_depth{status="running"} 0');
+    expect(output).not.toContain('fim_instance_memory_usage_bytes{');
+  });
+
+  it('reports the resource usage of running containers', async () => {
+    const containerId = await startContainer('foundry-one-shot');
+    Object.assign(runtime.containers.get(containerId)!.stats, {
+      cpuSeconds: 12.5,
+      memoryUsageBytes: 300 * 1024 * 1024,
+      networkReceivedBytes: 2048,
+    });
+    instances.push({
+      id: 'b',
+      name: 'one-shot',
+      status: FoundryInstanceStatus.RUNNING,
+      dockerContainerId: containerId,
+    });
+
+    const output = await metrics.render();
+    const labels = '{instance_id="b",instance_name="one-shot"}';
+
+    expect(output).toContain(`fim_instance_cpu_seconds_total${labels} 12.5`);
+    expect(output).toContain(
+      `fim_instance_memory_usage_bytes${labels} ${300 * 1024 * 1024}`,
+    );
+    expect(output).toContain(
+      `fim_instance_memory_limit_bytes${labels} ${512 * 1024 * 1024}`,
+    );
+    expect(output).toContain(
+      `fim_instance_network_receive_bytes_total${labels} 2048`,
+    );
+    expect(output).toMatch(
+      new RegExp(`fim_instance_uptime_seconds${labels} \\d`),
+    );
+  });
+
+  it('leaves out containers that no longer exist', async () => {
+    instances.push({
+      id: 'c',
+      name: 'gone',
+      status: FoundryInstanceStatus.RUNNING,
+      dockerContainerId: 'missing',
+    });
+
+    const output = await metrics.render();
+
+    expect(output).toContain(
+      'fim_instance_status{instance_id="c",instance_name="gone",status="RUNNING"} 1',
+    );
+    expect(output).not.toContain('fim_instance_cpu_seconds_total{');
+  });
+});
@@ -0,0 +1,215 @@
+import { Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { FoundryInstanceStatus, FoundryJobStatus } from '@prisma/client';
+import { Counter, Gauge } from 'prom-client';
+import { LoggerService } from '../common/logger/logger.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CONTAINER_RUNTIME,
+  ContainerRuntime,
+  ContainerStats,
+} from './runtime/container-runtime';
+
+// Every metric of a scrape is computed from one sample, and a scraper retrying right away reuses it
+const SAMPLE_TTL_MS = 5000;
+
+const INSTANCE_LABELS = ['instance_id', 'instance_name'] as const;
+
+interface InstanceSample {
+  id: string;
+  name: string;
+  status: FoundryInstanceStatus;
+  uptimeSeconds: number | null;
+  stats: ContainerStats | null;
+}
+
+interface FleetSample {
+  instances: InstanceSample[];
+  jobs: Record<'PENDING' | 'RUNNING', number>;
+}
+
+/**
+ * Exposes the Foundry instance fleet as Prometheus metrics: the status of every instance, the resource usage
+ * of running containers as reported by Docker, and how many jobs are waiting or running.
+ * Nothing is collected in the background; the fleet is sampled when the metrics are scraped.
+ */
+@Injectable()
+export class FoundryMetricsCollector implements OnModuleInit {
+  private cached?: { at: number; sample: Promise<FleetSample> };
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(CONTAINER_RUNTIME) private readonly runtime: ContainerRuntime,
+    private readonly metricsService: MetricsService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(FoundryMetricsCollector.name);
+  }
+
+  onModuleInit(): void {
+    const registers = [this.metricsService.registry];
+    const sample = () => this.sample();
+    const perInstance = (
+      read: (instance: InstanceSample) => number | null | undefined,
+    ) =>
+      async function (this: Gauge<(typeof INSTANCE_LABELS)[number]>) {
+        this.reset();
+        for (const instance of (await sample()).instances) {
+          const value = read(instance);
+          if (value !== null && value !== undefined) {
+            this.labels(instance.id, instance.name).set(value);
+          }
+        }
+      };
+    // Docker reports totals; counters are rebuilt from them on every scrape
+    const perInstanceTotal = (read: (stats: ContainerStats) => number) =>
+      async function (this: Counter<(typeof INSTANCE_LABELS)[number]>) {
+        this.reset();
+        for (const instance of (await sample()).instances) {
+          if (instance.stats) {
+            this.labels(instance.id, instance.name).inc(read(instance.stats));
+          }
+        }
+      };
+
+    new Gauge({
+      name: 'fim_instance_status',
+      help: 'Status of each Foundry instance; 1 for its current status, 0 for the others',
+      labelNames: [...INSTANCE_LABELS, 'status'] as const,
+      registers,
+      async collect() {
+        this.reset();
+        for (const instance of (await sample()).instances) {
+          for (const status of Object.values(FoundryInstanceStatus)) {
+            this.labels(instance.id, instance.name, status).set(
+              instance.status === status ? 1 : 0,
+            );
+          }
+        }
+      },
+    });
+    new Gauge({
+      name: 'fim_instance_uptime_seconds',
+      help: 'Seconds since the container of each running instance started',
+      labelNames: INSTANCE_LABELS,
+      registers,
+      collect: perInstance((instance) => instance.uptimeSeconds),
+    });
+    new Counter({
+      name: 'fim_instance_cpu_seconds_total',
+      help: 'CPU time used by the container of each running instance',
+      labelNames: INSTANCE_LABELS,
+      registers,
+      collect: perInstanceTotal((stats) => stats.cpuSeconds),
+    });
+    new Gauge({
+      name: 'fim_instance_memory_usage_bytes',
+      help: 'Memory used by the container of each running instance, without reclaimable page cache',
+      labelNames: INSTANCE_LABELS,
+      registers,
+      collect: perInstance((instance) => instance.stats?.memoryUsageBytes),
+    });
+    new Gauge({
+      name: 'fim_instance_memory_limit_bytes',
+      help: 'Memory the container of each running instance may use',
+      labelNames: INSTANCE_LABELS,
+      registers,
+      collect: perInstance((instance) => instance.stats?.memoryLimitBytes),
+    });
+    new Counter({
+      name: 'fim_instance_network_receive_bytes_total',
+      help: 'Bytes received by the container of each running instance',
+      labelNames: INSTANCE_LABELS,
+      registers,
+      collect: perInstanceTotal((stats) => stats.networkReceivedBytes),
+    });
+    new Counter({
+      name: 'fim_instance_network_transmit_bytes_total',
+      help: 'Bytes sent by the container of each running instance',
+      labelNames: INSTANCE_LABELS,
+      registers,
+      collect: perInstanceTotal((stats) => stats.networkTransmittedBytes),
+    });
+    new Gauge({
+      name: 'fim_job_queue_depth',
+      help: 'Foundry jobs waiting to run or running',
+      labelNames: ['status'] as const,
+      registers,
+      async collect() {
+        const { jobs } = await sample();
+        this.labels('pending').set(jobs.PENDING);
+        this.labels('running').set(jobs.RUNNING);
+      },
+    });
+  }
+
+  private sample(): Promise<FleetSample> {
+    const now = Date.now();
+    if (!this.cached || now - this.cached.at > SAMPLE_TTL_MS) {
+      this.cached = { at: now, sample: this.takeSample(now) };
+    }
+    return this.cached.sample;
+  }
+
+  private async takeSample(now: number): Promise<FleetSample> {
+    const [instances, jobCounts] = await Promise.all([
+      this.prisma.foundryInstance.findMany({
+        select: { id: true, name: true, status: true, dockerContainerId: true },
+        orderBy: { name: 'asc' },
+      }),
+      this.prisma.foundryJob.groupBy({
+        by: ['status'],
+        where: {
+          status: { in: [FoundryJobStatus.PENDING, FoundryJobStatus.RUNNING] },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+    const count = (status: FoundryJobStatus) =>
+      jobCounts.find((row) => row.status === status)?._count._all ?? 0;
+
+    return {
+      instances: await Promise.all(
+        instances.map(async (instance): Promise<InstanceSample> => {
+          const sample = {
+            id: instance.id,
+            name: instance.name,
+            status: instance.status,
+            uptimeSeconds: null,
+            stats: null,
+          };
+          if (
+            instance.status !== FoundryInstanceStatus.RUNNING ||
+            !instance.dockerContainerId
+          ) {
+            return sample;
+          }
+          try {
+            const [state, stats] = await Promise.all([
+              this.runtime.inspectContainer(instance.dockerContainerId),
+              this.runtime.getContainerStats(instance.dockerContainerId),
+            ]);
+            return {
+              ...sample,
+              uptimeSeconds:
+                state.running && state.startedAt
+                  ? Math.max((now - state.startedAt.getTime()) / 1000, 0)
+                  : null,
+              stats: state.running ? stats : null,
+            };
+          } catch (error) {
+            // A container that vanished is the reconciler's business; its metrics are left out until then
+            this.logger.debug(
+              `No container metrics for instance ${instance.name}: ${error instanceof Error ? error.message : String(error)}`,
+            );
+            return sample;
+          }
+        }),
+      ),
+      jobs: {
+        PENDING: count(FoundryJobStatus.PENDING),
+        RUNNING: count(FoundryJobStatus.RUNNING),
+      },
+    };
+  }
+}
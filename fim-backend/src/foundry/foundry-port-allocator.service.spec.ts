@@ -0,0 +1,139 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as net from 'net';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  FoundryPortAllocator,
+  parsePortRange,
+} from './foundry-port-allocator.service';
+import { InMemoryContainerRuntime } from './runtime/in-memory.runtime';
+
+describe('parsePortRange', () => {
+  it('parses an inclusive range', () => {
+    expect(parsePortRange('30000-30100')).toEqual({ start: 30000, end: 30100 });
+  });
+
+  it.each([undefined, '', '30100-30000', '30000', '0-10', '1-70000'])(
+    'rejects %p',
+    (value) => {
+      expect(parsePortRange(value)).toBeNull();
+    },
+  );
+});
+
+describe('FoundryPortAllocator', () => {
+  let usedPorts: number[];
+  let range: string | undefined;
+  let runtime: InMemoryContainerRuntime;
+
+  const createAllocator = () => {
+    const prisma = {
+      foundryInstance: {
+        findMany: jest.fn(() =>
+          Promise.resolve(usedPorts.map((port) => ({ port }))),
+        ),
+        findUnique: jest.fn(({ where }: { where: { port: number } }) =>
+          Promise.resolve(
+            usedPorts.includes(where.port) ? { port: where.port } : null,
+          ),
+        ),
+      },
+    };
+    const config = { get: () => range };
+    return new FoundryPortAllocator(
+      new LoggerService(),
+      config as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+      runtime,
+    );
+  };
+
+  const listen = (port = 0): Promise<net.Server> =>
+    new Promise((resolve) => {
+      const server = net.createServer();
+      server.listen(port, '0.0.0.0', () => resolve(server));
+    });
+
+  beforeEach(() => {
+    usedPorts = [];
+    range = undefined;
+    runtime = new InMemoryContainerRuntime();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('falls back to the default range when FIM_PORT_RANGE is invalid', () => {
+    range = 'lots';
+
+    expect(createAllocator().range).toEqual({ start: 30000, end: 30100 });
+  });
+
+  it('skips ports used by instances or reserved by a create in flight', async () => {
+    range = '30000-30005';
+    usedPorts = [30000];
+    const allocator = createAllocator();
+    jest.spyOn(allocator as any, 'isBoundOnHost').mockResolvedValue(false);
+
+    expect(await allocator.allocate()).toBe(30001);
+    expect(await allocator.allocate()).toBe(30002);
+
+    allocator.release(30001);
+    expect(await allocator.allocate()).toBe(30001);
+  });
+
+  it('skips ports that another process on the host is bound to', async () => {
+    const server = await listen();
+    const busyPort = (server.address() as net.AddressInfo).port;
+    range = `${busyPort}-${busyPort}`;
+
+    try {
+      await expect(createAllocator().allocate()).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      await expect(createAllocator().allocate(busyPort)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    } finally {
+      server.close();
+    }
+  });
+
+  it('skips ports published by other containers, which a probe from inside a container cannot see', async () => {
+    range = '30000-30002';
+    await runtime.pullImage('nginx');
+    await runtime.createContainer({
+      name: 'someone-elses-app',
+      image: 'nginx',
+      ports: [{ containerPort: 80, hostPort: 30000 }],
+    });
+    const allocator = createAllocator();
+    jest.spyOn(allocator as any, 'isBoundOnHost').mockResolvedValue(false);
+
+    expect(await allocator.allocate()).toBe(30001);
+    await expect(allocator.allocate(30000)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('accepts a requested port that is free', async () => {
+    const server = await listen();
+    const freePort = (server.address() as net.AddressInfo).port;
+    await new Promise((resolve) => server.close(resolve));
+
+    expect(await createAllocator().allocate(freePort)).toBe(freePort);
+  });
+
+  it('rejects a requested port that an instance already uses', async () => {
+    usedPorts = [30010];
+
+    await expect(createAllocator().allocate(30010)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+});
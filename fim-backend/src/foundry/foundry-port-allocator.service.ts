@@ -0,0 +1,188 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as net from 'net';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CONTAINER_RUNTIME,
+  ContainerRuntime,
+} from './runtime/container-runtime';
+
+const DEFAULT_PORT_RANGE: PortRange = { start: 30000, end: 30100 };
+const DEFAULT_PROBE_HOST = '0.0.0.0';
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parses a range such as `30000-30100` (both ends inclusive).
+ * @returns The range, or null if the value is missing or malformed.
+ */
+export function parsePortRange(value: string | undefined): PortRange | null {
+  const match = value?.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  if (start < 1 || end > 65535 || start > end) {
+    return null;
+  }
+  return { start, end };
+}
+
+/**
+ * Hands out host ports for new instances from the `FIM_PORT_RANGE` pool.
+ * A port is only handed out if no instance uses it, no container publishes it on the host and nothing else is listening on it.
+ * Instance rows are the record of which ports are taken, so deleting an instance returns its port to the pool.
+ *
+ * Ports published by containers are read from Docker, so they are seen wherever the backend runs.
+ * Other processes are found by binding to `FIM_PORT_PROBE_HOST` (default `0.0.0.0`) from this process, which only
+ * reaches the host's ports when the backend runs on the host or with host networking.
+ */
+@Injectable()
+export class FoundryPortAllocator {
+  readonly range: PortRange;
+  private readonly probeHost: string;
+  // Ports handed out whose instance row has not been written yet.
+  private readonly reserved = new Set<number>();
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    @Inject(CONTAINER_RUNTIME) private readonly runtime: ContainerRuntime,
+  ) {
+    this.logger.setContext(FoundryPortAllocator.name);
+    const configuredRange = this.configService.get<string>('FIM_PORT_RANGE');
+    const range = parsePortRange(configuredRange);
+    if (configuredRange && !range) {
+      this.logger.warn(
+        `Ignoring invalid FIM_PORT_RANGE '${configuredRange}'; expected e.g. 30000-30100`,
+      );
+    }
+    this.range = range ?? DEFAULT_PORT_RANGE;
+    this.probeHost =
+      this.configService.get<string>('FIM_PORT_PROBE_HOST') ||
+      DEFAULT_PROBE_HOST;
+  }
+
+  /**
+   * Reserves a port for a new instance. Call {@link release} once the instance has been saved (or creating it failed).
+   * @param requestedPort A specific port to use instead of picking one from the pool.
+   * @returns The reserved port.
+   * @throws BadRequestException if the requested port is already in use.
+   * @throws ConflictException if every port in the pool is in use.
+   */
+  async allocate(requestedPort?: number): Promise<number> {
+    if (requestedPort !== undefined) {
+      await this.assertAvailable(requestedPort);
+      this.reserved.add(requestedPort);
+      return requestedPort;
+    }
+
+    const instances = await this.prisma.foundryInstance.findMany({
+      select: { port: true },
+    });
+    const usedPorts = new Set(instances.map((instance) => instance.port));
+    const publishedPorts = await this.publishedHostPorts();
+    for (let port = this.range.start; port <= this.range.end; port++) {
+      if (usedPorts.has(port) || this.reserved.has(port)) {
+        continue;
+      }
+      if (publishedPorts.has(port)) {
+        this.logger.debug(
+          `Skipping port ${port}: a container publishes it on the host`,
+        );
+        continue;
+      }
+      if (await this.isBoundOnHost(port)) {
+        this.logger.debug(
+          `Skipping port ${port}: another process on the host is bound to it`,
+        );
+        continue;
+      }
+      this.reserved.add(port);
+      this.logger.log(`Allocated port ${port}`);
+      return port;
+    }
+    throw new ConflictException(
+      `No free port left in the range ${this.range.start}-${this.range.end}.`,
+    );
+  }
+
+  /**
+   * Returns a port to the pool.
+   */
+  release(port: number): void {
+    if (this.reserved.delete(port)) {
+      this.logger.debug(`Released port ${port}`);
+    }
+  }
+
+  private async assertAvailable(port: number): Promise<void> {
+    const existingInstance = await this.prisma.foundryInstance.findUnique({
+      where: { port },
+    });
+    if (existingInstance || this.reserved.has(port)) {
+      throw new BadRequestException(
+        `Foundry instance with port '${port}' already in use.`,
+      );
+    }
+    if ((await this.publishedHostPorts()).has(port)) {
+      throw new BadRequestException(
+        `Port ${port} is already published on the host by another container.`,
+      );
+    }
+    if (await this.isBoundOnHost(port)) {
+      throw new BadRequestException(
+        `Port ${port} is already in use by another process on the host.`,
+      );
+    }
+  }
+
+  /**
+   * Collects the host ports published by any container, including those not managed by this application.
+   * @throws InternalServerErrorException if Docker cannot be asked.
+   */
+  private async publishedHostPorts(): Promise<Set<number>> {
+    try {
+      const containers = await this.runtime.listContainers('');
+      return new Set(
+        containers.flatMap((container) =>
+          container.ports.map((binding) => binding.hostPort),
+        ),
+      );
+    } catch (error) {
+      throw new InternalServerErrorException(
+        `Could not list the ports published by Docker: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Tries to listen on the port; if that fails because the address is taken, something else owns it.
+   */
+  private isBoundOnHost(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = net.createServer();
+      server.unref();
+      server.once('error', (error: NodeJS.ErrnoException) => {
+        if (error.code !== 'EADDRINUSE' && error.code !== 'EACCES') {
+          this.logger.warn(`Could not probe port ${port}: ${error.message}`);
+        }
+        resolve(true);
+      });
+      server.once('listening', () => server.close(() => resolve(false)));
+      server.listen(port, this.probeHost);
+    });
+  }
+}
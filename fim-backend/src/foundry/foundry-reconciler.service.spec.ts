@@ -0,0 +1,271 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import {
+  FoundryCorrectionKind,
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryRestartPolicy,
+} from '@prisma/client';
+import { FoundryReconciler } from './foundry-reconciler.service';
+import { FoundryService } from './foundry.service';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryPortAllocator } from './foundry-port-allocator.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CONTAINER_RUNTIME } from './runtime/container-runtime';
+import { InMemoryContainerRuntime } from './runtime/in-memory.runtime';
+
+const IMAGE = 'felddy/foundryvtt:latest';
+const DATA_ROOT = '/srv/foundry-data';
+
+describe('FoundryReconciler', () => {
+  let reconciler: FoundryReconciler;
+  let runtime: InMemoryContainerRuntime;
+  let instances: FoundryInstance[];
+  let orphanPolicy: string | undefined;
+  let prisma: {
+    foundryInstance: {
+      findMany: jest.Mock;
+      update: jest.Mock;
+      create: jest.Mock;
+    };
+    foundryJob: { findMany: jest.Mock };
+    foundryStatusCorrection: { create: jest.Mock; findFirst: jest.Mock };
+    $transaction: jest.Mock;
+  };
+
+  const seedInstance = (overrides: Partial<FoundryInstance>) => {
+    const instance: FoundryInstance = {
+      id: `instance-${instances.length + 1}`,
+      name: 'campaign',
+      port: 30001,
+      status: FoundryInstanceStatus.RUNNING,
+      dockerContainerId: null,
+      ownerId: null,
+      image: 'felddy/foundryvtt',
+      imageTag: 'latest',
+      foundryVersion: null,
+      memoryLimitMb: null,
+      cpuLimit: null,
+      env: {},
+      restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+      nextSessionAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    };
+    instances.push(instance);
+    return instance;
+  };
+
+  const seedContainer = async (
+    name: string,
+    hostPort = 30001,
+    dataPath = `${DATA_ROOT}/${name}-data`,
+    image = IMAGE,
+  ) => {
+    runtime.images.add(image);
+    const id = await runtime.createContainer({
+      name,
+      image,
+      ports: [{ containerPort: 30000, hostPort }],
+      binds: [{ hostPath: dataPath, containerPath: '/data' }],
+    });
+    await runtime.startContainer(id);
+    return id;
+  };
+
+  beforeEach(async () => {
+    runtime = new InMemoryContainerRuntime();
+    instances = [];
+    orphanPolicy = undefined;
+    prisma = {
+      foundryInstance: {
+        findMany: jest.fn(() => Promise.resolve(instances)),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string };
+            data: Partial<FoundryInstance>;
+          }) =>
+            Promise.resolve({
+              ...instances.find((i) => i.id === where.id),
+              ...data,
+            }),
+        ),
+        create: jest.fn(({ data }: { data: Partial<FoundryInstance> }) =>
+          Promise.resolve({ id: 'adopted', ...data }),
+        ),
+      },
+      foundryJob: { findMany: jest.fn(() => Promise.resolve([])) },
+      foundryStatusCorrection: {
+        create: jest.fn(({ data }: { data: object }) => Promise.resolve(data)),
+        findFirst: jest.fn(() => Promise.resolve(null)),
+      },
+      $transaction: jest.fn((arg: unknown) =>
+        Array.isArray(arg)
+          ? Promise.all(arg)
+          : (arg as (tx: unknown) => Promise<unknown>)(prisma),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FoundryReconciler,
+        FoundryService,
+        FoundryEventsService,
+        FoundryPortAllocator,
+        LoggerService,
+        SchedulerRegistry,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CONTAINER_RUNTIME, useValue: runtime },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'FIM_RECONCILE_ORPHANS' ? orphanPolicy : undefined,
+          },
+        },
+      ],
+    }).compile();
+
+    reconciler = module.get(FoundryReconciler);
+    jest
+      .spyOn(module.get(FoundryService), 'resolveDataRoot')
+      .mockReturnValue({ hostPath: DATA_ROOT, localPath: DATA_ROOT });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks an instance whose container crashed as stopped', async () => {
+    const containerId = await seedContainer('foundry-campaign');
+    seedInstance({ dockerContainerId: containerId });
+    runtime.crash(containerId, 137);
+
+    const { corrections } = await reconciler.reconcile();
+
+    expect(corrections).toEqual([
+      expect.objectContaining({
+        kind: FoundryCorrectionKind.STATUS_DRIFT,
+        previousStatus: FoundryInstanceStatus.RUNNING,
+        newStatus: FoundryInstanceStatus.STOPPED,
+        reason: `Container ${containerId} is exited (exit code 137) but instance was RUNNING`,
+      }),
+    ]);
+  });
+
+  it('forgets a container that was removed by hand', async () => {
+    seedInstance({ dockerContainerId: 'gone' });
+
+    const { corrections } = await reconciler.reconcile();
+
+    expect(corrections[0].kind).toBe(FoundryCorrectionKind.CONTAINER_MISSING);
+    expect(prisma.foundryInstance.update).toHaveBeenCalledWith({
+      where: { id: 'instance-1' },
+      data: { status: FoundryInstanceStatus.STOPPED, dockerContainerId: null },
+    });
+  });
+
+  it('leaves instances with a job in flight alone', async () => {
+    seedInstance({ dockerContainerId: 'gone' });
+    prisma.foundryJob.findMany.mockResolvedValue([
+      { instanceId: 'instance-1' },
+    ]);
+
+    const summary = await reconciler.reconcile();
+
+    expect(summary).toEqual({ checked: 0, corrections: [] });
+  });
+
+  it('does not treat the container of an instance in transition as an orphan', async () => {
+    orphanPolicy = 'adopt';
+    seedInstance({ name: 'new', status: FoundryInstanceStatus.CREATING });
+    seedInstance({ name: 'restarting', port: 30002 });
+    prisma.foundryJob.findMany.mockResolvedValue([
+      { instanceId: 'instance-2' },
+    ]);
+    await seedContainer('foundry-new');
+    await seedContainer('foundry-restarting', 30002);
+
+    const summary = await reconciler.reconcile();
+
+    expect(summary).toEqual({ checked: 0, corrections: [] });
+    expect(prisma.foundryInstance.create).not.toHaveBeenCalled();
+  });
+
+  it('reports orphaned containers only once by default', async () => {
+    await seedContainer('foundry-stray');
+
+    const first = await reconciler.reconcile();
+    prisma.foundryStatusCorrection.findFirst.mockResolvedValue(
+      first.corrections[0],
+    );
+    const second = await reconciler.reconcile();
+
+    expect(first.corrections[0].kind).toBe(
+      FoundryCorrectionKind.ORPHAN_REPORTED,
+    );
+    expect(second.corrections).toEqual([]);
+    expect(prisma.foundryInstance.create).not.toHaveBeenCalled();
+  });
+
+  it('adopts orphaned containers with their image and data when configured to', async () => {
+    orphanPolicy = 'adopt';
+    const containerId = await seedContainer(
+      'foundry-stray',
+      30005,
+      `${DATA_ROOT}/lost-instance`,
+      'felddy/foundryvtt:12',
+    );
+
+    const { corrections } = await reconciler.reconcile();
+
+    expect(prisma.foundryInstance.create).toHaveBeenCalledWith({
+      data: {
+        id: 'lost-instance',
+        name: 'stray',
+        port: 30005,
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+        image: 'felddy/foundryvtt',
+        imageTag: '12',
+      },
+    });
+    expect(corrections[0].kind).toBe(FoundryCorrectionKind.ORPHAN_ADOPTED);
+  });
+
+  it('refuses to adopt an orphan whose data lives outside the data root', async () => {
+    orphanPolicy = 'adopt';
+    await seedContainer('foundry-stray', 30005, '/home/gm/foundry');
+
+    const { corrections } = await reconciler.reconcile();
+
+    expect(prisma.foundryInstance.create).not.toHaveBeenCalled();
+    expect(corrections[0]).toMatchObject({
+      kind: FoundryCorrectionKind.ORPHAN_REPORTED,
+      reason: `Orphaned container foundry-stray could not be adopted: its /data is not mounted from a directory of ${DATA_ROOT}`,
+    });
+  });
+
+  it('reports an orphan whose port is already taken instead of adopting it', async () => {
+    orphanPolicy = 'adopt';
+    seedInstance({ status: FoundryInstanceStatus.STOPPED, port: 30005 });
+    await seedContainer('foundry-stray', 30005);
+
+    const { corrections } = await reconciler.reconcile();
+
+    expect(corrections[0]).toMatchObject({
+      kind: FoundryCorrectionKind.ORPHAN_REPORTED,
+      reason:
+        'Orphaned container foundry-stray could not be adopted: port 30005 is already used by another instance',
+    });
+  });
+});
@@ -0,0 +1,432 @@
+import {
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import * as path from 'path';
+import {
+  FoundryCorrectionKind,
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryJobStatus,
+  FoundryStatusCorrection,
+} from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryEventsService } from './foundry-events.service';
+import {
+  FOUNDRY_CONTAINER_DATA_PATH,
+  FOUNDRY_CONTAINER_PORT,
+  FOUNDRY_CONTAINER_PREFIX,
+  FoundryService,
+} from './foundry.service';
+import {
+  CONTAINER_RUNTIME,
+  ContainerNotFoundError,
+  ContainerRuntime,
+  ContainerState,
+  ContainerSummary,
+} from './runtime/container-runtime';
+import { parseImageReference } from './runtime/docker-engine.runtime';
+
+const RECONCILER_INTERVAL_NAME = 'foundry-reconciler';
+const DEFAULT_RECONCILE_INTERVAL_MS = 60000;
+
+export type OrphanPolicy = 'adopt' | 'report';
+
+export interface ReconciliationSummary {
+  checked: number;
+  corrections: FoundryStatusCorrection[];
+}
+
+/**
+ * Periodically compares every instance with what the container runtime reports and fixes drift,
+ * e.g. a container that crashed or was removed by hand while the database still says RUNNING.
+ * Every change is recorded as a {@link FoundryStatusCorrection} with the reason it was made.
+ *
+ * `foundry-*` containers without a matching instance are handled according to
+ * `FIM_RECONCILE_ORPHANS`: `adopt` registers them as instances, `report` (the default) only records them.
+ * A container is only adopted if its data is mounted from a directory of the data root, whose name becomes the instance ID,
+ * so backups and restores of the adopted instance work on the data the container actually uses.
+ */
+@Injectable()
+export class FoundryReconciler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private running = false;
+
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly prisma: PrismaService,
+    private readonly foundryService: FoundryService,
+    private readonly events: FoundryEventsService,
+    @Inject(CONTAINER_RUNTIME) private readonly runtime: ContainerRuntime,
+  ) {
+    this.logger.setContext(FoundryReconciler.name);
+  }
+
+  onApplicationBootstrap(): void {
+    const reconcileInterval =
+      parseInt(
+        this.configService.get<string>('FIM_RECONCILE_INTERVAL_MS') ?? '',
+        10,
+      ) || DEFAULT_RECONCILE_INTERVAL_MS;
+    const interval = setInterval(
+      () =>
+        void this.reconcile().catch((error: Error) =>
+          this.logger.error(`Reconciliation failed: ${error.message}`),
+        ),
+      reconcileInterval,
+    );
+    this.schedulerRegistry.addInterval(RECONCILER_INTERVAL_NAME, interval);
+    this.logger.log(
+      `Reconciling Foundry instances every ${reconcileInterval}ms (orphans: ${this.orphanPolicy})`,
+    );
+  }
+
+  onModuleDestroy(): void {
+    if (
+      this.schedulerRegistry.doesExist('interval', RECONCILER_INTERVAL_NAME)
+    ) {
+      this.schedulerRegistry.deleteInterval(RECONCILER_INTERVAL_NAME);
+    }
+  }
+
+  private get orphanPolicy(): OrphanPolicy {
+    return this.configService.get<string>('FIM_RECONCILE_ORPHANS') === 'adopt'
+      ? 'adopt'
+      : 'report';
+  }
+
+  /**
+   * Runs one reconciliation pass. Overlapping calls return an empty summary.
+   * @returns The number of instances checked and the corrections that were made.
+   */
+  async reconcile(): Promise<ReconciliationSummary> {
+    if (this.running) {
+      return { checked: 0, corrections: [] };
+    }
+    this.running = true;
+    try {
+      return await this.reconcileOnce();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Lists recorded corrections, newest first.
+   * @param limit The maximum number of corrections to return.
+   */
+  async listCorrections(limit = 50): Promise<FoundryStatusCorrection[]> {
+    return this.prisma.foundryStatusCorrection.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async reconcileOnce(): Promise<ReconciliationSummary> {
+    const corrections: FoundryStatusCorrection[] = [];
+    const instances = await this.prisma.foundryInstance.findMany();
+    const busyInstanceIds = await this.findBusyInstanceIds();
+
+    let checked = 0;
+    const transitioningContainerNames = new Set<string>();
+    for (const instance of instances) {
+      // Instances with a job in flight are mid-transition; the worker owns their status.
+      if (
+        busyInstanceIds.has(instance.id) ||
+        instance.status === FoundryInstanceStatus.CREATING ||
+        instance.status === FoundryInstanceStatus.DELETING
+      ) {
+        transitioningContainerNames.add(
+          `${FOUNDRY_CONTAINER_PREFIX}${instance.name}`,
+        );
+        continue;
+      }
+      checked++;
+      const correction = await this.reconcileInstance(instance);
+      if (correction) {
+        corrections.push(correction);
+      }
+    }
+
+    const knownContainerIds = new Set(
+      instances.map((instance) => instance.dockerContainerId),
+    );
+    const containers = await this.runtime.listContainers(
+      FOUNDRY_CONTAINER_PREFIX,
+    );
+    for (const container of containers) {
+      // Their container may exist before the worker has recorded its ID, or linger until it is removed
+      if (
+        !knownContainerIds.has(container.id) &&
+        !transitioningContainerNames.has(container.name)
+      ) {
+        const correction = await this.handleOrphan(container, instances);
+        if (correction) {
+          corrections.push(correction);
+        }
+      }
+    }
+
+    if (corrections.length > 0) {
+      this.logger.log(
+        `Reconciliation made ${corrections.length} correction(s) across ${checked} instance(s)`,
+      );
+    }
+    return { checked, corrections };
+  }
+
+  private async findBusyInstanceIds(): Promise<Set<string>> {
+    const activeJobs = await this.prisma.foundryJob.findMany({
+      where: {
+        status: { in: [FoundryJobStatus.PENDING, FoundryJobStatus.RUNNING] },
+      },
+      select: { instanceId: true },
+    });
+    return new Set(
+      activeJobs
+        .map((job) => job.instanceId)
+        .filter((id): id is string => id !== null),
+    );
+  }
+
+  private async reconcileInstance(
+    instance: FoundryInstance,
+  ): Promise<FoundryStatusCorrection | null> {
+    if (!instance.dockerContainerId) {
+      if (instance.status !== FoundryInstanceStatus.RUNNING) {
+        return null;
+      }
+      return this.correct(
+        instance,
+        { status: FoundryInstanceStatus.STOPPED },
+        FoundryCorrectionKind.CONTAINER_MISSING,
+        `Instance was ${instance.status} but has no container`,
+      );
+    }
+
+    const containerId = instance.dockerContainerId;
+    try {
+      const state = await this.runtime.inspectContainer(containerId);
+      const actualStatus = this.foundryService.toInstanceStatus(
+        instance,
+        state,
+      );
+      if (actualStatus === instance.status) {
+        return null;
+      }
+      const exitCode =
+        state.status === 'exited' && state.exitCode !== null
+          ? ` (exit code ${state.exitCode})`
+          : '';
+      return this.correct(
+        instance,
+        { status: actualStatus },
+        FoundryCorrectionKind.STATUS_DRIFT,
+        `Container ${containerId} is ${state.status}${exitCode} but instance was ${instance.status}`,
+        containerId,
+      );
+    } catch (error) {
+      if (!(error instanceof ContainerNotFoundError)) {
+        throw error;
+      }
+      return this.correct(
+        instance,
+        { status: FoundryInstanceStatus.STOPPED, dockerContainerId: null },
+        FoundryCorrectionKind.CONTAINER_MISSING,
+        `Container ${containerId} no longer exists; it was removed outside of FIM`,
+        containerId,
+      );
+    }
+  }
+
+  private async correct(
+    instance: FoundryInstance,
+    data: { status: FoundryInstanceStatus; dockerContainerId?: null },
+    kind: FoundryCorrectionKind,
+    reason: string,
+    containerId?: string,
+  ): Promise<FoundryStatusCorrection> {
+    const [updated, correction] = await this.prisma.$transaction([
+      this.prisma.foundryInstance.update({ where: { id: instance.id }, data }),
+      this.prisma.foundryStatusCorrection.create({
+        data: {
+          kind,
+          instanceId: instance.id,
+          containerId,
+          previousStatus: instance.status,
+          newStatus: data.status,
+          reason,
+        },
+      }),
+    ]);
+    this.logger.warn(`Corrected instance ${instance.name}: ${reason}`);
+    this.events.publishStatus(updated);
+    return correction;
+  }
+
+  private async handleOrphan(
+    container: ContainerSummary,
+    instances: FoundryInstance[],
+  ): Promise<FoundryStatusCorrection | null> {
+    const name = container.name.slice(FOUNDRY_CONTAINER_PREFIX.length);
+    const hostPort = container.ports.find(
+      (port) => port.containerPort === FOUNDRY_CONTAINER_PORT,
+    )?.hostPort;
+
+    if (this.orphanPolicy === 'adopt') {
+      let state: ContainerState;
+      try {
+        state = await this.runtime.inspectContainer(container.id);
+      } catch (error) {
+        if (error instanceof ContainerNotFoundError) {
+          // Removed since it was listed; nothing left to adopt
+          return null;
+        }
+        throw error;
+      }
+      const instanceId = this.findInstanceIdOfDataMount(state);
+      const conflict = this.findAdoptionConflict(
+        name,
+        hostPort,
+        instanceId,
+        instances,
+      );
+      if (!conflict && hostPort !== undefined && instanceId !== null) {
+        const status = this.foundryService.toInstanceStatus(
+          { name },
+          container,
+        );
+        const { repository, tag } = parseImageReference(state.image);
+        const [instance, correction] = await this.prisma.$transaction(
+          async (tx) => {
+            const adopted = await tx.foundryInstance.create({
+              data: {
+                id: instanceId,
+                name,
+                port: hostPort,
+                status,
+                dockerContainerId: container.id,
+                image: repository,
+                imageTag: tag,
+              },
+            });
+            const record = await tx.foundryStatusCorrection.create({
+              data: {
+                kind: FoundryCorrectionKind.ORPHAN_ADOPTED,
+                instanceId: adopted.id,
+                containerId: container.id,
+                containerName: container.name,
+                newStatus: status,
+                reason: `Adopted container ${container.name} as instance ${name} on port ${hostPort}`,
+              },
+            });
+            return [adopted, record] as const;
+          },
+        );
+        this.logger.warn(
+          `Adopted orphaned container ${container.name} as instance ${name}`,
+        );
+        this.events.publishStatus(instance);
+        return correction;
+      }
+      const reason =
+        conflict ??
+        (hostPort === undefined
+          ? 'it does not publish the Foundry port'
+          : `its ${FOUNDRY_CONTAINER_DATA_PATH} is not mounted from a directory of ${this.foundryService.resolveDataRoot().hostPath}`);
+      return this.reportOrphan(
+        container,
+        `Orphaned container ${container.name} could not be adopted: ${reason}`,
+      );
+    }
+
+    return this.reportOrphan(
+      container,
+      `Container ${container.name} has no matching instance`,
+    );
+  }
+
+  /**
+   * Instance data lives in `<data root>/<instance ID>`, so the directory mounted as the container's data
+   * tells which ID the adopted instance must get.
+   * @returns The ID, or null if the data is not mounted from a directory directly below the data root.
+   */
+  private findInstanceIdOfDataMount(state: ContainerState): string | null {
+    const mount = state.binds.find(
+      (bind) => bind.containerPath === FOUNDRY_CONTAINER_DATA_PATH,
+    );
+    if (!mount) {
+      return null;
+    }
+    const relative = path.posix.relative(
+      this.foundryService.resolveDataRoot().hostPath,
+      mount.hostPath,
+    );
+    if (!relative || relative.startsWith('..') || relative.includes('/')) {
+      return null;
+    }
+    return relative;
+  }
+
+  private findAdoptionConflict(
+    name: string,
+    hostPort: number | undefined,
+    instanceId: string | null,
+    instances: FoundryInstance[],
+  ): string | null {
+    if (instances.some((instance) => instance.name === name)) {
+      return `an instance named '${name}' already exists`;
+    }
+    if (
+      instanceId !== null &&
+      instances.some((instance) => instance.id === instanceId)
+    ) {
+      return 'its data directory belongs to another instance';
+    }
+    if (
+      hostPort !== undefined &&
+      instances.some((instance) => instance.port === hostPort)
+    ) {
+      return `port ${hostPort} is already used by another instance`;
+    }
+    return null;
+  }
+
+  /**
+   * Records an orphan once; later passes only log it so the correction history isn't flooded.
+   */
+  private async reportOrphan(
+    container: ContainerSummary,
+    reason: string,
+  ): Promise<FoundryStatusCorrection | null> {
+    const alreadyReported = await this.prisma.foundryStatusCorrection.findFirst(
+      {
+        where: {
+          containerId: container.id,
+          kind: FoundryCorrectionKind.ORPHAN_REPORTED,
+        },
+      },
+    );
+    if (alreadyReported) {
+      this.logger.debug(reason);
+      return null;
+    }
+    this.logger.warn(reason);
+    return this.prisma.foundryStatusCorrection.create({
+      data: {
+        kind: FoundryCorrectionKind.ORPHAN_REPORTED,
+        containerId: container.id,
+        containerName: container.name,
+        reason,
+      },
+    });
+  }
+}
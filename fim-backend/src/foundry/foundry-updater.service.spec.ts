@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FoundryInstance, FoundryInstanceStatus } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryService } from './foundry.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import { FoundryUpdater } from './foundry-updater.service';
+import { InMemoryContainerRuntime } from './runtime/in-memory.runtime';
+
+describe('FoundryUpdater', () => {
+  let updater: FoundryUpdater;
+  let runtime: InMemoryContainerRuntime;
+  let instance: Pick<
+    FoundryInstance,
+    'id' | 'name' | 'image' | 'imageTag' | 'status'
+  >;
+  let foundryService: {
+    updateInstanceConfig: jest.Mock;
+    recreateFoundry: jest.Mock;
+    getInstanceHealth: jest.Mock;
+    stopFoundry: jest.Mock;
+    startFoundry: jest.Mock;
+  };
+  let backupsService: { createBackup: jest.Mock; restoreBackup: jest.Mock };
+  let steps: string[];
+
+  beforeEach(() => {
+    runtime = new InMemoryContainerRuntime();
+    instance = {
+      id: 'instance-1',
+      name: 'campaign',
+      image: 'felddy/foundryvtt',
+      imageTag: '12',
+      status: FoundryInstanceStatus.RUNNING,
+    };
+    steps = [];
+    // Records the order of the lifecycle calls; `apply` receives the second argument
+    const step =
+      (name: string, apply?: (arg: unknown) => void) =>
+      (...args: unknown[]) => {
+        steps.push(name);
+        apply?.(args[1]);
+        return Promise.resolve();
+      };
+    foundryService = {
+      updateInstanceConfig: jest.fn(
+        step('config', (config) => {
+          instance.imageTag = (config as { imageTag: string }).imageTag;
+        }),
+      ),
+      recreateFoundry: jest.fn(step('recreate')),
+      getInstanceHealth: jest.fn().mockResolvedValue({
+        healthStatus: 'degraded',
+        foundryVersion: '13.345',
+        error: null,
+      }),
+      stopFoundry: jest.fn(
+        step('stop', () => {
+          instance.status = FoundryInstanceStatus.STOPPED;
+        }),
+      ),
+      startFoundry: jest.fn(step('start')),
+    };
+    backupsService = {
+      createBackup: jest.fn().mockResolvedValue({ id: 'backup-1' }),
+      restoreBackup: jest.fn(step('restore')),
+    };
+    const prisma = {
+      foundryInstance: {
+        findUnique: jest.fn(() => Promise.resolve({ ...instance })),
+      },
+    };
+
+    updater = new FoundryUpdater(
+      new LoggerService(),
+      {
+        get: (key: string) =>
+          key === 'FIM_UPDATE_HEALTH_TIMEOUT_SECONDS' ? '0' : undefined,
+      } as unknown as ConfigService,
+      prisma as unknown as PrismaService,
+      foundryService as unknown as FoundryService,
+      backupsService as unknown as FoundryBackupsService,
+      runtime,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('backs up, pulls the new tag and recreates the container with it', async () => {
+    await updater.updateFoundry('instance-1', '13');
+
+    expect(backupsService.createBackup).toHaveBeenCalled();
+    expect(runtime.pulledImages).toEqual(['felddy/foundryvtt:13']);
+    expect(steps).toEqual(['config', 'recreate']);
+    expect(instance.imageTag).toBe('13');
+  });
+
+  it('rolls back to the previous tag and data when Foundry does not answer', async () => {
+    foundryService.getInstanceHealth.mockResolvedValue({
+      healthStatus: 'unhealthy',
+      foundryVersion: null,
+      error: 'connect ECONNREFUSED',
+    });
+
+    await expect(updater.updateFoundry('instance-1', '13')).rejects.toThrow(
+      'Update to felddy/foundryvtt:13 failed and was rolled back to 12',
+    );
+    expect(steps).toEqual([
+      'config',
+      'recreate',
+      'stop',
+      'config',
+      'restore',
+      'recreate',
+      'start',
+    ]);
+    expect(backupsService.restoreBackup).toHaveBeenCalledWith(
+      'instance-1',
+      'backup-1',
+      expect.any(Function),
+    );
+    expect(instance.imageTag).toBe('12');
+  });
+
+  it('leaves the instance alone when the image cannot be pulled', async () => {
+    jest
+      .spyOn(runtime, 'pullImage')
+      .mockRejectedValue(new Error('manifest unknown'));
+
+    await expect(updater.updateFoundry('instance-1', '13')).rejects.toThrow(
+      'Failed to pull image felddy/foundryvtt:13: manifest unknown',
+    );
+    expect(steps).toEqual([]);
+  });
+
+  it('refuses to update to the tag the instance already uses', async () => {
+    await expect(
+      updater.updateFoundry('instance-1', '12'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(backupsService.createBackup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FoundryBackup, FoundryInstanceStatus } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryService } from './foundry.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import {
+  JobProgressReporter,
+  noopProgressReporter,
+  scaleProgress,
+} from './interfaces/job-progress-reporter.interface';
+import {
+  CONTAINER_RUNTIME,
+  ContainerRuntime,
+} from './runtime/container-runtime';
+
+const DEFAULT_HEALTH_TIMEOUT_SECONDS = 180;
+const HEALTH_POLL_INTERVAL_MS = 5000;
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Moves an instance to a newer image tag without risking its worlds.
+ * The data is backed up first; if the new container does not come up and answer Foundry's status API
+ * within `FIM_UPDATE_HEALTH_TIMEOUT_SECONDS` (180 by default), the previous tag and the backed up data are put back.
+ */
+@Injectable()
+export class FoundryUpdater {
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly foundryService: FoundryService,
+    private readonly foundryBackupsService: FoundryBackupsService,
+    @Inject(CONTAINER_RUNTIME) private readonly runtime: ContainerRuntime,
+  ) {
+    this.logger.setContext(FoundryUpdater.name);
+  }
+
+  /**
+   * Backs up an instance, pulls the new image and recreates the container with it.
+   * A stopped instance is left stopped; it has no container to check until it is next started.
+   * @param instanceId The ID of the Foundry VTT instance to update.
+   * @param imageTag The image tag to move to.
+   * @param report Optional callback that receives progress updates.
+   * @param options.requestedById Optional ID of the user who asked for the update; recorded on the backup.
+   * @throws NotFoundException if the instance is not found.
+   * @throws BadRequestException if the instance already uses the tag.
+   * @throws InternalServerErrorException if the image cannot be pulled, or the update failed and was rolled back.
+   */
+  async updateFoundry(
+    instanceId: string,
+    imageTag: string,
+    report: JobProgressReporter = noopProgressReporter,
+    options: { requestedById?: number } = {},
+  ): Promise<void> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    if (!instance) {
+      throw new NotFoundException(
+        `Foundry instance with ID ${instanceId} not found.`,
+      );
+    }
+    // Re-pulling the same tag would leave no previous image to roll back to
+    if (instance.imageTag === imageTag) {
+      throw new BadRequestException(
+        `Foundry instance ${instance.name} already uses ${instance.image}:${imageTag}.`,
+      );
+    }
+    const previousTag = instance.imageTag;
+    const image = `${instance.image}:${imageTag}`;
+    const wasRunning = instance.status === FoundryInstanceStatus.RUNNING;
+
+    await report(0, 'Backing up world data before the update');
+    const backup = await this.foundryBackupsService.createBackup(
+      instanceId,
+      scaleProgress(report, 0, 30),
+      { createdById: options.requestedById },
+    );
+    if (!backup) {
+      throw new InternalServerErrorException(
+        `Could not back up Foundry instance ${instance.name} before the update.`,
+      );
+    }
+
+    await report(30, `Pulling image ${image}`);
+    try {
+      await this.runtime.pullImage(image);
+    } catch (error) {
+      throw new InternalServerErrorException(
+        `Failed to pull image ${image}: ${describeError(error)}`,
+      );
+    }
+
+    try {
+      await this.foundryService.updateInstanceConfig(instanceId, { imageTag });
+      await this.foundryService.recreateFoundry(
+        instanceId,
+        scaleProgress(report, 50, 75),
+      );
+      if (wasRunning) {
+        await report(75, 'Waiting for Foundry to answer');
+        await this.waitUntilServing(instanceId);
+      }
+    } catch (error) {
+      const reason = describeError(error);
+      this.logger.warn(
+        `Update of Foundry instance ${instance.name} to ${image} failed, rolling back: ${reason}`,
+      );
+      await report(80, `Update failed; rolling back to ${previousTag}`);
+      try {
+        await this.rollBack(
+          instanceId,
+          previousTag,
+          backup,
+          wasRunning,
+          scaleProgress(report, 80, 100),
+        );
+      } catch (rollbackError) {
+        throw new InternalServerErrorException(
+          `Update to ${image} failed (${reason}), and so did rolling back (${describeError(rollbackError)}). Backup ${backup.id} holds the data from before the update.`,
+        );
+      }
+      throw new InternalServerErrorException(
+        `Update to ${image} failed and was rolled back to ${previousTag}: ${reason}`,
+      );
+    }
+
+    this.logger.log(`Updated Foundry instance ${instance.name} to ${image}`);
+    await report(100, `Updated to ${image}`);
+  }
+
+  /**
+   * Waits until Foundry answers its status API, from its setup screen or with a world.
+   * @throws Error if it does not within the configured timeout.
+   */
+  private async waitUntilServing(instanceId: string): Promise<void> {
+    const timeoutSeconds = Number(
+      this.configService.get<string>('FIM_UPDATE_HEALTH_TIMEOUT_SECONDS') ??
+        DEFAULT_HEALTH_TIMEOUT_SECONDS,
+    );
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    for (;;) {
+      const status = await this.foundryService.getInstanceHealth(instanceId);
+      if (status.foundryVersion !== null) {
+        return;
+      }
+      if (Date.now() + HEALTH_POLL_INTERVAL_MS > deadline) {
+        throw new Error(
+          `Foundry did not answer within ${timeoutSeconds} seconds${status.error ? ` (${status.error})` : ''}`,
+        );
+      }
+      await sleep(HEALTH_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Puts the previous image tag and the data from before the update back.
+   */
+  private async rollBack(
+    instanceId: string,
+    previousTag: string,
+    backup: FoundryBackup,
+    wasRunning: boolean,
+    report: JobProgressReporter,
+  ): Promise<void> {
+    const instance = await this.prisma.foundryInstance.findUnique({
+      where: { id: instanceId },
+    });
+    if (instance?.status === FoundryInstanceStatus.RUNNING) {
+      await this.foundryService.stopFoundry(
+        instanceId,
+        scaleProgress(report, 0, 20),
+      );
+    }
+    await this.foundryService.updateInstanceConfig(instanceId, {
+      imageTag: previousTag,
+    });
+    await this.foundryBackupsService.restoreBackup(
+      instanceId,
+      backup.id,
+      scaleProgress(report, 20, 50),
+    );
+    // Throws away the container of the new image; the next start creates one from the previous tag
+    await this.foundryService.recreateFoundry(
+      instanceId,
+      scaleProgress(report, 50, 60),
+    );
+    if (wasRunning) {
+      await this.foundryService.startFoundry(
+        instanceId,
+        scaleProgress(report, 60, 100),
+      );
+    }
+  }
+}
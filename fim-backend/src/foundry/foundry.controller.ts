@@ -1,91 +1,527 @@
-import { Controller, Post, UseGuards, Param, Body, Get, Delete } from '@nestjs/common';
+import { Controller, Post, UseGuards, Param, Body, Get, Delete, Patch, Put, HttpCode, HttpStatus, Req, Sse, MessageEvent, Query, DefaultValuePipe, ParseIntPipe, ParseBoolPipe, ParseDatePipe, ForbiddenException, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Observable, concat, filter, from, interval, map, merge, of, share, switchMap, takeLast, takeUntil } from 'rxjs';
 import { CreateFoundryInstanceDto } from './dto/create-foundry-instance.dto';
+import { FoundryInstanceConfigDto } from './dto/foundry-instance-config.dto';
+import { FoundryInstanceConfigUpdateResponseDto } from './dto/foundry-instance-config-update-response.dto';
 import { FoundryService } from './foundry.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
-import { Role } from '@prisma/client'; // Import Role from Prisma client
+import { FoundryJobType, Role } from '@prisma/client'; // Import Role from Prisma client
 import { ApiBearerAuth, ApiTags, ApiResponse, ApiOperation } from '@nestjs/swagger';
 import { FoundryInstanceResponseDto } from './dto/foundry-instance-response.dto'; // Import FoundryInstanceResponseDto
 import { FoundryInstanceStatusResponseDto } from './dto/foundry-instance-status-response.dto'; // Import FoundryInstanceStatusResponseDto
+import { FoundryJobResponseDto } from './dto/foundry-job-response.dto';
+import { FoundryJobsService } from './foundry-jobs.service';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryInstanceHealthResponseDto } from './dto/foundry-instance-health-response.dto';
+import { FoundryHealthSampleResponseDto } from './dto/foundry-health-sample-response.dto';
+import { FoundryHealthHistoryService } from './foundry-health-history.service';
+import { FoundryReconciler } from './foundry-reconciler.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import { FoundryBackupResponseDto } from './dto/foundry-backup-response.dto';
+import { FoundryBackupScheduler } from './foundry-backup-scheduler.service';
+import { UpsertBackupScheduleDto } from './dto/upsert-backup-schedule.dto';
+import { BackupScheduleResponseDto } from './dto/backup-schedule-response.dto';
+import { BackupRunResponseDto } from './dto/backup-run-response.dto';
+import { FoundryStatusCorrectionResponseDto, ReconciliationSummaryResponseDto } from './dto/foundry-status-correction-response.dto';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { FoundryAccessService } from './foundry-access.service';
+import { InstancePermissionGuard } from './guards/instance-permission.guard';
+import { RequiresInstancePermission } from './decorators/requires-instance-permission.decorator';
+import { AddInstanceMemberDto } from './dto/add-instance-member.dto';
+import { FoundryInstanceMemberResponseDto } from './dto/foundry-instance-member-response.dto';
+import { MyFoundryGameResponseDto } from './dto/my-foundry-game-response.dto';
+import { SetNextSessionDto } from './dto/set-next-session.dto';
+import { UpdateFoundryInstanceDto } from './dto/update-foundry-instance.dto';
+import { Audit } from '../audit/decorators/audit.decorator';
+
+// Periodic ping events keep idle streams from being closed by proxies.
+const EVENTS_HEARTBEAT_MS = 25000;
+const DEFAULT_LOG_TAIL = 200;
+const MAX_LOG_TAIL = 5000;
 
 @ApiTags('foundry')
 @Controller('foundry')
 export class FoundryController {
-  constructor(private readonly foundryService: FoundryService) {}
+  constructor(
+    private readonly foundryService: FoundryService,
+    private readonly foundryJobsService: FoundryJobsService,
+    private readonly foundryEventsService: FoundryEventsService,
+    private readonly foundryReconciler: FoundryReconciler,
+    private readonly foundryBackupsService: FoundryBackupsService,
+    private readonly foundryBackupScheduler: FoundryBackupScheduler,
+    private readonly foundryAccessService: FoundryAccessService,
+    private readonly foundryHealthHistoryService: FoundryHealthHistoryService,
+  ) {}
 
-  @Post(':instanceId/start')
+  @Sse('events')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Stream status, health and job events for the instances visible to the current user (Server-Sent Events)' })
+  @ApiResponse({ status: 200, description: 'An event stream; each message is named after its type (status, health, job, deleted).' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  streamEvents(@Req() req: AuthenticatedRequest): Observable<MessageEvent> {
+    // Memberships are read once per connection; the client reconnects (and refetches) to pick up new invitations.
+    const events = from(this.foundryAccessService.memberInstanceIds(req.user.userId)).pipe(
+      switchMap((memberOf) => this.foundryEventsService.stream.pipe(
+        filter((event) => this.foundryEventsService.isVisibleTo(event, req.user, memberOf)),
+      )),
+      map((event): MessageEvent => ({
+        type: event.type,
+        data: event.type === 'status' ? { ...event, data: this.foundryAccessService.hideSecretsFrom(req.user, event.data) } : event,
+      })),
+    );
+    const heartbeat = interval(EVENTS_HEARTBEAT_MS).pipe(map((): MessageEvent => ({ type: 'ping', data: {} })));
+    return merge(events, heartbeat);
+  }
+
+  @Get('mine')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the games the current user owns or has been invited to, with join links and the next session' })
+  @ApiResponse({ status: 200, description: 'The games of the current user.', type: [MyFoundryGameResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  async listMyGames(@Req() req: AuthenticatedRequest): Promise<MyFoundryGameResponseDto[]> {
+    const instances = await this.foundryService.listFoundryInstances(this.foundryAccessService.ownOrInvitedInstancesWhere(req.user.userId));
+    return instances.map((instance) => ({
+      id: instance.id,
+      name: instance.name,
+      status: instance.status,
+      healthStatus: instance.healthStatus,
+      port: instance.port,
+      joinUrl: this.foundryService.getJoinUrl(instance),
+      nextSessionAt: instance.nextSessionAt,
+      access: instance.ownerId === req.user.userId ? 'OWNER' : 'MEMBER',
+    }));
+  }
+
+  @Get('jobs/:jobId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the progress of a Foundry VTT lifecycle job (requires permission to operate its instance)' })
+  @ApiResponse({ status: 200, description: 'The job and its progress.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Job not found.' })
+  async getJob(@Req() req: AuthenticatedRequest, @Param('jobId') jobId: string): Promise<FoundryJobResponseDto> {
+    const job = await this.foundryJobsService.findOne(jobId);
+    if (job.instanceId) {
+      await this.foundryAccessService.assertPermission(req.user, job.instanceId, 'operate');
+    } else if (req.user.role !== Role.ADMIN) {
+      // The instance is gone, so nobody but an admin can still be entitled to the job
+      throw new NotFoundException(`Foundry job with ID ${jobId} not found.`);
+    }
+    return job;
+  }
+
+  @Get('reconciliations')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.ADMIN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Start Foundry VTT Docker container (Admin only)' })
-  @ApiResponse({ status: 201, description: 'Foundry VTT container is starting.', type: FoundryInstanceResponseDto })
+  @ApiOperation({ summary: 'List status corrections made by the background reconciler, newest first (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Recorded corrections.', type: [FoundryStatusCorrectionResponseDto] })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async startFoundry(@Param('instanceId') instanceId: string): Promise<FoundryInstanceResponseDto> {
-    return this.foundryService.startFoundry(instanceId);
+  async listReconciliations(@Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number): Promise<FoundryStatusCorrectionResponseDto[]> {
+    return this.foundryReconciler.listCorrections(Math.min(Math.max(limit, 1), 200));
   }
 
-  @Post(':instanceId/stop')
+  @Post('reconcile')
+  @Audit('instance.reconcile')
+  @HttpCode(HttpStatus.OK)
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.ADMIN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Stop Foundry VTT Docker container (Admin only)' })
-  @ApiResponse({ status: 200, description: 'Foundry VTT container is stopping.', type: FoundryInstanceResponseDto })
+  @ApiOperation({ summary: 'Reconcile instance statuses with Docker right now instead of waiting for the next scheduled pass (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Reconciliation summary.', type: ReconciliationSummaryResponseDto })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async stopFoundry(@Param('instanceId') instanceId: string): Promise<FoundryInstanceResponseDto> {
-    return this.foundryService.stopFoundry(instanceId);
+  async reconcile(): Promise<ReconciliationSummaryResponseDto> {
+    return this.foundryReconciler.reconcile();
   }
 
-  @Delete(':instanceId')
+  @Post(':instanceId/start')
+  @Audit('instance.start', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('operate')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to start the Foundry VTT Docker container (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Start job queued.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async startFoundry(@Param('instanceId') instanceId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    return this.foundryJobsService.enqueue(FoundryJobType.START, instanceId, req.user.userId);
+  }
+
+  @Post(':instanceId/stop')
+  @Audit('instance.stop', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('operate')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to stop the Foundry VTT Docker container (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Stop job queued.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async stopFoundry(@Param('instanceId') instanceId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    return this.foundryJobsService.enqueue(FoundryJobType.STOP, instanceId, req.user.userId);
+  }
+
+  @Post(':instanceId/restart')
+  @Audit('instance.restart', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('operate')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to restart the Foundry VTT Docker container (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Restart job queued.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async restartFoundry(@Param('instanceId') instanceId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    return this.foundryJobsService.enqueue(FoundryJobType.RESTART, instanceId, req.user.userId);
+  }
+
+  @Post(':instanceId/recreate')
+  @Audit('instance.recreate', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('operate')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to replace the Foundry VTT Docker container with a new one from the current configuration, keeping the data (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Recreate job queued.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async recreateFoundry(@Param('instanceId') instanceId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    return this.foundryJobsService.enqueue(FoundryJobType.RECREATE, instanceId, req.user.userId);
+  }
+
+  @Post(':instanceId/update')
+  @Audit('instance.update', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.ADMIN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Delete Foundry VTT Docker container and its volume (Admin only)' })
-  @ApiResponse({ status: 200, description: 'Foundry VTT instance successfully deleted.' })
+  @ApiOperation({ summary: 'Queue a job to back up a Foundry VTT instance, pull a newer image tag and recreate the container with it; rolled back if Foundry does not come up (Admin only)' })
+  @ApiResponse({ status: 202, description: 'Update job queued.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid image tag, or the instance already uses it.' })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async deleteFoundry(@Param('instanceId') instanceId: string): Promise<void> {
-    return this.foundryService.deleteFoundry(instanceId);
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async updateFoundry(@Param('instanceId') instanceId: string, @Body() updateDto: UpdateFoundryInstanceDto, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    const instance = await this.foundryJobsService.assertIdle(instanceId);
+    if (instance.imageTag === updateDto.imageTag) {
+      throw new BadRequestException(`Foundry instance ${instance.name} already uses ${instance.image}:${updateDto.imageTag}.`);
+    }
+    return this.foundryJobsService.enqueue(FoundryJobType.UPDATE, instanceId, req.user.userId, { imageTag: updateDto.imageTag });
   }
 
-  @Get(':instanceId/status')
+  @Patch(':instanceId/config')
+  @Audit('instance.config.update', { target: 'instance', param: 'instanceId' })
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(Role.ADMIN)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get Foundry VTT Docker container status (Admin only)' })
+  @ApiOperation({ summary: 'Change the image, Foundry version, resource limits, environment or restart policy of an instance (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Configuration saved; a recreate job is queued if the instance has a container.', type: FoundryInstanceConfigUpdateResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid configuration, or the instance is being created or deleted.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async updateInstanceConfig(@Param('instanceId') instanceId: string, @Body() configDto: FoundryInstanceConfigDto, @Req() req: AuthenticatedRequest): Promise<FoundryInstanceConfigUpdateResponseDto> {
+    // Refuse up front rather than saving settings that a busy instance could not apply.
+    await this.foundryJobsService.assertIdle(instanceId);
+    const instance = await this.foundryService.updateInstanceConfig(instanceId, configDto);
+    const job = instance.dockerContainerId
+      ? await this.foundryJobsService.enqueue(FoundryJobType.RECREATE, instanceId, req.user.userId)
+      : null;
+    return { instance: { ...instance, healthStatus: 'unknown' }, job };
+  }
+
+  @Put(':instanceId/next-session')
+  @Audit('instance.next-session.update', { target: 'instance', param: 'instanceId' })
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Set or clear when the next game session on a Foundry VTT instance starts (instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'The updated instance.', type: FoundryInstanceResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid date.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async setNextSession(@Param('instanceId') instanceId: string, @Body() setNextSessionDto: SetNextSessionDto): Promise<FoundryInstanceResponseDto> {
+    const nextSessionAt = setNextSessionDto.nextSessionAt ? new Date(setNextSessionDto.nextSessionAt) : null;
+    const instance = await this.foundryService.setNextSession(instanceId, nextSessionAt);
+    return { ...instance, healthStatus: 'unknown' };
+  }
+
+  @Get(':instanceId/backups')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the world data backups of a Foundry VTT instance, newest first (instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'Backups of the instance.', type: [FoundryBackupResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async listBackups(@Param('instanceId') instanceId: string): Promise<FoundryBackupResponseDto[]> {
+    const backups = await this.foundryBackupsService.listBackups(instanceId);
+    // BigInt does not survive JSON serialization; archive sizes comfortably fit in a number.
+    return backups.map((backup) => ({ ...backup, sizeBytes: Number(backup.sizeBytes) }));
+  }
+
+  @Post(':instanceId/backups')
+  @Audit('instance.backup.create', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to back up the world data of a Foundry VTT instance (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Backup job queued. A running instance is stopped while the archive is written.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async createBackup(@Param('instanceId') instanceId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    return this.foundryJobsService.enqueue(FoundryJobType.BACKUP, instanceId, req.user.userId);
+  }
+
+  @Post(':instanceId/backups/:backupId/restore')
+  @Audit('instance.backup.restore', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to replace the world data of a Foundry VTT instance with a backup (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Restore job queued. A running instance is stopped and started again around the restore.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance or backup not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async restoreBackup(@Param('instanceId') instanceId: string, @Param('backupId') backupId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    await this.foundryBackupsService.findBackup(instanceId, backupId);
+    return this.foundryJobsService.enqueue(FoundryJobType.RESTORE, instanceId, req.user.userId, { backupId });
+  }
+
+  @Get(':instanceId/backup-schedule')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the backup schedule of a Foundry VTT instance (instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'The backup schedule and its next run.', type: BackupScheduleResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'The instance has no backup schedule.' })
+  async getBackupSchedule(@Param('instanceId') instanceId: string): Promise<BackupScheduleResponseDto> {
+    return this.foundryBackupScheduler.getSchedule(instanceId);
+  }
+
+  @Put(':instanceId/backup-schedule')
+  @Audit('instance.backup-schedule.update', { target: 'instance', param: 'instanceId', recordBody: true })
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create or replace the backup schedule of a Foundry VTT instance (instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'The saved backup schedule and its next run.', type: BackupScheduleResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid cron expression, timezone or retention rules.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async upsertBackupSchedule(@Param('instanceId') instanceId: string, @Body() upsertBackupScheduleDto: UpsertBackupScheduleDto): Promise<BackupScheduleResponseDto> {
+    return this.foundryBackupScheduler.upsertSchedule(instanceId, upsertBackupScheduleDto);
+  }
+
+  @Delete(':instanceId/backup-schedule')
+  @Audit('instance.backup-schedule.delete', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove the backup schedule of a Foundry VTT instance; existing backups are kept (instance owner or Admin)' })
+  @ApiResponse({ status: 204, description: 'Backup schedule removed.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'The instance has no backup schedule.' })
+  async deleteBackupSchedule(@Param('instanceId') instanceId: string): Promise<void> {
+    await this.foundryBackupScheduler.deleteSchedule(instanceId);
+  }
+
+  @Get(':instanceId/backup-runs')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the backup attempts of a Foundry VTT instance, including failed and skipped ones, newest first (instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'Backup runs of the instance.', type: [BackupRunResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async listBackupRuns(@Param('instanceId') instanceId: string, @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number): Promise<BackupRunResponseDto[]> {
+    return this.foundryBackupsService.listRuns(instanceId, Math.min(Math.max(limit, 1), 200));
+  }
+
+  @Get(':instanceId/members')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the players invited to a Foundry VTT instance (instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'Members of the instance.', type: [FoundryInstanceMemberResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async listMembers(@Param('instanceId') instanceId: string): Promise<FoundryInstanceMemberResponseDto[]> {
+    return this.foundryAccessService.listMembers(instanceId);
+  }
+
+  @Post(':instanceId/members')
+  @Audit('instance.member.add', { target: 'instance', param: 'instanceId', recordBody: true })
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Invite a player to a Foundry VTT instance so they can see it (instance owner or Admin)' })
+  @ApiResponse({ status: 201, description: 'Player invited.', type: FoundryInstanceMemberResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance or user not found.' })
+  @ApiResponse({ status: 409, description: 'The user already owns or is a member of the instance.' })
+  async addMember(@Param('instanceId') instanceId: string, @Body() addInstanceMemberDto: AddInstanceMemberDto, @Req() req: AuthenticatedRequest): Promise<FoundryInstanceMemberResponseDto> {
+    return this.foundryAccessService.addMember(instanceId, addInstanceMemberDto.email, req.user.userId);
+  }
+
+  @Delete(':instanceId/members/:userId')
+  @Audit('instance.member.remove', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a player from a Foundry VTT instance (instance owner or Admin)' })
+  @ApiResponse({ status: 204, description: 'Player removed.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found, or the user is not a member.' })
+  async removeMember(@Param('instanceId') instanceId: string, @Param('userId', ParseIntPipe) userId: number): Promise<void> {
+    await this.foundryAccessService.removeMember(instanceId, userId);
+  }
+
+  @Delete(':instanceId')
+  @Audit('instance.delete', { target: 'instance', param: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Queue a job to delete the Foundry VTT Docker container and its volume (instance owner or Admin)' })
+  @ApiResponse({ status: 202, description: 'Delete job queued; the instance is now DELETING.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  @ApiResponse({ status: 409, description: 'Another job is already in progress for this instance.' })
+  async deleteFoundry(@Param('instanceId') instanceId: string, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    return this.foundryJobsService.enqueue(FoundryJobType.DELETE, instanceId, req.user.userId);
+  }
+
+  @Get(':instanceId/health')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('view')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Check the health of a single Foundry VTT instance through its status API (instance owner, member or Admin)' })
+  @ApiResponse({ status: 200, description: 'Foundry VTT instance health, with the world, system and players Foundry reported.', type: FoundryInstanceHealthResponseDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async getInstanceHealth(@Param('instanceId') instanceId: string): Promise<FoundryInstanceHealthResponseDto> {
+    return this.foundryService.getInstanceHealth(instanceId);
+  }
+
+  @Get(':instanceId/health/history')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('view')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the periodic health checks of a Foundry VTT instance, oldest first (instance owner, member or Admin)' })
+  @ApiResponse({ status: 200, description: 'Health samples of the instance.', type: [FoundryHealthSampleResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  async getInstanceHealthHistory(@Param('instanceId') instanceId: string, @Query('hours', new DefaultValuePipe(24), ParseIntPipe) hours: number, @Query('limit', new DefaultValuePipe(500), ParseIntPipe) limit: number): Promise<FoundryHealthSampleResponseDto[]> {
+    const since = new Date(Date.now() - Math.min(Math.max(hours, 1), 24 * 7) * 60 * 60 * 1000);
+    return this.foundryHealthHistoryService.findForInstance(instanceId, since, Math.min(Math.max(limit, 1), 2000));
+  }
+
+  @Sse(':instanceId/logs')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('manage')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Stream the container log of a Foundry VTT instance (Server-Sent Events; instance owner or Admin)' })
+  @ApiResponse({ status: 200, description: 'An event stream of log messages, one per line, starting `tail` lines back (200 by default) or at `since`; with `follow=true` it continues until the container stops. Closed by an end message; failures arrive as an error message.' })
+  @ApiResponse({ status: 400, description: 'Invalid tail, since or follow.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
+  streamInstanceLogs(@Param('instanceId') instanceId: string, @Query('tail', new DefaultValuePipe(DEFAULT_LOG_TAIL), ParseIntPipe) tail: number, @Query('since', new ParseDatePipe({ optional: true })) since: Date | undefined, @Query('follow', new DefaultValuePipe(false), ParseBoolPipe) follow: boolean): Observable<MessageEvent> {
+    const lines = from(this.foundryService.streamInstanceLogs(instanceId, { tail: Math.min(Math.max(tail, 0), MAX_LOG_TAIL), since, follow })).pipe(
+      switchMap((logs) => logs),
+      map((line): MessageEvent => ({ type: 'log', data: line })),
+    );
+    // The end message tells clients the log is complete, as opposed to the connection dropping.
+    const stream = concat(lines, of<MessageEvent>({ type: 'end', data: {} })).pipe(share());
+    const heartbeat = interval(EVENTS_HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ type: 'ping', data: {} })),
+      takeUntil(stream.pipe(takeLast(1))),
+    );
+    return merge(stream, heartbeat);
+  }
+
+  @Get(':instanceId/status')
+  @UseGuards(JwtAuthGuard, InstancePermissionGuard)
+  @RequiresInstancePermission('view')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get Foundry VTT Docker container status (instance owner, member or Admin)' })
   @ApiResponse({ status: 200, description: 'Foundry VTT container status.', type: FoundryInstanceStatusResponseDto })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiResponse({ status: 403, description: 'Forbidden.' })
+  @ApiResponse({ status: 404, description: 'Instance not found.' })
   async getFoundryStatus(@Param('instanceId') instanceId: string): Promise<FoundryInstanceStatusResponseDto> {
     const status = await this.foundryService.getFoundryStatus(instanceId);
     return { status };
   }
 
   @Post('create')
+  @Audit('instance.create', { target: 'instance', responseKey: 'instanceId' })
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @Roles(Role.ADMIN, Role.GM)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Create a new Foundry VTT instance (Admin only)' })
-  @ApiResponse({ status: 201, description: 'Foundry VTT instance created.', type: FoundryInstanceResponseDto })
+  @ApiOperation({ summary: 'Register a new Foundry VTT instance owned by the current user and queue its provisioning (GM or Admin)' })
+  @ApiResponse({ status: 202, description: 'Instance registered as CREATING and a create job queued.', type: FoundryJobResponseDto })
+  @ApiResponse({ status: 400, description: 'Name or port already in use.' })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
-  @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async createFoundryInstance(@Body() createFoundryInstanceDto: CreateFoundryInstanceDto): Promise<FoundryInstanceResponseDto> {
-    const { name, port } = createFoundryInstanceDto;
-    // ownerId can be optional for now, or retrieved from the request if authentication is set up for it
-    return this.foundryService.createFoundryInstance(name, port);
+  @ApiResponse({ status: 403, description: 'Forbidden, or a GM tried to set container settings.' })
+  async createFoundryInstance(@Body() createFoundryInstanceDto: CreateFoundryInstanceDto, @Req() req: AuthenticatedRequest): Promise<FoundryJobResponseDto> {
+    const { name, port, ...config } = createFoundryInstanceDto;
+    // Image, resource limits and environment affect the host, so they stay with admins (see PATCH :instanceId/config).
+    if (req.user.role !== Role.ADMIN && Object.values(config).some((value) => value !== undefined)) {
+      throw new ForbiddenException('Only admins can set container settings.');
+    }
+    const instance = await this.foundryService.createFoundryInstance(name, port, config, req.user.userId);
+    return this.foundryJobsService.enqueue(FoundryJobType.CREATE, instance.id, req.user.userId);
   }
 
   @Get()
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles(Role.ADMIN)
+  @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'List all Foundry VTT instances (Admin only)' })
+  @ApiOperation({ summary: 'List the Foundry VTT instances the current user owns or has been invited to; admins see all instances' })
   @ApiResponse({ status: 200, description: 'List of Foundry VTT instances.', type: [FoundryInstanceResponseDto] })
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
-  @ApiResponse({ status: 403, description: 'Forbidden.' })
-  async listFoundryInstances(): Promise<FoundryInstanceResponseDto[]> {
-    return this.foundryService.listFoundryInstances();
+  async listFoundryInstances(@Req() req: AuthenticatedRequest): Promise<FoundryInstanceResponseDto[]> {
+    const instances = await this.foundryService.listFoundryInstances(this.foundryAccessService.visibleInstancesWhere(req.user));
+    return instances.map((instance) => this.foundryAccessService.hideSecretsFrom(req.user, instance));
   }
 }
@@ -1,12 +1,49 @@
 import { Module } from '@nestjs/common';
 import { FoundryService } from './foundry.service';
 import { FoundryController } from './foundry.controller';
+import { FoundryJobsService } from './foundry-jobs.service';
+import { FoundryJobsWorker } from './foundry-jobs.worker';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryHealthMonitor } from './foundry-health.monitor';
+import { FoundryHealthHistoryService } from './foundry-health-history.service';
+import { FoundryReconciler } from './foundry-reconciler.service';
+import { FoundryPortAllocator } from './foundry-port-allocator.service';
+import { FoundryBackupsService } from './foundry-backups.service';
+import { FoundryBackupScheduler } from './foundry-backup-scheduler.service';
+import { FoundryAccessService } from './foundry-access.service';
+import { FoundryAlertsService } from './foundry-alerts.service';
+import { FoundryMetricsCollector } from './foundry-metrics.collector';
+import { FoundryUpdater } from './foundry-updater.service';
 import { LoggerModule } from '../common/logger/logger.module';
 import { PrismaModule } from '../prisma/prisma.module';
+import { MailModule } from '../mail/mail.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { CONTAINER_RUNTIME } from './runtime/container-runtime';
+import { DockerEngineRuntime } from './runtime/docker-engine.runtime';
 
 @Module({
-  imports: [LoggerModule, PrismaModule],
-  providers: [FoundryService],
+  imports: [LoggerModule, PrismaModule, MailModule, MetricsModule],
+  providers: [
+    FoundryService,
+    FoundryJobsService,
+    FoundryJobsWorker,
+    FoundryEventsService,
+    FoundryHealthMonitor,
+    FoundryHealthHistoryService,
+    FoundryReconciler,
+    FoundryPortAllocator,
+    FoundryBackupsService,
+    FoundryBackupScheduler,
+    FoundryAccessService,
+    FoundryAlertsService,
+    FoundryMetricsCollector,
+    FoundryUpdater,
+    {
+      provide: CONTAINER_RUNTIME,
+      useClass: DockerEngineRuntime,
+    },
+  ],
   controllers: [FoundryController],
+  exports: [FoundryService, FoundryHealthMonitor, CONTAINER_RUNTIME],
 })
 export class FoundryModule {}
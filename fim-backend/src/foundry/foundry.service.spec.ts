@@ -1,18 +1,683 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  FoundryInstance,
+  FoundryInstanceStatus,
+  FoundryRestartPolicy,
+} from '@prisma/client';
+import axios from 'axios';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { lastValueFrom, toArray } from 'rxjs';
 import { FoundryService } from './foundry.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryPortAllocator } from './foundry-port-allocator.service';
+import {
+  CONTAINER_RUNTIME,
+  ContainerRuntimeError,
+} from './runtime/container-runtime';
+import { InMemoryContainerRuntime } from './runtime/in-memory.runtime';
+
+type Where = Partial<Pick<FoundryInstance, 'id' | 'name' | 'port'>>;
+
+/**
+ * Just enough of the Prisma client to back the foundryInstance queries used by FoundryService.
+ */
+function createPrismaFake() {
+  const rows = new Map<string, FoundryInstance>();
+  const find = (where: Where) =>
+    [...rows.values()].find((row) =>
+      Object.entries(where).every(
+        ([key, value]) => row[key as keyof FoundryInstance] === value,
+      ),
+    ) ?? null;
+
+  return {
+    rows,
+    foundryInstance: {
+      findUnique: jest.fn(({ where }: { where: Where }) =>
+        Promise.resolve(find(where)),
+      ),
+      findMany: jest.fn(() => Promise.resolve([...rows.values()])),
+      create: jest.fn(({ data }: { data: Partial<FoundryInstance> }) => {
+        const row: FoundryInstance = {
+          id: `instance-${rows.size + 1}`,
+          name: '',
+          port: 0,
+          status: FoundryInstanceStatus.CREATING,
+          dockerContainerId: null,
+          ownerId: null,
+          image: 'felddy/foundryvtt',
+          imageTag: 'latest',
+          foundryVersion: null,
+          memoryLimitMb: null,
+          cpuLimit: null,
+          env: {},
+          restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+          nextSessionAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          ...data,
+        };
+        rows.set(row.id, row);
+        return Promise.resolve(row);
+      }),
+      update: jest.fn(
+        ({ where, data }: { where: Where; data: Partial<FoundryInstance> }) => {
+          const row = find(where);
+          if (!row)
+            return Promise.reject(new Error('Record to update not found.'));
+          const updated = { ...row, ...data, updatedAt: new Date() };
+          rows.set(updated.id, updated);
+          return Promise.resolve(updated);
+        },
+      ),
+      delete: jest.fn(({ where }: { where: Where }) => {
+        const row = find(where);
+        if (!row)
+          return Promise.reject(new Error('Record to delete does not exist.'));
+        rows.delete(row.id);
+        return Promise.resolve(row);
+      }),
+    },
+  };
+}
 
 describe('FoundryService', () => {
   let service: FoundryService;
+  let runtime: InMemoryContainerRuntime;
+  let prisma: ReturnType<typeof createPrismaFake>;
+  let module: TestingModule;
+
+  const seedInstance = (
+    overrides: Partial<FoundryInstance> = {},
+  ): FoundryInstance => {
+    const row: FoundryInstance = {
+      id: 'instance-seed',
+      name: 'campaign',
+      port: 30001,
+      status: FoundryInstanceStatus.STOPPED,
+      dockerContainerId: null,
+      ownerId: null,
+      image: 'felddy/foundryvtt',
+      imageTag: 'latest',
+      foundryVersion: null,
+      memoryLimitMb: null,
+      cpuLimit: null,
+      env: {},
+      restartPolicy: FoundryRestartPolicy.UNLESS_STOPPED,
+      nextSessionAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    };
+    prisma.rows.set(row.id, row);
+    return row;
+  };
+
+  const seedContainer = async (running: boolean): Promise<string> => {
+    runtime.images.add('felddy/foundryvtt:latest');
+    const id = await runtime.createContainer({
+      name: 'foundry-campaign',
+      image: 'felddy/foundryvtt:latest',
+    });
+    if (running) {
+      await runtime.startContainer(id);
+    }
+    return id;
+  };
 
   beforeEach(async () => {
-    const module: TestingModule = await Test.createTestingModule({
-      providers: [FoundryService],
+    runtime = new InMemoryContainerRuntime();
+    prisma = createPrismaFake();
+
+    module = await Test.createTestingModule({
+      providers: [
+        FoundryService,
+        LoggerService,
+        FoundryEventsService,
+        FoundryPortAllocator,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CONTAINER_RUNTIME, useValue: runtime },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'FIM_PORT_RANGE' ? '30001-30003' : undefined,
+          },
+        },
+      ],
     }).compile();
 
     service = module.get<FoundryService>(FoundryService);
+
+    jest
+      .spyOn(axios, 'get')
+      .mockRejectedValue(new Error('connect ECONNREFUSED'));
+    jest
+      .spyOn(service as any, 'prepareDataDirectory')
+      .mockResolvedValue('/srv/foundry/data/instance-seed');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('startFoundry', () => {
+    it('pulls the image and runs a new container when the instance has none', async () => {
+      seedInstance();
+
+      const result = await service.startFoundry('instance-seed');
+
+      expect(runtime.pulledImages).toEqual(['felddy/foundryvtt:latest']);
+      expect(result.status).toBe(FoundryInstanceStatus.RUNNING);
+      expect(result.dockerContainerId).toBeTruthy();
+
+      const container = runtime.containers.get(result.dockerContainerId!);
+      expect(container?.state.running).toBe(true);
+      expect(container?.spec).toMatchObject({
+        name: 'foundry-campaign',
+        user: '1000:1000',
+        ports: [{ containerPort: 30000, hostPort: 30001 }],
+        binds: [
+          {
+            hostPath: '/srv/foundry/data/instance-seed',
+            containerPath: '/data',
+          },
+        ],
+      });
+    });
+
+    it('starts the existing container instead of creating another one', async () => {
+      const containerId = await seedContainer(false);
+      seedInstance({ dockerContainerId: containerId });
+
+      const result = await service.startFoundry('instance-seed');
+
+      expect(result.dockerContainerId).toBe(containerId);
+      expect(runtime.containers.size).toBe(1);
+      expect(runtime.containers.get(containerId)?.state.running).toBe(true);
+    });
+
+    it('rejects an instance that is already running', async () => {
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: 'abc',
+      });
+
+      await expect(
+        service.startFoundry('instance-seed'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('surfaces runtime failures as InternalServerErrorException', async () => {
+      seedInstance();
+      jest
+        .spyOn(runtime, 'pullImage')
+        .mockRejectedValue(new ContainerRuntimeError('manifest unknown', 404));
+
+      await expect(
+        service.startFoundry('instance-seed'),
+      ).rejects.toBeInstanceOf(InternalServerErrorException);
+      expect(prisma.rows.get('instance-seed')?.status).toBe(
+        FoundryInstanceStatus.STOPPED,
+      );
+    });
+  });
+
+  describe('events', () => {
+    it('publishes status changes for subscribers', async () => {
+      seedInstance();
+      const events = module.get(FoundryEventsService);
+      const statuses: string[] = [];
+      events.stream.subscribe((event) => {
+        if (event.type === 'status') statuses.push(event.data.status);
+      });
+
+      await service.startFoundry('instance-seed');
+
+      expect(statuses).toEqual([FoundryInstanceStatus.RUNNING]);
+    });
+  });
+
+  describe('stopFoundry', () => {
+    it('stops the container and marks the instance as stopped', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+      });
+
+      const result = await service.stopFoundry('instance-seed');
+
+      expect(result.status).toBe(FoundryInstanceStatus.STOPPED);
+      expect(result.healthStatus).toBe('unknown');
+      expect(runtime.containers.get(containerId)?.state.status).toBe('exited');
+    });
+
+    it('rejects an instance that is not running', async () => {
+      seedInstance();
+
+      await expect(service.stopFoundry('instance-seed')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('deleteFoundry', () => {
+    it('force-removes a running container and deletes the record', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+      });
+
+      await service.deleteFoundry('instance-seed');
+
+      expect(runtime.containers.has(containerId)).toBe(false);
+      expect(prisma.rows.has('instance-seed')).toBe(false);
+    });
+
+    it('leaves the instance in ERROR when the container cannot be removed', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.DELETING,
+        dockerContainerId: containerId,
+      });
+      jest
+        .spyOn(runtime, 'removeContainer')
+        .mockRejectedValue(new ContainerRuntimeError('device busy', 500));
+
+      await expect(
+        service.deleteFoundry('instance-seed'),
+      ).rejects.toBeInstanceOf(InternalServerErrorException);
+      expect(prisma.rows.get('instance-seed')?.status).toBe(
+        FoundryInstanceStatus.ERROR,
+      );
+    });
+
+    it('still deletes the record when the container is already gone', async () => {
+      seedInstance({ dockerContainerId: 'gone' });
+
+      await service.deleteFoundry('instance-seed');
+
+      expect(prisma.rows.has('instance-seed')).toBe(false);
+    });
+  });
+
+  describe('provisionFoundryInstance', () => {
+    it('reports progress while bringing up a registered instance', async () => {
+      const instance = await service.createFoundryInstance('campaign', 30001);
+      expect(instance.status).toBe(FoundryInstanceStatus.CREATING);
+      expect(runtime.containers.size).toBe(0);
+
+      const report = jest.fn(() => Promise.resolve());
+      const result = await service.provisionFoundryInstance(
+        instance.id,
+        report,
+      );
+
+      expect(result.status).toBe(FoundryInstanceStatus.RUNNING);
+      expect(report).toHaveBeenCalledWith(
+        15,
+        'Pulling image felddy/foundryvtt:latest',
+      );
+      expect(report).toHaveBeenLastCalledWith(100, 'Instance is running');
+    });
+
+    it('removes the record when the container cannot be started', async () => {
+      const instance = await service.createFoundryInstance('campaign', 30001);
+      jest
+        .spyOn(runtime, 'pullImage')
+        .mockRejectedValue(new ContainerRuntimeError('manifest unknown', 404));
+
+      await expect(
+        service.provisionFoundryInstance(instance.id),
+      ).rejects.toBeInstanceOf(InternalServerErrorException);
+      expect(prisma.rows.has(instance.id)).toBe(false);
+    });
+  });
+
+  describe('createFoundryInstance', () => {
+    beforeEach(() => {
+      const allocator = module.get<FoundryPortAllocator>(FoundryPortAllocator);
+      jest.spyOn(allocator as any, 'isBoundOnHost').mockResolvedValue(false);
+    });
+
+    it('takes the first free port from the pool when none is given', async () => {
+      seedInstance();
+
+      const instance = await service.createFoundryInstance('second', undefined);
+
+      expect(instance.port).toBe(30002);
+    });
+
+    it('rejects a requested port that another instance uses', async () => {
+      seedInstance();
+
+      await expect(
+        service.createFoundryInstance('second', 30001),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('instance configuration', () => {
+    it('runs the configured image with its limits and environment', async () => {
+      seedInstance({
+        imageTag: '12',
+        foundryVersion: '12.331',
+        memoryLimitMb: 2048,
+        cpuLimit: 1.5,
+        env: { FOUNDRY_ADMIN_KEY: 'secret' },
+        restartPolicy: FoundryRestartPolicy.ON_FAILURE,
+      });
+
+      const result = await service.startFoundry('instance-seed');
+
+      expect(runtime.pulledImages).toEqual(['felddy/foundryvtt:12']);
+      expect(
+        runtime.containers.get(result.dockerContainerId!)?.spec,
+      ).toMatchObject({
+        image: 'felddy/foundryvtt:12',
+        env: { FOUNDRY_VERSION: '12.331', FOUNDRY_ADMIN_KEY: 'secret' },
+        memoryLimitMb: 2048,
+        cpuLimit: 1.5,
+        restartPolicy: 'on-failure',
+      });
+    });
+
+    it('recreates a running container and keeps the data directory', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+        memoryLimitMb: 4096,
+      });
+
+      const result = await service.recreateFoundry('instance-seed');
+
+      expect(runtime.containers.has(containerId)).toBe(false);
+      expect(result.status).toBe(FoundryInstanceStatus.RUNNING);
+      expect(
+        runtime.containers.get(result.dockerContainerId!)?.spec,
+      ).toMatchObject({
+        memoryLimitMb: 4096,
+        binds: [
+          {
+            hostPath: '/srv/foundry/data/instance-seed',
+            containerPath: '/data',
+          },
+        ],
+      });
+    });
+
+    it('only drops the container of a stopped instance', async () => {
+      const containerId = await seedContainer(false);
+      seedInstance({ dockerContainerId: containerId });
+
+      const result = await service.recreateFoundry('instance-seed');
+
+      expect(runtime.containers.size).toBe(0);
+      expect(result).toMatchObject({
+        status: FoundryInstanceStatus.STOPPED,
+        dockerContainerId: null,
+      });
+    });
+
+    it('refuses to reconfigure an instance that is being deleted', async () => {
+      seedInstance({ status: FoundryInstanceStatus.DELETING });
+
+      await expect(
+        service.updateInstanceConfig('instance-seed', { memoryLimitMb: 1024 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('restartFoundry', () => {
+    it('stops and starts the existing container', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+      });
+      const stopSpy = jest.spyOn(runtime, 'stopContainer');
+
+      const result = await service.restartFoundry('instance-seed');
+
+      expect(stopSpy).toHaveBeenCalledWith(containerId);
+      expect(result.status).toBe(FoundryInstanceStatus.RUNNING);
+      expect(runtime.containers.get(containerId)?.state.running).toBe(true);
+    });
+  });
+
+  describe('getFoundryStatus', () => {
+    it('syncs the database with a container that crashed', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+      });
+      runtime.crash(containerId);
+
+      await expect(service.getFoundryStatus('instance-seed')).resolves.toBe(
+        FoundryInstanceStatus.STOPPED,
+      );
+      expect(prisma.rows.get('instance-seed')?.status).toBe(
+        FoundryInstanceStatus.STOPPED,
+      );
+    });
+
+    it('forgets a container that was removed outside of FIM', async () => {
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: 'gone',
+      });
+
+      await expect(service.getFoundryStatus('instance-seed')).resolves.toBe(
+        FoundryInstanceStatus.STOPPED,
+      );
+      expect(prisma.rows.get('instance-seed')?.dockerContainerId).toBeNull();
+    });
+  });
+
+  describe('getJoinUrl', () => {
+    const publicHost = process.env.FIM_PUBLIC_HOST;
+
+    afterEach(() => {
+      if (publicHost === undefined) {
+        delete process.env.FIM_PUBLIC_HOST;
+      } else {
+        process.env.FIM_PUBLIC_HOST = publicHost;
+      }
+    });
+
+    it('combines the public host with the instance port', () => {
+      process.env.FIM_PUBLIC_HOST = 'games.example.com';
+
+      expect(service.getJoinUrl({ port: 30001 })).toBe(
+        'http://games.example.com:30001',
+      );
+    });
+
+    it('keeps the scheme of the public host and drops its port', () => {
+      process.env.FIM_PUBLIC_HOST = 'https://games.example.com:8443/';
+
+      expect(service.getJoinUrl({ port: 30001 })).toBe(
+        'https://games.example.com:30001',
+      );
+    });
+  });
+
+  describe('getInstanceHealth', () => {
+    let server: Server;
+    let status: { code: number; body: string };
+
+    // Stands in for Foundry's HTTP server; only /api/status is answered
+    beforeEach(async () => {
+      jest.spyOn(axios, 'get').mockRestore();
+      status = { code: 200, body: '' };
+      server = createServer((req, res) => {
+        if (req.url !== '/api/status') {
+          res.writeHead(404).end();
+          return;
+        }
+        res
+          .writeHead(status.code, { 'Content-Type': 'application/json' })
+          .end(status.body);
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        port: (server.address() as AddressInfo).port,
+      });
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('reports the world being played', async () => {
+      status.body = JSON.stringify({
+        active: true,
+        version: '12.331',
+        world: 'curse-of-strahd',
+        system: 'dnd5e',
+        systemVersion: '3.3.1',
+        users: 3,
+        uptime: 5400,
+      });
+
+      await expect(service.getInstanceHealth('instance-seed')).resolves.toEqual(
+        expect.objectContaining({
+          healthStatus: 'healthy',
+          world: 'curse-of-strahd',
+          system: 'dnd5e',
+          systemVersion: '3.3.1',
+          foundryVersion: '12.331',
+          users: 3,
+          error: null,
+        }),
+      );
+    });
+
+    it('is degraded while Foundry is on its setup screen', async () => {
+      status.body = JSON.stringify({
+        active: false,
+        version: '12.331',
+        users: 0,
+      });
+
+      const report = await service.getInstanceHealth('instance-seed');
+
+      expect(report.healthStatus).toBe('degraded');
+      expect(report.world).toBeNull();
+      expect(report.foundryVersion).toBe('12.331');
+    });
+
+    it('is degraded when Foundry does not report its status', async () => {
+      status.body = '<html>License key required</html>';
+
+      await expect(
+        service.getInstanceHealth('instance-seed'),
+      ).resolves.toMatchObject({ healthStatus: 'degraded', world: null });
+    });
+
+    it('is unhealthy when Foundry fails to answer', async () => {
+      status.code = 503;
+
+      await expect(
+        service.getInstanceHealth('instance-seed'),
+      ).resolves.toMatchObject({ healthStatus: 'unhealthy' });
+    });
+
+    it('asks Foundry at the configured probe host', async () => {
+      const probeHost = process.env.FIM_FOUNDRY_PROBE_HOST;
+      process.env.FIM_FOUNDRY_PROBE_HOST = '127.0.0.1';
+      const get = jest.spyOn(axios, 'get');
+      status.body = JSON.stringify({ active: false, version: '12.331' });
+
+      try {
+        await expect(
+          service.getInstanceHealth('instance-seed'),
+        ).resolves.toMatchObject({ foundryVersion: '12.331' });
+        expect(get).toHaveBeenCalledWith(
+          `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/status`,
+          expect.anything(),
+        );
+      } finally {
+        if (probeHost === undefined) {
+          delete process.env.FIM_FOUNDRY_PROBE_HOST;
+        } else {
+          process.env.FIM_FOUNDRY_PROBE_HOST = probeHost;
+        }
+      }
+    });
+  });
+
+  describe('streamInstanceLogs', () => {
+    it('reads the end of the log and completes', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+      });
+      runtime.writeLog(containerId, 'Foundry VTT | Server started');
+      runtime.writeLog(containerId, 'World loaded', 'stdout');
+      runtime.writeLog(containerId, 'Module failed to load', 'stderr');
+
+      const logs = await service.streamInstanceLogs('instance-seed', {
+        tail: 2,
+      });
+
+      await expect(lastValueFrom(logs.pipe(toArray()))).resolves.toEqual([
+        expect.objectContaining({ stream: 'stdout', message: 'World loaded' }),
+        expect.objectContaining({
+          stream: 'stderr',
+          message: 'Module failed to load',
+        }),
+      ]);
+    });
+
+    it('follows the log until the container stops', async () => {
+      const containerId = await seedContainer(true);
+      seedInstance({
+        status: FoundryInstanceStatus.RUNNING,
+        dockerContainerId: containerId,
+      });
+      const logs = await service.streamInstanceLogs('instance-seed', {
+        follow: true,
+      });
+      const lines = lastValueFrom(logs.pipe(toArray()));
+
+      runtime.writeLog(containerId, 'Player joined');
+      await runtime.stopContainer(containerId);
+
+      await expect(lines).resolves.toEqual([
+        expect.objectContaining({ message: 'Player joined' }),
+      ]);
+    });
+
+    it('rejects instances without a container', async () => {
+      seedInstance();
+
+      await expect(
+        service.streamInstanceLogs('instance-seed', {}),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
 });
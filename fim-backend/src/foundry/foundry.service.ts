@@ -1,45 +1,272 @@
-import { Injectable, InternalServerErrorException, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Inject, Injectable, InternalServerErrorException, NotFoundException, BadRequestException } from '@nestjs/common';
 import { LoggerService } from '../common/logger/logger.service';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs/promises'; // Import fs/promises
 import * as fsSync from 'fs'; // Import fs for synchronous operations
+import * as path from 'path';
 import axios from 'axios'; // Import axios for HTTP requests
+import { Observable } from 'rxjs';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma, FoundryInstance, FoundryInstanceStatus } from '@prisma/client'; // Import Prisma namespace, FoundryInstance model type, and FoundryInstanceStatus enum
+import { Prisma, FoundryInstance, FoundryInstanceStatus, FoundryRestartPolicy } from '@prisma/client'; // Import Prisma namespace, FoundryInstance model type, and FoundryInstanceStatus enum
+import { CONTAINER_RUNTIME, ContainerLogLine, ContainerLogOptions, ContainerNotFoundError, ContainerRestartPolicy, ContainerRuntime, ContainerRuntimeError, ContainerState } from './runtime/container-runtime';
+import { JobProgressReporter, noopProgressReporter, scaleProgress } from './interfaces/job-progress-reporter.interface';
+import { FoundryStatusReport } from './interfaces/foundry-status-report.interface';
+import { FoundryEventsService } from './foundry-events.service';
+import { FoundryInstanceConfig } from './interfaces/foundry-instance-config.interface';
+import { FoundryPortAllocator } from './foundry-port-allocator.service';
+import { isEnvRecord } from '../common/validators/is-env-record.validator';
+
+export const FOUNDRY_CONTAINER_PORT = 30000;
+export const FOUNDRY_CONTAINER_PREFIX = 'foundry-';
+export const FOUNDRY_CONTAINER_DATA_PATH = '/data';
+const FOUNDRY_UID = 1000;
+const FOUNDRY_GID = 1000;
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+const DEFAULT_HEALTH_CHECK_HOST = 'localhost';
+
+// What Foundry's /api/status answers; world and system are left out while it is on its setup screen
+interface FoundryApiStatus {
+  active?: boolean;
+  version?: string;
+  world?: string;
+  system?: string;
+  systemVersion?: string;
+  users?: number;
+}
 
-const execAsync = promisify(exec);
+const EMPTY_STATUS_REPORT: Omit<FoundryStatusReport, 'healthStatus'> = {
+  world: null,
+  system: null,
+  systemVersion: null,
+  foundryVersion: null,
+  users: null,
+  responseTimeMs: null,
+  error: null,
+};
+
+/**
+ * Reads the answer of Foundry's status API. Foundry only counts as healthy while it serves a world;
+ * answering from its setup or license screen is degraded.
+ */
+const toStatusReport = (data: unknown, responseTimeMs: number): FoundryStatusReport => {
+  const status = data && typeof data === 'object' ? (data as FoundryApiStatus) : undefined;
+  if (typeof status?.version !== 'string') {
+    return { ...EMPTY_STATUS_REPORT, healthStatus: 'degraded', responseTimeMs, error: 'Foundry did not report its status; it may be waiting for a license key' };
+  }
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : null);
+  const world = status.active ? text(status.world) : null;
+  return {
+    healthStatus: world ? 'healthy' : 'degraded',
+    world,
+    system: world ? text(status.system) : null,
+    systemVersion: world ? text(status.systemVersion) : null,
+    foundryVersion: status.version,
+    users: typeof status.users === 'number' ? status.users : null,
+    responseTimeMs,
+    error: world ? null : 'No world is running; Foundry is on its setup screen',
+  };
+};
+
+const RESTART_POLICIES: Record<FoundryRestartPolicy, ContainerRestartPolicy> = {
+  [FoundryRestartPolicy.NO]: 'no',
+  [FoundryRestartPolicy.ON_FAILURE]: 'on-failure',
+  [FoundryRestartPolicy.UNLESS_STOPPED]: 'unless-stopped',
+  [FoundryRestartPolicy.ALWAYS]: 'always',
+};
 
 @Injectable()
 export class FoundryService {
-  constructor(private readonly logger: LoggerService, private readonly prisma: PrismaService) {
+  constructor(
+    private readonly logger: LoggerService,
+    private readonly prisma: PrismaService,
+    @Inject(CONTAINER_RUNTIME) private readonly runtime: ContainerRuntime,
+    private readonly events: FoundryEventsService,
+    private readonly portAllocator: FoundryPortAllocator,
+  ) {
     this.logger.setContext(FoundryService.name);
   }
 
-  private async _executeCommand(command: string, errorMessage: string): Promise<string> {
+  /**
+   * Updates an instance record and tells event subscribers about the new state.
+   */
+  private async _updateInstance(instanceId: string, data: Prisma.FoundryInstanceUpdateInput): Promise<FoundryInstance> {
+    const instance = await this.prisma.foundryInstance.update({ where: { id: instanceId }, data });
+    this.events.publishStatus(instance);
+    return instance;
+  }
+
+  /**
+   * Runs a container runtime call and converts runtime failures into HTTP exceptions.
+   */
+  private async _callRuntime<T>(operation: () => Promise<T>, errorMessage: string): Promise<T> {
     try {
-      this.logger.debug(`Executing command: ${command}`);
-      const { stdout, stderr } = await execAsync(command);
-      if (stderr) {
-        this.logger.error(`Command stderr: ${stderr}`);
-        throw new InternalServerErrorException(`${errorMessage}: ${stderr}`);
-      }
-      return stdout.trim();
+      return await operation();
     } catch (error) {
       this.logger.error(`${errorMessage}: ${error.message}`);
-      throw new InternalServerErrorException(`${errorMessage}: ${error.message}`);
+      if (error instanceof ContainerRuntimeError) {
+        throw new InternalServerErrorException(`${errorMessage}: ${error.message}`);
+      }
+      throw error;
     }
   }
 
+  /**
+   * Maps a container state reported by the runtime onto an instance status.
+   */
+  toInstanceStatus(instance: Pick<FoundryInstance, 'name'>, state: Pick<ContainerState, 'status'>): FoundryInstanceStatus {
+    switch (state.status) {
+      case 'running':
+        return FoundryInstanceStatus.RUNNING;
+      case 'exited':
+      case 'created':
+        return FoundryInstanceStatus.STOPPED;
+      default:
+        this.logger.warn(`Unknown Docker status for instance ${instance.name}: ${state.status}`);
+        return FoundryInstanceStatus.ERROR;
+    }
+  }
+
+  /**
+   * Resolves where an instance's data lives, both on the host (for the Docker bind mount)
+   * and from this process's point of view (for filesystem access).
+   */
+  resolveDataPaths(instance: FoundryInstance): { hostPath: string; localPath: string } {
+    const root = this.resolveDataRoot();
+    return { hostPath: `${root.hostPath}/${instance.id}`, localPath: `${root.localPath}/${instance.id}` };
+  }
+
+  /**
+   * Resolves the directory holding the data of all instances, on the host and from this process's point of view.
+   */
+  resolveDataRoot(): { hostPath: string; localPath: string } {
+    // Check if we're running inside a Docker container or on the host
+    const isRunningInDocker = fsSync.existsSync('/.dockerenv');
+    this.logger.debug(`isRunningInDocker: ${isRunningInDocker}`);
+
+    // Path to the data root *on the host*, read from environment variables.
+    // When running on host (not in Docker), use a user-accessible directory
+    const hostPath = isRunningInDocker
+      ? (process.env.FIM_FOUNDRY_DATA_ROOT || '/var/lib/foundryvtt/data')
+      : (process.env.FIM_FOUNDRY_DATA_ROOT || `${process.env.HOME}/foundry-data`);
+
+    // Running inside Docker container - use the internal path that maps to host
+    const localPath = isRunningInDocker ? '/app/foundry-data-root' : hostPath;
+    return { hostPath, localPath };
+  }
+
+  /**
+   * Creates the instance data directory and hands it to the Foundry container user.
+   */
+  async prepareDataDirectory(instance: FoundryInstance): Promise<string> {
+    const { hostPath, localPath } = this.resolveDataPaths(instance);
+    this.logger.debug(`hostInstancePath: ${hostPath}`);
+
+    await fs.mkdir(localPath, { recursive: true });
+    this.logger.debug(`Ensured data directory exists at: ${localPath}`);
+
+    try {
+      await this._chownRecursive(localPath, FOUNDRY_UID, FOUNDRY_GID);
+    } catch (error) {
+      this.logger.error(`Failed to change ownership of ${localPath}: ${error.message}`);
+      throw new InternalServerErrorException(`Failed to change ownership of ${localPath}: ${error.message}`);
+    }
+    this.logger.debug(`Changed ownership of ${localPath} to ${FOUNDRY_UID}:${FOUNDRY_GID}`);
+    return hostPath;
+  }
+
+  private async _chownRecursive(target: string, uid: number, gid: number): Promise<void> {
+    await fs.chown(target, uid, gid);
+    const entries = await fs.readdir(target, { withFileTypes: true });
+    for (const entry of entries) {
+      const entryPath = path.join(target, entry.name);
+      if (entry.isDirectory()) {
+        await this._chownRecursive(entryPath, uid, gid);
+      } else {
+        await fs.lchown(entryPath, uid, gid);
+      }
+    }
+  }
+
+  /**
+   * Builds the container environment: the server-wide Foundry credentials, the pinned Foundry version
+   * and finally the instance's own variables, which win over both.
+   */
+  private _buildContainerEnv(instance: FoundryInstance): Record<string, string> {
+    const env: Record<string, string> = {};
+    if (process.env.FOUNDRY_USERNAME) env.FOUNDRY_USERNAME = process.env.FOUNDRY_USERNAME;
+    if (process.env.FOUNDRY_PASSWORD) env.FOUNDRY_PASSWORD = process.env.FOUNDRY_PASSWORD;
+    if (instance.foundryVersion) env.FOUNDRY_VERSION = instance.foundryVersion;
+    if (isEnvRecord(instance.env)) {
+      Object.assign(env, instance.env);
+    } else {
+      this.logger.warn(`Ignoring malformed environment for instance ${instance.name}`);
+    }
+    return env;
+  }
+
+  /**
+   * Creates a new container for an instance, pulling the image first if needed.
+   * @param report Receives progress updates; pulling the image is by far the slowest step.
+   * @returns The ID of the started container.
+   */
+  private async _runContainer(instance: FoundryInstance, report: JobProgressReporter): Promise<string> {
+    await report(5, 'Preparing data directory');
+    const hostInstancePath = await this.prepareDataDirectory(instance);
+
+    const image = `${instance.image}:${instance.imageTag}`;
+    const imageExists = await this._callRuntime(
+      () => this.runtime.imageExists(image),
+      `Failed to inspect image ${image}`,
+    );
+    if (!imageExists) {
+      this.logger.log(`Image ${image} not present locally. Pulling it now.`);
+      await report(15, `Pulling image ${image}`);
+      await this._callRuntime(() => this.runtime.pullImage(image), `Failed to pull image ${image}`);
+    }
+
+    await report(70, 'Creating container');
+    // Use the *host path* for the bind mount, as the Docker daemon needs it.
+    const containerId = await this._callRuntime(
+      () => this.runtime.createContainer({
+        name: `${FOUNDRY_CONTAINER_PREFIX}${instance.name}`,
+        image,
+        user: `${FOUNDRY_UID}:${FOUNDRY_GID}`,
+        env: this._buildContainerEnv(instance),
+        ports: [{ containerPort: FOUNDRY_CONTAINER_PORT, hostPort: instance.port }],
+        binds: [{ hostPath: hostInstancePath, containerPath: FOUNDRY_CONTAINER_DATA_PATH }],
+        memoryLimitMb: instance.memoryLimitMb ?? undefined,
+        cpuLimit: instance.cpuLimit ?? undefined,
+        restartPolicy: RESTART_POLICIES[instance.restartPolicy],
+      }),
+      `Failed to create Docker container for instance ${instance.name}`,
+    );
+
+    try {
+      await report(85, 'Starting container');
+      await this._callRuntime(
+        () => this.runtime.startContainer(containerId),
+        `Failed to start Docker container for instance ${instance.name}`,
+      );
+    } catch (error) {
+      // Don't leave a created-but-dead container behind; it would block the name on the next attempt.
+      await this.runtime.removeContainer(containerId, { force: true }).catch((removeError) =>
+        this.logger.warn(`Failed to clean up container ${containerId}: ${removeError.message}`),
+      );
+      throw error;
+    }
+    return containerId;
+  }
+
   /**
    * Starts a Foundry VTT instance.
    * @param instanceId The ID of the Foundry VTT instance to start.
+   * @param report Optional callback that receives progress updates.
    * @returns The updated Foundry VTT instance.
    * @throws NotFoundException if the instance is not found.
    * @throws BadRequestException if the instance is already running or creating.
-   * @throws InternalServerErrorException if Docker command fails.
+   * @throws InternalServerErrorException if the container runtime call fails.
    */
-  async startFoundry(instanceId: string): Promise<FoundryInstance & { healthStatus: 'healthy' | 'unhealthy' | 'unknown' | 'checking' }> {
+  async startFoundry(instanceId: string, report: JobProgressReporter = noopProgressReporter): Promise<FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking' }> {
     this.logger.log(`Attempting to start Foundry VTT instance with ID: ${instanceId}`);
 
     let instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
@@ -57,82 +284,41 @@ export class FoundryService {
       // If the container already exists, just start it.
       if (dockerContainerId) {
         this.logger.log(`Foundry instance ${instance.name} already has a container. Starting it now.`);
-        const dockerStartCommand = `docker start ${dockerContainerId}`;
-        await this._executeCommand(dockerStartCommand, `Failed to start existing Docker container for instance ${instance.name}`);
+        const containerId = dockerContainerId;
+        await report(50, 'Starting existing container');
+        await this._callRuntime(
+          () => this.runtime.startContainer(containerId),
+          `Failed to start existing Docker container for instance ${instance.name}`,
+        );
       } else {
         this.logger.log(`Foundry instance ${instance.name} does not have a container. Creating and starting a new one.`);
-        
-        // Check if we're running inside a Docker container or on the host
-        const isRunningInDocker = fsSync.existsSync('/.dockerenv');
-        this.logger.debug(`isRunningInDocker: ${isRunningInDocker}`);
-        
-        // Path to the data root *on the host*, read from environment variables.
-        // When running on host (not in Docker), use a user-accessible directory
-        const hostDataRoot = isRunningInDocker 
-          ? (process.env.FIM_FOUNDRY_DATA_ROOT || '/var/lib/foundryvtt/data')
-          : (process.env.FIM_FOUNDRY_DATA_ROOT || `${process.env.HOME}/foundry-data`);
-        const hostInstancePath = `${hostDataRoot}/${instance.id}`;
-        this.logger.debug(`hostDataRoot: ${hostDataRoot}`);
-        this.logger.debug(`hostInstancePath: ${hostInstancePath}`);
-        let dataPathToUse: string;
-        
-        if (isRunningInDocker) {
-          // Running inside Docker container - use the internal path that maps to host
-          const internalDataRoot = '/app/foundry-data-root';
-          dataPathToUse = `${internalDataRoot}/${instance.id}`;
-          this.logger.debug(`Running in Docker container, using internal path: ${dataPathToUse}`);
-        } else {
-          // Running on host - use the host path directly
-          dataPathToUse = hostInstancePath;
-          this.logger.debug(`Running on host, using host path: ${dataPathToUse}`);
-        }
-
-        // Create the directory
-        await fs.mkdir(dataPathToUse, { recursive: true });
-        this.logger.debug(`Ensured data directory exists at: ${dataPathToUse}`);
-
-        // Change ownership of the directory to the foundry user (1000:1000)
-        const chownCommand = `chown -R 1000:1000 ${dataPathToUse}`;
-        await this._executeCommand(chownCommand, `Failed to change ownership of ${dataPathToUse}`);
-        this.logger.debug(`Changed ownership of ${dataPathToUse} to 1000:1000`);
-
-        // Use the *host path* for the Docker volume mount command, as the Docker daemon needs it.
-        // The felddy/foundryvtt container will use these environment variables to set the correct permissions on the /data volume.
-        const dockerRunCommand = `docker run -d --name foundry-${instance.name} -p ${instance.port}:30000 --user 1000:1000 -e FOUNDRY_USERNAME=${process.env.FOUNDRY_USERNAME} -e FOUNDRY_PASSWORD=${process.env.FOUNDRY_PASSWORD} -v ${hostInstancePath}:/data felddy/foundryvtt:latest`;
-        dockerContainerId = await this._executeCommand(
-          dockerRunCommand,
-          `Failed to start Docker container for instance ${instance.name}`,
-        );
+        dockerContainerId = await this._runContainer(instance, report);
       }
 
-      instance = await this.prisma.foundryInstance.update({
-        where: { id: instanceId },
-        data: {
-          dockerContainerId: dockerContainerId,
-          status: FoundryInstanceStatus.RUNNING,
-        },
-      });
+      instance = await this._updateInstance(instanceId, { dockerContainerId: dockerContainerId, status: FoundryInstanceStatus.RUNNING });
 
       this.logger.log(`Foundry VTT instance ${instance.name} started successfully. Container ID: ${dockerContainerId}`);
+      await report(100, 'Instance is running');
       
       // Check health status for the started instance
-      const healthStatus = await this.checkInstanceHealth(instance);
+      const { healthStatus } = await this.checkInstanceHealth(instance);
       return { ...instance, healthStatus };
     } catch (error) {
       this.logger.error(`Error starting Foundry VTT instance ${instance.name}: ${error.message}`);
-      throw error; // Re-throw the exception from _executeCommand or Prisma
+      throw error; // Re-throw the exception from the container runtime or Prisma
     }
   }
 
   /**
    * Stops a Foundry VTT instance.
    * @param instanceId The ID of the Foundry VTT instance to stop.
+   * @param report Optional callback that receives progress updates.
    * @returns The updated Foundry VTT instance.
    * @throws NotFoundException if the instance is not found.
    * @throws BadRequestException if the instance is not running.
-   * @throws InternalServerErrorException if Docker command fails or no container ID is associated.
+   * @throws InternalServerErrorException if the container runtime call fails or no container ID is associated.
    */
-  async stopFoundry(instanceId: string): Promise<FoundryInstance & { healthStatus: 'healthy' | 'unhealthy' | 'unknown' | 'checking' }> {
+  async stopFoundry(instanceId: string, report: JobProgressReporter = noopProgressReporter): Promise<FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking' }> {
     this.logger.log(`Attempting to stop Foundry VTT instance with ID: ${instanceId}`);
 
     let instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
@@ -149,17 +335,17 @@ export class FoundryService {
     }
 
     try {
-      const dockerStopCommand = `docker stop ${instance.dockerContainerId}`;
-      await this._executeCommand(dockerStopCommand, `Failed to stop Docker container for instance ${instance.name}`);
-
-      instance = await this.prisma.foundryInstance.update({
-        where: { id: instanceId },
-        data: {
-          status: FoundryInstanceStatus.STOPPED,
-        },
-      });
+      const containerId = instance.dockerContainerId;
+      await report(10, 'Stopping container');
+      await this._callRuntime(
+        () => this.runtime.stopContainer(containerId),
+        `Failed to stop Docker container for instance ${instance.name}`,
+      );
+
+      instance = await this._updateInstance(instanceId, { status: FoundryInstanceStatus.STOPPED });
 
       this.logger.log(`Foundry VTT instance ${instance.name} stopped successfully.`);
+      await report(100, 'Instance is stopped');
       
       // For stopped instances, health status is always unknown
       return { ...instance, healthStatus: 'unknown' as const };
@@ -171,11 +357,13 @@ export class FoundryService {
 
   /**
    * Deletes a Foundry VTT instance and its associated Docker container.
+   * If removal fails the instance is left in the ERROR state so it can be retried.
    * @param instanceId The ID of the Foundry VTT instance to delete.
+   * @param report Optional callback that receives progress updates.
    * @throws NotFoundException if the instance is not found.
-   * @throws InternalServerErrorException if Docker command fails.
+   * @throws InternalServerErrorException if the container runtime call fails.
    */
-  async deleteFoundry(instanceId: string): Promise<void> {
+  async deleteFoundry(instanceId: string, report: JobProgressReporter = noopProgressReporter): Promise<void> {
     this.logger.log(`Attempting to delete Foundry VTT instance with ID: ${instanceId}`);
 
     const instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
@@ -185,15 +373,31 @@ export class FoundryService {
 
     try {
       if (instance.dockerContainerId) {
-        const dockerRmCommand = `docker rm -f ${instance.dockerContainerId}`;
-        await this._executeCommand(dockerRmCommand, `Failed to remove Docker container for instance ${instance.name}`);
+        const containerId = instance.dockerContainerId;
+        await report(20, 'Removing container');
+        await this._callRuntime(async () => {
+          try {
+            await this.runtime.removeContainer(containerId, { force: true });
+          } catch (error) {
+            // A container that is already gone is exactly what we wanted.
+            if (!(error instanceof ContainerNotFoundError)) {
+              throw error;
+            }
+            this.logger.warn(`Container ${containerId} for instance ${instance.name} no longer exists.`);
+          }
+        }, `Failed to remove Docker container for instance ${instance.name}`);
       }
 
-      await this.prisma.foundryInstance.delete({ where: { id: instanceId } });
+      await report(80, 'Removing instance record');
+      const deletedInstance = await this.prisma.foundryInstance.delete({ where: { id: instanceId } });
+      this.events.publishDeleted(deletedInstance);
 
       this.logger.log(`Foundry VTT instance ${instance.name} and its Docker container (if existed) deleted successfully.`);
+      await report(100, 'Instance deleted');
     } catch (error) {
       this.logger.error(`Error deleting Foundry VTT instance ${instance.name}: ${error.message}`);
+      await this._updateInstance(instanceId, { status: FoundryInstanceStatus.ERROR })
+        .catch((updateError) => this.logger.warn(`Failed to mark instance ${instance.name} as ${FoundryInstanceStatus.ERROR}: ${updateError.message}`));
       throw error;
     }
   }
@@ -203,7 +407,7 @@ export class FoundryService {
    * @param instanceId The ID of the Foundry VTT instance.
    * @returns The current status of the instance.
    * @throws NotFoundException if the instance is not found.
-   * @throws InternalServerErrorException if Docker command fails.
+   * @throws InternalServerErrorException if the container runtime call fails.
    */
   async getFoundryStatus(instanceId: string): Promise<FoundryInstanceStatus> {
     this.logger.log(`Attempting to get Foundry VTT instance status for ID: ${instanceId}`);
@@ -216,64 +420,183 @@ export class FoundryService {
     if (!instance.dockerContainerId) {
       this.logger.log(`Instance ${instance.name} has no Docker container ID. Assuming ${FoundryInstanceStatus.STOPPED} status.`);
       if (instance.status !== FoundryInstanceStatus.STOPPED) {
-        await this.prisma.foundryInstance.update({
-          where: { id: instanceId },
-          data: { status: FoundryInstanceStatus.STOPPED },
-        });
+        await this._updateInstance(instanceId, { status: FoundryInstanceStatus.STOPPED });
       }
       return FoundryInstanceStatus.STOPPED;
     }
 
+    const containerId = instance.dockerContainerId;
     try {
-      const dockerInspectCommand = `docker inspect --format='{{.State.Status}}' ${instance.dockerContainerId}`;
-      const dockerStatus = await this._executeCommand(dockerInspectCommand, `Failed to inspect Docker container for instance ${instance.name}`);
-
-      let currentStatus: FoundryInstanceStatus;
-      switch (dockerStatus.toLowerCase()) {
-        case 'running':
-          currentStatus = FoundryInstanceStatus.RUNNING;
-          break;
-        case 'exited':
-          currentStatus = FoundryInstanceStatus.STOPPED;
-          break;
-        default:
-          currentStatus = FoundryInstanceStatus.ERROR;
-          this.logger.warn(`Unknown Docker status for instance ${instance.name}: ${dockerStatus}`);
+      let containerState: ContainerState;
+      try {
+        containerState = await this.runtime.inspectContainer(containerId);
+      } catch (error) {
+        if (!(error instanceof ContainerNotFoundError)) {
+          throw error;
+        }
+        // The container was removed outside of FIM. Forget it so the next start creates a fresh one.
+        this.logger.warn(`Docker container ${containerId} for instance ${instance.name} no longer exists. Marking instance as ${FoundryInstanceStatus.STOPPED}.`);
+        await this._updateInstance(instanceId, { status: FoundryInstanceStatus.STOPPED, dockerContainerId: null });
+        return FoundryInstanceStatus.STOPPED;
       }
 
+      const currentStatus = this.toInstanceStatus(instance, containerState);
+
       if (instance.status !== currentStatus) {
         this.logger.log(`Updating database status for instance ${instance.name} from ${instance.status} to ${currentStatus}`);
-        await this.prisma.foundryInstance.update({
-          where: { id: instanceId },
-          data: { status: currentStatus },
-        });
+        await this._updateInstance(instanceId, { status: currentStatus });
       }
 
       this.logger.log(`Foundry VTT instance ${instance.name} status: ${currentStatus}`);
       return currentStatus;
     } catch (error) {
       this.logger.error(`Error getting Foundry VTT status for instance ${instance.name}: ${error.message}`);
-      // If docker inspect fails, it might mean the container is gone or in a bad state.
-      // Consider updating DB status to ERROR or STOPPED if appropriate.
+      // If the inspect call fails, the daemon or the container is in a bad state.
       if (instance.status !== FoundryInstanceStatus.ERROR) {
-        await this.prisma.foundryInstance.update({
-          where: { id: instanceId },
-          data: { status: FoundryInstanceStatus.ERROR },
-        });
+        await this._updateInstance(instanceId, { status: FoundryInstanceStatus.ERROR });
+      }
+      if (error instanceof ContainerRuntimeError) {
+        throw new InternalServerErrorException(`Failed to inspect Docker container for instance ${instance.name}: ${error.message}`);
       }
       throw error;
     }
   }
   /**
-   * Creates a new Foundry VTT instance.
+   * Stops (if running) and starts a Foundry VTT instance again.
+   * @param instanceId The ID of the Foundry VTT instance to restart.
+   * @param report Optional callback that receives progress updates.
+   * @returns The updated Foundry VTT instance.
+   * @throws NotFoundException if the instance is not found.
+   * @throws InternalServerErrorException if the container runtime call fails.
+   */
+  async restartFoundry(instanceId: string, report: JobProgressReporter = noopProgressReporter): Promise<FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking' }> {
+    this.logger.log(`Attempting to restart Foundry VTT instance with ID: ${instanceId}`);
+
+    const instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new NotFoundException(`Foundry instance with ID ${instanceId} not found.`);
+    }
+
+    if (instance.status === FoundryInstanceStatus.RUNNING) {
+      await this.stopFoundry(instanceId, scaleProgress(report, 0, 40));
+      return this.startFoundry(instanceId, scaleProgress(report, 40, 100));
+    }
+    return this.startFoundry(instanceId, report);
+  }
+
+  /**
+   * Replaces an instance's container so configuration changes take effect.
+   * The data directory is a bind mount, so worlds and settings survive; only the container is thrown away.
+   * A stopped instance is left stopped and gets its new container on the next start.
+   * @param instanceId The ID of the Foundry VTT instance to recreate.
+   * @param report Optional callback that receives progress updates.
+   * @returns The updated Foundry VTT instance.
+   * @throws NotFoundException if the instance is not found.
+   * @throws InternalServerErrorException if the container runtime call fails.
+   */
+  async recreateFoundry(instanceId: string, report: JobProgressReporter = noopProgressReporter): Promise<FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking' }> {
+    this.logger.log(`Attempting to recreate Foundry VTT instance with ID: ${instanceId}`);
+
+    let instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new NotFoundException(`Foundry instance with ID ${instanceId} not found.`);
+    }
+
+    const wasRunning = instance.status === FoundryInstanceStatus.RUNNING;
+    if (instance.dockerContainerId) {
+      const containerId = instance.dockerContainerId;
+      const name = instance.name;
+      if (wasRunning) {
+        await report(5, 'Stopping container');
+        await this._callRuntime(() => this.runtime.stopContainer(containerId), `Failed to stop Docker container for instance ${name}`);
+      }
+      await report(15, 'Removing old container');
+      await this._callRuntime(async () => {
+        try {
+          await this.runtime.removeContainer(containerId, { force: true });
+        } catch (error) {
+          if (!(error instanceof ContainerNotFoundError)) {
+            throw error;
+          }
+        }
+      }, `Failed to remove Docker container for instance ${name}`);
+      instance = await this._updateInstance(instanceId, { dockerContainerId: null, status: FoundryInstanceStatus.STOPPED });
+    }
+
+    if (!wasRunning) {
+      this.logger.log(`Foundry VTT instance ${instance.name} will use its new configuration on the next start.`);
+      await report(100, 'Configuration saved; the instance will use it on its next start');
+      return { ...instance, healthStatus: 'unknown' as const };
+    }
+    return this.startFoundry(instanceId, scaleProgress(report, 20, 100));
+  }
+
+  /**
+   * Changes the container settings of an instance.
+   * The running container is not touched; queue a RECREATE job to apply the new settings.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param config The settings to change.
+   * @returns The updated Foundry VTT instance.
+   * @throws NotFoundException if the instance is not found.
+   * @throws BadRequestException if the instance is still being created or deleted.
+   */
+  async updateInstanceConfig(instanceId: string, config: FoundryInstanceConfig): Promise<FoundryInstance> {
+    const instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new NotFoundException(`Foundry instance with ID ${instanceId} not found.`);
+    }
+    if (instance.status === FoundryInstanceStatus.CREATING || instance.status === FoundryInstanceStatus.DELETING) {
+      throw new BadRequestException(`Foundry instance ${instance.name} is ${instance.status} and cannot be reconfigured.`);
+    }
+
+    const updatedInstance = await this._updateInstance(instanceId, config);
+    this.logger.log(`Updated configuration of Foundry VTT instance ${instance.name}: ${Object.keys(config).join(', ')}`);
+    return updatedInstance;
+  }
+
+  /**
+   * Sets or clears when the next game session on an instance takes place.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param nextSessionAt When the next session starts, or null if none is planned.
+   * @returns The updated Foundry VTT instance.
+   * @throws NotFoundException if the instance is not found.
+   */
+  async setNextSession(instanceId: string, nextSessionAt: Date | null): Promise<FoundryInstance> {
+    const instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new NotFoundException(`Foundry instance with ID ${instanceId} not found.`);
+    }
+
+    const updatedInstance = await this._updateInstance(instanceId, { nextSessionAt });
+    this.logger.log(`Next session of Foundry VTT instance ${instance.name} set to ${nextSessionAt ? nextSessionAt.toISOString() : 'none'}`);
+    return updatedInstance;
+  }
+
+  /**
+   * Builds the URL players use to join an instance.
+   * The host comes from FIM_PUBLIC_HOST, which may include a scheme (defaults to http) and defaults to localhost.
+   * @param instance The Foundry VTT instance.
+   * @returns The join URL, e.g. https://games.example.com:30001
+   */
+  getJoinUrl(instance: Pick<FoundryInstance, 'port'>): string {
+    const publicHost = process.env.FIM_PUBLIC_HOST || 'localhost';
+    const url = new URL(publicHost.includes('://') ? publicHost : `http://${publicHost}`);
+    return `${url.protocol}//${url.hostname}:${instance.port}`;
+  }
+
+  /**
+   * Registers a new Foundry VTT instance in the CREATING state.
+   * The container itself is provisioned later by a CREATE job (see {@link provisionFoundryInstance}).
    * @param name The name of the new instance.
-   * @param port The port for the new instance.
+   * @param port The port for the new instance; if omitted a free port is taken from the pool.
+   * @param config Optional container settings; anything omitted uses the defaults.
    * @param ownerId Optional ID of the user who owns the instance.
-   * @returns The newly created Foundry VTT instance.
-   * @throws BadRequestException if an instance with the same name or port already exists.
+   * @returns The newly registered Foundry VTT instance.
+   * @throws BadRequestException if an instance with the same name already exists or the port is in use.
+   * @throws ConflictException if no port was given and the pool is exhausted.
    */
-  async createFoundryInstance(name: string, port: number, ownerId?: number): Promise<FoundryInstance & { healthStatus: 'healthy' | 'unhealthy' | 'unknown' | 'checking' }> {
-    this.logger.log(`Attempting to create Foundry VTT instance with name: ${name}, port: ${port}`);
+  async createFoundryInstance(name: string, port: number | undefined, config: FoundryInstanceConfig = {}, ownerId?: number): Promise<FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking' }> {
+    this.logger.log(`Attempting to create Foundry VTT instance with name: ${name}, port: ${port ?? 'auto'}`);
 
     try {
       const existingInstanceByName = await this.prisma.foundryInstance.findUnique({ where: { name } });
@@ -281,80 +604,157 @@ export class FoundryService {
         throw new BadRequestException(`Foundry instance with name '${name}' already exists.`);
       }
 
-      const existingInstanceByPort = await this.prisma.foundryInstance.findUnique({ where: { port } });
-      if (existingInstanceByPort) {
-        throw new BadRequestException(`Foundry instance with port '${port}' already in use.`);
-      }
-
-      const newInstance = await this.prisma.foundryInstance.create({
-        data: {
-          name,
-          port,
-          ownerId,
-          status: FoundryInstanceStatus.CREATING,
-        },
-      });
-      this.logger.log(`Foundry VTT instance ${name} database record created with ID: ${newInstance.id}`);
-
+      const allocatedPort = await this.portAllocator.allocate(port);
       try {
-        this.logger.log(`About to call startFoundry for instance ${newInstance.id}`);
-        const startedInstance = await this.startFoundry(newInstance.id);
-        this.logger.log(`Foundry VTT instance ${name} container started successfully.`);
-        return startedInstance;
-      } catch (error) {
-        this.logger.error(`Error starting Foundry VTT instance ${name}: ${error.message}`);
-        this.logger.error(`Failed to start container for instance ${name}. Deleting database record to prevent orphaned entry.`);
-        await this.prisma.foundryInstance.delete({ where: { id: newInstance.id } });
-        this.logger.log(`Deleted database record for instance ${name}.`);
-        throw error; // Re-throw the original error from startFoundry
+        const newInstance = await this.prisma.foundryInstance.create({
+          data: {
+            ...config,
+            name,
+            port: allocatedPort,
+            ownerId,
+            status: FoundryInstanceStatus.CREATING,
+          },
+        });
+        this.logger.log(`Foundry VTT instance ${name} database record created with ID: ${newInstance.id} on port ${allocatedPort}`);
+        this.events.publishStatus(newInstance);
+        return { ...newInstance, healthStatus: 'unknown' as const };
+      } finally {
+        // From here on the instance row holds the port.
+        this.portAllocator.release(allocatedPort);
       }
     } catch (error) {
       this.logger.error(`Error in createFoundryInstance: ${error.message}`);
       throw error;
     }
   }
+
   /**
-   * Checks the health of a Foundry VTT instance by making an HTTP request to its port.
-   * @param instance The Foundry instance to check
-   * @returns The health status of the instance
+   * Brings up the container for an instance registered by {@link createFoundryInstance}.
+   * If the container cannot be started the database record is removed to prevent an orphaned entry.
+   * @param instanceId The ID of the CREATING instance.
+   * @param report Optional callback that receives progress updates.
+   * @returns The running Foundry VTT instance.
+   * @throws NotFoundException if the instance is not found.
+   * @throws InternalServerErrorException if the container runtime call fails.
    */
-  private async checkInstanceHealth(instance: FoundryInstance): Promise<'healthy' | 'unhealthy' | 'unknown'> {
+  async provisionFoundryInstance(instanceId: string, report: JobProgressReporter = noopProgressReporter): Promise<FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking' }> {
     try {
-      // Only check health for running instances
-      if (instance.status !== 'RUNNING') {
-        return 'unknown';
+      const startedInstance = await this.startFoundry(instanceId, report);
+      this.logger.log(`Foundry VTT instance ${startedInstance.name} container started successfully.`);
+      return startedInstance;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
       }
+      this.logger.error(`Failed to start container for instance ${instanceId}. Deleting database record to prevent orphaned entry.`);
+      const deletedInstance = await this.prisma.foundryInstance.delete({ where: { id: instanceId } });
+      this.events.publishDeleted(deletedInstance);
+      this.logger.log(`Deleted database record for instance ${instanceId}.`);
+      throw error; // Re-throw the original error from startFoundry
+    }
+  }
 
-      const response = await axios.get(`http://localhost:${instance.port}`, {
-        timeout: 5000, // 5 second timeout
-        validateStatus: (status) => status < 500, // Accept any status < 500 as healthy
+  /**
+   * Checks the health of a Foundry VTT instance by querying Foundry's status API (`/api/status`) on its port.
+   * The port is published on the host, so FIM_FOUNDRY_PROBE_HOST must name the host as seen from this process:
+   * localhost (the default) when running on the host, e.g. host.docker.internal when running in a container.
+   * Health transitions are published to event subscribers.
+   * @param instance The Foundry instance to check
+   * @returns What Foundry reported, with the health status of the instance
+   */
+  private async checkInstanceHealth(instance: FoundryInstance): Promise<FoundryStatusReport> {
+    // Only check health for running instances
+    if (instance.status !== 'RUNNING') {
+      return { ...EMPTY_STATUS_REPORT, healthStatus: 'unknown' };
+    }
+
+    const probeHost = process.env.FIM_FOUNDRY_PROBE_HOST || DEFAULT_HEALTH_CHECK_HOST;
+    let report: FoundryStatusReport;
+    const startedAt = Date.now();
+    try {
+      const response = await axios.get<unknown>(`http://${probeHost}:${instance.port}/api/status`, {
+        timeout: HEALTH_CHECK_TIMEOUT_MS,
+        validateStatus: (status) => status < 500, // Anything below 500 means Foundry is up; the body tells how it is doing
       });
-      
-      // If we get any response (even 404), the service is running
-      return 'healthy';
+      report = toStatusReport(response.data, Date.now() - startedAt);
     } catch (error) {
       this.logger.debug(`Health check failed for instance ${instance.name}: ${error.message}`);
-      return 'unhealthy';
+      report = { ...EMPTY_STATUS_REPORT, healthStatus: 'unhealthy', error: error.message };
+    }
+    this.events.publishHealth(instance, report.healthStatus);
+    return report;
+  }
+
+  /**
+   * Checks the health of a single Foundry VTT instance.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @returns What Foundry reported, with the health status of the instance ('unknown' unless it is running).
+   * @throws NotFoundException if the instance is not found.
+   */
+  async getInstanceHealth(instanceId: string): Promise<FoundryStatusReport> {
+    const instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new NotFoundException(`Foundry instance with ID ${instanceId} not found.`);
+    }
+    return this.checkInstanceHealth(instance);
+  }
+
+  /**
+   * Checks every running instance so health transitions reach event subscribers without anyone asking.
+   * @returns The running instances with what Foundry reported about them.
+   */
+  async refreshRunningInstancesHealth(): Promise<{ instance: FoundryInstance; report: FoundryStatusReport }[]> {
+    const instances = await this.prisma.foundryInstance.findMany({ where: { status: FoundryInstanceStatus.RUNNING } });
+    return Promise.all(instances.map(async (instance) => ({ instance, report: await this.checkInstanceHealth(instance) })));
+  }
+
+  /**
+   * Streams the container log of a Foundry VTT instance.
+   * @param instanceId The ID of the Foundry VTT instance.
+   * @param options Which part of the log to read and whether to keep following it.
+   * @returns The log lines. Completes at the end of the log, or when the container stops if following;
+   * unsubscribing stops reading.
+   * @throws NotFoundException if the instance is not found or has no container.
+   * @throws InternalServerErrorException if the container runtime call fails.
+   */
+  async streamInstanceLogs(instanceId: string, options: ContainerLogOptions): Promise<Observable<ContainerLogLine>> {
+    const instance = await this.prisma.foundryInstance.findUnique({ where: { id: instanceId } });
+    if (!instance) {
+      throw new NotFoundException(`Foundry instance with ID ${instanceId} not found.`);
     }
+    if (!instance.dockerContainerId) {
+      throw new NotFoundException(`Foundry instance ${instance.name} has no container, so there are no logs.`);
+    }
+
+    const containerId = instance.dockerContainerId;
+    const logs = await this._callRuntime(() => this.runtime.streamContainerLogs(containerId, options), `Failed to read logs of instance ${instance.name}`);
+    return new Observable<ContainerLogLine>((subscriber) => {
+      logs.on('data', (line: ContainerLogLine) => subscriber.next(line));
+      logs.on('end', () => subscriber.complete());
+      logs.on('error', (error) => subscriber.error(error));
+      return () => logs.destroy();
+    });
   }
 
   /**
-   * Lists all Foundry VTT instances with their health status.
-   * @returns A list of all Foundry VTT instances with health status.
+   * Lists Foundry VTT instances with their health status and what Foundry reports about the world being played.
+   * @param where Optional filter, e.g. to the instances visible to a user; all instances by default.
+   * @returns A list of the matching Foundry VTT instances with health status.
    */
-  async listFoundryInstances(): Promise<(FoundryInstance & { healthStatus: 'healthy' | 'unhealthy' | 'unknown' | 'checking' })[]> {
-    this.logger.log('Attempting to list all Foundry VTT instances.');
+  async listFoundryInstances(where: Prisma.FoundryInstanceWhereInput = {}): Promise<(FoundryInstance & { healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking'; foundryStatus: Omit<FoundryStatusReport, 'healthStatus'> | null })[]> {
+    this.logger.log('Attempting to list Foundry VTT instances.');
     try {
-      const instances = await this.prisma.foundryInstance.findMany();
+      const instances = await this.prisma.foundryInstance.findMany({ where });
       this.logger.log(`Found ${instances.length} Foundry VTT instances.`);
       
       // Check health for all instances in parallel
       const instancesWithHealth = await Promise.all(
         instances.map(async (instance) => {
-          const healthStatus = await this.checkInstanceHealth(instance);
+          const { healthStatus, ...foundryStatus } = await this.checkInstanceHealth(instance);
           return {
             ...instance,
             healthStatus,
+            foundryStatus: instance.status === FoundryInstanceStatus.RUNNING ? foundryStatus : null,
           };
         })
       );
@@ -0,0 +1,34 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest } from '../../auth/interfaces/authenticated-request.interface';
+import { INSTANCE_PERMISSION_KEY } from '../decorators/requires-instance-permission.decorator';
+import {
+  FoundryAccessService,
+  InstancePermission,
+} from '../foundry-access.service';
+
+@Injectable()
+export class InstancePermissionGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly foundryAccessService: FoundryAccessService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const permission = this.reflector.getAllAndOverride<InstancePermission>(
+      INSTANCE_PERMISSION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!permission) {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    // Throws NotFound/Forbidden itself so the caller learns why access was refused.
+    await this.foundryAccessService.assertPermission(
+      request.user,
+      request.params.instanceId,
+      permission,
+    );
+    return true;
+  }
+}
@@ -0,0 +1,44 @@
+import { FoundryInstance, FoundryJob } from '@prisma/client';
+
+export type InstanceHealthStatus =
+  | 'healthy'
+  | 'degraded'
+  | 'unhealthy'
+  | 'unknown';
+
+interface FoundryEventBase {
+  instanceId: string | null;
+  /**
+   * Owner of the instance at the time of the event; used to decide which subscribers may see it.
+   */
+  ownerId: number | null;
+}
+
+export interface FoundryStatusEvent extends FoundryEventBase {
+  type: 'status';
+  data: FoundryInstance;
+}
+
+export interface FoundryHealthEvent extends FoundryEventBase {
+  type: 'health';
+  data: { healthStatus: InstanceHealthStatus };
+}
+
+export interface FoundryJobEvent extends FoundryEventBase {
+  type: 'job';
+  data: FoundryJob;
+}
+
+export interface FoundryDeletedEvent extends FoundryEventBase {
+  type: 'deleted';
+  data: { id: string };
+}
+
+/**
+ * Everything pushed to dashboard subscribers of `GET /foundry/events`.
+ */
+export type FoundryEvent =
+  | FoundryStatusEvent
+  | FoundryHealthEvent
+  | FoundryJobEvent
+  | FoundryDeletedEvent;
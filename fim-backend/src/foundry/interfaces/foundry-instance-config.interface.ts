@@ -0,0 +1,15 @@
+import { FoundryRestartPolicy } from '@prisma/client';
+
+/**
+ * The container settings that can be chosen per instance.
+ * Omitted fields keep their current value; nullable fields are cleared with null.
+ */
+export interface FoundryInstanceConfig {
+  image?: string;
+  imageTag?: string;
+  foundryVersion?: string | null;
+  memoryLimitMb?: number | null;
+  cpuLimit?: number | null;
+  env?: Record<string, string>;
+  restartPolicy?: FoundryRestartPolicy;
+}
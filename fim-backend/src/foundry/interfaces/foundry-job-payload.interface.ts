@@ -0,0 +1,11 @@
+/**
+ * Extra arguments for job types that need more than the instance ID.
+ */
+export interface FoundryJobPayload {
+  /** The backup a RESTORE job restores. */
+  backupId?: string;
+  /** The schedule that queued a BACKUP job. */
+  scheduleId?: string;
+  /** The image tag an UPDATE job moves the instance to. */
+  imageTag?: string;
+}
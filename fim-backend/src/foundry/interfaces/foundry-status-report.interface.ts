@@ -0,0 +1,19 @@
+import { InstanceHealthStatus } from './foundry-event.interface';
+
+/**
+ * The outcome of a deep health check, as reported by Foundry's `/api/status` endpoint.
+ * Everything but the health status is null when Foundry did not say.
+ */
+export interface FoundryStatusReport {
+  healthStatus: InstanceHealthStatus;
+  /** The world being played; null while Foundry is on its setup screen. */
+  world: string | null;
+  system: string | null;
+  systemVersion: string | null;
+  foundryVersion: string | null;
+  /** Number of players connected to the world. */
+  users: number | null;
+  responseTimeMs: number | null;
+  /** Why the instance is not healthy. */
+  error: string | null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Callback used by long-running lifecycle operations to report how far along they are.
+ * @param progress Completion percentage between 0 and 100.
+ * @param message A short, human-readable description of the current step.
+ */
+export type JobProgressReporter = (
+  progress: number,
+  message: string,
+) => Promise<void>;
+
+/**
+ * Reporter used when an operation is invoked outside of a job.
+ */
+export const noopProgressReporter: JobProgressReporter = () =>
+  Promise.resolve();
+
+/**
+ * Maps a sub-operation's 0-100 progress onto a slice of the parent operation's range.
+ */
+export function scaleProgress(
+  reporter: JobProgressReporter,
+  from: number,
+  to: number,
+): JobProgressReporter {
+  return (progress, message) =>
+    reporter(Math.round(from + ((to - from) * progress) / 100), message);
+}
@@ -0,0 +1,190 @@
+import { Readable } from 'stream';
+
+/**
+ * Injection token for the active {@link ContainerRuntime} implementation.
+ */
+export const CONTAINER_RUNTIME = Symbol('CONTAINER_RUNTIME');
+
+export interface PortBinding {
+  containerPort: number;
+  hostPort: number;
+}
+
+export interface VolumeBind {
+  hostPath: string;
+  containerPath: string;
+}
+
+export type ContainerRestartPolicy =
+  | 'no'
+  | 'on-failure'
+  | 'unless-stopped'
+  | 'always';
+
+/**
+ * Everything needed to create a container, expressed as data rather than CLI flags.
+ */
+export interface ContainerSpec {
+  name: string;
+  image: string;
+  user?: string;
+  env?: Record<string, string>;
+  ports?: PortBinding[];
+  binds?: VolumeBind[];
+  /** Hard memory cap in megabytes; unlimited when omitted. */
+  memoryLimitMb?: number;
+  /** Number of CPUs the container may use, e.g. 1.5; unlimited when omitted. */
+  cpuLimit?: number;
+  restartPolicy?: ContainerRestartPolicy;
+}
+
+export type ContainerStatus =
+  | 'created'
+  | 'running'
+  | 'paused'
+  | 'restarting'
+  | 'removing'
+  | 'exited'
+  | 'dead';
+
+export interface ContainerState {
+  id: string;
+  name: string;
+  /** The image reference the container was created from, e.g. `felddy/foundryvtt:12`. */
+  image: string;
+  binds: VolumeBind[];
+  status: ContainerStatus;
+  running: boolean;
+  exitCode: number | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+/**
+ * A point-in-time sample of a running container's resource usage.
+ * CPU time and network traffic are totals since the container started.
+ */
+export interface ContainerStats {
+  cpuSeconds: number;
+  memoryUsageBytes: number;
+  /** The memory the container may use; the host's memory when it has no limit. */
+  memoryLimitBytes: number;
+  networkReceivedBytes: number;
+  networkTransmittedBytes: number;
+}
+
+/**
+ * The lightweight view of a container returned when listing.
+ */
+export interface ContainerSummary {
+  id: string;
+  name: string;
+  status: ContainerStatus;
+  ports: PortBinding[];
+}
+
+/**
+ * Which part of a container's log to read.
+ */
+export interface ContainerLogOptions {
+  /** Only the last this many lines; the whole log when omitted. */
+  tail?: number;
+  /** Only lines written at or after this time. */
+  since?: Date;
+  /** Keep reading lines as the container writes them, until it stops. */
+  follow?: boolean;
+}
+
+/**
+ * One line a container wrote to its standard output or error.
+ */
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  /** When the runtime received the line (RFC 3339); null if it did not say. */
+  timestamp: string | null;
+  message: string;
+}
+
+/**
+ * Thrown when the container runtime rejects a request or cannot be reached.
+ */
+export class ContainerRuntimeError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode?: number,
+  ) {
+    super(message);
+    this.name = 'ContainerRuntimeError';
+  }
+}
+
+/**
+ * Thrown when the referenced container (or image) does not exist.
+ */
+export class ContainerNotFoundError extends ContainerRuntimeError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'ContainerNotFoundError';
+  }
+}
+
+/**
+ * Minimal container lifecycle API used by the Foundry module.
+ */
+export interface ContainerRuntime {
+  /**
+   * Checks that the runtime can be reached.
+   * @throws ContainerRuntimeError if it cannot.
+   */
+  ping(): Promise<void>;
+
+  /**
+   * Checks whether an image is available locally.
+   */
+  imageExists(image: string): Promise<boolean>;
+
+  /**
+   * Pulls an image and resolves once the pull has completed.
+   */
+  pullImage(image: string): Promise<void>;
+
+  /**
+   * Creates (but does not start) a container.
+   * @returns The ID of the new container.
+   */
+  createContainer(spec: ContainerSpec): Promise<string>;
+
+  startContainer(id: string): Promise<void>;
+
+  stopContainer(id: string, timeoutSeconds?: number): Promise<void>;
+
+  removeContainer(id: string, options?: { force?: boolean }): Promise<void>;
+
+  /**
+   * @throws ContainerNotFoundError if the container does not exist.
+   */
+  inspectContainer(id: string): Promise<ContainerState>;
+
+  /**
+   * Lists containers (running or not) whose name starts with the given prefix; every container for an empty prefix.
+   * Ports are only reported for running containers.
+   */
+  listContainers(namePrefix: string): Promise<ContainerSummary[]>;
+
+  /**
+   * Samples the resource usage of a running container.
+   * @throws ContainerNotFoundError if the container does not exist.
+   */
+  getContainerStats(id: string): Promise<ContainerStats>;
+
+  /**
+   * Reads the log of a container as an object-mode stream of {@link ContainerLogLine}s.
+   * The stream ends with the log, or when the container stops if `follow` is set.
+   * Destroy it to stop reading early.
+   * @throws ContainerNotFoundError if the container does not exist.
+   */
+  streamContainerLogs(
+    id: string,
+    options?: ContainerLogOptions,
+  ): Promise<Readable>;
+}
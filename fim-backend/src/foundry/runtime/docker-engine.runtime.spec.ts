@@ -0,0 +1,87 @@
+import { Readable } from 'stream';
+import { ContainerLogLine } from './container-runtime';
+import {
+  DockerLogDemultiplexer,
+  parseImageReference,
+} from './docker-engine.runtime';
+
+const frame = (stream: 1 | 2, payload: string): Buffer => {
+  const body = Buffer.from(payload, 'utf8');
+  const header = Buffer.alloc(8);
+  header[0] = stream;
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+};
+
+const demultiplex = async (chunks: Buffer[]): Promise<ContainerLogLine[]> => {
+  const lines: ContainerLogLine[] = [];
+  for await (const line of Readable.from(chunks).pipe(
+    new DockerLogDemultiplexer(),
+  )) {
+    lines.push(line as ContainerLogLine);
+  }
+  return lines;
+};
+
+describe('parseImageReference', () => {
+  it('keeps a registry port out of the tag', () => {
+    expect(parseImageReference('registry:5000/foundryvtt')).toEqual({
+      repository: 'registry:5000/foundryvtt',
+      tag: 'latest',
+    });
+    expect(parseImageReference('felddy/foundryvtt:12')).toEqual({
+      repository: 'felddy/foundryvtt',
+      tag: '12',
+    });
+  });
+});
+
+describe('DockerLogDemultiplexer', () => {
+  it('splits frames into timestamped lines per stream', async () => {
+    const lines = await demultiplex([
+      frame(
+        1,
+        '2024-05-01T18:00:00.000000001Z Server started\n2024-05-01T18:00:01.000000000Z World loaded\n',
+      ),
+      frame(2, '2024-05-01T18:00:02.000000000Z Module failed\r\n'),
+    ]);
+
+    expect(lines).toEqual([
+      {
+        stream: 'stdout',
+        timestamp: '2024-05-01T18:00:00.000000001Z',
+        message: 'Server started',
+      },
+      {
+        stream: 'stdout',
+        timestamp: '2024-05-01T18:00:01.000000000Z',
+        message: 'World loaded',
+      },
+      {
+        stream: 'stderr',
+        timestamp: '2024-05-01T18:00:02.000000000Z',
+        message: 'Module failed',
+      },
+    ]);
+  });
+
+  it('joins frames and lines split across chunks', async () => {
+    const data = Buffer.concat([
+      frame(1, '2024-05-01T18:00:00Z Player jo'),
+      frame(1, 'ined: Gandalf 🧙\n'),
+      frame(1, 'no newline at the end'),
+    ]);
+
+    const lines = await demultiplex([
+      data.subarray(0, 5),
+      data.subarray(5, 40),
+      data.subarray(40, 60),
+      data.subarray(60),
+    ]);
+
+    expect(lines.map((line) => line.message)).toEqual([
+      'Player joined: Gandalf 🧙',
+      'no newline at the end',
+    ]);
+  });
+});
@@ -0,0 +1,500 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance, isAxiosError } from 'axios';
+import { Readable, Transform, TransformCallback, pipeline } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { LoggerService } from '../../common/logger/logger.service';
+import {
+  ContainerLogLine,
+  ContainerLogOptions,
+  ContainerNotFoundError,
+  ContainerRuntime,
+  ContainerRuntimeError,
+  ContainerSpec,
+  ContainerState,
+  ContainerStats,
+  ContainerStatus,
+  ContainerSummary,
+} from './container-runtime';
+
+const DEFAULT_SOCKET_PATH = '/var/run/docker.sock';
+const DEFAULT_API_VERSION = 'v1.41';
+
+interface DockerContainerInspect {
+  Id: string;
+  Name: string;
+  Config: { Image: string };
+  Mounts?: { Type: string; Source: string; Destination: string }[];
+  State: {
+    Status: ContainerStatus;
+    Running: boolean;
+    ExitCode: number;
+    StartedAt: string;
+    FinishedAt: string;
+  };
+}
+
+/**
+ * Splits an image reference such as `felddy/foundryvtt:12` into repository and tag.
+ * A colon that is part of a registry host (`registry:5000/foo`) is not treated as a tag.
+ */
+export function parseImageReference(image: string): {
+  repository: string;
+  tag: string;
+} {
+  const lastColon = image.lastIndexOf(':');
+  const lastSlash = image.lastIndexOf('/');
+  if (lastColon > lastSlash) {
+    return {
+      repository: image.slice(0, lastColon),
+      tag: image.slice(lastColon + 1),
+    };
+  }
+  return { repository: image, tag: 'latest' };
+}
+
+interface DockerContainerListItem {
+  Id: string;
+  Names: string[];
+  State: ContainerStatus;
+  Ports: { PrivatePort: number; PublicPort?: number; Type: string }[];
+}
+
+interface DockerContainerStats {
+  cpu_stats: { cpu_usage: { total_usage: number } };
+  memory_stats: {
+    usage?: number;
+    limit?: number;
+    stats?: { inactive_file?: number; total_inactive_file?: number };
+  };
+  networks?: Record<string, { rx_bytes: number; tx_bytes: number }>;
+}
+
+function toDate(value: string | undefined): Date | null {
+  // Docker reports "0001-01-01T00:00:00Z" for timestamps that were never set.
+  if (!value || value.startsWith('0001-')) {
+    return null;
+  }
+  return new Date(value);
+}
+
+function toLogLine(
+  stream: ContainerLogLine['stream'],
+  line: string,
+): ContainerLogLine {
+  const text = line.endsWith('\r') ? line.slice(0, -1) : line;
+  // Requested with timestamps, so each line starts with the RFC 3339 time Docker received it
+  const space = text.indexOf(' ');
+  if (space > 0 && /^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    return {
+      stream,
+      timestamp: text.slice(0, space),
+      message: text.slice(space + 1),
+    };
+  }
+  return { stream, timestamp: null, message: text };
+}
+
+/**
+ * Splits the multiplexed log stream of the Engine API into {@link ContainerLogLine}s.
+ * Each frame is an 8-byte header (stream type, three unused bytes, payload size as a big-endian uint32)
+ * followed by the payload, which may hold several lines or only part of one.
+ */
+export class DockerLogDemultiplexer extends Transform {
+  private buffer = Buffer.alloc(0);
+  private readonly decoders = {
+    stdout: new StringDecoder('utf8'),
+    stderr: new StringDecoder('utf8'),
+  };
+  private readonly partialLines = { stdout: '', stderr: '' };
+
+  constructor() {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (this.buffer.length >= 8) {
+      const size = this.buffer.readUInt32BE(4);
+      if (this.buffer.length < 8 + size) {
+        break;
+      }
+      const stream = this.buffer[0] === 2 ? 'stderr' : 'stdout';
+      const lines = (
+        this.partialLines[stream] +
+        this.decoders[stream].write(this.buffer.subarray(8, 8 + size))
+      ).split('\n');
+      this.buffer = this.buffer.subarray(8 + size);
+      this.partialLines[stream] = lines.pop() ?? '';
+      for (const line of lines) {
+        this.push(toLogLine(stream, line));
+      }
+    }
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const rest = this.partialLines[stream] + this.decoders[stream].end();
+      if (rest) {
+        this.push(toLogLine(stream, rest));
+      }
+    }
+    callback();
+  }
+}
+
+/**
+ * Talks to the Docker Engine API over its unix socket.
+ */
+@Injectable()
+export class DockerEngineRuntime implements ContainerRuntime {
+  private readonly client: AxiosInstance;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(DockerEngineRuntime.name);
+    const socketPath =
+      this.configService.get<string>('FIM_DOCKER_SOCKET') ||
+      DEFAULT_SOCKET_PATH;
+    const apiVersion =
+      this.configService.get<string>('FIM_DOCKER_API_VERSION') ||
+      DEFAULT_API_VERSION;
+    this.client = axios.create({
+      socketPath,
+      baseURL: `http://localhost/${apiVersion}`,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async ping(): Promise<void> {
+    await this.request(
+      () => this.client.get('/_ping', { timeout: 5000 }),
+      'Failed to reach the Docker daemon',
+    );
+  }
+
+  async imageExists(image: string): Promise<boolean> {
+    try {
+      // Image references contain slashes that the Engine API expects unescaped.
+      await this.client.get(`/images/${image}/json`);
+      return true;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return false;
+      }
+      throw this.toRuntimeError(error, `Failed to inspect image ${image}`);
+    }
+  }
+
+  async pullImage(image: string): Promise<void> {
+    const { repository, tag } = parseImageReference(image);
+    this.logger.log(`Pulling image ${repository}:${tag}`);
+    try {
+      const response = await this.client.post<Readable>(
+        '/images/create',
+        null,
+        {
+          params: { fromImage: repository, tag },
+          responseType: 'stream',
+          timeout: 0,
+        },
+      );
+      await this.consumeProgressStream(response.data, image);
+    } catch (error) {
+      throw this.toRuntimeError(error, `Failed to pull image ${image}`);
+    }
+  }
+
+  async createContainer(spec: ContainerSpec): Promise<string> {
+    const exposedPorts: Record<string, object> = {};
+    const portBindings: Record<string, { HostPort: string }[]> = {};
+    for (const { containerPort, hostPort } of spec.ports ?? []) {
+      exposedPorts[`${containerPort}/tcp`] = {};
+      portBindings[`${containerPort}/tcp`] = [{ HostPort: String(hostPort) }];
+    }
+
+    const body = {
+      Image: spec.image,
+      User: spec.user,
+      Env: Object.entries(spec.env ?? {}).map(
+        ([key, value]) => `${key}=${value}`,
+      ),
+      ExposedPorts: exposedPorts,
+      HostConfig: {
+        PortBindings: portBindings,
+        Binds: (spec.binds ?? []).map(
+          (bind) => `${bind.hostPath}:${bind.containerPath}`,
+        ),
+        Memory: spec.memoryLimitMb
+          ? spec.memoryLimitMb * 1024 * 1024
+          : undefined,
+        NanoCpus: spec.cpuLimit
+          ? Math.round(spec.cpuLimit * 1_000_000_000)
+          : undefined,
+        RestartPolicy: spec.restartPolicy
+          ? { Name: spec.restartPolicy }
+          : undefined,
+      },
+    };
+
+    try {
+      const response = await this.client.post<{
+        Id: string;
+        Warnings?: string[];
+      }>('/containers/create', body, { params: { name: spec.name } });
+      for (const warning of response.data.Warnings ?? []) {
+        this.logger.warn(
+          `Docker warning while creating ${spec.name}: ${warning}`,
+        );
+      }
+      return response.data.Id;
+    } catch (error) {
+      throw this.toRuntimeError(
+        error,
+        `Failed to create container ${spec.name}`,
+      );
+    }
+  }
+
+  async startContainer(id: string): Promise<void> {
+    // 304 means the container was already running, which is fine for our purposes.
+    await this.request(
+      () =>
+        this.client.post(`/containers/${encodeURIComponent(id)}/start`, null, {
+          validateStatus: (status) => status === 204 || status === 304,
+        }),
+      `Failed to start container ${id}`,
+    );
+  }
+
+  async stopContainer(id: string, timeoutSeconds = 10): Promise<void> {
+    await this.request(
+      () =>
+        this.client.post(`/containers/${encodeURIComponent(id)}/stop`, null, {
+          params: { t: timeoutSeconds },
+          timeout: (timeoutSeconds + 30) * 1000,
+          validateStatus: (status) => status === 204 || status === 304,
+        }),
+      `Failed to stop container ${id}`,
+    );
+  }
+
+  async removeContainer(
+    id: string,
+    options: { force?: boolean } = {},
+  ): Promise<void> {
+    await this.request(
+      () =>
+        this.client.delete(`/containers/${encodeURIComponent(id)}`, {
+          params: { force: options.force ?? false },
+        }),
+      `Failed to remove container ${id}`,
+    );
+  }
+
+  async inspectContainer(id: string): Promise<ContainerState> {
+    const response = await this.request(
+      () =>
+        this.client.get<DockerContainerInspect>(
+          `/containers/${encodeURIComponent(id)}/json`,
+        ),
+      `Failed to inspect container ${id}`,
+    );
+    const { Id, Name, Config, Mounts, State } = response.data;
+    return {
+      id: Id,
+      name: Name.replace(/^\//, ''),
+      image: Config.Image,
+      binds: (Mounts ?? [])
+        .filter((mount) => mount.Type === 'bind')
+        .map((mount) => ({
+          hostPath: mount.Source,
+          containerPath: mount.Destination,
+        })),
+      status: State.Status,
+      running: State.Running,
+      exitCode: State.ExitCode ?? null,
+      startedAt: toDate(State.StartedAt),
+      finishedAt: toDate(State.FinishedAt),
+    };
+  }
+
+  async listContainers(namePrefix: string): Promise<ContainerSummary[]> {
+    const response = await this.request(
+      () =>
+        this.client.get<DockerContainerListItem[]>('/containers/json', {
+          params: {
+            all: true,
+            ...(namePrefix
+              ? { filters: JSON.stringify({ name: [namePrefix] }) }
+              : {}),
+          },
+        }),
+      'Failed to list containers',
+    );
+    // The Engine API's name filter matches anywhere in the name, so narrow it down to real prefixes.
+    return response.data
+      .map((container) => ({
+        id: container.Id,
+        name: (container.Names[0] ?? '').replace(/^\//, ''),
+        status: container.State,
+        ports: container.Ports.filter(
+          (port) => port.Type === 'tcp' && port.PublicPort !== undefined,
+        ).map((port) => ({
+          containerPort: port.PrivatePort,
+          hostPort: port.PublicPort as number,
+        })),
+      }))
+      .filter((container) => container.name.startsWith(namePrefix));
+  }
+
+  async getContainerStats(id: string): Promise<ContainerStats> {
+    const response = await this.request(
+      () =>
+        this.client.get<DockerContainerStats>(
+          `/containers/${encodeURIComponent(id)}/stats`,
+          // One-shot skips the second sample Docker otherwise waits a second for; totals don't need it
+          { params: { stream: false, 'one-shot': true } },
+        ),
+      `Failed to get stats of container ${id}`,
+    );
+    const { cpu_stats, memory_stats, networks } = response.data;
+    // Page cache the kernel can reclaim is left out, as `docker stats` does (cgroup v2 and v1 names)
+    const inactiveFile =
+      memory_stats.stats?.inactive_file ??
+      memory_stats.stats?.total_inactive_file ??
+      0;
+    const interfaces = Object.values(networks ?? {});
+    return {
+      cpuSeconds: cpu_stats.cpu_usage.total_usage / 1e9,
+      memoryUsageBytes: Math.max((memory_stats.usage ?? 0) - inactiveFile, 0),
+      memoryLimitBytes: memory_stats.limit ?? 0,
+      networkReceivedBytes: interfaces.reduce((sum, i) => sum + i.rx_bytes, 0),
+      networkTransmittedBytes: interfaces.reduce(
+        (sum, i) => sum + i.tx_bytes,
+        0,
+      ),
+    };
+  }
+
+  async streamContainerLogs(
+    id: string,
+    options: ContainerLogOptions = {},
+  ): Promise<Readable> {
+    const response = await this.request(
+      () =>
+        this.client.get<Readable>(
+          `/containers/${encodeURIComponent(id)}/logs`,
+          {
+            params: {
+              stdout: true,
+              stderr: true,
+              timestamps: true,
+              follow: options.follow ?? false,
+              tail: options.tail ?? 'all',
+              since: options.since
+                ? Math.floor(options.since.getTime() / 1000)
+                : undefined,
+            },
+            responseType: 'stream',
+            timeout: 0,
+          },
+        ),
+      `Failed to read logs of container ${id}`,
+    );
+    // Containers FIM creates have no TTY, so stdout and stderr always come multiplexed.
+    // Destroying the returned stream also closes the connection to Docker; errors surface on it.
+    return pipeline(
+      response.data,
+      new DockerLogDemultiplexer(),
+      () => undefined,
+    );
+  }
+
+  private async request<T>(
+    call: () => Promise<T>,
+    errorMessage: string,
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw this.toRuntimeError(error, errorMessage);
+    }
+  }
+
+  /**
+   * Reads the newline-delimited JSON progress stream returned by the image pull endpoint.
+   * Docker reports pull failures inside the stream with a 200 status, so each line is checked.
+   */
+  private consumeProgressStream(
+    stream: Readable,
+    image: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+      let failure: string | null = null;
+      stream.setEncoding('utf8');
+      stream.on('data', (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          try {
+            const event = JSON.parse(line) as {
+              error?: string;
+              status?: string;
+            };
+            if (event.error) {
+              failure = event.error;
+            } else if (event.status) {
+              this.logger.debug(`Pull ${image}: ${event.status}`);
+            }
+          } catch {
+            // Ignore partial or non-JSON lines; the final status is all we care about.
+          }
+        }
+      });
+      stream.on('error', reject);
+      stream.on('end', () => {
+        if (failure) {
+          reject(new ContainerRuntimeError(failure));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private toRuntimeError(
+    error: unknown,
+    message: string,
+  ): ContainerRuntimeError {
+    if (error instanceof ContainerRuntimeError) {
+      return new ContainerRuntimeError(
+        `${message}: ${error.message}`,
+        error.statusCode,
+      );
+    }
+    if (isAxiosError<{ message?: string }>(error)) {
+      const status = error.response?.status;
+      const detail =
+        (error.response?.data && typeof error.response.data === 'object'
+          ? error.response.data.message
+          : undefined) ?? error.message;
+      if (status === 404) {
+        return new ContainerNotFoundError(`${message}: ${detail}`);
+      }
+      return new ContainerRuntimeError(`${message}: ${detail}`, status);
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    return new ContainerRuntimeError(`${message}: ${detail}`);
+  }
+}
@@ -0,0 +1,245 @@
+import { randomBytes } from 'crypto';
+import { PassThrough, Readable } from 'stream';
+import {
+  ContainerLogLine,
+  ContainerLogOptions,
+  ContainerNotFoundError,
+  ContainerRuntime,
+  ContainerRuntimeError,
+  ContainerSpec,
+  ContainerState,
+  ContainerStats,
+  ContainerSummary,
+} from './container-runtime';
+
+export interface InMemoryContainer {
+  id: string;
+  spec: ContainerSpec;
+  state: ContainerState;
+  stats: ContainerStats;
+  logs: ContainerLogLine[];
+}
+
+/**
+ * A fake {@link ContainerRuntime} that keeps containers in memory.
+ * Used by unit tests to exercise lifecycle logic without a Docker daemon.
+ */
+export class InMemoryContainerRuntime implements ContainerRuntime {
+  readonly containers = new Map<string, InMemoryContainer>();
+  readonly images = new Set<string>();
+  readonly pulledImages: string[] = [];
+  /** Set to false to simulate a daemon that cannot be reached. */
+  reachable = true;
+  private readonly logFollowers = new Map<string, Set<PassThrough>>();
+
+  ping(): Promise<void> {
+    return this.run(() => {
+      if (!this.reachable) {
+        throw new ContainerRuntimeError('Cannot connect to the Docker daemon');
+      }
+    });
+  }
+
+  imageExists(image: string): Promise<boolean> {
+    return this.run(() => this.images.has(image));
+  }
+
+  pullImage(image: string): Promise<void> {
+    return this.run(() => {
+      this.pulledImages.push(image);
+      this.images.add(image);
+    });
+  }
+
+  createContainer(spec: ContainerSpec): Promise<string> {
+    return this.run(() => this.create(spec));
+  }
+
+  startContainer(id: string): Promise<void> {
+    return this.run(() => {
+      const container = this.get(id);
+      container.state = {
+        ...container.state,
+        status: 'running',
+        running: true,
+        startedAt: new Date(),
+        finishedAt: null,
+      };
+    });
+  }
+
+  stopContainer(id: string): Promise<void> {
+    return this.run(() => {
+      const container = this.get(id);
+      container.state = {
+        ...container.state,
+        status: 'exited',
+        running: false,
+        exitCode: 0,
+        finishedAt: new Date(),
+      };
+      this.endLogFollowers(id);
+    });
+  }
+
+  removeContainer(
+    id: string,
+    options: { force?: boolean } = {},
+  ): Promise<void> {
+    return this.run(() => {
+      const container = this.get(id);
+      if (container.state.running && !options.force) {
+        throw new ContainerRuntimeError(
+          `You cannot remove a running container ${id}`,
+          409,
+        );
+      }
+      this.containers.delete(id);
+      this.endLogFollowers(id);
+    });
+  }
+
+  inspectContainer(id: string): Promise<ContainerState> {
+    return this.run(() => ({ ...this.get(id).state }));
+  }
+
+  listContainers(namePrefix: string): Promise<ContainerSummary[]> {
+    return this.run(() =>
+      [...this.containers.values()]
+        .filter((container) => container.spec.name.startsWith(namePrefix))
+        .map((container) => ({
+          id: container.id,
+          name: container.spec.name,
+          status: container.state.status,
+          ports: container.spec.ports ?? [],
+        })),
+    );
+  }
+
+  getContainerStats(id: string): Promise<ContainerStats> {
+    return this.run(() => ({ ...this.get(id).stats }));
+  }
+
+  streamContainerLogs(
+    id: string,
+    options: ContainerLogOptions = {},
+  ): Promise<Readable> {
+    return this.run(() => {
+      const container = this.get(id);
+      const since = options.since?.toISOString();
+      const lines = container.logs.filter(
+        (line) => !since || (line.timestamp ?? '') >= since,
+      );
+      const stream = new PassThrough({ objectMode: true });
+      for (const line of lines.slice(
+        Math.max(lines.length - (options.tail ?? lines.length), 0),
+      )) {
+        stream.write(line);
+      }
+      if (options.follow && container.state.running) {
+        const followers = this.logFollowers.get(id) ?? new Set();
+        followers.add(stream);
+        this.logFollowers.set(id, followers);
+        stream.on('close', () => followers.delete(stream));
+      } else {
+        stream.end();
+      }
+      return stream;
+    });
+  }
+
+  /**
+   * Simulates the container writing a line to its log.
+   */
+  writeLog(
+    id: string,
+    message: string,
+    stream: ContainerLogLine['stream'] = 'stdout',
+  ): void {
+    const line = { stream, timestamp: new Date().toISOString(), message };
+    this.get(id).logs.push(line);
+    for (const follower of this.logFollowers.get(id) ?? []) {
+      follower.write(line);
+    }
+  }
+
+  /**
+   * Simulates a container dying outside of FIM's control (crash, `docker kill`, ...).
+   */
+  crash(id: string, exitCode = 1): void {
+    const container = this.get(id);
+    container.state = {
+      ...container.state,
+      status: 'exited',
+      running: false,
+      exitCode,
+      finishedAt: new Date(),
+    };
+    this.endLogFollowers(id);
+  }
+
+  private create(spec: ContainerSpec): string {
+    if (!this.images.has(spec.image)) {
+      throw new ContainerNotFoundError(`No such image: ${spec.image}`);
+    }
+    for (const container of this.containers.values()) {
+      if (container.spec.name === spec.name) {
+        throw new ContainerRuntimeError(
+          `Conflict. The container name "/${spec.name}" is already in use`,
+          409,
+        );
+      }
+    }
+    const id = randomBytes(32).toString('hex');
+    this.containers.set(id, {
+      id,
+      spec,
+      state: {
+        id,
+        name: spec.name,
+        image: spec.image,
+        binds: spec.binds ?? [],
+        status: 'created',
+        running: false,
+        exitCode: null,
+        startedAt: null,
+        finishedAt: null,
+      },
+      stats: {
+        cpuSeconds: 0,
+        memoryUsageBytes: 0,
+        memoryLimitBytes: (spec.memoryLimitMb ?? 1024) * 1024 * 1024,
+        networkReceivedBytes: 0,
+        networkTransmittedBytes: 0,
+      },
+      logs: [],
+    });
+    return id;
+  }
+
+  private endLogFollowers(id: string): void {
+    for (const follower of this.logFollowers.get(id) ?? []) {
+      follower.end();
+    }
+    this.logFollowers.delete(id);
+  }
+
+  /**
+   * Settles like a real async call, so errors surface as rejections rather than throws.
+   */
+  private run<T>(operation: () => T): Promise<T> {
+    try {
+      return Promise.resolve(operation());
+    } catch (error) {
+      return Promise.reject(error as Error);
+    }
+  }
+
+  private get(id: string): InMemoryContainer {
+    const container = this.containers.get(id);
+    if (!container) {
+      throw new ContainerNotFoundError(`No such container: ${id}`);
+    }
+    return container;
+  }
+}
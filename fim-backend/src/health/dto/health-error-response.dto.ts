@@ -1,17 +1,16 @@
-import { ApiProperty } from '@nestjs/swagger';
-
-class HealthIndicatorResultDto {
-  @ApiProperty({ example: 'up', description: 'Status of the health indicator' })
-  status: string;
-}
-
-class DatabaseHealthDto extends HealthIndicatorResultDto {}
-class FoundryHealthDto extends HealthIndicatorResultDto {}
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { DatabaseHealthDto, DiskHealthDto, DockerHealthDto, FoundryHealthDto } from './health-info-response.dto';
 
 export class HealthErrorResponseDto {
-  @ApiProperty({ type: () => DatabaseHealthDto, description: 'Database health status', nullable: true })
+  @ApiPropertyOptional({ type: () => DatabaseHealthDto, description: 'Database health status', nullable: true })
   database?: DatabaseHealthDto;
 
-  @ApiProperty({ type: () => FoundryHealthDto, description: 'Foundry VTT health status', nullable: true })
+  @ApiPropertyOptional({ type: () => DockerHealthDto, description: 'Docker daemon health status', nullable: true })
+  docker?: DockerHealthDto;
+
+  @ApiPropertyOptional({ type: () => DiskHealthDto, description: 'Disk space of the Foundry instance data', nullable: true })
+  disk?: DiskHealthDto;
+
+  @ApiPropertyOptional({ type: () => FoundryHealthDto, description: 'Foundry VTT health status, aggregated over the running instances', nullable: true })
   foundry?: FoundryHealthDto;
 }
\ No newline at end of file
@@ -1,17 +1,57 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
-class HealthIndicatorResultDto {
+export class HealthIndicatorResultDto {
   @ApiProperty({ example: 'up', description: 'Status of the health indicator' })
   status: string;
+
+  @ApiPropertyOptional({ example: 'Docker daemon unreachable', description: 'Why the indicator is down' })
+  message?: string;
+}
+
+export class DatabaseHealthDto extends HealthIndicatorResultDto {}
+export class DockerHealthDto extends HealthIndicatorResultDto {}
+
+export class DiskHealthDto extends HealthIndicatorResultDto {
+  @ApiProperty({ example: '/app/foundry-data-root', description: 'Directory holding the Foundry instance data' })
+  path: string;
+
+  @ApiPropertyOptional({ example: 53687091200, description: 'Bytes available on its volume' })
+  freeBytes?: number;
+
+  @ApiPropertyOptional({ example: 268435456000, description: 'Size of its volume in bytes' })
+  totalBytes?: number;
+
+  @ApiPropertyOptional({ example: 20, description: 'Share of the volume available, in percent' })
+  freePercent?: number;
 }
 
-class DatabaseHealthDto extends HealthIndicatorResultDto {}
-class FoundryHealthDto extends HealthIndicatorResultDto {}
+export class FoundryHealthDto extends HealthIndicatorResultDto {
+  @ApiPropertyOptional({ example: '2026-10-19T12:00:00.000Z', description: 'When the health monitor last checked the running instances' })
+  checkedAt?: string;
+
+  @ApiPropertyOptional({ example: 3, description: 'Number of running instances' })
+  running?: number;
+
+  @ApiPropertyOptional({ example: 2, description: 'Number of running instances serving a world' })
+  healthy?: number;
+
+  @ApiPropertyOptional({ example: ['between-arcs'], description: 'Names of the running instances answering without a world, e.g. from the setup screen', type: [String] })
+  degraded?: string[];
+
+  @ApiPropertyOptional({ example: ['curse-of-strahd'], description: 'Names of the running instances not answering', type: [String] })
+  unhealthy?: string[];
+}
 
 export class HealthInfoResponseDto {
-  @ApiProperty({ type: () => DatabaseHealthDto, description: 'Database health status' })
-  database: DatabaseHealthDto;
+  @ApiPropertyOptional({ type: () => DatabaseHealthDto, description: 'Database health status' })
+  database?: DatabaseHealthDto;
+
+  @ApiPropertyOptional({ type: () => DockerHealthDto, description: 'Docker daemon health status' })
+  docker?: DockerHealthDto;
+
+  @ApiPropertyOptional({ type: () => DiskHealthDto, description: 'Disk space of the Foundry instance data' })
+  disk?: DiskHealthDto;
 
-  @ApiProperty({ type: () => FoundryHealthDto, description: 'Foundry VTT health status' })
-  foundry: FoundryHealthDto;
+  @ApiPropertyOptional({ type: () => FoundryHealthDto, description: 'Foundry VTT health status, aggregated over the running instances' })
+  foundry?: FoundryHealthDto;
 }
\ No newline at end of file
@@ -0,0 +1,6 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class HealthProbeResponseDto {
+  @ApiProperty({ example: 'ok', enum: ['ok', 'error'], description: 'Whether the probe passed; the details are only reported to admins by GET /health' })
+  status: 'ok' | 'error';
+}
\ No newline at end of file
@@ -1,12 +1,19 @@
-import { Controller, Get, HttpStatus } from '@nestjs/common';
+import { Controller, Get, HttpStatus, ServiceUnavailableException, UseGuards } from '@nestjs/common';
+import { HealthCheckResult } from '@nestjs/terminus';
+import { Role } from '@prisma/client';
 import { HealthService } from './health.service';
-import { ApiResponse, ApiTags, ApiOperation } from '@nestjs/swagger'; // Import ApiOperation
+import { ApiBearerAuth, ApiResponse, ApiTags, ApiOperation } from '@nestjs/swagger'; // Import ApiOperation
 import { LoggerService } from '../common/logger/logger.service'; // Import LoggerService
 import { HealthResponseDto } from './dto/health-response.dto'; // Import HealthResponseDto
+import { HealthProbeResponseDto } from './dto/health-probe-response.dto';
 import { SkipThrottle } from '@nestjs/throttler';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
 
 @ApiTags('health')
 @Controller('health')
+@SkipThrottle()
 export class HealthController {
   constructor(
     private readonly healthService: HealthService,
@@ -16,11 +23,40 @@ export class HealthController {
   }
 
   @Get()
-  @SkipThrottle()
-  @ApiOperation({ summary: 'Get application health status' })
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get application health status (Admin only)', description: 'Every component, including the running Foundry instances as of the latest health monitor round. Always answers 200; check `status`.' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Application health status', type: HealthResponseDto })
-  async getHealth(): Promise<HealthResponseDto> {
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Unauthorized.' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden.' })
+  async getHealth(): Promise<HealthCheckResult> {
     this.logger.log('getHealth method hit');
     return this.healthService.getOverallHealth();
   }
+
+  @Get('live')
+  @ApiOperation({ summary: 'Liveness probe', description: 'Answers 200 while the process is serving requests; dependencies are not checked.' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'The API is alive', type: HealthProbeResponseDto })
+  async getLiveness(): Promise<HealthProbeResponseDto> {
+    const { status } = await this.healthService.getLiveness();
+    return { status: status === 'ok' ? 'ok' : 'error' };
+  }
+
+  @Get('ready')
+  @ApiOperation({ summary: 'Readiness probe', description: 'Checks the database, the Docker daemon and the disk space of the instance data. Only the outcome is reported; see GET /health for the details.' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'The API is ready to serve requests', type: HealthProbeResponseDto })
+  @ApiResponse({ status: HttpStatus.SERVICE_UNAVAILABLE, description: 'A dependency is down', type: HealthProbeResponseDto })
+  async getReadiness(): Promise<HealthProbeResponseDto> {
+    try {
+      await this.healthService.getReadiness();
+      return { status: 'ok' };
+    } catch (error) {
+      // The probe is public, so which dependency failed and why stays in the log
+      if (error instanceof ServiceUnavailableException) {
+        throw new ServiceUnavailableException({ status: 'error' });
+      }
+      throw error;
+    }
+  }
 }
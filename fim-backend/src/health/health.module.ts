@@ -4,9 +4,10 @@ import { HealthController } from './health.controller';
 import { HealthService } from './health.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { LoggerModule } from '../common/logger/logger.module'; // Import LoggerModule
+import { FoundryModule } from '../foundry/foundry.module';
 
 @Module({
-  imports: [TerminusModule, PrismaModule, LoggerModule], // Add LoggerModule
+  imports: [TerminusModule, PrismaModule, LoggerModule, FoundryModule], // Add LoggerModule
   controllers: [HealthController],
   providers: [HealthService],
 })
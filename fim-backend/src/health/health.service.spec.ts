@@ -0,0 +1,144 @@
+import { Test } from '@nestjs/testing';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TerminusModule } from '@nestjs/terminus';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HealthService } from './health.service';
+import { LoggerService } from '../common/logger/logger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FoundryService } from '../foundry/foundry.service';
+import {
+  FoundryHealthMonitor,
+  FoundryHealthRound,
+} from '../foundry/foundry-health.monitor';
+import { CONTAINER_RUNTIME } from '../foundry/runtime/container-runtime';
+import { InMemoryContainerRuntime } from '../foundry/runtime/in-memory.runtime';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  let runtime: InMemoryContainerRuntime;
+  let config: Record<string, string>;
+  let prisma: { $queryRaw: jest.Mock };
+  let foundryService: { resolveDataRoot: jest.Mock };
+  let monitor: { latestRound: FoundryHealthRound | null };
+
+  beforeEach(async () => {
+    runtime = new InMemoryContainerRuntime();
+    config = {};
+    prisma = { $queryRaw: jest.fn().mockResolvedValue([{ '?column?': 1 }]) };
+    foundryService = {
+      // Not created yet, so the volume it will be on is checked
+      resolveDataRoot: jest.fn(() => ({
+        hostPath: '/var/lib/foundryvtt/data',
+        localPath: join(tmpdir(), 'fim-health-spec', 'data'),
+      })),
+    };
+    monitor = { latestRound: null };
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const module = await Test.createTestingModule({
+      imports: [TerminusModule],
+      providers: [
+        HealthService,
+        LoggerService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: FoundryService, useValue: foundryService },
+        { provide: FoundryHealthMonitor, useValue: monitor },
+        { provide: CONTAINER_RUNTIME, useValue: runtime },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get(HealthService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is ready while the database, Docker and the disk are fine', async () => {
+    const result = await service.getReadiness();
+
+    expect(result.status).toBe('ok');
+    expect(Object.keys(result.details)).toEqual(['database', 'docker', 'disk']);
+    expect(result.details.disk.status).toBe('up');
+    expect(typeof result.details.disk.freePercent).toBe('number');
+  });
+
+  it('is not ready when the Docker daemon cannot be reached', async () => {
+    runtime.reachable = false;
+
+    const error = await service.getReadiness().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ServiceUnavailableException);
+    expect((error as ServiceUnavailableException).getResponse()).toEqual(
+      expect.objectContaining({
+        status: 'error',
+        error: {
+          docker: { status: 'down', message: 'Docker daemon unreachable' },
+        },
+      }),
+    );
+  });
+
+  it('reports the disk as down below the configured free space', async () => {
+    config.FIM_DISK_MIN_FREE_PERCENT = '101';
+
+    const result = await service.checkDiskHealth();
+
+    expect(result.disk.status).toBe('down');
+  });
+
+  it('stays live whatever its dependencies do', async () => {
+    runtime.reachable = false;
+    prisma.$queryRaw.mockRejectedValue(new Error('connection refused'));
+
+    await expect(service.getLiveness()).resolves.toEqual(
+      expect.objectContaining({ status: 'ok' }),
+    );
+  });
+
+  it('aggregates the latest monitor round into the overall status', async () => {
+    monitor.latestRound = {
+      checkedAt: new Date('2026-10-19T12:00:00.000Z'),
+      results: [
+        { instance: { name: 'one-shot' }, report: { healthStatus: 'healthy' } },
+        {
+          instance: { name: 'between-arcs' },
+          report: { healthStatus: 'degraded' },
+        },
+        {
+          instance: { name: 'curse-of-strahd' },
+          report: { healthStatus: 'unhealthy' },
+        },
+      ],
+    } as unknown as FoundryHealthRound;
+
+    const result = await service.getOverallHealth();
+
+    expect(result.status).toBe('error');
+    expect(result.error).toEqual({
+      foundry: {
+        status: 'down',
+        checkedAt: '2026-10-19T12:00:00.000Z',
+        running: 3,
+        healthy: 1,
+        degraded: ['between-arcs'],
+        unhealthy: ['curse-of-strahd'],
+        message: '1 running instance(s) not responding',
+      },
+    });
+    expect(result.info?.database).toEqual({ status: 'up' });
+  });
+
+  it('reports the instances as unchecked until the monitor has run', () => {
+    expect(service.checkFoundryHealth()).toEqual({
+      foundry: { status: 'up', message: 'Instances have not been checked yet' },
+    });
+  });
+});
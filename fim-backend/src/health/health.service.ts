@@ -1,62 +1,140 @@
-import { Injectable, InternalServerErrorException } from '@nestjs/common';
-import { HealthCheckService, HealthIndicatorFunction, HealthIndicatorResult } from '@nestjs/terminus';
+import { Inject, Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HealthCheckResult, HealthCheckService, HealthIndicatorResult, HealthIndicatorService } from '@nestjs/terminus';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../common/logger/logger.service'; // Import LoggerService
-import { HealthResponseDto } from './dto/health-response.dto'; // Import HealthResponseDto
+import { FoundryService } from '../foundry/foundry.service';
+import { FoundryHealthMonitor } from '../foundry/foundry-health.monitor';
+import { CONTAINER_RUNTIME, ContainerRuntime } from '../foundry/runtime/container-runtime';
+import { InstanceHealthStatus } from '../foundry/interfaces/foundry-event.interface';
+
+const DEFAULT_DISK_MIN_FREE_PERCENT = 10;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
 
 @Injectable()
 export class HealthService {
   constructor(
     private health: HealthCheckService,
+    private healthIndicator: HealthIndicatorService,
     private prisma: PrismaService,
+    private foundryService: FoundryService,
+    private readonly foundryHealthMonitor: FoundryHealthMonitor,
+    @Inject(CONTAINER_RUNTIME) private readonly runtime: ContainerRuntime,
+    private readonly configService: ConfigService,
     private readonly logger: LoggerService, // Inject LoggerService
   ) {
     this.logger.setContext(HealthService.name); // Set context for logger
   }
 
-  async checkDatabaseHealth() {
+  async checkDatabaseHealth(): Promise<HealthIndicatorResult<'database'>> {
+    const indicator = this.healthIndicator.check('database');
     try {
       await this.prisma.$queryRaw`SELECT 1`;
-      return { status: 'up' };
+      return indicator.up();
     } catch (error) {
       this.logger.error('Database health check failed:', error);
-      throw new InternalServerErrorException('Database connection failed');
+      return indicator.down({ message: 'Database connection failed' });
+    }
+  }
+
+  /**
+   * Checks that the Docker daemon running the Foundry containers can be reached.
+   */
+  async checkDockerHealth(): Promise<HealthIndicatorResult<'docker'>> {
+    const indicator = this.healthIndicator.check('docker');
+    try {
+      await this.runtime.ping();
+      return indicator.up();
+    } catch (error) {
+      this.logger.error(`Docker health check failed: ${errorMessage(error)}`);
+      return indicator.down({ message: 'Docker daemon unreachable' });
+    }
+  }
+
+  /**
+   * Checks the free space of the volume holding the instance data (`FIM_FOUNDRY_DATA_ROOT`).
+   * It is down once less than `FIM_DISK_MIN_FREE_PERCENT` percent (10 by default) is left.
+   */
+  async checkDiskHealth(): Promise<HealthIndicatorResult<'disk'>> {
+    const indicator = this.healthIndicator.check('disk');
+    const { localPath } = this.foundryService.resolveDataRoot();
+    const minFreePercent = Number(this.configService.get('FIM_DISK_MIN_FREE_PERCENT') ?? DEFAULT_DISK_MIN_FREE_PERCENT);
+    // The data root only exists once an instance was created; until then the volume it will be on is checked
+    let checkedPath = localPath;
+    for (;;) {
+      try {
+        const stats = await fs.statfs(checkedPath);
+        const totalBytes = stats.blocks * stats.bsize;
+        const freeBytes = stats.bavail * stats.bsize;
+        const freePercent = totalBytes > 0 ? Math.round((freeBytes / totalBytes) * 1000) / 10 : 0;
+        const data = { path: localPath, freeBytes, totalBytes, freePercent };
+        return freePercent >= minFreePercent ? indicator.up(data) : indicator.down({ ...data, message: `Less than ${minFreePercent}% disk space left` });
+      } catch (error) {
+        const parent = path.dirname(checkedPath);
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === checkedPath) {
+          this.logger.error(`Disk health check failed for ${localPath}: ${errorMessage(error)}`);
+          return indicator.down({ path: localPath, message: 'Disk space could not be determined' });
+        }
+        checkedPath = parent;
+      }
     }
   }
 
-  isFoundryHealthy(): HealthIndicatorFunction {
-    return async () => {
-      // For now, we'll mock the Foundry health check to always return 'up'.
-      // In a real scenario, you would implement actual logic to check the Foundry container's status.
-      return { foundry: { status: 'up' } };
-    };
-  }
-
-  async getOverallHealth(): Promise<HealthResponseDto> {
-    const databaseHealth = await this.checkDatabaseHealth();
-    const foundryHealth = await this.isFoundryHealthy()(); // Execute the health indicator function
-
-    const overallStatus = databaseHealth.status === 'up' && foundryHealth.foundry.status === 'up' ? 'ok' : 'error';
-
-    const response: HealthResponseDto = {
-      status: overallStatus,
-      info: {
-        database: { status: databaseHealth.status },
-        foundry: { status: foundryHealth.foundry.status },
-      },
-      details: {
-        database: { status: databaseHealth.status },
-        foundry: { status: foundryHealth.foundry.status },
-      },
-    };
-
-    if (overallStatus === 'error') {
-      response.error = {
-        database: databaseHealth.status === 'up' ? undefined : { status: databaseHealth.status },
-        foundry: foundryHealth.foundry.status === 'up' ? undefined : { status: foundryHealth.foundry.status },
-      };
+  /**
+   * Aggregates the health of the running Foundry instances as of the health monitor's latest round, so asking
+   * does not probe every instance again; down while any of them did not respond.
+   * Instances answering without a world (setup or license screen) are listed as degraded.
+   */
+  checkFoundryHealth(): HealthIndicatorResult<'foundry'> {
+    const indicator = this.healthIndicator.check('foundry');
+    const round = this.foundryHealthMonitor.latestRound;
+    if (!round) {
+      return indicator.up({ message: 'Instances have not been checked yet' });
     }
+    const { checkedAt, results } = round;
+    const named = (status: InstanceHealthStatus) => results.filter(({ report }) => report.healthStatus === status).map(({ instance }) => instance.name);
+    const unhealthy = named('unhealthy');
+    const data = { checkedAt: checkedAt.toISOString(), running: results.length, healthy: named('healthy').length, degraded: named('degraded'), unhealthy };
+    return unhealthy.length === 0 ? indicator.up(data) : indicator.down({ ...data, message: `${unhealthy.length} running instance(s) not responding` });
+  }
 
-    return response;
+  /**
+   * Liveness: the process is up and serving requests. Dependencies are deliberately not checked,
+   * so an outage elsewhere does not get the API restarted.
+   */
+  async getLiveness(): Promise<HealthCheckResult> {
+    return this.health.check([]);
+  }
+
+  /**
+   * Readiness: everything the API needs to serve requests is available.
+   * Individual game instances are left out; one of them failing does not make the API unusable.
+   * @throws ServiceUnavailableException with the result if anything is down.
+   */
+  async getReadiness(): Promise<HealthCheckResult> {
+    return this.health.check([() => this.checkDatabaseHealth(), () => this.checkDockerHealth(), () => this.checkDiskHealth()]);
+  }
+
+  /**
+   * Every component, including the Foundry instances, for the admin dashboard.
+   * Reported with the overall status rather than as an error, whatever that status is.
+   */
+  async getOverallHealth(): Promise<HealthCheckResult> {
+    try {
+      return await this.health.check([
+        () => this.checkDatabaseHealth(),
+        () => this.checkDockerHealth(),
+        () => this.checkDiskHealth(),
+        () => this.checkFoundryHealth(),
+      ]);
+    } catch (error) {
+      if (error instanceof ServiceUnavailableException) {
+        return error.getResponse() as HealthCheckResult;
+      }
+      throw error;
+    }
   }
 }
@@ -0,0 +1,34 @@
+import { IsArray, IsBoolean, IsEmail, IsEnum, IsInt, IsOptional, IsString, ArrayMaxSize, Min, Max } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+
+export class CreateInviteDto {
+  @ApiProperty({ example: 'sam@example.com', description: 'Restricts the invitation to this email address; required to send it by email', required: false })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiProperty({ enum: Role, example: Role.PLAYER, description: 'The role of the account created with the invitation', required: false, default: Role.PLAYER })
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+
+  @ApiProperty({ example: ['clx0f1o2u3n4d5r6y7'], description: 'The IDs of the Foundry VTT instances the new user joins as a member', type: [String], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  instanceIds?: string[];
+
+  @ApiProperty({ example: 7, description: 'How many days the invitation can be used; it never expires if omitted', required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expiresInDays?: number;
+
+  @ApiProperty({ example: true, description: 'Whether to email the invitation link to the given address', required: false, default: false })
+  @IsOptional()
+  @IsBoolean()
+  sendEmail?: boolean;
+}
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+
+export type InviteStatus = 'pending' | 'used' | 'expired';
+
+export class InviteInstanceDto {
+  @ApiProperty({ example: 'clx0f1o2u3n4d5r6y7', description: 'The ID of the Foundry VTT instance' })
+  id: string;
+
+  @ApiProperty({ example: 'curse-of-strahd', description: 'The name of the Foundry VTT instance' })
+  name: string;
+}
+
+export class InviteResponseDto {
+  @ApiProperty({ example: 'clx0i1n2v3i4t5e6', description: 'The unique identifier of the invitation' })
+  id: string;
+
+  @ApiProperty({ example: 'sam@example.com', description: 'The only email address that can use the invitation', nullable: true })
+  email: string | null;
+
+  @ApiProperty({ enum: Role, example: Role.PLAYER, description: 'The role of the account created with the invitation' })
+  role: Role;
+
+  @ApiProperty({ type: [InviteInstanceDto], description: 'The Foundry VTT instances the new user joins' })
+  instances: InviteInstanceDto[];
+
+  @ApiProperty({ example: 'Admin User', description: 'The name of the user who created the invitation', nullable: true })
+  createdBy: string | null;
+
+  @ApiProperty({ example: 'sam@example.com', description: 'The email of the account created with the invitation', nullable: true })
+  usedBy: string | null;
+
+  @ApiProperty({ enum: ['pending', 'used', 'expired'], example: 'pending', description: 'Whether the invitation can still be used' })
+  status: InviteStatus;
+
+  @ApiProperty({ example: '2026-10-26T12:00:00.000Z', description: 'When the invitation expires', nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ example: null, description: 'When the invitation was used', nullable: true })
+  usedAt: Date | null;
+
+  @ApiProperty({ example: '2026-10-19T12:00:00.000Z', description: 'When the invitation was created' })
+  createdAt: Date;
+}
+
+// The token is only returned when the invitation is created; only its hash is stored.
+export class CreatedInviteResponseDto extends InviteResponseDto {
+  @ApiProperty({ example: 'q3XbZ8m1...', description: 'The single-use invitation code' })
+  token: string;
+
+  @ApiProperty({ example: 'https://fim.example.com/register?invite=q3XbZ8m1...', description: 'The registration link for the invitation' })
+  url: string;
+
+  @ApiProperty({ example: true, description: 'Whether the invitation was emailed' })
+  emailSent: boolean;
+}
+
+export class InvitePreviewDto {
+  @ApiProperty({ example: 'sam@example.com', description: 'The only email address that can use the invitation', nullable: true })
+  email: string | null;
+
+  @ApiProperty({ enum: Role, example: Role.PLAYER, description: 'The role of the account created with the invitation' })
+  role: Role;
+
+  @ApiProperty({ example: ['curse-of-strahd'], description: 'The names of the Foundry VTT instances the new user joins', type: [String] })
+  instanceNames: string[];
+
+  @ApiProperty({ example: '2026-10-26T12:00:00.000Z', description: 'When the invitation expires', nullable: true })
+  expiresAt: Date | null;
+}
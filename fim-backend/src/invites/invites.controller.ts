@@ -0,0 +1,47 @@
+import { Controller, Get, Post, Delete, Body, Param, UseGuards, Req, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse, ApiOperation } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { InvitesService } from './invites.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { CreateInviteDto } from './dto/create-invite.dto';
+import { CreatedInviteResponseDto, InviteResponseDto } from './dto/invite-response.dto';
+import { Audit } from '../audit/decorators/audit.decorator';
+
+@ApiTags('invites')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.ADMIN)
+@Controller('invites')
+export class InvitesController {
+  constructor(private readonly invitesService: InvitesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all invitations (Admin only)' })
+  @ApiResponse({ status: 200, description: 'List of invitations, newest first.', type: [InviteResponseDto] })
+  findAll(): Promise<InviteResponseDto[]> {
+    return this.invitesService.findAll();
+  }
+
+  @Post()
+  @Audit('invite.create', { target: 'invite', responseKey: 'id', recordBody: true })
+  @ApiOperation({ summary: 'Create a single-use invitation to register (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Invitation created. The code and link are only returned once.', type: CreatedInviteResponseDto })
+  @ApiResponse({ status: 400, description: 'Bad Request: The invitation should be emailed but has no email address.' })
+  @ApiResponse({ status: 404, description: 'A Foundry VTT instance was not found.' })
+  create(@Body() createInviteDto: CreateInviteDto, @Req() req: AuthenticatedRequest): Promise<CreatedInviteResponseDto> {
+    return this.invitesService.create(createInviteDto, req.user.userId);
+  }
+
+  @Delete(':id')
+  @Audit('invite.delete', { target: 'invite' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an invitation so it can no longer be used (Admin only)' })
+  @ApiResponse({ status: 204, description: 'Invitation deleted.' })
+  @ApiResponse({ status: 404, description: 'Invitation not found.' })
+  remove(@Param('id') id: string): Promise<void> {
+    return this.invitesService.remove(id);
+  }
+}
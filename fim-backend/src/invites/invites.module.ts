@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InvitesService } from './invites.service';
+import { InvitesController } from './invites.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LoggerModule } from '../common/logger/logger.module';
+import { MailModule } from '../mail/mail.module';
+
+@Module({
+  imports: [PrismaModule, LoggerModule, MailModule],
+  providers: [InvitesService],
+  controllers: [InvitesController],
+  exports: [InvitesService],
+})
+export class InvitesModule {}
@@ -0,0 +1,229 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role } from '@prisma/client';
+import { LoggerService } from '../common/logger/logger.service';
+import { MailService } from '../mail/mail.service';
+import { InMemoryMailTransport } from '../mail/transports/in-memory.transport';
+import { PrismaService } from '../prisma/prisma.service';
+import { InvitesService } from './invites.service';
+
+interface StoredInvite {
+  id: string;
+  tokenHash: string;
+  email: string | null;
+  role: Role;
+  createdById: number | null;
+  usedById: number | null;
+  expiresAt: Date | null;
+  usedAt: Date | null;
+  createdAt: Date;
+  instanceIds: string[];
+}
+
+describe('InvitesService', () => {
+  let service: InvitesService;
+  let transport: InMemoryMailTransport;
+  let invites: StoredInvite[];
+  let members: { instanceId: string; userId: number; invitedById: number }[];
+  let createdUsers: { id: number; email: string; role: Role }[];
+
+  const instanceNames: Record<string, string> = {
+    'instance-1': 'curse-of-strahd',
+    'instance-2': 'one-shot',
+  };
+  const withRelations = (invite: StoredInvite) => ({
+    ...invite,
+    instances: invite.instanceIds.map((id) => ({
+      instance: { id, name: instanceNames[id] },
+    })),
+    createdBy: { firstName: 'Ada', lastName: 'Admin' },
+    usedBy: null,
+  });
+
+  beforeEach(() => {
+    invites = [];
+    members = [];
+    createdUsers = [];
+    transport = new InMemoryMailTransport();
+    const prisma = {
+      invite: {
+        create: jest.fn(
+          ({
+            data,
+          }: {
+            data: Omit<StoredInvite, 'id' | 'instanceIds'> & {
+              instances: { create: { instanceId: string }[] };
+            };
+          }) => {
+            const { instances, ...fields } = data;
+            const invite: StoredInvite = {
+              ...fields,
+              id: `invite-${invites.length + 1}`,
+              email: fields.email ?? null,
+              role: fields.role ?? Role.PLAYER,
+              usedById: null,
+              usedAt: null,
+              createdAt: new Date(),
+              instanceIds: instances.create.map((i) => i.instanceId),
+            };
+            invites.push(invite);
+            return Promise.resolve(withRelations(invite));
+          },
+        ),
+        findUnique: jest.fn(({ where }: { where: { tokenHash: string } }) => {
+          const invite = invites.find((i) => i.tokenHash === where.tokenHash);
+          return Promise.resolve(invite ? withRelations(invite) : null);
+        }),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string; usedAt: null };
+            data: { usedAt: Date };
+          }) => {
+            const matched = invites.filter(
+              (i) => i.id === where.id && i.usedAt === null,
+            );
+            matched.forEach((i) => (i.usedAt = data.usedAt));
+            return Promise.resolve({ count: matched.length });
+          },
+        ),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string };
+            data: { usedById: number };
+          }) => {
+            const invite = invites.find((i) => i.id === where.id)!;
+            invite.usedById = data.usedById;
+            return Promise.resolve(invite);
+          },
+        ),
+      },
+      foundryInstance: {
+        findMany: jest.fn(({ where }: { where: { id: { in: string[] } } }) =>
+          Promise.resolve(
+            Object.keys(instanceNames)
+              .filter((id) => where.id.in.includes(id))
+              .map((id) => ({ id })),
+          ),
+        ),
+      },
+      user: {
+        create: jest.fn(({ data }: { data: { email: string; role: Role } }) => {
+          const user = { id: 10 + createdUsers.length, ...data };
+          createdUsers.push(user);
+          return Promise.resolve(user);
+        }),
+      },
+      foundryInstanceMember: {
+        createMany: jest.fn(({ data }: { data: typeof members }) => {
+          members.push(...data);
+          return Promise.resolve({ count: data.length });
+        }),
+      },
+      $transaction: jest.fn((fn: (tx: unknown) => Promise<unknown>) =>
+        fn(prisma),
+      ),
+    };
+    const config = {
+      get: (key: string) =>
+        key === 'FRONTEND_URL' ? 'https://fim.example.com' : undefined,
+    } as unknown as ConfigService;
+    service = new InvitesService(
+      prisma as unknown as PrismaService,
+      new MailService(transport, config, new LoggerService()),
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const account = (email = 'sam@example.com') => ({
+    email,
+    password: 'Password123!',
+    firstName: 'Sam',
+    lastName: 'Gamgee',
+  });
+
+  it('returns the code once, stores only its hash and emails the link', async () => {
+    const created = await service.create(
+      { email: 'Sam@Example.com', sendEmail: true, expiresInDays: 7 },
+      1,
+    );
+
+    expect(created.url).toBe(
+      `https://fim.example.com/register?invite=${created.token}`,
+    );
+    expect(invites[0].tokenHash).not.toContain(created.token);
+    expect(created).toMatchObject({
+      email: 'sam@example.com',
+      status: 'pending',
+      emailSent: true,
+    });
+    expect(transport.sentTo('sam@example.com')[0].text).toContain(created.url);
+  });
+
+  it('rejects unknown instances', async () => {
+    await expect(
+      service.create({ instanceIds: ['instance-1', 'instance-9'] }, 1),
+    ).rejects.toThrow(
+      new NotFoundException('Foundry instances not found: instance-9'),
+    );
+  });
+
+  it('creates an account with the role and instances of the invitation', async () => {
+    const { token } = await service.create(
+      { role: Role.GM, instanceIds: ['instance-1', 'instance-2'] },
+      1,
+    );
+
+    await expect(service.preview(token)).resolves.toMatchObject({
+      role: Role.GM,
+      instanceNames: ['curse-of-strahd', 'one-shot'],
+    });
+    const user = await service.redeem(token, account());
+
+    expect(user).toMatchObject({ email: 'sam@example.com', role: Role.GM });
+    expect(members).toEqual([
+      { instanceId: 'instance-1', userId: user.id, invitedById: 1 },
+      { instanceId: 'instance-2', userId: user.id, invitedById: 1 },
+    ]);
+    expect(invites[0]).toMatchObject({ usedById: user.id });
+  });
+
+  it('can only be used once', async () => {
+    const { token } = await service.create({}, 1);
+    await service.redeem(token, account());
+
+    await expect(
+      service.redeem(token, account('other@example.com')),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.preview(token)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(createdUsers).toHaveLength(1);
+  });
+
+  it('rejects expired invitations and other email addresses', async () => {
+    const { token } = await service.create({ email: 'sam@example.com' }, 1);
+
+    await expect(
+      service.redeem(token, account('other@example.com')),
+    ).rejects.toThrow(
+      'This invitation was issued for a different email address',
+    );
+
+    invites[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(service.redeem(token, account())).rejects.toThrow(
+      'This invitation is invalid or has expired',
+    );
+    expect(createdUsers).toHaveLength(0);
+  });
+});
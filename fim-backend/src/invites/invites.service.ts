@@ -0,0 +1,269 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import * as bcrypt from 'bcryptjs';
+import * as crypto from 'crypto';
+import { LoggerService } from '../common/logger/logger.service';
+import { MailService } from '../mail/mail.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateUserDto } from '../users/dto/create-user.dto';
+import { CreateInviteDto } from './dto/create-invite.dto';
+import {
+  CreatedInviteResponseDto,
+  InvitePreviewDto,
+  InviteResponseDto,
+} from './dto/invite-response.dto';
+
+const INVITE_INCLUDE = {
+  instances: { include: { instance: { select: { id: true, name: true } } } },
+  createdBy: { select: { firstName: true, lastName: true } },
+  usedBy: { select: { email: true } },
+} satisfies Prisma.InviteInclude;
+
+type InviteWithRelations = Prisma.InviteGetPayload<{
+  include: typeof INVITE_INCLUDE;
+}>;
+
+const INVALID_INVITE_MESSAGE = 'This invitation is invalid or has expired';
+
+/**
+ * Manages single-use invitations to create an account.
+ * An invitation may be restricted to one email address and decides the role of the new account
+ * and the Foundry VTT instances it joins. Only the SHA-256 hash of an invitation code is stored.
+ */
+@Injectable()
+export class InvitesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mailService: MailService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(InvitesService.name);
+  }
+
+  /**
+   * Retrieves all invitations, newest first.
+   */
+  async findAll(): Promise<InviteResponseDto[]> {
+    const invites = await this.prisma.invite.findMany({
+      include: INVITE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+    return invites.map((invite) => this.toResponse(invite));
+  }
+
+  /**
+   * Creates an invitation and optionally emails it.
+   * @param data The data for creating the invitation.
+   * @param createdById The ID of the admin creating the invitation.
+   * @returns The invitation together with its code and registration link, which cannot be retrieved later.
+   * @throws BadRequestException if the invitation should be emailed but has no email address.
+   * @throws NotFoundException if one of the instances is not found.
+   */
+  async create(
+    data: CreateInviteDto,
+    createdById: number,
+  ): Promise<CreatedInviteResponseDto> {
+    if (data.sendEmail && !data.email) {
+      throw new BadRequestException(
+        'An email address is required to send the invitation',
+      );
+    }
+    const instanceIds = [...new Set(data.instanceIds ?? [])];
+    await this.assertInstancesExist(instanceIds);
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const invite = await this.prisma.invite.create({
+      data: {
+        tokenHash: this.hashToken(token),
+        email: data.email?.toLowerCase(),
+        role: data.role,
+        createdById,
+        expiresAt: data.expiresInDays
+          ? new Date(Date.now() + data.expiresInDays * 24 * 3600 * 1000)
+          : null,
+        instances: {
+          create: instanceIds.map((instanceId) => ({ instanceId })),
+        },
+      },
+      include: INVITE_INCLUDE,
+    });
+    this.logger.log(`Invitation ${invite.id} created by user ${createdById}`);
+
+    const url = this.mailService.frontendUrl('/register', { invite: token });
+    let emailSent = false;
+    if (data.sendEmail && invite.email) {
+      // The invitation stays usable when delivery fails; the admin can still share the link by hand
+      try {
+        await this.mailService.sendAccountInvite(
+          invite.email,
+          url,
+          this.creatorName(invite) ?? 'An administrator',
+          invite.expiresAt ?? undefined,
+        );
+        emailSent = true;
+      } catch (error) {
+        this.logger.error(
+          `Failed to email invitation ${invite.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return { ...this.toResponse(invite), token, url, emailSent };
+  }
+
+  /**
+   * Deletes an invitation, so its code can no longer be used.
+   * Accounts created with it are not affected.
+   * @param id The ID of the invitation.
+   * @throws NotFoundException if the invitation is not found.
+   */
+  async remove(id: string): Promise<void> {
+    const { count } = await this.prisma.invite.deleteMany({ where: { id } });
+    if (count === 0) {
+      throw new NotFoundException(`Invitation with ID ${id} not found`);
+    }
+    this.logger.log(`Invitation ${id} deleted`);
+  }
+
+  /**
+   * Describes what an invitation code grants, for the registration page.
+   * @param token The invitation code.
+   * @throws NotFoundException if the code is unknown, used or expired.
+   */
+  async preview(token: string): Promise<InvitePreviewDto> {
+    const invite = await this.findUsable(token);
+    if (!invite) {
+      throw new NotFoundException(INVALID_INVITE_MESSAGE);
+    }
+    return {
+      email: invite.email,
+      role: invite.role,
+      instanceNames: invite.instances.map(({ instance }) => instance.name),
+      expiresAt: invite.expiresAt,
+    };
+  }
+
+  /**
+   * Creates an account with an invitation and uses the invitation up.
+   * The account gets the invitation's role and joins its instances.
+   * @param token The invitation code.
+   * @param data The data of the new account.
+   * @returns The new user.
+   * @throws BadRequestException if the code is unknown, used or expired, or was issued for another email address.
+   */
+  async redeem(
+    token: string,
+    data: Omit<CreateUserDto, 'role'>,
+  ): Promise<User> {
+    const invite = await this.findUsable(token);
+    if (!invite) {
+      throw new BadRequestException(INVALID_INVITE_MESSAGE);
+    }
+    if (invite.email && invite.email !== data.email.toLowerCase()) {
+      throw new BadRequestException(
+        'This invitation was issued for a different email address',
+      );
+    }
+    const password = await bcrypt.hash(data.password, 10);
+
+    const user = await this.prisma.$transaction(async (prisma) => {
+      // Claiming the invitation first keeps two simultaneous registrations from both using it
+      const claimed = await prisma.invite.updateMany({
+        where: { id: invite.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        throw new BadRequestException(INVALID_INVITE_MESSAGE);
+      }
+      const created = await prisma.user.create({
+        data: {
+          email: data.email,
+          password,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          role: invite.role,
+        },
+      });
+      await prisma.invite.update({
+        where: { id: invite.id },
+        data: { usedById: created.id },
+      });
+      await prisma.foundryInstanceMember.createMany({
+        data: invite.instances.map(({ instance }) => ({
+          instanceId: instance.id,
+          userId: created.id,
+          invitedById: invite.createdById,
+        })),
+        skipDuplicates: true,
+      });
+      return created;
+    });
+    this.logger.log(
+      `Invitation ${invite.id} used by user ${user.id} (${invite.role}, ${invite.instances.length} instance(s))`,
+    );
+    return user;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private async findUsable(token: string): Promise<InviteWithRelations | null> {
+    const invite = await this.prisma.invite.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+      include: INVITE_INCLUDE,
+    });
+    if (!invite || this.statusOf(invite) !== 'pending') {
+      return null;
+    }
+    return invite;
+  }
+
+  private async assertInstancesExist(instanceIds: string[]) {
+    const instances = await this.prisma.foundryInstance.findMany({
+      where: { id: { in: instanceIds } },
+      select: { id: true },
+    });
+    const foundIds = new Set(instances.map((instance) => instance.id));
+    const missingIds = instanceIds.filter((id) => !foundIds.has(id));
+    if (missingIds.length > 0) {
+      throw new NotFoundException(
+        `Foundry instances not found: ${missingIds.join(', ')}`,
+      );
+    }
+  }
+
+  private statusOf(invite: InviteWithRelations): InviteResponseDto['status'] {
+    if (invite.usedAt) {
+      return 'used';
+    }
+    if (invite.expiresAt && invite.expiresAt <= new Date()) {
+      return 'expired';
+    }
+    return 'pending';
+  }
+
+  private creatorName(invite: InviteWithRelations): string | null {
+    return invite.createdBy
+      ? `${invite.createdBy.firstName} ${invite.createdBy.lastName}`
+      : null;
+  }
+
+  private toResponse(invite: InviteWithRelations): InviteResponseDto {
+    return {
+      id: invite.id,
+      email: invite.email,
+      role: invite.role,
+      instances: invite.instances.map(({ instance }) => instance),
+      createdBy: this.creatorName(invite),
+      usedBy: invite.usedBy?.email ?? null,
+      status: this.statusOf(invite),
+      expiresAt: invite.expiresAt,
+      usedAt: invite.usedAt,
+      createdAt: invite.createdAt,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * The subject and bodies of an email, before it is addressed.
+ */
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const APP_NAME = 'Foundry Instance Manager';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders the same content as plain text and as a minimal HTML email.
+ * Paragraphs are plain text; an optional call to action is rendered as a button and a bare link.
+ */
+function render(
+  subject: string,
+  paragraphs: string[],
+  action?: { label: string; url: string },
+): RenderedMail {
+  const text = [
+    ...paragraphs,
+    ...(action ? [`${action.label}: ${action.url}`] : []),
+    `— ${APP_NAME}`,
+  ].join('\n\n');
+  const html = [
+    '<!DOCTYPE html>',
+    '<html><body style="font-family: sans-serif; color: #111827; line-height: 1.5;">',
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(action
+      ? [
+          `<p><a href="${escapeHtml(action.url)}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>`,
+          `<p style="font-size: 12px; color: #6b7280;">${escapeHtml(action.url)}</p>`,
+        ]
+      : []),
+    `<p style="font-size: 12px; color: #6b7280;">${APP_NAME}</p>`,
+    '</body></html>',
+  ].join('\n');
+  return { subject, text, html };
+}
+
+export function passwordResetMail(params: {
+  firstName: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}): RenderedMail {
+  return render(
+    'Reset your password',
+    [
+      `Hi ${params.firstName},`,
+      `Someone asked to reset the password of your ${APP_NAME} account. The link below is valid for ${params.expiresInMinutes} minutes.`,
+      'If it was not you, you can ignore this email; your password stays unchanged.',
+    ],
+    { label: 'Reset password', url: params.resetUrl },
+  );
+}
+
+export function accountInviteMail(params: {
+  inviterName: string;
+  inviteUrl: string;
+  expiresAt?: Date;
+}): RenderedMail {
+  return render(
+    `${params.inviterName} invited you to ${APP_NAME}`,
+    [
+      'Hi,',
+      `${params.inviterName} invited you to join their Foundry VTT games on ${APP_NAME}.`,
+      params.expiresAt
+        ? `The invitation can be used once and expires on ${params.expiresAt.toUTCString()}.`
+        : 'The invitation can be used once.',
+    ],
+    { label: 'Create your account', url: params.inviteUrl },
+  );
+}
+
+export function instanceDownMail(params: {
+  instanceName: string;
+  reason?: string;
+  dashboardUrl: string;
+}): RenderedMail {
+  return render(
+    `${params.instanceName} is down`,
+    [
+      `The Foundry VTT instance ${params.instanceName} stopped responding.`,
+      ...(params.reason ? [`Reason: ${params.reason}`] : []),
+      'Players cannot join until it is back up.',
+    ],
+    { label: 'Open dashboard', url: params.dashboardUrl },
+  );
+}
+
+export function instanceUpMail(params: {
+  instanceName: string;
+  dashboardUrl: string;
+}): RenderedMail {
+  return render(
+    `${params.instanceName} is back up`,
+    [`The Foundry VTT instance ${params.instanceName} is responding again.`],
+    { label: 'Open dashboard', url: params.dashboardUrl },
+  );
+}
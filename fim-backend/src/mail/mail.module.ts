@@ -0,0 +1,66 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { LoggerModule } from '../common/logger/logger.module';
+import { LoggerService } from '../common/logger/logger.service';
+import { MailService } from './mail.service';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { InMemoryMailTransport } from './transports/in-memory.transport';
+import { MAIL_TRANSPORT, MailTransport } from './transports/mail-transport';
+import { SmtpMailTransport } from './transports/smtp.transport';
+
+const DEFAULT_MAIL_FROM = 'Foundry Instance Manager <no-reply@localhost>';
+
+/**
+ * Picks the mail transport named by `MAIL_TRANSPORT`. Without SMTP settings emails are only logged.
+ */
+function createMailTransport(
+  configService: ConfigService,
+  logger: LoggerService,
+): MailTransport {
+  const from = configService.get<string>('MAIL_FROM') || DEFAULT_MAIL_FROM;
+  const transport =
+    configService.get<string>('MAIL_TRANSPORT') ||
+    (configService.get<string>('SMTP_HOST') ? 'smtp' : 'console');
+
+  switch (transport) {
+    case 'smtp':
+      return new SmtpMailTransport({
+        host: configService.get<string>('SMTP_HOST') || 'localhost',
+        port: parseInt(configService.get<string>('SMTP_PORT') || '587', 10),
+        secure: configService.get<string>('SMTP_SECURE') === 'true',
+        user: configService.get<string>('SMTP_USER'),
+        password: configService.get<string>('SMTP_PASSWORD'),
+        from,
+      });
+    case 'file':
+      return new FileMailTransport(
+        configService.get<string>('MAIL_FILE_DIR') ||
+          path.join(process.cwd(), 'mail'),
+        from,
+      );
+    case 'memory':
+      return new InMemoryMailTransport();
+    case 'console':
+      return new ConsoleMailTransport(logger);
+    default:
+      throw new Error(
+        `Unknown MAIL_TRANSPORT "${transport}"; expected smtp, file, console or memory`,
+      );
+  }
+}
+
+@Module({
+  imports: [ConfigModule, LoggerModule],
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: createMailTransport,
+      inject: [ConfigService, LoggerService],
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
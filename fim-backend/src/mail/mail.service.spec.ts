@@ -0,0 +1,80 @@
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '../common/logger/logger.service';
+import { MailService } from './mail.service';
+import { InMemoryMailTransport } from './transports/in-memory.transport';
+
+describe('MailService', () => {
+  let service: MailService;
+  let transport: InMemoryMailTransport;
+  let config: Record<string, string>;
+
+  beforeEach(() => {
+    config = { FRONTEND_URL: 'https://fim.example.com/' };
+    transport = new InMemoryMailTransport();
+    service = new MailService(
+      transport,
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+      new LoggerService(),
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds frontend URLs from FRONTEND_URL', () => {
+    expect(service.frontendUrl('/register', { invite: 'a b' })).toBe(
+      'https://fim.example.com/register?invite=a+b',
+    );
+    delete config.FRONTEND_URL;
+    expect(service.frontendUrl('/dashboard')).toBe(
+      'http://localhost:3000/dashboard',
+    );
+  });
+
+  it('sends a password reset link to the frontend', async () => {
+    await service.sendPasswordReset(
+      { email: 'gm@example.com', firstName: 'Gwen' },
+      'abc123',
+      60,
+    );
+
+    const [message] = transport.sentTo('gm@example.com');
+    expect(message.text).toContain(
+      'https://fim.example.com/reset-password?token=abc123',
+    );
+    expect(message.text).toContain('60 minutes');
+    expect(message.html).toContain(
+      'href="https://fim.example.com/reset-password?token=abc123"',
+    );
+  });
+
+  it('escapes user-supplied values in the HTML body', async () => {
+    await service.sendAccountInvite(
+      'player@example.com',
+      'https://fim.example.com/register?invite=xyz',
+      '<script>alert(1)</script>',
+    );
+
+    const [message] = transport.sent;
+    expect(message.html).not.toContain('<script>');
+    expect(message.html).toContain('&lt;script&gt;');
+    expect(message.text).toContain('<script>');
+  });
+
+  it('does not send instance alerts without recipients', async () => {
+    await service.sendInstanceAlert([], 'Campaign', 'down');
+    await service.sendInstanceAlert(
+      ['gm@example.com', 'admin@example.com'],
+      'Campaign',
+      'down',
+      'The container is in an error state.',
+    );
+
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sentTo('admin@example.com')[0].text).toContain(
+      'The container is in an error state.',
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoggerService } from '../common/logger/logger.service';
+import {
+  accountInviteMail,
+  instanceDownMail,
+  instanceUpMail,
+  passwordResetMail,
+  RenderedMail,
+} from './mail-templates';
+import { MAIL_TRANSPORT, MailTransport } from './transports/mail-transport';
+
+const DEFAULT_FRONTEND_URL = 'http://localhost:3000';
+
+/**
+ * Renders and sends the emails the application sends to its users.
+ */
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(MailService.name);
+  }
+
+  /**
+   * Builds an absolute URL to a page of the frontend.
+   * @param path The path of the page, starting with a slash.
+   * @param query Query parameters to append.
+   */
+  frontendUrl(path: string, query: Record<string, string> = {}): string {
+    const base = (
+      this.configService.get<string>('FRONTEND_URL') || DEFAULT_FRONTEND_URL
+    ).replace(/\/+$/, '');
+    const search = new URLSearchParams(query).toString();
+    return `${base}${path}${search ? `?${search}` : ''}`;
+  }
+
+  /**
+   * Sends a link to the frontend's reset password page.
+   * @param to The user's email address and first name.
+   * @param token The unhashed password reset token.
+   * @param expiresInMinutes How long the token is valid.
+   */
+  async sendPasswordReset(
+    to: { email: string; firstName: string },
+    token: string,
+    expiresInMinutes: number,
+  ): Promise<void> {
+    await this.send(
+      to.email,
+      passwordResetMail({
+        firstName: to.firstName,
+        resetUrl: this.frontendUrl('/reset-password', { token }),
+        expiresInMinutes,
+      }),
+    );
+  }
+
+  /**
+   * Sends an invitation to create an account.
+   * @param email The address to invite.
+   * @param inviteUrl The link that opens the registration page with the invitation.
+   * @param inviterName The name of the user who sent the invitation.
+   * @param expiresAt When the invitation expires, if ever.
+   */
+  async sendAccountInvite(
+    email: string,
+    inviteUrl: string,
+    inviterName: string,
+    expiresAt?: Date,
+  ): Promise<void> {
+    await this.send(
+      email,
+      accountInviteMail({ inviterName, inviteUrl, expiresAt }),
+    );
+  }
+
+  /**
+   * Tells the people responsible for an instance that it went down or came back up.
+   * @param to The addresses to alert.
+   * @param instanceName The name of the Foundry VTT instance.
+   * @param state Whether the instance went `down` or came back `up`.
+   * @param reason Why the instance went down, if known.
+   */
+  async sendInstanceAlert(
+    to: string[],
+    instanceName: string,
+    state: 'up' | 'down',
+    reason?: string,
+  ): Promise<void> {
+    if (to.length === 0) {
+      return;
+    }
+    const dashboardUrl = this.frontendUrl('/dashboard');
+    await this.send(
+      to,
+      state === 'down'
+        ? instanceDownMail({ instanceName, reason, dashboardUrl })
+        : instanceUpMail({ instanceName, dashboardUrl }),
+    );
+  }
+
+  private async send(to: string | string[], mail: RenderedMail): Promise<void> {
+    await this.transport.send({ to, ...mail });
+    this.logger.log(
+      `Sent "${mail.subject}" to ${([] as string[]).concat(to).join(', ')}`,
+    );
+  }
+}
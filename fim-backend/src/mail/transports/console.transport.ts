@@ -0,0 +1,17 @@
+import { LoggerService } from '../../common/logger/logger.service';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Prints each email to the log instead of sending it. Meant for development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly logger: LoggerService) {}
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `Email to ${([] as string[]).concat(message.to).join(', ')}: ${message.subject}\n${message.text}`,
+      ConsoleMailTransport.name,
+    );
+    return Promise.resolve();
+  }
+}
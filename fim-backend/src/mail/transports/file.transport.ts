@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Writes each email to a file in a directory instead of sending it.
+ * Meant for development, where the links in password reset and invite emails have to be reachable somehow.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private readonly directory: string,
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipients = ([] as string[]).concat(message.to);
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipients[0].replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+    const content = [
+      `From: ${this.from}`,
+      `To: ${recipients.join(', ')}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\n');
+    await fs.writeFile(path.join(this.directory, fileName), content, 'utf8');
+  }
+}
@@ -0,0 +1,27 @@
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * A fake {@link MailTransport} that keeps sent emails in memory.
+ * Used by unit tests to inspect what would have been sent.
+ */
+export class InMemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+
+  /**
+   * Gets the emails sent to an address, oldest first.
+   */
+  sentTo(address: string): MailMessage[] {
+    return this.sent.filter((message) =>
+      ([] as string[]).concat(message.to).includes(address),
+    );
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Injection token for the active {@link MailTransport} implementation.
+ */
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+/**
+ * A rendered email, ready to be handed to a transport.
+ */
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Delivers rendered emails. Selected with `MAIL_TRANSPORT`: `smtp`, `file`, `console` or `memory`.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
@@ -0,0 +1,44 @@
+import { createTransport, Transporter } from 'nodemailer';
+import {
+  MailMessage,
+  MailTransport,
+  MailTransportError,
+} from './mail-transport';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  /** Use TLS from the start (port 465) instead of upgrading with STARTTLS. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Sends emails through an SMTP server.
+ */
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpTransportOptions) {
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transporter.sendMail({ from: this.options.from, ...message });
+    } catch (error) {
+      throw new MailTransportError(
+        `SMTP delivery to ${String(message.to)} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
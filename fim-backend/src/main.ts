@@ -1,4 +1,5 @@
 import { NestFactory, Reflector } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { ValidationPipe, Logger } from '@nestjs/common';
@@ -7,9 +8,13 @@ import compression = require('compression');
 import { PrismaService } from './prisma/prisma.service';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter'; // Import AllExceptionsFilter
 import { ConfigService } from '@nestjs/config'; // Import ConfigService
+import { LoggerService } from './common/logger/logger.service';
+import { REQUEST_ID_HEADER } from './common/request-context/request-id.middleware';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Logs from startup are held back until the JSON logger takes over
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { bufferLogs: true });
+  app.useLogger(await app.resolve(LoggerService));
   const logger = new Logger('Bootstrap');
 
   // Security Middlewares
@@ -18,6 +23,10 @@ async function bootstrap() {
   const frontendUrl = configService.get<string>('FRONTEND_URL');
   const whitelist = frontendUrl ? frontendUrl.split(',') : [];
 
+  // Proxies whose X-Forwarded-For is believed when working out the client address (req.ip), e.g. the frontend server.
+  // Login throttling keys on that address, so a hop from anywhere else must not be trusted.
+  app.set('trust proxy', configService.get<string>('TRUST_PROXY') || 'loopback, uniquelocal');
+
   app.enableCors({
     origin: (origin, callback) => {
       if (!origin || whitelist.indexOf(origin) !== -1) {
@@ -29,6 +38,7 @@ async function bootstrap() {
       }
     },
     credentials: true,
+    exposedHeaders: [REQUEST_ID_HEADER],
   });
 
   // Global Validation Pipe
@@ -57,6 +67,6 @@ async function bootstrap() {
 
   const port = configService.get<number>('PORT') || 3001;
   await app.listen(port);
-  console.log(`Application is running on: ${await app.getUrl()}`);
+  logger.log(`Application is running on: ${await app.getUrl()}`);
 }
 bootstrap();
@@ -0,0 +1,27 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import type { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Measures every HTTP request from its arrival until its response is sent.
+ * Requests that match no route are grouped together, so scanners cannot create a series per URL.
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+    response.on('finish', () => {
+      // Express sets the route once the request has been routed
+      const route = (request.route as { path?: string } | undefined)?.path;
+      this.metricsService.recordHttpRequest(
+        request.method,
+        route ?? 'unmatched',
+        response.statusCode,
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+    });
+    next();
+  }
+}
@@ -0,0 +1,53 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MetricsAccessGuard } from './metrics-access.guard';
+
+describe('MetricsAccessGuard', () => {
+  const guard = (config: Record<string, string>) =>
+    new MetricsAccessGuard({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+
+  const request = (remoteAddress: string, authorization?: string) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({
+          socket: { remoteAddress },
+          headers: { authorization },
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  it('only lets the host itself in when nothing is configured', () => {
+    expect(guard({}).canActivate(request('::ffff:127.0.0.1'))).toBe(true);
+    expect(() => guard({}).canActivate(request('203.0.113.7'))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('accepts the configured bearer token from anywhere', () => {
+    const tokenGuard = guard({ METRICS_TOKEN: 's3cret' });
+
+    expect(
+      tokenGuard.canActivate(request('203.0.113.7', 'Bearer s3cret')),
+    ).toBe(true);
+    expect(() =>
+      tokenGuard.canActivate(request('203.0.113.7', 'Bearer wrong')),
+    ).toThrow(ForbiddenException);
+    expect(() => tokenGuard.canActivate(request('127.0.0.1'))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('accepts addresses and ranges from the allowlist', () => {
+    const allowlistGuard = guard({
+      METRICS_ALLOWED_IPS: '172.16.0.0/12, 198.51.100.4',
+    });
+
+    expect(allowlistGuard.canActivate(request('172.18.0.5'))).toBe(true);
+    expect(allowlistGuard.canActivate(request('198.51.100.4'))).toBe(true);
+    expect(() => allowlistGuard.canActivate(request('198.51.100.5'))).toThrow(
+      ForbiddenException,
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlockList, isIPv6 } from 'net';
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Lets a scraper read the metrics if it sends the token in `METRICS_TOKEN` as a bearer token,
+ * or connects from an address in `METRICS_ALLOWED_IPS` (comma-separated addresses or CIDR ranges, e.g. `172.16.0.0/12`).
+ * With neither set, only the host itself may read them.
+ */
+@Injectable()
+export class MetricsAccessGuard implements CanActivate {
+  private readonly token?: string;
+  private readonly allowed = new BlockList();
+
+  constructor(configService: ConfigService) {
+    this.token = configService.get<string>('METRICS_TOKEN') || undefined;
+    const entries = (configService.get<string>('METRICS_ALLOWED_IPS') || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    if (entries.length === 0 && !this.token) {
+      entries.push('127.0.0.1', '::1');
+    }
+    for (const entry of entries) {
+      const [address, prefix] = entry.split('/');
+      const type = isIPv6(address) ? 'ipv6' : 'ipv4';
+      if (prefix) {
+        this.allowed.addSubnet(address, Number(prefix), type);
+      } else {
+        this.allowed.addAddress(address, type);
+      }
+    }
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+    if (this.token && this.hasToken(request, this.token)) {
+      return true;
+    }
+    // The socket address rather than X-Forwarded-For, which the scraper could set to anything
+    const address = (request.socket?.remoteAddress ?? '').replace(
+      /^::ffff:/,
+      '',
+    );
+    if (
+      address &&
+      this.allowed.check(address, isIPv6(address) ? 'ipv6' : 'ipv4')
+    ) {
+      return true;
+    }
+    throw new ForbiddenException('Not allowed to read metrics');
+  }
+
+  private hasToken(request: Request, token: string): boolean {
+    const header = request.headers.authorization ?? '';
+    const given = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+}
@@ -0,0 +1,33 @@
+import { Controller, Get, Header, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiResponse, ApiOperation } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Registry } from 'prom-client';
+import { MetricsService } from './metrics.service';
+import { MetricsAccessGuard } from './metrics-access.guard';
+
+@ApiTags('metrics')
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @SkipThrottle()
+  @UseGuards(MetricsAccessGuard)
+  @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+  @ApiOperation({
+    summary:
+      'Get metrics in the Prometheus exposition format (METRICS_TOKEN or an allowed address required)',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Metrics of the API, the host process and the Foundry instances.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden: No valid token and the address is not allowed.',
+  })
+  getMetrics(): Promise<string> {
+    return this.metricsService.render();
+  }
+}
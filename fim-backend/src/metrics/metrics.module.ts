@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { MetricsController } from './metrics.controller';
+import { MetricsAccessGuard } from './metrics-access.guard';
+
+@Module({
+  providers: [MetricsService, MetricsAccessGuard],
+  controllers: [MetricsController],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
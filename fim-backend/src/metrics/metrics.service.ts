@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+/**
+ * How a login attempt ended.
+ */
+export type LoginResult = 'success' | 'failure' | 'locked';
+
+/**
+ * Holds the Prometheus metrics of the backend and renders them for scraping.
+ * Other modules add their own metrics to {@link registry}, ideally computed when scraped.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly httpRequestDuration = new Histogram({
+    name: 'fim_http_request_duration_seconds',
+    help: 'Duration of HTTP requests, by route and status code',
+    labelNames: ['method', 'route', 'status_code'] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  private readonly logins = new Counter({
+    name: 'fim_logins_total',
+    help: 'Login attempts, by result',
+    labelNames: ['result'] as const,
+    registers: [this.registry],
+  });
+
+  constructor() {
+    // Process CPU, memory, event loop lag and garbage collection
+    collectDefaultMetrics({ register: this.registry, prefix: 'fim_' });
+    // Report every result from the start, so rates work before the first failure
+    for (const result of ['success', 'failure', 'locked'] as const) {
+      this.logins.labels(result).inc(0);
+    }
+  }
+
+  /**
+   * Counts a finished HTTP request.
+   * @param method The HTTP method.
+   * @param route The route pattern, e.g. `/foundry/:instanceId/start`, so requests group by endpoint rather than URL.
+   * @param statusCode The status code of the response.
+   * @param durationSeconds How long the request took.
+   */
+  recordHttpRequest(
+    method: string,
+    route: string,
+    statusCode: number,
+    durationSeconds: number,
+  ): void {
+    this.httpRequestDuration
+      .labels(method, route, String(statusCode))
+      .observe(durationSeconds);
+  }
+
+  /**
+   * Counts a login attempt.
+   * @param result Whether it succeeded, failed, or was rejected because of a lockout.
+   */
+  recordLogin(result: LoginResult): void {
+    this.logins.labels(result).inc();
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format.
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,25 @@
+import { IsString, IsNotEmpty, IsUrl, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreatePageDto {
+  @ApiProperty({ example: 'Session Zero Handout', description: 'The title shown to players' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @ApiProperty({ example: 'https://wiki.example.com/campaign/session-zero', description: 'Where the page lives, e.g. a handout, wiki article or character sheet' })
+  @IsUrl({ require_protocol: true })
+  url: string;
+
+  @ApiProperty({ example: 'House rules and safety tools', description: 'A short description of the page', required: false, nullable: true })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string | null;
+
+  @ApiProperty({ example: true, description: 'Inactive pages are hidden from players', required: false, default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
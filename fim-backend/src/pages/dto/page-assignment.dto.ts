@@ -0,0 +1,19 @@
+import { IsArray, IsInt, ArrayNotEmpty, ArrayMaxSize } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+// Every listed page is assigned to (or removed from) every listed user.
+export class PageAssignmentDto {
+  @ApiProperty({ example: [1, 2], description: 'The IDs of the pages', type: [Number] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsInt({ each: true })
+  pageIds: number[];
+
+  @ApiProperty({ example: [3, 4, 5], description: 'The IDs of the users', type: [Number] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(500)
+  @IsInt({ each: true })
+  userIds: number[];
+}
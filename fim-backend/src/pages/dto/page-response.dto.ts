@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class PageResponseDto {
+  @ApiProperty({ example: 1, description: 'The unique identifier of the page' })
+  id: number;
+
+  @ApiProperty({ example: 'Session Zero Handout', description: 'The title shown to players' })
+  title: string;
+
+  @ApiProperty({ example: 'https://wiki.example.com/campaign/session-zero', description: 'Where the page lives' })
+  url: string;
+
+  @ApiProperty({ example: 'House rules and safety tools', description: 'A short description of the page', nullable: true })
+  description: string | null;
+
+  @ApiProperty({ example: true, description: 'Inactive pages are hidden from players' })
+  isActive: boolean;
+
+  @ApiProperty({ example: 1, description: 'The ID of the admin who created the page' })
+  createdById: number;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'The date and time when the page was created' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2023-01-01T12:00:00.000Z', description: 'The date and time when the page was last updated' })
+  updatedAt: Date;
+}
+
+export class AdminPageResponseDto extends PageResponseDto {
+  @ApiProperty({ example: [3, 4, 5], description: 'The IDs of the users the page is assigned to', type: [Number] })
+  assignedUserIds: number[];
+}
+
+export class PageAssignmentResultDto {
+  @ApiProperty({ example: 6, description: 'How many user/page assignments were added or removed' })
+  count: number;
+}
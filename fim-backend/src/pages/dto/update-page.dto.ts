@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreatePageDto } from './create-page.dto';
+
+export class UpdatePageDto extends PartialType(CreatePageDto) {}
@@ -0,0 +1,95 @@
+import { Controller, Get, Post, Patch, Delete, Body, Param, ParseIntPipe, UseGuards, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags, ApiResponse, ApiOperation } from '@nestjs/swagger';
+import { Role } from '@prisma/client';
+import { PagesService } from './pages.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { CreatePageDto } from './dto/create-page.dto';
+import { UpdatePageDto } from './dto/update-page.dto';
+import { PageAssignmentDto } from './dto/page-assignment.dto';
+import { AdminPageResponseDto, PageAssignmentResultDto, PageResponseDto } from './dto/page-response.dto';
+import { Audit } from '../audit/decorators/audit.decorator';
+
+@ApiTags('pages')
+@ApiBearerAuth('JWT-auth')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('pages')
+export class PagesController {
+  constructor(private readonly pagesService: PagesService) {}
+
+  @Get('mine')
+  @ApiOperation({ summary: 'Get the active pages assigned to the current user' })
+  @ApiResponse({ status: 200, description: 'Pages assigned to the current user.', type: [PageResponseDto] })
+  findMine(@Req() req: AuthenticatedRequest): Promise<PageResponseDto[]> {
+    return this.pagesService.findAssignedTo(req.user.userId);
+  }
+
+  @Get()
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get all pages with their assigned users (Admin only)' })
+  @ApiResponse({ status: 200, description: 'List of pages.', type: [AdminPageResponseDto] })
+  findAll(): Promise<AdminPageResponseDto[]> {
+    return this.pagesService.findAll();
+  }
+
+  @Post()
+  @Audit('page.create', { target: 'page', responseKey: 'id' })
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Create a page (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Page successfully created.', type: PageResponseDto })
+  @ApiResponse({ status: 409, description: 'A page with the same URL already exists.' })
+  create(@Body() createPageDto: CreatePageDto, @Req() req: AuthenticatedRequest): Promise<PageResponseDto> {
+    return this.pagesService.create(createPageDto, req.user.userId);
+  }
+
+  @Post('assignments')
+  @Audit('page.assign', { recordBody: true })
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Assign pages to users in bulk (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Pages assigned; existing assignments are kept.', type: PageAssignmentResultDto })
+  @ApiResponse({ status: 404, description: 'A page or user was not found.' })
+  assign(@Body() pageAssignmentDto: PageAssignmentDto, @Req() req: AuthenticatedRequest): Promise<PageAssignmentResultDto> {
+    return this.pagesService.assign(pageAssignmentDto.pageIds, pageAssignmentDto.userIds, req.user.userId);
+  }
+
+  @Delete('assignments')
+  @Audit('page.unassign', { recordBody: true })
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Remove pages from users in bulk (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Assignments removed.', type: PageAssignmentResultDto })
+  unassign(@Body() pageAssignmentDto: PageAssignmentDto): Promise<PageAssignmentResultDto> {
+    return this.pagesService.unassign(pageAssignmentDto.pageIds, pageAssignmentDto.userIds);
+  }
+
+  @Get(':id')
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Get a page by ID (Admin only)' })
+  @ApiResponse({ status: 200, description: 'The page.', type: PageResponseDto })
+  @ApiResponse({ status: 404, description: 'Page not found.' })
+  findOne(@Param('id', ParseIntPipe) id: number): Promise<PageResponseDto> {
+    return this.pagesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Audit('page.update', { target: 'page' })
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Update a page by ID (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Page successfully updated.', type: PageResponseDto })
+  @ApiResponse({ status: 404, description: 'Page not found.' })
+  @ApiResponse({ status: 409, description: 'A page with the same URL already exists.' })
+  update(@Param('id', ParseIntPipe) id: number, @Body() updatePageDto: UpdatePageDto): Promise<PageResponseDto> {
+    return this.pagesService.update(id, updatePageDto);
+  }
+
+  @Delete(':id')
+  @Audit('page.delete', { target: 'page' })
+  @Roles(Role.ADMIN)
+  @ApiOperation({ summary: 'Delete a page and its assignments by ID (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Page successfully deleted.' })
+  @ApiResponse({ status: 404, description: 'Page not found.' })
+  remove(@Param('id', ParseIntPipe) id: number): Promise<{ message: string }> {
+    return this.pagesService.remove(id);
+  }
+}
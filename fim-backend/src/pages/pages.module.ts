@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PagesService } from './pages.service';
+import { PagesController } from './pages.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [PagesService],
+  controllers: [PagesController],
+})
+export class PagesModule {}
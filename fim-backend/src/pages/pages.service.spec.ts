@@ -0,0 +1,136 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Page, UserPageAssignment } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { PagesService } from './pages.service';
+
+describe('PagesService', () => {
+  let service: PagesService;
+  let pages: Page[];
+  let assignments: Pick<UserPageAssignment, 'pageId' | 'userId'>[];
+
+  const page = (id: number, url: string, isActive = true): Page => ({
+    id,
+    title: `Page ${id}`,
+    url,
+    description: null,
+    isActive,
+    createdById: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(() => {
+    pages = [
+      page(1, 'https://wiki.example.com/lore'),
+      page(2, 'https://wiki.example.com/handout'),
+      page(3, 'https://wiki.example.com/retired', false),
+    ];
+    assignments = [{ pageId: 1, userId: 8 }];
+    const userIds = [1, 8, 9];
+    const prisma = {
+      page: {
+        findUnique: jest.fn(
+          ({ where }: { where: { id?: number; url?: string } }) =>
+            Promise.resolve(
+              pages.find((p) => p.id === where.id || p.url === where.url) ??
+                null,
+            ),
+        ),
+        findMany: jest.fn(
+          ({
+            where,
+          }: {
+            where?: { id?: { in: number[] }; assignments?: unknown };
+          }) => {
+            if (where?.id) {
+              return Promise.resolve(
+                pages.filter((p) => where.id!.in.includes(p.id)),
+              );
+            }
+            return Promise.resolve(
+              pages.map((p) => ({
+                ...p,
+                assignments: assignments.filter((a) => a.pageId === p.id),
+              })),
+            );
+          },
+        ),
+        create: jest.fn(({ data }: { data: Partial<Page> }) =>
+          Promise.resolve({ ...page(pages.length + 1, data.url!), ...data }),
+        ),
+        update: jest.fn(
+          ({ where, data }: { where: { id: number }; data: Partial<Page> }) =>
+            Promise.resolve({
+              ...pages.find((p) => p.id === where.id),
+              ...data,
+            }),
+        ),
+      },
+      user: {
+        findMany: jest.fn(({ where }: { where: { id: { in: number[] } } }) =>
+          Promise.resolve(
+            userIds
+              .filter((id) => where.id.in.includes(id))
+              .map((id) => ({ id })),
+          ),
+        ),
+      },
+      userPageAssignment: {
+        createMany: jest.fn(
+          ({ data }: { data: { pageId: number; userId: number }[] }) => {
+            const created = data.filter(
+              (d) =>
+                !assignments.some(
+                  (a) => a.pageId === d.pageId && a.userId === d.userId,
+                ),
+            );
+            assignments.push(...created);
+            return Promise.resolve({ count: created.length });
+          },
+        ),
+      },
+    };
+    service = new PagesService(prisma as unknown as PrismaService);
+  });
+
+  it('lists pages with the users they are assigned to', async () => {
+    const result = await service.findAll();
+
+    expect(result.map((p) => p.assignedUserIds)).toEqual([[8], [], []]);
+    expect(result[0]).not.toHaveProperty('assignments');
+  });
+
+  it('refuses to create a page with a URL that is already in use', async () => {
+    await expect(
+      service.create({ title: 'Lore', url: pages[0].url }, 1),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('lets a page keep its own URL when updating', async () => {
+    await expect(
+      service.update(1, { title: 'Lore', url: pages[0].url }),
+    ).resolves.toMatchObject({ id: 1, title: 'Lore' });
+    await expect(
+      service.update(1, { url: pages[1].url }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  describe('assign', () => {
+    it('assigns every page to every user and skips existing assignments', async () => {
+      const result = await service.assign([1, 2, 2], [8, 9], 1);
+
+      expect(result).toEqual({ count: 3 });
+      expect(assignments).toHaveLength(4);
+    });
+
+    it('rejects unknown pages and users', async () => {
+      await expect(service.assign([1, 42], [8], 1)).rejects.toThrow(
+        new NotFoundException('Pages not found: 42'),
+      );
+      await expect(service.assign([1], [8, 43], 1)).rejects.toThrow(
+        new NotFoundException('Users not found: 43'),
+      );
+      expect(assignments).toHaveLength(1);
+    });
+  });
+});
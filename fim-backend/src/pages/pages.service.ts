@@ -0,0 +1,187 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Page } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreatePageDto } from './dto/create-page.dto';
+import { UpdatePageDto } from './dto/update-page.dto';
+
+export type PageWithAssignees = Page & { assignedUserIds: number[] };
+
+@Injectable()
+export class PagesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Retrieves all pages together with the users they are assigned to.
+   * @returns A list of all pages, sorted by title.
+   */
+  async findAll(): Promise<PageWithAssignees[]> {
+    const pages = await this.prisma.page.findMany({
+      include: { assignments: { select: { userId: true } } },
+      orderBy: { title: 'asc' },
+    });
+    return pages.map(({ assignments, ...page }) => ({
+      ...page,
+      assignedUserIds: assignments.map((assignment) => assignment.userId),
+    }));
+  }
+
+  /**
+   * Finds a page by its ID.
+   * @param id The ID of the page.
+   * @returns The page.
+   * @throws NotFoundException if the page is not found.
+   */
+  async findOne(id: number): Promise<Page> {
+    const page = await this.prisma.page.findUnique({ where: { id } });
+    if (!page) {
+      throw new NotFoundException(`Page with ID ${id} not found`);
+    }
+    return page;
+  }
+
+  /**
+   * Retrieves the active pages assigned to a user.
+   * @param userId The ID of the user.
+   * @returns The user's pages, sorted by title.
+   */
+  async findAssignedTo(userId: number): Promise<Page[]> {
+    return this.prisma.page.findMany({
+      where: { isActive: true, assignments: { some: { userId } } },
+      orderBy: { title: 'asc' },
+    });
+  }
+
+  /**
+   * Creates a new page.
+   * @param data The data for creating the page.
+   * @param createdById The ID of the admin creating the page.
+   * @returns The newly created page.
+   * @throws ConflictException if another page already has the same URL.
+   */
+  async create(data: CreatePageDto, createdById: number): Promise<Page> {
+    await this.assertUrlAvailable(data.url);
+    return this.prisma.page.create({
+      data: {
+        title: data.title,
+        url: data.url,
+        description: data.description,
+        isActive: data.isActive,
+        createdById,
+      },
+    });
+  }
+
+  /**
+   * Updates a page.
+   * @param id The ID of the page to update.
+   * @param data The fields to change.
+   * @returns The updated page.
+   * @throws NotFoundException if the page is not found.
+   * @throws ConflictException if another page already has the new URL.
+   */
+  async update(id: number, data: UpdatePageDto): Promise<Page> {
+    await this.findOne(id);
+    if (data.url) {
+      await this.assertUrlAvailable(data.url, id);
+    }
+    return this.prisma.page.update({
+      where: { id },
+      data: {
+        title: data.title,
+        url: data.url,
+        description: data.description,
+        isActive: data.isActive,
+      },
+    });
+  }
+
+  /**
+   * Deletes a page and all of its assignments.
+   * @param id The ID of the page to delete.
+   * @returns A success message.
+   * @throws NotFoundException if the page is not found.
+   */
+  async remove(id: number): Promise<{ message: string }> {
+    await this.findOne(id);
+    await this.prisma.page.delete({ where: { id } });
+    return { message: 'Page has been successfully deleted.' };
+  }
+
+  /**
+   * Assigns every given page to every given user. Existing assignments are left as they are.
+   * @param pageIds The IDs of the pages to assign.
+   * @param userIds The IDs of the users to assign them to.
+   * @param assignedBy The ID of the admin making the assignment.
+   * @returns The number of new assignments.
+   * @throws NotFoundException if any of the pages or users does not exist.
+   */
+  async assign(
+    pageIds: number[],
+    userIds: number[],
+    assignedBy: number,
+  ): Promise<{ count: number }> {
+    const uniquePageIds = [...new Set(pageIds)];
+    const uniqueUserIds = [...new Set(userIds)];
+    await this.assertAllExist(uniquePageIds, uniqueUserIds);
+
+    return this.prisma.userPageAssignment.createMany({
+      data: uniquePageIds.flatMap((pageId) =>
+        uniqueUserIds.map((userId) => ({ pageId, userId, assignedBy })),
+      ),
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Removes every given page from every given user.
+   * @param pageIds The IDs of the pages to unassign.
+   * @param userIds The IDs of the users to remove them from.
+   * @returns The number of removed assignments.
+   */
+  async unassign(
+    pageIds: number[],
+    userIds: number[],
+  ): Promise<{ count: number }> {
+    return this.prisma.userPageAssignment.deleteMany({
+      where: { pageId: { in: pageIds }, userId: { in: userIds } },
+    });
+  }
+
+  private async assertUrlAvailable(url: string, exceptId?: number) {
+    const existing = await this.prisma.page.findUnique({ where: { url } });
+    if (existing && existing.id !== exceptId) {
+      throw new ConflictException(`A page with the URL ${url} already exists`);
+    }
+  }
+
+  private async assertAllExist(pageIds: number[], userIds: number[]) {
+    const [pages, users] = await Promise.all([
+      this.prisma.page.findMany({
+        where: { id: { in: pageIds } },
+        select: { id: true },
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true },
+      }),
+    ]);
+    const foundPageIds = new Set(pages.map((page) => page.id));
+    const missingPageIds = pageIds.filter((id) => !foundPageIds.has(id));
+    if (missingPageIds.length > 0) {
+      throw new NotFoundException(
+        `Pages not found: ${missingPageIds.join(', ')}`,
+      );
+    }
+    const foundUserIds = new Set(users.map((user) => user.id));
+    const missingUserIds = userIds.filter((id) => !foundUserIds.has(id));
+    if (missingUserIds.length > 0) {
+      throw new NotFoundException(
+        `Users not found: ${missingUserIds.join(', ')}`,
+      );
+    }
+  }
+}
@@ -4,19 +4,12 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { Role } from '@prisma/client'; // Import Role from Prisma client
-import type { Request } from 'express';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { ApiBearerAuth, ApiResponse, ApiOperation } from '@nestjs/swagger'; // Import ApiResponse and ApiOperation
 import { UserResponseDto } from './dto/user-response.dto'; // Import UserResponseDto
 import { UpdateUserRoleDto } from './dto/update-user-role.dto';
-
-interface AuthenticatedRequest extends Request {
-  user: {
-    userId: number;
-    email: string;
-    role: Role;
-  };
-}
+import { AuthenticatedRequest } from '../auth/interfaces/authenticated-request.interface';
+import { Audit } from '../audit/decorators/audit.decorator';
 
 @ApiBearerAuth('JWT-auth')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -40,6 +33,7 @@ export class UsersController {
   }
 
   @Put('profile')
+  @Audit('user.profile.update', { target: 'user', self: true })
   @ApiOperation({ summary: 'Update user profile' })
   @ApiResponse({ status: 200, description: 'Updated user profile data.', type: UserResponseDto })
   updateProfile(@Req() req: AuthenticatedRequest, @Body() updateUserDto: UpdateUserDto): Promise<UserResponseDto> {
@@ -47,6 +41,7 @@ export class UsersController {
   }
 
   @Patch(':id/role')
+  @Audit('user.role.update', { target: 'user' })
   @Roles(Role.ADMIN)
   @ApiOperation({ summary: 'Update a user role by ID (Admin only)' })
   @ApiResponse({ status: 200, description: 'User role successfully updated.', type: UserResponseDto })
@@ -59,6 +54,7 @@ export class UsersController {
   }
 
   @Delete('profile')
+  @Audit('user.delete', { target: 'user', self: true })
   @ApiOperation({ summary: 'Delete current user account' })
   @ApiResponse({ status: 200, description: 'User account successfully deleted.' })
   deleteOwnAccount(@Req() req: AuthenticatedRequest): Promise<{ message: string }> {
@@ -66,6 +62,7 @@ export class UsersController {
   }
 
   @Delete(':id')
+  @Audit('user.delete', { target: 'user' })
   @Roles(Role.ADMIN)
   @ApiOperation({ summary: 'Soft delete a user by ID (Admin only)' })
   @ApiResponse({ status: 200, description: 'User successfully soft deleted.' })
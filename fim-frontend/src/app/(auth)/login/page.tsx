@@ -12,11 +12,26 @@ import { Button } from '@/components/ui/Button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/Alert';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import Link from 'next/link';
+import api from '@/lib/api';
+import { parseTwoFactorChallenge } from '@/lib/twoFactor';
+import { RecoveryCodes, TwoFactorSetup, TwoFactorStep } from '@/types';
+import { isAxiosError } from 'axios';
+
+interface Challenge {
+  step: TwoFactorStep;
+  challengeToken: string;
+}
 
 export default function LoginPage() {
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Set once the password was accepted and a second factor is needed
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const {
     register,
@@ -36,7 +51,16 @@ export default function LoginPage() {
         password: data.password,
       });
 
-      if (result?.error) {
+      const pending = parseTwoFactorChallenge(result?.error);
+      if (pending) {
+        setChallenge(pending);
+        if (pending.step === 'setup') {
+          const response = await api.post<TwoFactorSetup>('/auth/2fa/enroll', {
+            challengeToken: pending.challengeToken,
+          });
+          setSetup(response.data);
+        }
+      } else if (result?.error) {
         setError(result.error);
       } else {
         router.push('/'); // Redirect to home or dashboard after successful login
@@ -49,6 +73,171 @@ export default function LoginPage() {
     }
   };
 
+  const onVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await signIn('credentials', {
+        redirect: false,
+        challengeToken: challenge.challengeToken,
+        ...(useRecoveryCode ? { recoveryCode: code } : { code }),
+      });
+
+      if (result?.error) {
+        setError('The code is invalid or the sign-in has expired. Try again, or start over if it keeps failing.');
+      } else {
+        router.push('/');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred.');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onConfirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.post<RecoveryCodes>('/auth/2fa/enroll/confirm', {
+        challengeToken: challenge.challengeToken,
+        code,
+      });
+      // Two-factor authentication is on now; the login finishes like any other with a fresh code
+      setRecoveryCodes(response.data.recoveryCodes);
+      setSetup(null);
+      setChallenge({ ...challenge, step: 'verify' });
+      setCode('');
+    } catch (err) {
+      setError(isAxiosError(err) ? err.response?.data?.message || 'Invalid authentication code.' : 'An unexpected error occurred.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startOver = () => {
+    setChallenge(null);
+    setSetup(null);
+    setRecoveryCodes(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setError(null);
+  };
+
+  if (challenge) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="text-center text-2xl font-bold leading-9 tracking-tight text-gray-900">
+              {challenge.step === 'setup' ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <Alert variant="destructive" className="mb-4">
+                <AlertTitle>Login Failed</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {challenge.step === 'setup' ? (
+              <form onSubmit={onConfirmSetup} className="space-y-6">
+                <p className="text-sm text-gray-600">
+                  Your account requires two-factor authentication. Scan the QR code with an authenticator app, then enter the code it shows.
+                </p>
+                {setup ? (
+                  <div className="flex flex-col items-center space-y-2">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={setup.qrCodeDataUrl} alt="QR code for your authenticator app" className="h-48 w-48" />
+                    <p className="text-xs text-gray-500">
+                      Or enter this key by hand: <span className="font-mono break-all">{setup.secret}</span>
+                    </p>
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <LoadingSpinner />
+                  </div>
+                )}
+                <Input
+                  id="code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+                <Button type="submit" className="w-full" disabled={isLoading || !setup}>
+                  {isLoading ? <LoadingSpinner size="sm" /> : 'Turn on two-factor authentication'}
+                </Button>
+              </form>
+            ) : (
+              <form onSubmit={onVerify} className="space-y-6">
+                {recoveryCodes && (
+                  <div className="rounded-md border border-green-200 bg-green-50 p-4">
+                    <p className="text-sm font-medium text-green-800">Two-factor authentication is on</p>
+                    <p className="mt-1 text-sm text-green-700">
+                      Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app, and they cannot be shown again.
+                    </p>
+                    <ul className="mt-3 grid grid-cols-2 gap-1 font-mono text-sm text-gray-900">
+                      {recoveryCodes.map((recoveryCode) => (
+                        <li key={recoveryCode}>{recoveryCode}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium leading-6 text-gray-900">
+                    {useRecoveryCode ? 'Recovery code' : 'Code from your authenticator app'}
+                  </label>
+                  <div className="mt-2">
+                    <Input
+                      id="code"
+                      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                      autoComplete="one-time-code"
+                      placeholder={useRecoveryCode ? 'abcde-12345' : '123456'}
+                      required
+                      autoFocus
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                    />
+                  </div>
+                  <div className="mt-2 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setUseRecoveryCode(!useRecoveryCode);
+                        setCode('');
+                      }}
+                      className="font-semibold text-brick-700 hover:text-brick-500"
+                    >
+                      {useRecoveryCode ? 'Use your authenticator app instead' : 'Use a recovery code instead'}
+                    </button>
+                  </div>
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? <LoadingSpinner size="sm" /> : 'Verify'}
+                </Button>
+              </form>
+            )}
+
+            <p className="mt-10 text-center text-sm text-gray-500">
+              <button type="button" onClick={startOver} className="font-semibold leading-6 text-brick-700 hover:text-brick-500">
+                Back to sign in
+              </button>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <Card className="w-full max-w-md">
@@ -1,7 +1,7 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { registerSchema, RegisterInput } from '@/lib/validation/auth';
@@ -13,27 +13,57 @@ import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
 import Link from 'next/link';
 import api from '@/lib/api';
 import { AxiosError } from 'axios';
+import { RegistrationInfo } from '@/types';
 
 export default function RegisterPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const inviteToken = searchParams.get('invite') || undefined;
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [registration, setRegistration] = useState<RegistrationInfo | null>(null);
+  const [registrationError, setRegistrationError] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
+    setValue,
     formState: { errors },
   } = useForm<RegisterInput>({
     resolver: zodResolver(registerSchema),
   });
 
+  useEffect(() => {
+    const fetchRegistration = async () => {
+      try {
+        const response = await api.get<RegistrationInfo>('/auth/registration', {
+          params: inviteToken ? { invite: inviteToken } : undefined,
+        });
+        setRegistration(response.data);
+        // An invitation issued for one address can only be used with that address
+        if (response.data.invite?.email) {
+          setValue('email', response.data.invite.email);
+        }
+      } catch (err: unknown) {
+        const axiosError = err as AxiosError<{ message: string }>;
+        setRegistrationError(axiosError.response?.data?.message || 'Could not check whether registration is possible.');
+      }
+    };
+
+    fetchRegistration();
+  }, [inviteToken, setValue]);
+
+  const invite = registration?.invite;
+  const canRegister =
+    !!registration && registration.mode !== 'closed' && (registration.mode === 'open' || !!invite);
+
   const onSubmit = async (data: RegisterInput) => {
     setIsLoading(true);
     setError(null);
     setSuccess(null);
     try {
-      await api.post('/auth/register', data);
+      await api.post('/auth/register', { ...data, inviteToken });
       setSuccess('Registration successful! You can now log in.');
       router.push('/login');
     } catch (err: unknown) {
@@ -66,109 +96,147 @@ export default function RegisterPage() {
               <AlertDescription>{success}</AlertDescription>
             </Alert>
           )}
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            <div>
-              <label
-                htmlFor="firstName"
-                className="block text-sm font-medium leading-6 text-gray-900"
-              >
-                First Name
-              </label>
-              <div className="mt-2">
-                <Input
-                  id="firstName"
-                  type="text"
-                  autoComplete="given-name"
-                  required
-                  {...register('firstName')}
-                  className={errors.firstName ? 'border-destructive' : ''}
-                />
-                {errors.firstName && (
-                  <p className="mt-2 text-sm text-destructive">
-                    {errors.firstName.message}
-                  </p>
-                )}
-              </div>
+          {registrationError && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertTitle>Invitation Unavailable</AlertTitle>
+              <AlertDescription>{registrationError}</AlertDescription>
+            </Alert>
+          )}
+          {registration?.mode === 'closed' && (
+            <Alert className="mb-4">
+              <AlertTitle>Registration Closed</AlertTitle>
+              <AlertDescription>New accounts are created by an administrator. Ask them for an account.</AlertDescription>
+            </Alert>
+          )}
+          {registration?.mode === 'invite' && !invite && (
+            <Alert className="mb-4">
+              <AlertTitle>Invitation Required</AlertTitle>
+              <AlertDescription>
+                Registration is by invitation only. Open the link from your invitation to create an account.
+              </AlertDescription>
+            </Alert>
+          )}
+          {invite && (
+            <Alert className="mb-4">
+              <AlertTitle>You have been invited</AlertTitle>
+              <AlertDescription>
+                Your account will be created as {invite.role.toLowerCase()}
+                {invite.instanceNames.length > 0 && <> with access to {invite.instanceNames.join(', ')}</>}.
+                {invite.expiresAt && <> The invitation expires on {new Date(invite.expiresAt).toLocaleString()}.</>}
+              </AlertDescription>
+            </Alert>
+          )}
+          {!registration && !registrationError && (
+            <div className="flex justify-center py-6">
+              <LoadingSpinner />
             </div>
+          )}
+          {canRegister && (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+              <div>
+                <label
+                  htmlFor="firstName"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  First Name
+                </label>
+                <div className="mt-2">
+                  <Input
+                    id="firstName"
+                    type="text"
+                    autoComplete="given-name"
+                    required
+                    {...register('firstName')}
+                    className={errors.firstName ? 'border-destructive' : ''}
+                  />
+                  {errors.firstName && (
+                    <p className="mt-2 text-sm text-destructive">
+                      {errors.firstName.message}
+                    </p>
+                  )}
+                </div>
+              </div>
 
-            <div>
-              <label
-                htmlFor="lastName"
-                className="block text-sm font-medium leading-6 text-gray-900"
-              >
-                Last Name
-              </label>
-              <div className="mt-2">
-                <Input
-                  id="lastName"
-                  type="text"
-                  autoComplete="family-name"
-                  required
-                  {...register('lastName')}
-                  className={errors.lastName ? 'border-destructive' : ''}
-                />
-                {errors.lastName && (
-                  <p className="mt-2 text-sm text-destructive">
-                    {errors.lastName.message}
-                  </p>
-                )}
+              <div>
+                <label
+                  htmlFor="lastName"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  Last Name
+                </label>
+                <div className="mt-2">
+                  <Input
+                    id="lastName"
+                    type="text"
+                    autoComplete="family-name"
+                    required
+                    {...register('lastName')}
+                    className={errors.lastName ? 'border-destructive' : ''}
+                  />
+                  {errors.lastName && (
+                    <p className="mt-2 text-sm text-destructive">
+                      {errors.lastName.message}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium leading-6 text-gray-900"
-              >
-                Email address
-              </label>
-              <div className="mt-2">
-                <Input
-                  id="email"
-                  type="email"
-                  autoComplete="email"
-                  required
-                  {...register('email')}
-                  className={errors.email ? 'border-destructive' : ''}
-                />
-                {errors.email && (
-                  <p className="mt-2 text-sm text-destructive">
-                    {errors.email.message}
-                  </p>
-                )}
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  Email address
+                </label>
+                <div className="mt-2">
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    readOnly={!!invite?.email}
+                    {...register('email')}
+                    className={errors.email ? 'border-destructive' : ''}
+                  />
+                  {errors.email && (
+                    <p className="mt-2 text-sm text-destructive">
+                      {errors.email.message}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium leading-6 text-gray-900"
-              >
-                Password
-              </label>
-              <div className="mt-2">
-                <Input
-                  id="password"
-                  type="password"
-                  autoComplete="new-password"
-                  required
-                  {...register('password')}
-                  className={errors.password ? 'border-destructive' : ''}
-                />
-                {errors.password && (
-                  <p className="mt-2 text-sm text-destructive">
-                    {errors.password.message}
-                  </p>
-                )}
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium leading-6 text-gray-900"
+                >
+                  Password
+                </label>
+                <div className="mt-2">
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    {...register('password')}
+                    className={errors.password ? 'border-destructive' : ''}
+                  />
+                  {errors.password && (
+                    <p className="mt-2 text-sm text-destructive">
+                      {errors.password.message}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
 
-            <div>
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? <LoadingSpinner size="sm" /> : 'Register'}
-              </Button>
-            </div>
-          </form>
+              <div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? <LoadingSpinner size="sm" /> : 'Register'}
+                </Button>
+              </div>
+            </form>
+          )}
           <p className="mt-10 text-center text-sm text-gray-500">
             Already a member?{' '}
             <Link
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { AuditEvent } from '@/types';
+import api from '@/lib/api';
+import withAuth from '@/hoc/withAuth';
+import { isAxiosError } from 'axios';
+import DashboardLayout from '@/components/dashboard/DashboardLayout';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  isAxiosError(err) ? err.response?.data?.message || fallback : fallback;
+
+interface AuditFilters {
+  action: string;
+  targetType: string;
+  targetId: string;
+  actorId: string;
+  since: string;
+  until: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: '', targetType: '', targetId: '', actorId: '', since: '', until: '' };
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const AuditChanges = ({ event }: { event: AuditEvent }) => {
+  const keys = [...new Set([...Object.keys(event.before ?? {}), ...Object.keys(event.after ?? {})])];
+  if (keys.length === 0) {
+    return <span className="text-gray-400">No changes</span>;
+  }
+  return (
+    <ul className="space-y-1">
+      {keys.map((key) => (
+        <li key={key} className="font-mono text-xs break-all">
+          <span className="text-gray-500">{key}:</span>{' '}
+          <span className="text-red-700">{formatValue(event.before?.[key])}</span>
+          {' → '}
+          <span className="text-green-700">{formatValue(event.after?.[key])}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const AuditLogPage = () => {
+  const { data: session } = useSession();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<AuditEvent[]>('/audit', {
+        params: {
+          action: filters.action || undefined,
+          targetType: filters.targetType || undefined,
+          targetId: filters.targetId || undefined,
+          actorId: filters.actorId || undefined,
+          // Date inputs are in local time; the API expects ISO 8601
+          since: filters.since ? new Date(filters.since).toISOString() : undefined,
+          until: filters.until ? new Date(filters.until).toISOString() : undefined,
+          limit: 200,
+        },
+      });
+      setEvents(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch audit events.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    if (session) {
+      fetchEvents();
+    }
+  }, [session, fetchEvents]);
+
+  const updateDraft = (key: keyof AuditFilters, value: string) => setDraft((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const filterBy = (changes: Partial<AuditFilters>) => {
+    const next = { ...filters, ...changes };
+    setDraft(next);
+    setFilters(next);
+  };
+
+  const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <h3 className="text-sm font-medium text-red-800">Something went wrong</h3>
+            <p className="mt-2 text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Audit Log</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Every change made to users, instances, pages and invitations, with who made it and what changed.
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input
+                  type="text"
+                  value={draft.action}
+                  onChange={(e) => updateDraft('action', e.target.value)}
+                  placeholder="Action, e.g. instance. or user.role"
+                  className={inputClassName}
+                />
+                <select
+                  value={draft.targetType}
+                  onChange={(e) => updateDraft('targetType', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">All targets</option>
+                  <option value="user">Users</option>
+                  <option value="instance">Instances</option>
+                  <option value="page">Pages</option>
+                  <option value="invite">Invitations</option>
+                  <option value="session">Sessions</option>
+                </select>
+                <input
+                  type="text"
+                  value={draft.targetId}
+                  onChange={(e) => updateDraft('targetId', e.target.value)}
+                  placeholder="Target ID"
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min="1"
+                  value={draft.actorId}
+                  onChange={(e) => updateDraft('actorId', e.target.value)}
+                  placeholder="Actor user ID"
+                  className={inputClassName}
+                />
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span className="w-12">From</span>
+                  <input
+                    type="datetime-local"
+                    value={draft.since}
+                    onChange={(e) => updateDraft('since', e.target.value)}
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span className="w-12">To</span>
+                  <input
+                    type="datetime-local"
+                    value={draft.until}
+                    onChange={(e) => updateDraft('until', e.target.value)}
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-100"
+                >
+                  Clear
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                >
+                  Filter
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            {loading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-gray-600">Loading audit events...</span>
+              </div>
+            ) : (
+              <>
+                <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
+                  <table className="w-full min-w-[900px] divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-44">
+                          When
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actor
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Action
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Target
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Changes
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {events.map((event) => (
+                        <tr key={event.id} className="hover:bg-gray-50 align-top">
+                          <td className="px-4 py-4 text-sm text-gray-500 whitespace-nowrap">
+                            {new Date(event.createdAt).toLocaleString()}
+                            {event.ipAddress && <div className="text-xs text-gray-400 mt-1">{event.ipAddress}</div>}
+                          </td>
+                          <td className="px-4 py-4 text-sm">
+                            {event.actorId ? (
+                              <button
+                                onClick={() => filterBy({ actorId: String(event.actorId) })}
+                                className="text-blue-600 hover:text-blue-800 text-left"
+                              >
+                                {event.actorEmail || `User ${event.actorId}`}
+                              </button>
+                            ) : (
+                              <span className="text-gray-500">{event.actorEmail || 'Anonymous'}</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-4 text-sm">
+                            <div className="font-mono text-gray-900">{event.action}</div>
+                            {!event.success && (
+                              <span className="inline-flex mt-1 px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                Failed{event.error ? `: ${event.error}` : ''}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-4 text-sm">
+                            {event.targetType ? (
+                              <button
+                                onClick={() => filterBy({ targetType: event.targetType ?? '', targetId: event.targetId ?? '' })}
+                                className="text-blue-600 hover:text-blue-800 text-left break-all"
+                              >
+                                {event.targetType} {event.targetId}
+                              </button>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                            {event.details && (
+                              <div className="font-mono text-xs text-gray-500 mt-1 break-all">
+                                {JSON.stringify(event.details)}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-4 text-sm">
+                            <AuditChanges event={event} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {events.length === 0 && (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No audit events match these filters.</p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default withAuth(AuditLogPage, ['ADMIN']);
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { ClientLog, User } from '@/types';
+import api from '@/lib/api';
+import withAuth from '@/hoc/withAuth';
+import { isAxiosError } from 'axios';
+import DashboardLayout from '@/components/dashboard/DashboardLayout';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  isAxiosError(err) ? err.response?.data?.message || fallback : fallback;
+
+interface ClientLogFilters {
+  userId: string;
+  component: string;
+  level: string;
+  since: string;
+  until: string;
+}
+
+const EMPTY_FILTERS: ClientLogFilters = { userId: '', component: '', level: '', since: '', until: '' };
+
+const LEVEL_STYLES: Record<ClientLog['level'], string> = {
+  warn: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+const ClientLogsPage = () => {
+  const { data: session } = useSession();
+  const [logs, setLogs] = useState<ClientLog[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [components, setComponents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ClientLogFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<ClientLogFilters>(EMPTY_FILTERS);
+
+  const fetchLogs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.get<ClientLog[]>('/client-logs', {
+        params: {
+          userId: filters.userId || undefined,
+          component: filters.component || undefined,
+          level: filters.level || undefined,
+          // Date inputs are in local time; the API expects ISO 8601
+          since: filters.since ? new Date(filters.since).toISOString() : undefined,
+          until: filters.until ? new Date(filters.until).toISOString() : undefined,
+          limit: 200,
+        },
+      });
+      setLogs(response.data);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to fetch client logs.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    const fetchOptions = async () => {
+      try {
+        const [usersResponse, componentsResponse] = await Promise.all([
+          api.get<User[]>('/users'),
+          api.get<string[]>('/client-logs/components'),
+        ]);
+        setUsers(usersResponse.data);
+        setComponents(componentsResponse.data);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to fetch filter options.'));
+      }
+    };
+
+    if (session) {
+      fetchOptions();
+    }
+  }, [session]);
+
+  useEffect(() => {
+    if (session) {
+      fetchLogs();
+    }
+  }, [session, fetchLogs]);
+
+  const updateDraft = (key: keyof ClientLogFilters, value: string) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(draft);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const inputClassName =
+    'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <h3 className="text-sm font-medium text-red-800">Something went wrong</h3>
+            <p className="mt-2 text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Client Logs</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Warnings and errors from players&apos; browsers. Secrets are removed before they are sent, and only a sample of warnings is kept.
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <select value={draft.userId} onChange={(e) => updateDraft('userId', e.target.value)} className={inputClassName}>
+                  <option value="">All users</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.email}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={draft.component}
+                  onChange={(e) => updateDraft('component', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">All components</option>
+                  {components.map((component) => (
+                    <option key={component} value={component}>
+                      {component}
+                    </option>
+                  ))}
+                </select>
+                <select value={draft.level} onChange={(e) => updateDraft('level', e.target.value)} className={inputClassName}>
+                  <option value="">Warnings and errors</option>
+                  <option value="warn">Warnings</option>
+                  <option value="error">Errors</option>
+                </select>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span className="w-12">From</span>
+                  <input
+                    type="datetime-local"
+                    value={draft.since}
+                    onChange={(e) => updateDraft('since', e.target.value)}
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span className="w-12">To</span>
+                  <input
+                    type="datetime-local"
+                    value={draft.until}
+                    onChange={(e) => updateDraft('until', e.target.value)}
+                    className={`flex-1 ${inputClassName}`}
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={handleReset}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-100"
+                >
+                  Clear
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                >
+                  Filter
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            {loading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                <span className="ml-3 text-gray-600">Loading client logs...</span>
+              </div>
+            ) : (
+              <>
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {logs.map((log) => (
+                    <li key={log.id} className="px-4 py-3 text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${LEVEL_STYLES[log.level]}`}>
+                          {log.level}
+                        </span>
+                        {log.component && <span className="font-mono text-xs text-gray-500">[{log.component}]</span>}
+                        <span className="font-medium text-gray-900 break-all">{log.message}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {new Date(log.occurredAt).toLocaleString()}
+                        {' · '}
+                        {log.userEmail || 'Signed out'}
+                        {log.url && ` · ${log.url}`}
+                        {log.userAgent && ` · ${log.userAgent}`}
+                      </div>
+                      {(log.data !== null || log.stack) && (
+                        <details className="mt-2">
+                          <summary className="text-xs text-blue-600 cursor-pointer">Details</summary>
+                          {log.data !== null && (
+                            <pre className="mt-2 p-2 bg-gray-50 rounded text-xs overflow-x-auto">
+                              {JSON.stringify(log.data, null, 2)}
+                            </pre>
+                          )}
+                          {log.stack && (
+                            <pre className="mt-2 p-2 bg-gray-50 rounded text-xs overflow-x-auto">{log.stack}</pre>
+                          )}
+                        </details>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {logs.length === 0 && (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No client logs match these filters.</p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default withAuth(ClientLogsPage, ['ADMIN']);
@@ -0,0 +1,307 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { CreatedInvite, Invite } from '@/types';
+import { FoundryInstance } from '@/types/foundry';
+import api from '@/lib/api';
+import withAuth from '@/hoc/withAuth';
+import { isAxiosError } from 'axios';
+import DashboardLayout from '@/components/dashboard/DashboardLayout';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  isAxiosError(err) ? err.response?.data?.message || fallback : fallback;
+
+const toggleId = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+const STATUS_STYLES: Record<Invite['status'], string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  used: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-800',
+};
+
+const InviteManagementPage = () => {
+  const { data: session } = useSession();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [instances, setInstances] = useState<FoundryInstance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState('PLAYER');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [sendEmail, setSendEmail] = useState(false);
+  const [instanceIds, setInstanceIds] = useState<string[]>([]);
+  // The code of a new invitation is only returned once, so it is shown until the next one is created
+  const [created, setCreated] = useState<CreatedInvite | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchInvites = useCallback(async () => {
+    const response = await api.get<Invite[]>('/invites');
+    setInvites(response.data);
+  }, []);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [, instancesResponse] = await Promise.all([fetchInvites(), api.get<FoundryInstance[]>('/foundry')]);
+        setInstances(instancesResponse.data);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to fetch invitations.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (session) {
+      fetchData();
+    }
+  }, [session, fetchInvites]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const response = await api.post<CreatedInvite>('/invites', {
+        email: email || undefined,
+        role,
+        instanceIds,
+        expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : undefined,
+        sendEmail: sendEmail && !!email,
+      });
+      setCreated(response.data);
+      setEmail('');
+      setSendEmail(false);
+      setInstanceIds([]);
+      await fetchInvites();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create invitation.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (invite: Invite) => {
+    const label = invite.email ? `the invitation for ${invite.email}` : 'this invitation';
+    if (!window.confirm(`Delete ${label}? Its link will stop working.`)) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await api.delete(`/invites/${invite.id}`);
+      await fetchInvites();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to delete invitation.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!created) {
+      return;
+    }
+    await navigator.clipboard.writeText(created.url);
+    setCopied(true);
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Loading invitations...</span>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <h3 className="text-sm font-medium text-red-800">Something went wrong</h3>
+            <p className="mt-2 text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Invite Someone</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Each invitation creates one account. Leave the email empty to get a link you can share yourself.
+            </p>
+
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email (optional)"
+                  className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                >
+                  <option value="PLAYER">Player</option>
+                  <option value="GM">Game Master</option>
+                  <option value="ADMIN">Admin</option>
+                </select>
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                >
+                  <option value="1">Expires in 1 day</option>
+                  <option value="7">Expires in 7 days</option>
+                  <option value="30">Expires in 30 days</option>
+                  <option value="">Never expires</option>
+                </select>
+              </div>
+
+              {instances.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-2">Join these games</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+                    {instances.map((instance) => (
+                      <label key={instance.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={instanceIds.includes(instance.id)}
+                          onChange={() => setInstanceIds((ids) => toggleId(ids, instance.id))}
+                        />
+                        <span className="truncate">{instance.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sendEmail}
+                    disabled={!email}
+                    onChange={(e) => setSendEmail(e.target.checked)}
+                  />
+                  <span>Email the invitation</span>
+                </label>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                >
+                  Create Invitation
+                </button>
+              </div>
+            </form>
+
+            {created && (
+              <div className="mt-6 bg-green-50 border border-green-200 rounded-md p-4">
+                <h3 className="text-sm font-medium text-green-800">
+                  Invitation created{created.emailSent ? ` and sent to ${created.email}` : ''}
+                </h3>
+                <p className="mt-1 text-sm text-green-700">
+                  Copy the link now; it cannot be shown again.
+                </p>
+                <div className="mt-3 flex items-center space-x-2">
+                  <input
+                    type="text"
+                    readOnly
+                    value={created.url}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-white"
+                  />
+                  <button
+                    onClick={handleCopy}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-100"
+                  >
+                    {copied ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Invitations</h2>
+
+            <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
+              <table className="w-full min-w-[700px] divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Invitation
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Games
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-24">
+                      Status
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-24">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {invites.map((invite) => (
+                    <tr key={invite.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-4 text-sm">
+                        <div className="font-medium text-gray-900">
+                          {invite.email || 'Anyone with the link'} <span className="text-gray-500">({invite.role})</span>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Created {new Date(invite.createdAt).toLocaleString()}
+                          {invite.createdBy && ` by ${invite.createdBy}`}
+                          {invite.status === 'used' && invite.usedBy && ` · used by ${invite.usedBy}`}
+                          {invite.status === 'pending' && invite.expiresAt && ` · expires ${new Date(invite.expiresAt).toLocaleString()}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-4 text-sm text-gray-500">
+                        {invite.instances.length === 0 ? 'None' : invite.instances.map((i) => i.name).join(', ')}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[invite.status]}`}>
+                          {invite.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() => handleDelete(invite)}
+                          disabled={saving}
+                          className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {invites.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-500">No invitations yet.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default withAuth(InviteManagementPage, ['ADMIN']);
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { AdminPage, User } from '@/types';
+import api from '@/lib/api';
+import withAuth from '@/hoc/withAuth';
+import { isAxiosError } from 'axios';
+import DashboardLayout from '@/components/dashboard/DashboardLayout';
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  isAxiosError(err) ? err.response?.data?.message || fallback : fallback;
+
+const toggleId = (ids: number[], id: number) =>
+  ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+const PageManagementPage = () => {
+  const { data: session } = useSession();
+  const [pages, setPages] = useState<AdminPage[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  // Pages and users picked for a bulk assignment
+  const [selectedPageIds, setSelectedPageIds] = useState<number[]>([]);
+  const [selectedUserIds, setSelectedUserIds] = useState<number[]>([]);
+
+  const fetchPages = useCallback(async () => {
+    const response = await api.get<AdminPage[]>('/pages');
+    setPages(response.data);
+  }, []);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [, usersResponse] = await Promise.all([fetchPages(), api.get<User[]>('/users')]);
+        setUsers(usersResponse.data);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to fetch pages.'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (session) {
+      fetchData();
+    }
+  }, [session, fetchPages]);
+
+  const runAction = async (action: () => Promise<unknown>, fallback: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      await fetchPages();
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await runAction(
+      () => api.post('/pages', { title: newTitle, url: newUrl, description: newDescription || undefined }),
+      'Failed to create page.'
+    );
+    if (created) {
+      setNewTitle('');
+      setNewUrl('');
+      setNewDescription('');
+    }
+  };
+
+  const handleToggleActive = (page: AdminPage) =>
+    runAction(() => api.patch(`/pages/${page.id}`, { isActive: !page.isActive }), 'Failed to update page.');
+
+  const handleDelete = async (page: AdminPage) => {
+    if (!window.confirm(`Delete "${page.title}"? It will be removed from every user it is assigned to.`)) {
+      return;
+    }
+    const deleted = await runAction(() => api.delete(`/pages/${page.id}`), 'Failed to delete page.');
+    if (deleted) {
+      setSelectedPageIds((ids) => ids.filter((id) => id !== page.id));
+    }
+  };
+
+  const handleAssignment = (assign: boolean) =>
+    runAction(
+      () =>
+        assign
+          ? api.post('/pages/assignments', { pageIds: selectedPageIds, userIds: selectedUserIds })
+          : api.delete('/pages/assignments', { data: { pageIds: selectedPageIds, userIds: selectedUserIds } }),
+      assign ? 'Failed to assign pages.' : 'Failed to unassign pages.'
+    );
+
+  const userName = (userId: number) => {
+    const user = users.find((u) => u.id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : `User ${userId}`;
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          <span className="ml-3 text-gray-600">Loading pages...</span>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const canAssign = selectedPageIds.length > 0 && selectedUserIds.length > 0 && !saving;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <h3 className="text-sm font-medium text-red-800">Something went wrong</h3>
+            <p className="mt-2 text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Page Management</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Share handouts, wiki links and character sheets with players. Inactive pages stay assigned but are hidden from players.
+            </p>
+
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-6">
+              <input
+                type="text"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                placeholder="Title"
+                required
+                maxLength={200}
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              <input
+                type="url"
+                value={newUrl}
+                onChange={(e) => setNewUrl(e.target.value)}
+                placeholder="https://"
+                required
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              <input
+                type="text"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+                placeholder="Description (optional)"
+                maxLength={1000}
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+              >
+                Add Page
+              </button>
+            </form>
+
+            <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
+              <table className="w-full min-w-[700px] divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 w-10"></th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Page
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Assigned To
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-24">
+                      Status
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider w-48">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {pages.map((page) => (
+                    <tr key={page.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedPageIds.includes(page.id)}
+                          onChange={() => setSelectedPageIds((ids) => toggleId(ids, page.id))}
+                          aria-label={`Select ${page.title}`}
+                        />
+                      </td>
+                      <td className="px-4 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{page.title}</div>
+                        <a
+                          href={page.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block truncate max-w-[260px] text-blue-600 hover:underline"
+                          title={page.url}
+                        >
+                          {page.url}
+                        </a>
+                        {page.description && <div className="text-xs text-gray-500 mt-1">{page.description}</div>}
+                      </td>
+                      <td className="px-4 py-4 text-sm text-gray-500">
+                        {page.assignedUserIds.length === 0
+                          ? 'Nobody'
+                          : page.assignedUserIds.map(userName).join(', ')}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          page.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {page.isActive ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm space-x-2">
+                        <button
+                          onClick={() => handleToggleActive(page)}
+                          disabled={saving}
+                          className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                        >
+                          {page.isActive ? 'Deactivate' : 'Activate'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(page)}
+                          disabled={saving}
+                          className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {pages.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-500">No pages yet.</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Assign Pages</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Select pages in the table above and the users below, then assign or unassign them in one go.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2 mb-6">
+              {users.map((user) => (
+                <label key={user.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedUserIds.includes(user.id)}
+                    onChange={() => setSelectedUserIds((ids) => toggleId(ids, user.id))}
+                  />
+                  <span className="truncate" title={user.email}>
+                    {user.firstName} {user.lastName} <span className="text-gray-400">({user.email})</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => handleAssignment(true)}
+                disabled={!canAssign}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm disabled:opacity-50"
+              >
+                Assign {selectedPageIds.length} page{selectedPageIds.length !== 1 ? 's' : ''} to {selectedUserIds.length} user{selectedUserIds.length !== 1 ? 's' : ''}
+              </button>
+              <button
+                onClick={() => handleAssignment(false)}
+                disabled={!canAssign}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Unassign
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default withAuth(PageManagementPage, ['ADMIN']);
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
-import { User } from '@/types';
+import { AccountLockout, User } from '@/types';
 import api from '@/lib/api';
 import withAuth from '@/hoc/withAuth';
 import { isAxiosError } from 'axios';
@@ -14,6 +14,11 @@ const UserManagementPage = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updatingUserId, setUpdatingUserId] = useState<number | null>(null);
+  const [signingOutUserId, setSigningOutUserId] = useState<number | null>(null);
+  const [resettingTwoFactorUserId, setResettingTwoFactorUserId] = useState<number | null>(null);
+  const [lockouts, setLockouts] = useState<AccountLockout[]>([]);
+  const [unlockingUserId, setUnlockingUserId] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchUsers = async () => {
@@ -31,11 +36,43 @@ const UserManagementPage = () => {
       }
     };
 
+    const fetchLockouts = async () => {
+      try {
+        const response = await api.get<AccountLockout[]>('/auth/lockouts');
+        setLockouts(response.data);
+      } catch {
+        // The users can still be managed without the lockouts
+        setLockouts([]);
+      }
+    };
+
     if (session) {
       fetchUsers();
+      fetchLockouts();
     }
   }, [session]);
 
+  const lockoutOf = (user: User) => lockouts.find((lockout) => lockout.userId === user.id);
+
+  const handleUnlock = async (user: User) => {
+    setUnlockingUserId(user.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await api.delete(`/auth/users/${user.id}/lockout`);
+      setLockouts(lockouts.filter((lockout) => lockout.userId !== user.id));
+      setNotice(`Unlocked ${user.email}.`);
+    } catch (err) {
+      if (isAxiosError(err)) {
+        setError(err.response?.data?.message || 'Failed to unlock the user.');
+      } else {
+        setError('Failed to unlock the user.');
+      }
+    } finally {
+      setUnlockingUserId(null);
+    }
+  };
+
   const handleRoleChange = async (userId: number, newRole: string) => {
     setUpdatingUserId(userId);
     setError(null);
@@ -43,7 +80,7 @@ const UserManagementPage = () => {
       await api.patch(`/users/${userId}/role`, { role: newRole });
       setUsers(
         users.map((user) =>
-          user.id === userId ? { ...user, role: newRole as 'ADMIN' | 'PLAYER' } : user
+          user.id === userId ? { ...user, role: newRole as 'ADMIN' | 'GM' | 'PLAYER' } : user
         )
       );
     } catch (err) {
@@ -59,6 +96,48 @@ const UserManagementPage = () => {
     }
   };
 
+  const handleSignOutEverywhere = async (user: User) => {
+    if (!window.confirm(`Sign ${user.email} out of every device?`)) {
+      return;
+    }
+    setSigningOutUserId(user.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await api.delete<{ count: number }>(`/auth/users/${user.id}/sessions`);
+      setNotice(`Signed ${user.email} out of ${response.data.count} session${response.data.count !== 1 ? 's' : ''}.`);
+    } catch (err) {
+      if (isAxiosError(err)) {
+        setError(err.response?.data?.message || 'Failed to sign the user out.');
+      } else {
+        setError('Failed to sign the user out.');
+      }
+    } finally {
+      setSigningOutUserId(null);
+    }
+  };
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!window.confirm(`Turn off two-factor authentication for ${user.email}? Use this when they have lost their authenticator app and recovery codes.`)) {
+      return;
+    }
+    setResettingTwoFactorUserId(user.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await api.delete(`/auth/2fa/users/${user.id}`);
+      setNotice(`Two-factor authentication turned off for ${user.email}.`);
+    } catch (err) {
+      if (isAxiosError(err)) {
+        setError(err.response?.data?.message || 'Failed to reset two-factor authentication.');
+      } else {
+        setError('Failed to reset two-factor authentication.');
+      }
+    } finally {
+      setResettingTwoFactorUserId(null);
+    }
+  };
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -101,6 +180,9 @@ const UserManagementPage = () => {
             <p className="text-sm text-gray-600 mb-6">
               Manage user roles and permissions. You cannot change your own role.
             </p>
+            {notice && (
+              <div className="mb-6 bg-green-50 border border-green-200 rounded-md p-3 text-sm text-green-800">{notice}</div>
+            )}
             
             {/* Desktop Table View */}
             <div className="hidden md:block overflow-x-auto rounded-lg border border-gray-200 shadow-sm">
@@ -134,6 +216,11 @@ const UserManagementPage = () => {
                         <div className="truncate max-w-[200px]" title={user.email}>
                           {user.email}
                         </div>
+                        {lockoutOf(user) && (
+                          <span className="mt-1 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                            Locked until {new Date(lockoutOf(user)!.lockedUntil).toLocaleTimeString()}
+                          </span>
+                        )}
                       </td>
                       <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
                         {user.firstName} {user.lastName}
@@ -142,6 +229,8 @@ const UserManagementPage = () => {
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                           user.role === 'ADMIN' 
                             ? 'bg-purple-100 text-purple-800' 
+                            : user.role === 'GM'
+                            ? 'bg-blue-100 text-blue-800'
                             : 'bg-green-100 text-green-800'
                         }`}>
                           {user.role}
@@ -156,6 +245,7 @@ const UserManagementPage = () => {
                             className="block w-full px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-xs disabled:bg-gray-100 disabled:cursor-not-allowed"
                           >
                             <option value="PLAYER">Player</option>
+                            <option value="GM">Game Master</option>
                             <option value="ADMIN">Admin</option>
                           </select>
                           {updatingUserId === user.id && (
@@ -164,6 +254,29 @@ const UserManagementPage = () => {
                               <span className="ml-1 text-xs text-gray-500">Updating...</span>
                             </div>
                           )}
+                          <button
+                            onClick={() => handleSignOutEverywhere(user)}
+                            disabled={signingOutUserId === user.id}
+                            className="flex-shrink-0 px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            Sign out everywhere
+                          </button>
+                          <button
+                            onClick={() => handleResetTwoFactor(user)}
+                            disabled={resettingTwoFactorUserId === user.id}
+                            className="flex-shrink-0 px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            Reset 2FA
+                          </button>
+                          {lockoutOf(user) && (
+                            <button
+                              onClick={() => handleUnlock(user)}
+                              disabled={unlockingUserId === user.id}
+                              className="flex-shrink-0 px-2 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md text-xs disabled:opacity-50"
+                            >
+                              Unlock
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -185,11 +298,18 @@ const UserManagementPage = () => {
                         {user.email}
                       </p>
                       <p className="text-xs text-gray-400">ID: {user.id}</p>
+                      {lockoutOf(user) && (
+                        <p className="text-xs font-semibold text-red-700">
+                          Locked until {new Date(lockoutOf(user)!.lockedUntil).toLocaleTimeString()}
+                        </p>
+                      )}
                     </div>
                     <div className="ml-4 flex-shrink-0">
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
                         user.role === 'ADMIN' 
                           ? 'bg-purple-100 text-purple-800' 
+                          : user.role === 'GM'
+                          ? 'bg-blue-100 text-blue-800'
                           : 'bg-green-100 text-green-800'
                       }`}>
                         {user.role}
@@ -205,6 +325,7 @@ const UserManagementPage = () => {
                       className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm disabled:bg-gray-100 disabled:cursor-not-allowed"
                     >
                       <option value="PLAYER">Player</option>
+                      <option value="GM">Game Master</option>
                       <option value="ADMIN">Admin</option>
                     </select>
                     {updatingUserId === user.id && (
@@ -213,6 +334,29 @@ const UserManagementPage = () => {
                         <span className="ml-2 text-xs text-gray-500">Updating...</span>
                       </div>
                     )}
+                    <button
+                      onClick={() => handleSignOutEverywhere(user)}
+                      disabled={signingOutUserId === user.id}
+                      className="flex-shrink-0 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Sign out
+                    </button>
+                    <button
+                      onClick={() => handleResetTwoFactor(user)}
+                      disabled={resettingTwoFactorUserId === user.id}
+                      className="flex-shrink-0 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      Reset 2FA
+                    </button>
+                    {lockoutOf(user) && (
+                      <button
+                        onClick={() => handleUnlock(user)}
+                        disabled={unlockingUserId === user.id}
+                        className="flex-shrink-0 px-3 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm disabled:opacity-50"
+                      >
+                        Unlock
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -7,37 +7,23 @@ import DashboardLayout from "../../components/dashboard/DashboardLayout";
 import DashboardHeader from "../../components/dashboard/DashboardHeader";
 import SystemHealthCard from "../../components/dashboard/SystemHealthCard";
 import FoundryInstanceManagement from "../../components/dashboard/FoundryInstanceManagement";
+import MyGamesCard from "../../components/dashboard/MyGamesCard";
+import MyPagesCard from "../../components/dashboard/MyPagesCard";
+import InstanceLogPanel from "../../components/dashboard/InstanceLogPanel";
 import useLogger from "../../lib/useLogger";
 import DevModeIndicator from "../../components/dev/DevModeIndicator";
-import { FoundryInstance } from "../../types/foundry";
-
-interface HealthStatus {
-  status: string;
-  info: {
-    database: {
-      status: string;
-    };
-    foundry: {
-      status: string;
-    };
-  };
-  error: Record<string, unknown> | null;
-  details: {
-    database: {
-      status: string;
-    };
-    foundry: {
-      status: string;
-    };
-  };
-}
+import { FoundryBackupRun, FoundryEvent, FoundryHealthSample, FoundryInstance, FoundryJob, FoundryStatus, MyFoundryGame } from "../../types/foundry";
+import { subscribeToFoundryEvents } from "../../lib/events";
+import { Page, SystemHealth } from "../../types";
 
  
+const canManageInstances = (role?: string) => role === 'ADMIN' || role === 'GM';
+
 export default function DashboardPage() {
   const log = useLogger({ component: 'DashboardPage' });
   const { data: session } = useSession();
   
-  const [health, setHealth] = useState<HealthStatus | null>(null);
+  const [health, setHealth] = useState<SystemHealth | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -47,14 +33,36 @@ export default function DashboardPage() {
   const [loadingFoundry, setLoadingFoundry] = useState(false);
   const [foundryError, setFoundryError] = useState<string | null>(null);
   const [healthCheckingInstances, setHealthCheckingInstances] = useState<Set<string>>(new Set());
+  // Lifecycle jobs still queued or running, keyed by instance ID
+  const [activeJobs, setActiveJobs] = useState<Record<string, FoundryJob>>({});
+  // Backup history of the one instance whose row is expanded
+  const [backupHistoryInstanceId, setBackupHistoryInstanceId] = useState<string | null>(null);
+  const [backupRuns, setBackupRuns] = useState<FoundryBackupRun[]>([]);
+  const [loadingBackupRuns, setLoadingBackupRuns] = useState(false);
+  const [backupRunsVersion, setBackupRunsVersion] = useState(0);
+  // Health checks of the one instance whose health history is expanded
+  const [healthHistoryInstanceId, setHealthHistoryInstanceId] = useState<string | null>(null);
+  const [healthSamples, setHealthSamples] = useState<FoundryHealthSample[]>([]);
+  const [loadingHealthSamples, setLoadingHealthSamples] = useState(false);
+  // Instance whose container log is open
+  const [logsInstanceId, setLogsInstanceId] = useState<string | null>(null);
+  // Players get the games they own or were invited to instead of the management card
+  const [myGames, setMyGames] = useState<MyFoundryGame[]>([]);
+  const [loadingMyGames, setLoadingMyGames] = useState(false);
+  const [myGamesError, setMyGamesError] = useState<string | null>(null);
+  // Pages an admin has assigned to the current user
+  const [myPages, setMyPages] = useState<Page[]>([]);
+  const [loadingMyPages, setLoadingMyPages] = useState(false);
+  const [myPagesError, setMyPagesError] = useState<string | null>(null);
   
+  const isAdmin = session?.user?.role === 'ADMIN';
   const fetchHealth = useCallback(async () => {
     const startTime = performance.now();
     log.info('Starting health status fetch');
     setLoading(true);
     setError(null);
     try {
-      const data = await getHealthStatus();
+      const data = await getHealthStatus(isAdmin);
       setHealth(data);
       log.info('Health status fetched successfully', data);
     } catch (err) {
@@ -67,27 +75,23 @@ export default function DashboardPage() {
       const duration = performance.now() - startTime;
       log.performance('fetchHealth', duration);
     }
-  }, []); // Remove log dependency to prevent recreation
+  }, [isAdmin]); // Remove log dependency to prevent recreation
 
   const checkInstanceHealth = useCallback(async (instanceId: string) => {
     log.info('Starting health check for instance', { instanceId });
     setHealthCheckingInstances(prev => new Set(prev).add(instanceId));
     
     try {
-      const response = await api.get<FoundryInstance[]>('/foundry');
-      const data = response.data;
-      const updatedInstance = data.find(instance => instance.id === instanceId);
-      
-      if (updatedInstance) {
-        setFoundryInstances(prev => 
-          prev.map(instance => 
-            instance.id === instanceId 
-              ? { ...instance, healthStatus: updatedInstance.healthStatus }
-              : instance
-          )
-        );
-        log.info('Health check completed for instance', { instanceId, healthStatus: updatedInstance.healthStatus });
-      }
+      const response = await api.get<{ healthStatus: FoundryInstance['healthStatus'] } & FoundryStatus>(`/foundry/${instanceId}/health`);
+      const { healthStatus, ...foundryStatus } = response.data;
+      setFoundryInstances(prev => 
+        prev.map(instance => 
+          instance.id === instanceId 
+            ? { ...instance, healthStatus, foundryStatus }
+            : instance
+        )
+      );
+      log.info('Health check completed for instance', { instanceId, healthStatus });
     } catch (err) {
       log.error('Health check failed for instance', { instanceId, error: err });
       // Set health status to unknown on error
@@ -108,9 +112,9 @@ export default function DashboardPage() {
   }, []); // Remove log dependency
 
   const fetchFoundryInstances = useCallback(async () => {
-    // Only fetch Foundry instances for admin users
-    if (session?.user?.role !== 'ADMIN') {
-      log.info('Skipping Foundry instances fetch - user is not admin');
+    // Only admins and GMs manage Foundry instances
+    if (!canManageInstances(session?.user?.role)) {
+      log.info('Skipping Foundry instances fetch - user is neither admin nor GM');
       return;
     }
 
@@ -135,20 +139,66 @@ export default function DashboardPage() {
     }
   }, [session]); // Only depend on session, not log
 
+  const fetchMyGames = useCallback(async () => {
+    if (!session || canManageInstances(session.user?.role)) {
+      return;
+    }
+
+    log.info('Starting my games fetch');
+    setLoadingMyGames(true);
+    setMyGamesError(null);
+    try {
+      const response = await api.get<MyFoundryGame[]>('/foundry/mine');
+      setMyGames(response.data);
+      log.info('My games fetched successfully', { count: response.data.length });
+    } catch (err) {
+      const errorMessage = `Failed to fetch your games: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
+      setMyGamesError(errorMessage);
+      log.error('My games fetch failed', { error: err, message: errorMessage });
+    } finally {
+      setLoadingMyGames(false);
+    }
+  }, [session, log]);
+
+  const fetchMyPages = useCallback(async () => {
+    log.info('Starting my pages fetch');
+    setLoadingMyPages(true);
+    setMyPagesError(null);
+    try {
+      const response = await api.get<Page[]>('/pages/mine');
+      setMyPages(response.data);
+      log.info('My pages fetched successfully', { count: response.data.length });
+    } catch (err) {
+      const errorMessage = `Failed to fetch your pages: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
+      setMyPagesError(errorMessage);
+      log.error('My pages fetch failed', { error: err, message: errorMessage });
+    } finally {
+      setLoadingMyPages(false);
+    }
+  }, [log]);
+
+  // Lifecycle endpoints return a queued job; remember it so its progress is polled below
+  const trackJob = useCallback((job: FoundryJob) => {
+    if (!job.instanceId) return;
+    const instanceId = job.instanceId;
+    setActiveJobs(prev => ({ ...prev, [instanceId]: job }));
+    log.info('Tracking Foundry job', { jobId: job.id, type: job.type, instanceId });
+  }, [log]);
+
   const createFoundryInstance = useCallback(async () => {
     const startTime = performance.now();
-    const instanceData = { name: newInstanceName, port: parseInt(newInstancePort) };
+    // Leave the port out to let the server pick a free one from its pool
+    const instanceData = newInstancePort ? { name: newInstanceName, port: parseInt(newInstancePort) } : { name: newInstanceName };
     log.userAction('createFoundryInstance', instanceData);
     setLoadingFoundry(true);
     setFoundryError(null);
     try {
       // Remove manual headers - let the optimized axios interceptor handle authentication
-      await api.post('/foundry/create', instanceData);
+      const response = await api.post<FoundryJob>('/foundry/create', instanceData);
       setNewInstanceName('');
       setNewInstancePort('');
-      log.info('Foundry instance created successfully', instanceData);
-      // Refresh instances after creation
-      fetchFoundryInstances();
+      log.info('Foundry instance creation queued', { ...instanceData, jobId: response.data.id });
+      trackJob(response.data);
     } catch (err) {
       const errorMessage = `Failed to create Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
       setFoundryError(errorMessage);
@@ -158,7 +208,7 @@ export default function DashboardPage() {
       const duration = performance.now() - startTime;
       log.performance('createFoundryInstance', duration);
     }
-  }, [newInstanceName, newInstancePort, log, fetchFoundryInstances]);
+  }, [newInstanceName, newInstancePort, log, trackJob]);
 
   const startFoundryInstance = useCallback(async (instanceId: string) => {
     const startTime = performance.now();
@@ -167,10 +217,9 @@ export default function DashboardPage() {
     setFoundryError(null);
     try {
       // Remove manual headers - let the optimized axios interceptor handle authentication
-      await api.post(`/foundry/${instanceId}/start`, {});
-      log.info('Foundry instance started successfully', { instanceId });
-      // Refresh instances after start
-      fetchFoundryInstances();
+      const response = await api.post<FoundryJob>(`/foundry/${instanceId}/start`, {});
+      log.info('Foundry instance start queued', { instanceId, jobId: response.data.id });
+      trackJob(response.data);
     } catch (err) {
       const errorMessage = `Failed to start Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
       setFoundryError(errorMessage);
@@ -180,7 +229,7 @@ export default function DashboardPage() {
       const duration = performance.now() - startTime;
       log.performance('startFoundryInstance', duration);
     }
-  }, [log, fetchFoundryInstances]);
+  }, [log, trackJob]);
 
   const stopFoundryInstance = useCallback(async (instanceId: string) => {
     const startTime = performance.now();
@@ -189,10 +238,9 @@ export default function DashboardPage() {
     setFoundryError(null);
     try {
       // Remove manual headers - let the optimized axios interceptor handle authentication
-      await api.post(`/foundry/${instanceId}/stop`, {});
-      log.info('Foundry instance stopped successfully', { instanceId });
-      // Refresh instances after stop
-      fetchFoundryInstances();
+      const response = await api.post<FoundryJob>(`/foundry/${instanceId}/stop`, {});
+      log.info('Foundry instance stop queued', { instanceId, jobId: response.data.id });
+      trackJob(response.data);
     } catch (err) {
       const errorMessage = `Failed to stop Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
       setFoundryError(errorMessage);
@@ -202,7 +250,7 @@ export default function DashboardPage() {
       const duration = performance.now() - startTime;
       log.performance('stopFoundryInstance', duration);
     }
-  }, [log, fetchFoundryInstances]);
+  }, [log, trackJob]);
 
   const deleteFoundryInstance = useCallback(async (instanceId: string) => {
     const startTime = performance.now();
@@ -211,10 +259,9 @@ export default function DashboardPage() {
     setFoundryError(null);
     try {
       // Remove manual headers - let the optimized axios interceptor handle authentication
-      await api.delete(`/foundry/${instanceId}`);
-      log.info('Foundry instance deleted successfully', { instanceId });
-      // Refresh instances after deletion
-      fetchFoundryInstances();
+      const response = await api.delete<FoundryJob>(`/foundry/${instanceId}`);
+      log.info('Foundry instance deletion queued', { instanceId, jobId: response.data.id });
+      trackJob(response.data);
     } catch (err) {
       const errorMessage = `Failed to delete Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
       setFoundryError(errorMessage);
@@ -224,17 +271,228 @@ export default function DashboardPage() {
       const duration = performance.now() - startTime;
       log.performance('deleteFoundryInstance', duration);
     }
-  }, [log, fetchFoundryInstances]);
- 
+  }, [log, trackJob]);
+
+  const restartFoundryInstance = useCallback(async (instanceId: string) => {
+    const startTime = performance.now();
+    log.userAction('restartFoundryInstance', { instanceId });
+    setLoadingFoundry(true);
+    setFoundryError(null);
+    try {
+      const response = await api.post<FoundryJob>(`/foundry/${instanceId}/restart`, {});
+      log.info('Foundry instance restart queued', { instanceId, jobId: response.data.id });
+      trackJob(response.data);
+    } catch (err) {
+      const errorMessage = `Failed to restart Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
+      setFoundryError(errorMessage);
+      log.error('Foundry instance restart failed', { error: err, message: errorMessage, instanceId });
+    } finally {
+      setLoadingFoundry(false);
+      const duration = performance.now() - startTime;
+      log.performance('restartFoundryInstance', duration);
+    }
+  }, [log, trackJob]);
+
+  const recreateFoundryInstance = useCallback(async (instanceId: string) => {
+    const startTime = performance.now();
+    log.userAction('recreateFoundryInstance', { instanceId });
+    setLoadingFoundry(true);
+    setFoundryError(null);
+    try {
+      const response = await api.post<FoundryJob>(`/foundry/${instanceId}/recreate`, {});
+      log.info('Foundry instance recreate queued', { instanceId, jobId: response.data.id });
+      trackJob(response.data);
+    } catch (err) {
+      const errorMessage = `Failed to recreate Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
+      setFoundryError(errorMessage);
+      log.error('Foundry instance recreate failed', { error: err, message: errorMessage, instanceId });
+    } finally {
+      setLoadingFoundry(false);
+      const duration = performance.now() - startTime;
+      log.performance('recreateFoundryInstance', duration);
+    }
+  }, [log, trackJob]);
+
+  const updateFoundryInstance = useCallback(async (instanceId: string, imageTag: string) => {
+    const startTime = performance.now();
+    log.userAction('updateFoundryInstance', { instanceId, imageTag });
+    setLoadingFoundry(true);
+    setFoundryError(null);
+    try {
+      const response = await api.post<FoundryJob>(`/foundry/${instanceId}/update`, { imageTag });
+      log.info('Foundry instance update queued', { instanceId, imageTag, jobId: response.data.id });
+      trackJob(response.data);
+    } catch (err) {
+      const errorMessage = `Failed to update Foundry instance: ${err instanceof Error ? err.message : 'An unknown error occurred'}`;
+      setFoundryError(errorMessage);
+      log.error('Foundry instance update failed', { error: err, message: errorMessage, instanceId, imageTag });
+    } finally {
+      setLoadingFoundry(false);
+      const duration = performance.now() - startTime;
+      log.performance('updateFoundryInstance', duration);
+    }
+  }, [log, trackJob]);
+
+  const toggleBackupHistory = useCallback((instanceId: string) => {
+    log.userAction('toggleBackupHistory', { instanceId });
+    setBackupHistoryInstanceId(prev => (prev === instanceId ? null : instanceId));
+  }, [log]);
+
+  const toggleHealthHistory = useCallback((instanceId: string) => {
+    log.userAction('toggleHealthHistory', { instanceId });
+    setHealthHistoryInstanceId(prev => (prev === instanceId ? null : instanceId));
+  }, [log]);
+
+  const showInstanceLogs = useCallback((instanceId: string) => {
+    log.userAction('showInstanceLogs', { instanceId });
+    setLogsInstanceId(instanceId);
+  }, [log]);
+
+  // Apply a pushed event to the affected instance card
+  const handleFoundryEvent = useCallback((event: FoundryEvent) => {
+    switch (event.type) {
+      case 'status':
+        setMyGames(prev =>
+          prev.map(game =>
+            game.id === event.instanceId
+              ? {
+                  ...game,
+                  status: event.data.status,
+                  nextSessionAt: event.data.nextSessionAt ?? null,
+                  healthStatus: event.data.status === 'RUNNING' ? game.healthStatus : 'unknown' as const,
+                }
+              : game
+          )
+        );
+        setFoundryInstances(prev => {
+          const existing = prev.find(instance => instance.id === event.instanceId);
+          if (!existing) {
+            return [...prev, { ...event.data, healthStatus: 'unknown' as const }];
+          }
+          return prev.map(instance =>
+            instance.id === event.instanceId
+              ? {
+                  ...instance,
+                  ...event.data,
+                  healthStatus: event.data.status === 'RUNNING' ? instance.healthStatus : 'unknown' as const,
+                  foundryStatus: event.data.status === 'RUNNING' ? instance.foundryStatus : null,
+                }
+              : instance
+          );
+        });
+        break;
+      case 'health':
+        setMyGames(prev =>
+          prev.map(game => (game.id === event.instanceId ? { ...game, healthStatus: event.data.healthStatus } : game))
+        );
+        setFoundryInstances(prev =>
+          prev.map(instance =>
+            instance.id === event.instanceId
+              ? { ...instance, healthStatus: event.data.healthStatus }
+              : instance
+          )
+        );
+        break;
+      case 'deleted':
+        setMyGames(prev => prev.filter(game => game.id !== event.data.id));
+        setFoundryInstances(prev => prev.filter(instance => instance.id !== event.data.id));
+        break;
+      case 'job': {
+        const job = event.data;
+        const finished = job.status === 'SUCCEEDED' || job.status === 'FAILED';
+        if (job.status === 'FAILED') {
+          setFoundryError(`Foundry ${job.type.toLowerCase()} job failed: ${job.error || 'An unknown error occurred'}`);
+          log.error('Foundry job failed', { jobId: job.id, type: job.type, error: job.error });
+        } else if (finished) {
+          log.info('Foundry job succeeded', { jobId: job.id, type: job.type });
+        }
+        if (finished && job.type === 'BACKUP') {
+          // Scheduled backups add runs without a request from this page
+          setBackupRunsVersion(version => version + 1);
+        }
+        setActiveJobs(prev => {
+          // A finished DELETE job has lost its instance ID, so look the job up by ID
+          const instanceId = job.instanceId ?? Object.keys(prev).find(id => prev[id].id === job.id);
+          if (!instanceId) return prev;
+          if (!finished) return { ...prev, [instanceId]: job };
+          if (prev[instanceId]?.id !== job.id) return prev;
+          const rest = { ...prev };
+          delete rest[instanceId];
+          return rest;
+        });
+        break;
+      }
+    }
+  }, [log]);
+
+  useEffect(() => {
+    if (!backupHistoryInstanceId) {
+      setBackupRuns([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingBackupRuns(true);
+    api.get<FoundryBackupRun[]>(`/foundry/${backupHistoryInstanceId}/backup-runs`)
+      .then(response => {
+        if (!cancelled) setBackupRuns(response.data);
+      })
+      .catch(err => {
+        log.error('Backup history fetch failed', { error: err, instanceId: backupHistoryInstanceId });
+        if (!cancelled) setBackupRuns([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingBackupRuns(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [backupHistoryInstanceId, backupRunsVersion, log]);
+
+  useEffect(() => {
+    if (!healthHistoryInstanceId) {
+      setHealthSamples([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingHealthSamples(true);
+    // The last 6 hours, one check every 30 seconds
+    api.get<FoundryHealthSample[]>(`/foundry/${healthHistoryInstanceId}/health/history`, { params: { hours: 6, limit: 720 } })
+      .then(response => {
+        if (!cancelled) setHealthSamples(response.data);
+      })
+      .catch(err => {
+        log.error('Health history fetch failed', { error: err, instanceId: healthHistoryInstanceId });
+        if (!cancelled) setHealthSamples([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingHealthSamples(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [healthHistoryInstanceId, log]);
+
   useEffect(() => {
     log.info('Dashboard page initialized');
     
     // Initial data fetch
     fetchHealth();
     if (session) {
-      fetchFoundryInstances();
+      fetchMyPages();
     }
 
+    // Instance status, health and job progress are pushed by the backend; refetch the list on every (re)connect
+    // so nothing missed while disconnected is lost
+    const unsubscribe = session
+      ? subscribeToFoundryEvents({
+          onEvent: handleFoundryEvent,
+          onOpen: () => {
+            fetchFoundryInstances();
+            fetchMyGames();
+          },
+        })
+      : undefined;
+
     // Set up system health check interval (every 30 seconds)
     const systemHealthInterval = parseInt(process.env.NEXT_PUBLIC_HEALTH_CHECK_INTERVAL || '30000', 10);
     const systemHealthCheckInterval = setInterval(() => {
@@ -242,36 +500,19 @@ export default function DashboardPage() {
       fetchHealth();
     }, systemHealthInterval);
     
-    // Set up Foundry instances refresh interval (every 30 seconds)
-    const foundryInterval = 30000; // 30 seconds
-    const foundryRefreshInterval = setInterval(() => {
-      log.info('Foundry instances refresh interval triggered');
-      fetchFoundryInstances();
-    }, foundryInterval);
-
-    // Set up instance health check interval (configurable via environment variable)
-    const instanceHealthCheckInterval = parseInt(process.env.NEXT_PUBLIC_INSTANCE_HEALTH_CHECK_INTERVAL || '60000', 10); // Default 60 seconds
-    const instanceHealthCheckRefreshInterval = setInterval(() => {
-      log.info('Instance health check interval triggered');
-      // Check health for all running instances
-      foundryInstances.forEach(instance => {
-        if (instance.status === 'RUNNING' && !healthCheckingInstances.has(instance.id)) {
-          checkInstanceHealth(instance.id);
-        }
-      });
-    }, instanceHealthCheckInterval);
-    
-    log.info('Intervals started', { systemHealthInterval, foundryInterval, instanceHealthCheckInterval });
+    log.info('Intervals started', { systemHealthInterval });
 
     return () => {
       clearInterval(systemHealthCheckInterval);
-      clearInterval(foundryRefreshInterval);
-      clearInterval(instanceHealthCheckRefreshInterval);
-      log.info('Dashboard page cleanup - all intervals cleared');
+      unsubscribe?.();
+      log.info('Dashboard page cleanup - intervals cleared and event stream closed');
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [session]); // Only depend on session, not the functions
 
+  // The log panel goes away by itself if its instance is deleted
+  const logsInstance = foundryInstances.find(instance => instance.id === logsInstanceId);
+
   return (
     <>
       <DashboardLayout>
@@ -295,8 +536,8 @@ export default function DashboardPage() {
               />
             </div>
 
-            {/* Foundry Instance Management - Only show for admin users */}
-            {session?.user?.role === 'ADMIN' && (
+            {/* Foundry Instance Management - Only show for admins and GMs; GMs see the instances they own */}
+            {canManageInstances(session?.user?.role) && (
               <div className="lg:col-span-3">
                 <FoundryInstanceManagement
                   foundryInstances={foundryInstances}
@@ -311,13 +552,50 @@ export default function DashboardPage() {
                   onStartInstance={startFoundryInstance}
                   onStopInstance={stopFoundryInstance}
                   onDeleteInstance={deleteFoundryInstance}
+                  onRestartInstance={restartFoundryInstance}
+                  onRecreateInstance={recreateFoundryInstance}
+                  onUpdateInstance={updateFoundryInstance}
+                  canUpdateInstances={session?.user?.role === 'ADMIN'}
+                  activeJobs={activeJobs}
                   onCheckHealth={checkInstanceHealth}
+                  backupHistoryInstanceId={backupHistoryInstanceId}
+                  backupRuns={backupRuns}
+                  loadingBackupRuns={loadingBackupRuns}
+                  onToggleBackupHistory={toggleBackupHistory}
+                  healthHistoryInstanceId={healthHistoryInstanceId}
+                  healthSamples={healthSamples}
+                  loadingHealthSamples={loadingHealthSamples}
+                  onToggleHealthHistory={toggleHealthHistory}
+                  onShowLogs={showInstanceLogs}
+                />
+              </div>
+            )}
+
+            {/* My Games - Players see the games they have been invited to */}
+            {session && !canManageInstances(session.user?.role) && (
+              <div className="lg:col-span-3">
+                <MyGamesCard
+                  games={myGames}
+                  loading={loadingMyGames}
+                  error={myGamesError}
                 />
               </div>
             )}
           </div>
+
+          {/* My Pages - Everyone sees the pages assigned to them */}
+          {session && (
+            <MyPagesCard
+              pages={myPages}
+              loading={loadingMyPages}
+              error={myPagesError}
+            />
+          )}
         </div>
       </DashboardLayout>
+      {logsInstance && (
+        <InstanceLogPanel instance={logsInstance} onClose={() => setLogsInstanceId(null)} />
+      )}
       <DevModeIndicator />
     </>
   );
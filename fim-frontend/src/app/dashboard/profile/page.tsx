@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useSession, signOut } from 'next-auth/react';
-import { User } from '@/types';
+import { AuthSession, RecoveryCodes, TwoFactorSetup, TwoFactorStatus, User } from '@/types';
 import api from '@/lib/api';
 import withAuth from '@/hoc/withAuth';
 import DashboardLayout from '@/components/dashboard/DashboardLayout';
@@ -42,6 +42,18 @@ const UserProfilePage = () => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
 
+  // Active sessions state
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
+  // Two-factor authentication state
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  // Recovery codes are only returned once, so they stay visible until the page is left
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSavingTwoFactor, setIsSavingTwoFactor] = useState(false);
+
   useEffect(() => {
     const fetchProfile = async () => {
       try {
@@ -64,11 +76,110 @@ const UserProfilePage = () => {
       }
     };
 
+    const fetchSessions = async () => {
+      try {
+        const response = await api.get<AuthSession[]>('/auth/sessions');
+        setSessions(response.data);
+      } catch {
+        // The profile is still usable without the session list
+        setSessions([]);
+      }
+    };
+
+    const fetchTwoFactor = async () => {
+      try {
+        const response = await api.get<TwoFactorStatus>('/auth/2fa');
+        setTwoFactor(response.data);
+      } catch {
+        setTwoFactor(null);
+      }
+    };
+
     if (session) {
       fetchProfile();
+      fetchSessions();
+      fetchTwoFactor();
     }
   }, [session]);
 
+  const runTwoFactorAction = async (action: () => Promise<string>, fallbackError: string) => {
+    setIsSavingTwoFactor(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const message = await action();
+      const response = await api.get<TwoFactorStatus>('/auth/2fa');
+      setTwoFactor(response.data);
+      setTwoFactorCode('');
+      setSuccess(message);
+    } catch (err) {
+      if (isAxiosError(err)) {
+        setError(err.response?.data?.message || fallbackError);
+      } else {
+        setError(fallbackError);
+      }
+    } finally {
+      setIsSavingTwoFactor(false);
+    }
+  };
+
+  const handleStartTwoFactorSetup = () =>
+    runTwoFactorAction(async () => {
+      const response = await api.post<TwoFactorSetup>('/auth/2fa/setup');
+      setTwoFactorSetup(response.data);
+      setRecoveryCodes(null);
+      return 'Scan the QR code with your authenticator app, then enter the code it shows.';
+    }, 'Failed to start two-factor authentication setup.');
+
+  const handleEnableTwoFactor = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runTwoFactorAction(async () => {
+      const response = await api.post<RecoveryCodes>('/auth/2fa/enable', { code: twoFactorCode });
+      setTwoFactorSetup(null);
+      setRecoveryCodes(response.data.recoveryCodes);
+      return 'Two-factor authentication enabled.';
+    }, 'Failed to enable two-factor authentication.');
+  };
+
+  const handleRegenerateRecoveryCodes = () =>
+    runTwoFactorAction(async () => {
+      const response = await api.post<RecoveryCodes>('/auth/2fa/recovery-codes', { code: twoFactorCode });
+      setRecoveryCodes(response.data.recoveryCodes);
+      return 'New recovery codes created. The old ones no longer work.';
+    }, 'Failed to create new recovery codes.');
+
+  const handleDisableTwoFactor = () =>
+    runTwoFactorAction(async () => {
+      await api.delete('/auth/2fa', { data: { code: twoFactorCode } });
+      setRecoveryCodes(null);
+      return 'Two-factor authentication disabled.';
+    }, 'Failed to disable two-factor authentication.');
+
+  const handleRevokeSession = async (authSession: AuthSession) => {
+    setRevokingSessionId(authSession.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      await api.delete(`/auth/sessions/${authSession.id}`);
+      if (authSession.current) {
+        signOut({ callbackUrl: '/login' });
+        return;
+      }
+      setSessions(sessions.filter((s) => s.id !== authSession.id));
+      setSuccess('Session signed out.');
+    } catch (err) {
+      if (isAxiosError(err)) {
+        setError(err.response?.data?.message || 'Failed to sign out session.');
+      } else {
+        setError('Failed to sign out session.');
+      }
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsUpdatingProfile(true);
@@ -378,6 +489,157 @@ const UserProfilePage = () => {
           </div>
         </div>
 
+        {/* Two-Factor Authentication */}
+        {twoFactor && (
+          <div className="bg-white shadow rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-4">
+                Two-Factor Authentication
+                <span className={`ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                  twoFactor.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {twoFactor.enabled ? 'On' : 'Off'}
+                </span>
+              </h2>
+              <p className="text-sm text-gray-600 mb-6">
+                {twoFactor.enabled
+                  ? `Signing in asks for a code from your authenticator app. ${twoFactor.recoveryCodesRemaining} recovery code(s) left.`
+                  : 'Ask for a code from an authenticator app on your phone when signing in, in addition to your password.'}
+                {twoFactor.required && ' Your role requires two-factor authentication.'}
+              </p>
+
+              {recoveryCodes && (
+                <div className="mb-6 bg-green-50 border border-green-200 rounded-md p-4">
+                  <p className="text-sm text-green-700">
+                    Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app, and they cannot be shown again.
+                  </p>
+                  <ul className="mt-3 grid grid-cols-2 sm:grid-cols-5 gap-1 font-mono text-sm text-gray-900">
+                    {recoveryCodes.map((recoveryCode) => (
+                      <li key={recoveryCode}>{recoveryCode}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {!twoFactor.enabled && !twoFactorSetup && (
+                <button
+                  onClick={handleStartTwoFactorSetup}
+                  disabled={isSavingTwoFactor}
+                  className="w-full sm:w-auto inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Set Up Two-Factor Authentication
+                </button>
+              )}
+
+              {!twoFactor.enabled && twoFactorSetup && (
+                <form onSubmit={handleEnableTwoFactor} className="space-y-4">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={twoFactorSetup.qrCodeDataUrl} alt="QR code for your authenticator app" className="h-40 w-40" />
+                    <p className="text-xs text-gray-500">
+                      Can&apos;t scan it? Enter this key by hand: <span className="font-mono break-all">{twoFactorSetup.secret}</span>
+                    </p>
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      placeholder="123456"
+                      className="block w-full sm:w-40 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      disabled={isSavingTwoFactor}
+                      className="w-full sm:w-auto inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Turn On
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              {twoFactor.enabled && (
+                <div className="space-y-3">
+                  <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700">
+                    Enter a code from your authenticator app to change these settings
+                  </label>
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                      type="text"
+                      id="twoFactorCode"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      placeholder="123456"
+                      className="block w-full sm:w-40 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    />
+                    <button
+                      onClick={handleRegenerateRecoveryCodes}
+                      disabled={isSavingTwoFactor || !twoFactorCode}
+                      className="w-full sm:w-auto inline-flex justify-center py-2 px-4 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      New Recovery Codes
+                    </button>
+                    {!twoFactor.required && (
+                      <button
+                        onClick={handleDisableTwoFactor}
+                        disabled={isSavingTwoFactor || !twoFactorCode}
+                        className="w-full sm:w-auto inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Turn Off
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Active Sessions */}
+        <div className="bg-white shadow rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Active Sessions</h2>
+            <p className="text-sm text-gray-600 mb-6">
+              Devices that are signed in to your account. Sign out any you do not recognize.
+            </p>
+            <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+              {sessions.map((authSession) => (
+                <li key={authSession.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate" title={authSession.userAgent ?? undefined}>
+                      {authSession.userAgent || 'Unknown device'}
+                      {authSession.current && (
+                        <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {authSession.ipAddress || 'Unknown address'} · signed in {new Date(authSession.createdAt).toLocaleString()} · last active {new Date(authSession.lastUsedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(authSession)}
+                    disabled={revokingSessionId === authSession.id}
+                    className="flex-shrink-0 py-1 px-3 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revokingSessionId === authSession.id ? 'Signing out...' : 'Sign out'}
+                  </button>
+                </li>
+              ))}
+              {sessions.length === 0 && (
+                <li className="px-4 py-3 text-sm text-gray-500">No active sessions found.</li>
+              )}
+            </ul>
+          </div>
+        </div>
+
         {/* Account Deletion */}
         <div className="bg-white shadow rounded-lg border border-red-200">
           <div className="px-4 py-5 sm:p-6">
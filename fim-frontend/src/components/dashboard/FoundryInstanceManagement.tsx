@@ -1,10 +1,11 @@
-import React, { memo } from 'react';
+import React, { memo, useState } from 'react';
 import { Card } from "../ui/Card";
 import { Alert, AlertTitle, AlertDescription } from "../ui/Alert";
 import { LoadingSpinner } from "../ui/LoadingSpinner";
 import { Input } from "../ui/Input";
 import { Button } from "../ui/Button";
-import { FoundryInstance } from "../../types/foundry";
+import InstanceActionDialog, { InstanceAction } from "./InstanceActionDialog";
+import { FoundryBackupRun, FoundryHealthSample, FoundryInstance, FoundryJob } from "../../types/foundry";
 
 
 interface FoundryInstanceManagementProps {
@@ -16,13 +17,34 @@ interface FoundryInstanceManagementProps {
   loadingFoundry: boolean;
   foundryError: string | null;
   healthCheckingInstances: Set<string>;
+  activeJobs: Record<string, FoundryJob>;
   onCreateInstance: () => void;
   onStartInstance: (instanceId: string) => void;
   onStopInstance: (instanceId: string) => void;
   onDeleteInstance: (instanceId: string) => void;
+  onRestartInstance: (instanceId: string) => void;
+  onRecreateInstance: (instanceId: string) => void;
+  onUpdateInstance: (instanceId: string, imageTag: string) => void;
+  // Changing the image is left to admins
+  canUpdateInstances: boolean;
   onCheckHealth: (instanceId: string) => void;
+  backupHistoryInstanceId: string | null;
+  backupRuns: FoundryBackupRun[];
+  loadingBackupRuns: boolean;
+  onToggleBackupHistory: (instanceId: string) => void;
+  healthHistoryInstanceId: string | null;
+  healthSamples: FoundryHealthSample[];
+  loadingHealthSamples: boolean;
+  onToggleHealthHistory: (instanceId: string) => void;
+  onShowLogs: (instanceId: string) => void;
 }
 
+const HEALTH_SAMPLE_COLORS: Record<FoundryHealthSample['healthStatus'], string> = {
+  healthy: 'bg-green-500',
+  degraded: 'bg-yellow-400',
+  unhealthy: 'bg-red-500',
+};
+
 const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
   foundryInstances,
   newInstanceName,
@@ -32,12 +54,38 @@ const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
   loadingFoundry,
   foundryError,
   healthCheckingInstances,
+  activeJobs,
   onCreateInstance,
   onStartInstance,
   onStopInstance,
   onDeleteInstance,
+  onRestartInstance,
+  onRecreateInstance,
+  onUpdateInstance,
+  canUpdateInstances,
   onCheckHealth,
+  backupHistoryInstanceId,
+  backupRuns,
+  loadingBackupRuns,
+  onToggleBackupHistory,
+  healthHistoryInstanceId,
+  healthSamples,
+  loadingHealthSamples,
+  onToggleHealthHistory,
+  onShowLogs,
 }: FoundryInstanceManagementProps) {
+  // The action waiting for confirmation
+  const [pendingAction, setPendingAction] = useState<{ action: InstanceAction; instance: FoundryInstance } | null>(null);
+
+  const confirmPendingAction = (imageTag?: string) => {
+    if (!pendingAction) return;
+    const { action, instance } = pendingAction;
+    setPendingAction(null);
+    if (action === 'restart') onRestartInstance(instance.id);
+    else if (action === 'recreate') onRecreateInstance(instance.id);
+    else if (imageTag) onUpdateInstance(instance.id, imageTag);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'RUNNING':
@@ -84,6 +132,140 @@ const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
     return statusText;
   };
 
+  const renderJobProgress = (instance: FoundryInstance) => {
+    const job = activeJobs[instance.id];
+    if (!job) return null;
+
+    return (
+      <div className="my-2 w-full" title={`${job.type} job ${job.id}`}>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span className="truncate">{job.status === 'PENDING' ? 'Queued' : job.message || job.type}</span>
+          <span>{job.progress}%</span>
+        </div>
+        <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all duration-500"
+            style={{ width: `${job.progress}%` }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  // What Foundry itself reported at the last health check: the world being played and who is in it
+  const renderFoundryStatus = (instance: FoundryInstance) => {
+    const status = instance.foundryStatus;
+    if (instance.status !== 'RUNNING' || !status) return null;
+
+    if (!status.world) {
+      const color = instance.healthStatus === 'unhealthy' ? 'text-red-600' : 'text-yellow-700';
+      return <div className={`mt-1 text-xs ${color} truncate`}>{status.error || 'No world loaded'}</div>;
+    }
+
+    const details = [
+      status.world,
+      status.system && [status.system, status.systemVersion].filter(Boolean).join(' '),
+      status.foundryVersion && `Foundry ${status.foundryVersion}`,
+      status.users !== null && `${status.users} player${status.users !== 1 ? 's' : ''} connected`,
+    ].filter(Boolean).join(' · ');
+    return <div className="mt-1 text-xs text-gray-600 truncate" title={details}>{details}</div>;
+  };
+
+  const describeHealthSample = (sample: FoundryHealthSample) =>
+    [
+      new Date(sample.checkedAt).toLocaleString(),
+      sample.healthStatus,
+      sample.world,
+      sample.users !== null && `${sample.users} player${sample.users !== 1 ? 's' : ''}`,
+      sample.responseTimeMs !== null && `${sample.responseTimeMs} ms`,
+      sample.error,
+    ].filter(Boolean).join(' · ');
+
+  const renderHealthHistory = (instance: FoundryInstance) => {
+    if (healthHistoryInstanceId !== instance.id) return null;
+
+    if (loadingHealthSamples) {
+      return <div className="py-2 text-xs text-gray-500">Loading health history...</div>;
+    }
+    if (healthSamples.length === 0) {
+      return <div className="py-2 text-xs text-gray-500">No health checks recorded for this instance recently.</div>;
+    }
+
+    const healthyPercent = Math.round(
+      (healthSamples.filter((sample) => sample.healthStatus === 'healthy').length / healthSamples.length) * 100,
+    );
+    const peakUsers = Math.max(...healthSamples.map((sample) => sample.users ?? 0));
+
+    return (
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>
+            Since {new Date(healthSamples[0].checkedAt).toLocaleString()}: serving a world {healthyPercent}% of the time
+          </span>
+          <span>Peak {peakUsers} player{peakUsers !== 1 ? 's' : ''}</span>
+        </div>
+        {/* One bar per check; the taller the bar, the more players were connected */}
+        <div className="flex items-end h-8 gap-px">
+          {healthSamples.map((sample) => (
+            <div
+              key={sample.id}
+              className={`flex-1 ${HEALTH_SAMPLE_COLORS[sample.healthStatus]}`}
+              style={{ height: `${25 + (peakUsers > 0 ? ((sample.users ?? 0) / peakUsers) * 75 : 0)}%` }}
+              title={describeHealthSample(sample)}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const getBackupRunColor = (status: FoundryBackupRun['status']) => {
+    switch (status) {
+      case 'SUCCEEDED':
+        return 'text-green-600';
+      case 'FAILED':
+        return 'text-red-600';
+      default:
+        return 'text-gray-500';
+    }
+  };
+
+  const renderBackupHistory = (instance: FoundryInstance) => {
+    if (backupHistoryInstanceId !== instance.id) return null;
+
+    if (loadingBackupRuns) {
+      return <div className="py-2 text-xs text-gray-500">Loading backup history...</div>;
+    }
+    if (backupRuns.length === 0) {
+      return <div className="py-2 text-xs text-gray-500">No backups have run for this instance yet.</div>;
+    }
+
+    return (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1 pr-4 font-medium">Started</th>
+            <th className="py-1 pr-4 font-medium">Trigger</th>
+            <th className="py-1 pr-4 font-medium">Result</th>
+            <th className="py-1 font-medium">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {backupRuns.map((run) => (
+            <tr key={run.id} className="border-t border-gray-100">
+              <td className="py-1 pr-4 whitespace-nowrap text-gray-900">{new Date(run.startedAt).toLocaleString()}</td>
+              <td className="py-1 pr-4 text-gray-600">{run.trigger === 'SCHEDULED' ? 'Scheduled' : 'Manual'}</td>
+              <td className={`py-1 pr-4 font-medium ${getBackupRunColor(run.status)}`}>{run.status}</td>
+              <td className="py-1 text-gray-600 truncate max-w-xs" title={run.message ?? undefined}>
+                {run.message ?? (run.backupId ? `Backup ${run.backupId}` : '')}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
   return (
     <Card className="p-6 h-full">
       <div className="flex items-center justify-between mb-6">
@@ -125,10 +307,10 @@ const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
             />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Port</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Port <span className="text-gray-400 font-normal">(optional)</span></label>
             <Input
               type="number"
-              placeholder="30000"
+              placeholder="Assigned automatically"
               value={newInstancePort}
               onChange={(e) => setNewInstancePort(e.target.value)}
               disabled={loadingFoundry}
@@ -139,7 +321,7 @@ const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
         <div className="mt-4">
           <Button 
             onClick={onCreateInstance} 
-            disabled={loadingFoundry || !newInstanceName || !newInstancePort}
+            disabled={loadingFoundry || !newInstanceName}
             className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-md transition-colors"
           >
             {loadingFoundry ? 'Creating...' : 'Create Instance'}
@@ -182,79 +364,144 @@ const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {foundryInstances.map((instance) => (
-                    <tr key={instance.id} className="hover:bg-gray-50 transition-colors">
-                      <td className="px-4 py-4">
-                        <div className="text-sm font-medium text-gray-900">
-                          {instance.status === 'RUNNING' ? (
-                            <button
-                              onClick={() => window.open(`http://localhost:${instance.port}`, '_blank')}
-                              className="text-blue-600 hover:text-blue-800 hover:underline transition-colors"
-                              title="Click to open Foundry instance"
-                            >
-                              {instance.name}
-                            </button>
-                          ) : (
-                            instance.name
-                          )}
-                        </div>
-                        <div className="text-xs text-gray-500 truncate">ID: {instance.id}</div>
-                      </td>
-                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {instance.port}
-                      </td>
-                      <td className="px-4 py-4">
-                        <div className="flex items-center space-x-2 flex-wrap">
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(instance.status)}`}>
-                            <span className="mr-1">{getStatusIcon(instance.status)}</span>
-                            {getCombinedStatusDisplay(instance)}
-                          </span>
-                          {instance.status === 'RUNNING' && (
-                            <div className="flex space-x-1">
-                              <Button
+                    <React.Fragment key={instance.id}>
+                      <tr className="hover:bg-gray-50 transition-colors">
+                        <td className="px-4 py-4">
+                          <div className="text-sm font-medium text-gray-900">
+                            {instance.status === 'RUNNING' ? (
+                              <button
                                 onClick={() => window.open(`http://localhost:${instance.port}`, '_blank')}
-                                className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
-                                title="Open Foundry Instance"
+                                className="text-blue-600 hover:text-blue-800 hover:underline transition-colors"
+                                title="Click to open Foundry instance"
                               >
-                                🌐
-                              </Button>
+                                {instance.name}
+                              </button>
+                            ) : (
+                              instance.name
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">ID: {instance.id}</div>
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {instance.port}
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="flex items-center space-x-2 flex-wrap">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(instance.status)}`}>
+                              <span className="mr-1">{getStatusIcon(instance.status)}</span>
+                              {getCombinedStatusDisplay(instance)}
+                            </span>
+                            {instance.status === 'RUNNING' && (
+                              <div className="flex space-x-1">
+                                <Button
+                                  onClick={() => window.open(`http://localhost:${instance.port}`, '_blank')}
+                                  className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                                  title="Open Foundry Instance"
+                                >
+                                  🌐
+                                </Button>
+                                <Button
+                                  onClick={() => onCheckHealth(instance.id)}
+                                  disabled={healthCheckingInstances.has(instance.id)}
+                                  className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                                  title="Check Health"
+                                >
+                                  {healthCheckingInstances.has(instance.id) ? '⟳' : '↻'}
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                          {renderFoundryStatus(instance)}
+                          {renderJobProgress(instance)}
+                        </td>
+                        <td className="px-4 py-4">
+                          <div className="flex space-x-2 flex-wrap">
+                            <Button
+                              onClick={() => onStartInstance(instance.id)}
+                              disabled={loadingFoundry || !!activeJobs[instance.id] || instance.status === 'RUNNING'}
+                              className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                            >
+                              Start
+                            </Button>
+                            <Button
+                              onClick={() => onStopInstance(instance.id)}
+                              disabled={loadingFoundry || !!activeJobs[instance.id] || instance.status === 'STOPPED'}
+                              className="bg-yellow-600 hover:bg-yellow-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                            >
+                              Stop
+                            </Button>
+                            <Button
+                              onClick={() => setPendingAction({ action: 'restart', instance })}
+                              disabled={loadingFoundry || !!activeJobs[instance.id] || instance.status !== 'RUNNING'}
+                              className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                            >
+                              Restart
+                            </Button>
+                            <Button
+                              onClick={() => setPendingAction({ action: 'recreate', instance })}
+                              disabled={loadingFoundry || !!activeJobs[instance.id] || !instance.dockerContainerId}
+                              className="bg-orange-600 hover:bg-orange-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                              title="Recreate the container from the current settings"
+                            >
+                              Recreate
+                            </Button>
+                            {canUpdateInstances && (
                               <Button
-                                onClick={() => onCheckHealth(instance.id)}
-                                disabled={healthCheckingInstances.has(instance.id)}
-                                className="bg-blue-600 hover:bg-blue-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
-                                title="Check Health"
+                                onClick={() => setPendingAction({ action: 'update', instance })}
+                                disabled={loadingFoundry || !!activeJobs[instance.id]}
+                                className="bg-purple-600 hover:bg-purple-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                                title="Move to a newer image tag"
                               >
-                                {healthCheckingInstances.has(instance.id) ? '⟳' : '↻'}
+                                Update
                               </Button>
-                            </div>
-                          )}
-                        </div>
-                      </td>
-                      <td className="px-4 py-4">
-                        <div className="flex space-x-2 flex-wrap">
-                          <Button
-                            onClick={() => onStartInstance(instance.id)}
-                            disabled={loadingFoundry || instance.status === 'RUNNING'}
-                            className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
-                          >
-                            Start
-                          </Button>
-                          <Button
-                            onClick={() => onStopInstance(instance.id)}
-                            disabled={loadingFoundry || instance.status === 'STOPPED'}
-                            className="bg-yellow-600 hover:bg-yellow-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
-                          >
-                            Stop
-                          </Button>
-                          <Button
-                            onClick={() => onDeleteInstance(instance.id)}
-                            disabled={loadingFoundry}
-                            className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
-                          >
-                            Delete
-                          </Button>
-                        </div>
-                      </td>
-                    </tr>
+                            )}
+                            <Button
+                              onClick={() => onDeleteInstance(instance.id)}
+                              disabled={loadingFoundry || !!activeJobs[instance.id]}
+                              className="bg-red-600 hover:bg-red-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                            >
+                              Delete
+                            </Button>
+                            <Button
+                              onClick={() => onToggleBackupHistory(instance.id)}
+                              className="bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                              title="Show backup history"
+                            >
+                              {backupHistoryInstanceId === instance.id ? 'Hide Backups' : 'Backups'}
+                            </Button>
+                            <Button
+                              onClick={() => onToggleHealthHistory(instance.id)}
+                              className="bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                              title="Show health history"
+                            >
+                              {healthHistoryInstanceId === instance.id ? 'Hide Health' : 'Health'}
+                            </Button>
+                            <Button
+                              onClick={() => onShowLogs(instance.id)}
+                              disabled={!instance.dockerContainerId}
+                              className="bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 text-xs rounded-md transition-colors"
+                              title="Show container logs"
+                            >
+                              Logs
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                      {backupHistoryInstanceId === instance.id && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={4} className="px-4 py-3">
+                            {renderBackupHistory(instance)}
+                          </td>
+                        </tr>
+                      )}
+                      {healthHistoryInstanceId === instance.id && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={4} className="px-4 py-3">
+                            {renderHealthHistory(instance)}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
@@ -307,35 +554,96 @@ const FoundryInstanceManagement = memo(function FoundryInstanceManagement({
                       )}
                     </div>
                   </div>
+                  {renderFoundryStatus(instance)}
+                  {renderJobProgress(instance)}
                   <div className="flex space-x-2">
                     <Button
                       onClick={() => onStartInstance(instance.id)}
-                      disabled={loadingFoundry || instance.status === 'RUNNING'}
+                      disabled={loadingFoundry || !!activeJobs[instance.id] || instance.status === 'RUNNING'}
                       className="flex-1 bg-green-600 hover:bg-green-700 text-white py-2 text-sm rounded-md transition-colors"
                     >
                       Start
                     </Button>
                     <Button
                       onClick={() => onStopInstance(instance.id)}
-                      disabled={loadingFoundry || instance.status === 'STOPPED'}
+                      disabled={loadingFoundry || !!activeJobs[instance.id] || instance.status === 'STOPPED'}
                       className="flex-1 bg-yellow-600 hover:bg-yellow-700 text-white py-2 text-sm rounded-md transition-colors"
                     >
                       Stop
                     </Button>
+                    <Button
+                      onClick={() => setPendingAction({ action: 'restart', instance })}
+                      disabled={loadingFoundry || !!activeJobs[instance.id] || instance.status !== 'RUNNING'}
+                      className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 text-sm rounded-md transition-colors"
+                    >
+                      Restart
+                    </Button>
                     <Button
                       onClick={() => onDeleteInstance(instance.id)}
-                      disabled={loadingFoundry}
+                      disabled={loadingFoundry || !!activeJobs[instance.id]}
                       className="flex-1 bg-red-600 hover:bg-red-700 text-white py-2 text-sm rounded-md transition-colors"
                     >
                       Delete
                     </Button>
                   </div>
+                  <div className="flex space-x-2 mt-2">
+                    <Button
+                      onClick={() => setPendingAction({ action: 'recreate', instance })}
+                      disabled={loadingFoundry || !!activeJobs[instance.id] || !instance.dockerContainerId}
+                      className="flex-1 bg-orange-600 hover:bg-orange-700 text-white py-2 text-sm rounded-md transition-colors"
+                    >
+                      Recreate
+                    </Button>
+                    {canUpdateInstances && (
+                      <Button
+                        onClick={() => setPendingAction({ action: 'update', instance })}
+                        disabled={loadingFoundry || !!activeJobs[instance.id]}
+                        className="flex-1 bg-purple-600 hover:bg-purple-700 text-white py-2 text-sm rounded-md transition-colors"
+                      >
+                        Update
+                      </Button>
+                    )}
+                  </div>
+                  <Button
+                    onClick={() => onToggleBackupHistory(instance.id)}
+                    className="mt-2 w-full bg-gray-600 hover:bg-gray-700 text-white py-2 text-sm rounded-md transition-colors"
+                  >
+                    {backupHistoryInstanceId === instance.id ? 'Hide Backup History' : 'Backup History'}
+                  </Button>
+                  {backupHistoryInstanceId === instance.id && (
+                    <div className="mt-2 overflow-x-auto">{renderBackupHistory(instance)}</div>
+                  )}
+                  <Button
+                    onClick={() => onToggleHealthHistory(instance.id)}
+                    className="mt-2 w-full bg-gray-600 hover:bg-gray-700 text-white py-2 text-sm rounded-md transition-colors"
+                  >
+                    {healthHistoryInstanceId === instance.id ? 'Hide Health History' : 'Health History'}
+                  </Button>
+                  {healthHistoryInstanceId === instance.id && (
+                    <div className="mt-2">{renderHealthHistory(instance)}</div>
+                  )}
+                  <Button
+                    onClick={() => onShowLogs(instance.id)}
+                    disabled={!instance.dockerContainerId}
+                    className="mt-2 w-full bg-gray-600 hover:bg-gray-700 text-white py-2 text-sm rounded-md transition-colors"
+                  >
+                    Logs
+                  </Button>
                 </div>
               ))}
             </div>
           </div>
         )}
       </div>
+
+      {pendingAction && (
+        <InstanceActionDialog
+          action={pendingAction.action}
+          instance={pendingAction.instance}
+          onConfirm={confirmPendingAction}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
     </Card>
   );
 });
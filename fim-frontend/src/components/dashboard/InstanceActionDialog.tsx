@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { FoundryInstance } from "../../types/foundry";
+
+export type InstanceAction = 'restart' | 'recreate' | 'update';
+
+interface InstanceActionDialogProps {
+  action: InstanceAction;
+  instance: FoundryInstance;
+  // Receives the new image tag for updates
+  onConfirm: (imageTag?: string) => void;
+  onCancel: () => void;
+}
+
+const ACTION_DETAILS: Record<InstanceAction, { title: string; description: string; confirmLabel: string; confirmClassName: string }> = {
+  restart: {
+    title: 'Restart',
+    description: 'Foundry is stopped and started again. Connected players are disconnected until it is back.',
+    confirmLabel: 'Restart',
+    confirmClassName: 'bg-blue-600 hover:bg-blue-700',
+  },
+  recreate: {
+    title: 'Recreate',
+    description: 'The container is removed and created again from the current settings. Worlds and data are kept; connected players are disconnected meanwhile.',
+    confirmLabel: 'Recreate',
+    confirmClassName: 'bg-orange-600 hover:bg-orange-700',
+  },
+  update: {
+    title: 'Update',
+    description: 'The data is backed up first, then the new image is pulled and the container recreated with it. If Foundry does not come back up, the previous version and data are restored.',
+    confirmLabel: 'Update',
+    confirmClassName: 'bg-purple-600 hover:bg-purple-700',
+  },
+};
+
+export default function InstanceActionDialog({ action, instance, onConfirm, onCancel }: InstanceActionDialogProps) {
+  const [imageTag, setImageTag] = useState('');
+  const details = ACTION_DETAILS[action];
+  const newTag = imageTag.trim();
+  const canConfirm = action !== 'update' || (newTag !== '' && newTag !== instance.imageTag);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6" role="dialog" aria-modal="true">
+        <h2 className="text-lg font-semibold text-gray-900 mb-2">
+          {details.title} {instance.name}?
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">{details.description}</p>
+
+        {action === 'update' && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">New image tag</label>
+            <Input
+              type="text"
+              placeholder="e.g. 13"
+              value={imageTag}
+              onChange={(e) => setImageTag(e.target.value)}
+              className="w-full"
+              autoFocus
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Currently {instance.image ?? 'felddy/foundryvtt'}:{instance.imageTag ?? 'latest'}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            onClick={onCancel}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-900 px-4 py-2 text-sm rounded-md transition-colors"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(action === 'update' ? newTag : undefined)}
+            disabled={!canConfirm}
+            className={`${details.confirmClassName} text-white px-4 py-2 text-sm rounded-md transition-colors`}
+          >
+            {details.confirmLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
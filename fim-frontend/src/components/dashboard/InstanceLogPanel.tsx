@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { subscribeToInstanceLogs } from "../../lib/events";
+import { ContainerLogLine, FoundryInstance } from "../../types/foundry";
+
+// Lines read when the panel opens
+const INITIAL_TAIL = 500;
+// Older lines are dropped beyond this, so a chatty instance does not slow the page down
+const MAX_LINES = 5000;
+
+interface InstanceLogPanelProps {
+  instance: FoundryInstance;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: string | null): string => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+};
+
+const formatLine = (line: ContainerLogLine): string =>
+  `${line.timestamp ?? ''} [${line.stream}] ${line.message}`;
+
+export default function InstanceLogPanel({ instance, onClose }: InstanceLogPanelProps) {
+  const [lines, setLines] = useState<ContainerLogLine[]>([]);
+  const [search, setSearch] = useState('');
+  const [paused, setPaused] = useState(false);
+  const [streamState, setStreamState] = useState<'reading' | 'ended' | 'failed'>('reading');
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [heldCount, setHeldCount] = useState(0);
+  // Lines that arrive while paused are held back rather than dropped
+  const pausedRef = useRef(false);
+  const heldLines = useRef<ContainerLogLine[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const follow = instance.status === 'RUNNING';
+
+  useEffect(() => {
+    setLines([]);
+    setStreamState('reading');
+    setStreamError(null);
+    heldLines.current = [];
+    setHeldCount(0);
+
+    return subscribeToInstanceLogs(instance.id, { tail: INITIAL_TAIL, follow }, {
+      onLine: (line) => {
+        if (pausedRef.current) {
+          heldLines.current.push(line);
+          setHeldCount(heldLines.current.length);
+        } else {
+          setLines(prev => [...prev, line].slice(-MAX_LINES));
+        }
+      },
+      onEnd: () => setStreamState('ended'),
+      onError: (message) => {
+        setStreamState('failed');
+        setStreamError(message);
+      },
+    });
+  }, [instance.id, follow]);
+
+  useEffect(() => {
+    if (!paused && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [lines, paused]);
+
+  const togglePaused = () => {
+    if (pausedRef.current) {
+      const held = heldLines.current;
+      heldLines.current = [];
+      setHeldCount(0);
+      setLines(prev => [...prev, ...held].slice(-MAX_LINES));
+    }
+    pausedRef.current = !pausedRef.current;
+    setPaused(pausedRef.current);
+  };
+
+  const downloadLogs = () => {
+    const text = [...lines, ...heldLines.current].map(formatLine).join('\n');
+    const blob = new Blob([text], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${instance.name}-logs-${new Date().toISOString().split('T')[0]}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleLines = query ? lines.filter(line => line.message.toLowerCase().includes(query)) : lines;
+
+  const getStreamStatus = () => {
+    if (streamState === 'failed') return { text: streamError || 'Failed to read the log', className: 'text-red-600' };
+    if (paused) return { text: `Paused${heldCount > 0 ? ` (${heldCount} new line${heldCount !== 1 ? 's' : ''})` : ''}`, className: 'text-yellow-600' };
+    if (streamState === 'ended') return { text: follow ? 'Container stopped' : 'End of log', className: 'text-gray-500' };
+    return { text: follow ? 'Live' : 'Loading...', className: 'text-green-600' };
+  };
+  const status = getStreamStatus();
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl h-5/6 flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Logs: {instance.name}</h2>
+            <p className={`text-sm ${status.className}`}>{status.text}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={togglePaused}
+              disabled={streamState !== 'reading' && !paused}
+              className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 text-sm rounded-md transition-colors"
+            >
+              {paused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button
+              onClick={downloadLogs}
+              disabled={lines.length === 0}
+              className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 text-sm rounded-md transition-colors"
+            >
+              Download
+            </Button>
+            <Button
+              onClick={onClose}
+              className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 text-sm rounded-md transition-colors"
+            >
+              Close
+            </Button>
+          </div>
+        </div>
+
+        {/* Search */}
+        <div className="p-4 border-b bg-gray-50 flex items-center gap-4">
+          <Input
+            type="search"
+            placeholder="Search the log"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-md"
+          />
+          <span className="text-sm text-gray-500 whitespace-nowrap">
+            {query ? `${visibleLines.length} of ${lines.length} lines` : `${lines.length} lines`}
+          </span>
+        </div>
+
+        {/* Lines */}
+        <div ref={scrollRef} className="flex-1 overflow-auto bg-gray-900 p-4 font-mono text-xs">
+          {visibleLines.length === 0 ? (
+            <div className="text-gray-400">
+              {streamState === 'reading' && !query ? 'Waiting for log lines...' : 'No log lines to show.'}
+            </div>
+          ) : (
+            visibleLines.map((line, index) => (
+              <div key={index} className={`whitespace-pre-wrap break-all ${line.stream === 'stderr' ? 'text-red-400' : 'text-gray-100'}`}>
+                {line.timestamp && <span className="text-gray-500 mr-2">{formatTimestamp(line.timestamp)}</span>}
+                {line.message}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React, { memo } from 'react';
+import { Card } from "../ui/Card";
+import { Alert, AlertTitle, AlertDescription } from "../ui/Alert";
+import { LoadingSpinner } from "../ui/LoadingSpinner";
+import { Button } from "../ui/Button";
+import { MyFoundryGame } from "../../types/foundry";
+
+interface MyGamesCardProps {
+  games: MyFoundryGame[];
+  loading: boolean;
+  error: string | null;
+}
+
+const MyGamesCard = memo(function MyGamesCard({ games, loading, error }: MyGamesCardProps) {
+  const getStatusLabel = (game: MyFoundryGame) => {
+    if (game.status !== 'RUNNING') {
+      return { text: 'Offline', className: 'text-gray-600 bg-gray-50 border-gray-200' };
+    }
+    if (game.healthStatus === 'unhealthy') {
+      return { text: 'Starting up', className: 'text-yellow-600 bg-yellow-50 border-yellow-200' };
+    }
+    if (game.healthStatus === 'degraded') {
+      return { text: 'No world loaded', className: 'text-yellow-600 bg-yellow-50 border-yellow-200' };
+    }
+    return { text: 'Online', className: 'text-green-600 bg-green-50 border-green-200' };
+  };
+
+  const formatNextSession = (nextSessionAt: string | null) => {
+    if (!nextSessionAt) return 'No session scheduled';
+    const date = new Date(nextSessionAt);
+    return date.toLocaleString(undefined, { weekday: 'long', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  };
+
+  return (
+    <Card className="p-6 h-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">My Games</h2>
+          <p className="text-sm text-gray-600 mt-1">Games you run or have been invited to</p>
+        </div>
+        <div className="text-sm text-gray-500">
+          {games.length} game{games.length !== 1 ? 's' : ''}
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {games.length === 0 && !loading && (
+        <div className="text-center py-12 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
+          <div className="text-gray-400 text-4xl mb-4">🎲</div>
+          <h4 className="text-lg font-medium text-gray-900 mb-2">No games yet</h4>
+          <p className="text-gray-600">Ask your GM to invite you to their game</p>
+        </div>
+      )}
+
+      {games.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {games.map((game) => {
+            const status = getStatusLabel(game);
+            return (
+              <div key={game.id} className="bg-white border border-gray-200 rounded-lg p-4 flex flex-col">
+                <div className="flex items-start justify-between mb-2">
+                  <div className="min-w-0">
+                    <h3 className="text-base font-medium text-gray-900 truncate">{game.name}</h3>
+                    <p className="text-xs text-gray-500">{game.access === 'OWNER' ? 'You are the GM' : 'Player'}</p>
+                  </div>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${status.className}`}>
+                    {status.text}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 mb-4">
+                  <span className="font-medium text-gray-700">Next session:</span> {formatNextSession(game.nextSessionAt)}
+                </p>
+                <div className="mt-auto flex items-center justify-between gap-2">
+                  <span className="text-xs text-gray-400 truncate" title={game.joinUrl}>{game.joinUrl}</span>
+                  <Button
+                    onClick={() => window.open(game.joinUrl, '_blank')}
+                    disabled={game.status !== 'RUNNING'}
+                    className="bg-green-600 hover:bg-green-700 text-white px-4 py-1.5 text-sm rounded-md transition-colors"
+                  >
+                    Join
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+});
+
+export default MyGamesCard;
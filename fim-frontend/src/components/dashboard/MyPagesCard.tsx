@@ -0,0 +1,71 @@
+import React, { memo } from 'react';
+import { Card } from "../ui/Card";
+import { Alert, AlertTitle, AlertDescription } from "../ui/Alert";
+import { LoadingSpinner } from "../ui/LoadingSpinner";
+import { Page } from "../../types";
+
+interface MyPagesCardProps {
+  pages: Page[];
+  loading: boolean;
+  error: string | null;
+}
+
+const MyPagesCard = memo(function MyPagesCard({ pages, loading, error }: MyPagesCardProps) {
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">My Pages</h2>
+          <p className="text-sm text-gray-600 mt-1">Handouts, wiki links and character sheets shared with you</p>
+        </div>
+        <div className="text-sm text-gray-500">
+          {pages.length} page{pages.length !== 1 ? 's' : ''}
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {pages.length === 0 && !loading && !error && (
+        <div className="text-center py-8 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
+          <div className="text-gray-400 text-4xl mb-4">📜</div>
+          <h4 className="text-lg font-medium text-gray-900 mb-2">No pages yet</h4>
+          <p className="text-gray-600">Pages your GM shares with you will show up here</p>
+        </div>
+      )}
+
+      {pages.length > 0 && (
+        <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {pages.map((page) => (
+            <li key={page.id}>
+              <a
+                href={page.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block h-full bg-white border border-gray-200 rounded-lg p-4 hover:border-blue-300 hover:shadow-sm transition-colors"
+              >
+                <h3 className="text-base font-medium text-blue-700 truncate">{page.title}</h3>
+                {page.description && (
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2">{page.description}</p>
+                )}
+                <p className="text-xs text-gray-400 mt-2 truncate" title={page.url}>{page.url}</p>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+});
+
+export default MyPagesCard;
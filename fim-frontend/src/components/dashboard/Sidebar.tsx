@@ -81,6 +81,58 @@ const Sidebar = () => {
               User Management
             </Link>
           </li>
+          <li>
+            <Link 
+              href="/dashboard/admin/pages" 
+              onClick={() => setIsMobileMenuOpen(false)}
+              className={`block py-2 px-4 rounded transition-colors ${
+                isActive('/dashboard/admin/pages') 
+                  ? 'bg-gray-700 text-white' 
+                  : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+              }`}
+            >
+              Page Management
+            </Link>
+          </li>
+          <li>
+            <Link 
+              href="/dashboard/admin/invites" 
+              onClick={() => setIsMobileMenuOpen(false)}
+              className={`block py-2 px-4 rounded transition-colors ${
+                isActive('/dashboard/admin/invites') 
+                  ? 'bg-gray-700 text-white' 
+                  : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+              }`}
+            >
+              Invitations
+            </Link>
+          </li>
+          <li>
+            <Link 
+              href="/dashboard/admin/audit" 
+              onClick={() => setIsMobileMenuOpen(false)}
+              className={`block py-2 px-4 rounded transition-colors ${
+                isActive('/dashboard/admin/audit') 
+                  ? 'bg-gray-700 text-white' 
+                  : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+              }`}
+            >
+              Audit Log
+            </Link>
+          </li>
+          <li>
+            <Link 
+              href="/dashboard/admin/client-logs" 
+              onClick={() => setIsMobileMenuOpen(false)}
+              className={`block py-2 px-4 rounded transition-colors ${
+                isActive('/dashboard/admin/client-logs') 
+                  ? 'bg-gray-700 text-white' 
+                  : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+              }`}
+            >
+              Client Logs
+            </Link>
+          </li>
           <li>
             <Link 
               href="/dashboard/profile" 
@@ -3,36 +3,66 @@ import { Card } from "../ui/Card";
 import { Alert, AlertTitle, AlertDescription } from "../ui/Alert";
 import { LoadingSpinner } from "../ui/LoadingSpinner";
 import { Button } from "../ui/Button";
+import { HealthComponent, SystemHealth } from "../../types";
 
-interface HealthStatus {
-  status: string;
-  info: {
-    database: {
-      status: string;
-    };
-    foundry: {
-      status: string;
-    };
-  };
-  error: Record<string, unknown> | null;
-  details: {
-    database: {
-      status: string;
-    };
-    foundry: {
-      status: string;
-    };
-  };
-}
+// Components in the order they are listed; anything else the backend reports is listed after them
+const COMPONENT_LABELS: Record<string, string> = {
+  database: 'Database',
+  docker: 'Docker',
+  disk: 'Disk Space',
+  foundry: 'Foundry Instances',
+};
+
+const componentRank = (key: string) => {
+  const order = Object.keys(COMPONENT_LABELS);
+  return order.includes(key) ? order.indexOf(key) : order.length;
+};
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const describeComponent = (key: string, component: HealthComponent): string[] => {
+  const lines: string[] = [];
+  if (key === 'disk' && component.freeBytes !== undefined && component.totalBytes !== undefined) {
+    lines.push(`${formatBytes(component.freeBytes)} free of ${formatBytes(component.totalBytes)} (${component.freePercent}%)`);
+  }
+  if (key === 'foundry' && component.running !== undefined) {
+    lines.push(
+      component.running === 0
+        ? 'No instances running'
+        : `${component.healthy} of ${component.running} running instances serving a world`,
+    );
+    if (component.degraded && component.degraded.length > 0) {
+      lines.push(`No world loaded: ${component.degraded.join(', ')}`);
+    }
+    if (component.unhealthy && component.unhealthy.length > 0) {
+      lines.push(`Not responding: ${component.unhealthy.join(', ')}`);
+    }
+  }
+  if (component.message) {
+    lines.push(component.message);
+  }
+  return lines;
+};
 
 interface SystemHealthCardProps {
-  health: HealthStatus | null;
+  health: SystemHealth | null;
   loading: boolean;
   error: string | null;
   onRefresh: () => void;
 }
 
 const SystemHealthCard = memo(function SystemHealthCard({ health, loading, error, onRefresh }: SystemHealthCardProps) {
+  const hasComponents = !!health && Object.keys(health.details).length > 0;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'ok':
@@ -92,7 +122,7 @@ const SystemHealthCard = memo(function SystemHealthCard({ health, loading, error
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="font-medium text-gray-900">Overall System</h3>
-                <p className="text-sm text-gray-600">All components status</p>
+                <p className="text-sm text-gray-600">{hasComponents ? 'All components status' : 'Whether the API is ready'}</p>
               </div>
               <div className="flex items-center space-x-2">
                 <span className="text-lg">{getStatusIcon(health.status)}</span>
@@ -101,38 +131,34 @@ const SystemHealthCard = memo(function SystemHealthCard({ health, loading, error
             </div>
           </div>
 
-          {/* Component Status */}
-          <div className="space-y-3">
-            <h3 className="font-medium text-gray-900 mb-3">Component Status</h3>
+          {/* Component Status, only reported to admins */}
+          {hasComponents && (
+            <div className="space-y-3">
+              <h3 className="font-medium text-gray-900 mb-3">Component Status</h3>
             
-            {/* Database Status */}
-            <div className={`p-3 rounded-lg border ${getStatusColor(health.info.database.status)}`}>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="w-2 h-2 rounded-full bg-current"></div>
-                  <span className="font-medium">Database</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <span>{getStatusIcon(health.info.database.status)}</span>
-                  <span className="font-medium">{health.info.database.status.toUpperCase()}</span>
-                </div>
-              </div>
+              {Object.entries(health.details)
+                .sort(([a], [b]) => componentRank(a) - componentRank(b))
+                .map(([key, component]) => (
+                  <div key={key} className={`p-3 rounded-lg border ${getStatusColor(component.status)}`}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-2 h-2 rounded-full bg-current"></div>
+                        <span className="font-medium">{COMPONENT_LABELS[key] ?? key}</span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span>{getStatusIcon(component.status)}</span>
+                        <span className="font-medium">{component.status.toUpperCase()}</span>
+                      </div>
+                    </div>
+                    {describeComponent(key, component).map((line) => (
+                      <p key={line} className="mt-1 ml-5 text-xs">
+                        {line}
+                      </p>
+                    ))}
+                  </div>
+                ))}
             </div>
-
-            {/* Foundry Status */}
-            <div className={`p-3 rounded-lg border ${getStatusColor(health.info.foundry.status)}`}>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="w-2 h-2 rounded-full bg-current"></div>
-                  <span className="font-medium">Foundry Service</span>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <span>{getStatusIcon(health.info.foundry.status)}</span>
-                  <span className="font-medium">{health.info.foundry.status.toUpperCase()}</span>
-                </div>
-              </div>
-            </div>
-          </div>
+          )}
 
           {/* Last Check Time */}
           <div className="pt-4 border-t border-gray-200">
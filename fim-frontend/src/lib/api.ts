@@ -2,6 +2,7 @@
 import axios from 'axios';
 import { getSession } from 'next-auth/react';
 import logger from './logger';
+import { SystemHealth } from '../types';
 
 console.log(process.env.NEXT_PUBLIC_API_URL)
 
@@ -126,10 +127,18 @@ api.interceptors.response.use(
   }
 );
 
-export const getHealthStatus = async () => {
+// Only admins may see the components; everyone else gets whether the API is ready
+export const getHealthStatus = async (detailed: boolean): Promise<SystemHealth> => {
   try {
-    const response = await api.get('/health');
-    return response.data;
+    if (detailed) {
+      const response = await api.get<SystemHealth>('/health');
+      return response.data;
+    }
+    const response = await api.get<Pick<SystemHealth, 'status'>>('/health/ready', {
+      // Not ready is an answer too
+      validateStatus: (status) => status === 200 || status === 503,
+    });
+    return { status: response.data.status, details: {} };
   } catch (error) {
     logger.error('Error fetching health status', error, 'API');
     throw error;
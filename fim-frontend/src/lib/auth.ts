@@ -2,6 +2,8 @@ import type { Account, Session, User as NextAuthUser } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { JWT } from 'next-auth/jwt';
 import { AdapterUser } from 'next-auth/adapters';
+import { TwoFactorChallenge } from '@/types';
+import { encodeTwoFactorChallenge } from './twoFactor';
 
 interface RefreshTokenResponse {
   accessToken: string;
@@ -97,21 +99,45 @@ export const authOptions = {
       credentials: {
         email: { label: 'Email', type: 'text' },
         password: { label: 'Password', type: 'password' },
+        // Second step of a login with two-factor authentication; the challenge token stands in for the password
+        challengeToken: { label: 'Challenge', type: 'text' },
+        code: { label: 'Authentication code', type: 'text' },
+        recoveryCode: { label: 'Recovery code', type: 'text' },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         let user: LoginResponse | undefined = undefined;
+        // Errors NextAuth should hand to the login page: a pending second step or a lockout
+        let signInError: string | undefined = undefined;
         try {
-          const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/login`, {
+          // Pass the browser's details on so the backend can label the session it starts
+          const forwardedFor = req?.headers?.['x-forwarded-for'];
+          const userAgent = req?.headers?.['user-agent'];
+          const body = credentials?.challengeToken
+            ? {
+                challengeToken: credentials.challengeToken,
+                code: credentials.code || undefined,
+                recoveryCode: credentials.recoveryCode || undefined,
+              }
+            : { email: credentials?.email, password: credentials?.password };
+          const path = credentials?.challengeToken ? '/auth/2fa/verify' : '/auth/login';
+          const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
+              ...(forwardedFor ? { 'X-Forwarded-For': String(forwardedFor) } : {}),
+              ...(userAgent ? { 'User-Agent': String(userAgent) } : {}),
             },
-            body: JSON.stringify(credentials),
+            body: JSON.stringify(body),
           });
 
-          user = (await response.json()) as LoginResponse;
+          const result = (await response.json()) as LoginResponse | TwoFactorChallenge;
 
-          if (response.ok && user) {
+          if (response.ok && 'twoFactor' in result) {
+            signInError = encodeTwoFactorChallenge(result.twoFactor, result.challengeToken);
+          } else if (response.status === 429) {
+            signInError = (result as unknown as { message?: string }).message || 'Too many failed login attempts. Try again later.';
+          } else if (response.ok && result) {
+            user = result as LoginResponse;
             return {
               id: user.id,
               email: user.email,
@@ -130,6 +156,8 @@ export const authOptions = {
           console.error('Login API response (if available):', JSON.stringify(user));
           return null;
         }
+        // Thrown outside the try block, so NextAuth hands the message to the login page
+        throw new Error(signInError);
       },
     }),
   ],
@@ -177,6 +205,23 @@ export const authOptions = {
       return session;
     },
   },
+  events: {
+    // Revoke the refresh token family on the backend as well, so the tokens stop working right away
+    async signOut({ token }: { token: JWT }) {
+      if (!token?.refreshToken) return;
+      try {
+        await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/logout`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ refreshToken: token.refreshToken }),
+        });
+      } catch (error) {
+        console.error('Logout error:', error);
+      }
+    },
+  },
   pages: {
     signIn: '/login',
   },
@@ -0,0 +1,156 @@
+// src/lib/events.ts
+import { getSession } from 'next-auth/react';
+import logger from './logger';
+import { ContainerLogLine, FoundryEvent } from '../types/foundry';
+
+const MAX_RECONNECT_DELAY = 30000;
+
+interface Session {
+  accessToken?: string;
+}
+
+interface FoundryEventHandlers {
+  onEvent: (event: FoundryEvent) => void;
+  // Called whenever the stream (re)connects; a good moment to resync state that may have been missed
+  onOpen?: () => void;
+}
+
+// Parses one "event:/data:" block of a text/event-stream response
+const parseMessage = (block: string): { type: string; data: string } | null => {
+  let type = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+  return data.length > 0 ? { type, data: data.join('\n') } : null;
+};
+
+// Opens a text/event-stream endpoint of the API with the session's token
+const openEventStream = async (path: string, signal: AbortSignal): Promise<ReadableStreamDefaultReader<string>> => {
+  const session = await getSession() as Session | null;
+  const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}${path}`, {
+    headers: {
+      Accept: 'text/event-stream',
+      ...(session?.accessToken ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+    },
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream request failed with status ${response.status}`);
+  }
+  return response.body.pipeThrough(new TextDecoderStream()).getReader();
+};
+
+// Reads messages until the server closes the stream
+const readEventStream = async (
+  reader: ReadableStreamDefaultReader<string>,
+  onMessage: (message: { type: string; data: string }) => void,
+): Promise<void> => {
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value.replace(/\r\n/g, '\n');
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      const message = parseMessage(block);
+      if (message && message.type !== 'ping') onMessage(message);
+    }
+  }
+};
+
+/**
+ * Subscribes to `GET /foundry/events`.
+ * EventSource cannot send an Authorization header, so the stream is read with fetch instead.
+ * Reconnects with exponential backoff until the returned function is called.
+ */
+export const subscribeToFoundryEvents = ({ onEvent, onOpen }: FoundryEventHandlers): (() => void) => {
+  const controller = new AbortController();
+  let reconnectDelay = 1000;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const connect = async () => {
+    try {
+      const reader = await openEventStream('/foundry/events', controller.signal);
+
+      logger.info('Foundry event stream connected', undefined, 'Events');
+      reconnectDelay = 1000;
+      onOpen?.();
+
+      await readEventStream(reader, (message) => {
+        try {
+          onEvent(JSON.parse(message.data) as FoundryEvent);
+        } catch (err) {
+          logger.warn('Ignoring malformed Foundry event', { error: err, data: message.data }, 'Events');
+        }
+      });
+      throw new Error('Event stream closed by server');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      logger.warn('Foundry event stream disconnected', { error: err, reconnectDelay }, 'Events');
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    }
+  };
+
+  connect();
+
+  return () => {
+    controller.abort();
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+  };
+};
+
+interface InstanceLogHandlers {
+  onLine: (line: ContainerLogLine) => void;
+  // The log was read to its end, or the container stopped while following it
+  onEnd: () => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Subscribes to `GET /foundry/:instanceId/logs`, starting `tail` lines back.
+ * Unlike the event stream it does not reconnect; reading stops when the returned function is called.
+ */
+export const subscribeToInstanceLogs = (
+  instanceId: string,
+  { tail, follow }: { tail: number; follow: boolean },
+  { onLine, onEnd, onError }: InstanceLogHandlers,
+): (() => void) => {
+  const controller = new AbortController();
+
+  const read = async () => {
+    try {
+      const params = new URLSearchParams({ tail: String(tail), follow: String(follow) });
+      const reader = await openEventStream(`/foundry/${instanceId}/logs?${params}`, controller.signal);
+      let outcome = null as 'end' | 'error' | null;
+      await readEventStream(reader, (message) => {
+        if (message.type === 'log') {
+          onLine(JSON.parse(message.data) as ContainerLogLine);
+        } else if (message.type === 'end') {
+          outcome = 'end';
+        } else if (message.type === 'error') {
+          // Sent instead of the end message when reading the log failed, e.g. the container is gone
+          outcome = 'error';
+          onError(message.data);
+        }
+      });
+      if (outcome === 'error') return;
+      if (!outcome) throw new Error('Log stream closed by server');
+      onEnd();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      logger.warn('Instance log stream failed', { error: err, instanceId }, 'Events');
+      onError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  read();
+
+  return () => controller.abort();
+};
@@ -0,0 +1,186 @@
+import { getSession } from 'next-auth/react';
+import type { LogEntry, LogLevel } from './logger';
+
+export interface LogShippingConfig {
+  enabled: boolean;
+  // Share of entries of each level that are sent, from 0 to 1
+  sampleRates: Partial<Record<LogLevel, number>>;
+  batchSize: number;
+  flushIntervalMs: number;
+  maxEntriesPerMinute: number;
+}
+
+interface ShippedLogEntry {
+  level: LogLevel;
+  message: string;
+  component?: string;
+  action?: string;
+  data?: unknown;
+  stack?: string;
+  url?: string;
+  timestamp: string;
+}
+
+const parseRate = (value: string | undefined, fallback: number) => {
+  const rate = Number(value);
+  return value && !isNaN(rate) ? Math.min(Math.max(rate, 0), 1) : fallback;
+};
+
+const SECRET_KEY = /pass(word)?|token|secret|authorization|cookie|license|api[-_]?key|recovery|^code$/i;
+const SECRET_VALUES: [RegExp, string][] = [
+  [/Bearer\s+[\w.~+/-]+=*/gi, 'Bearer [REDACTED]'],
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[REDACTED]'],
+];
+const MAX_DEPTH = 4;
+const MAX_STRING_LENGTH = 2000;
+const MAX_KEYS = 50;
+
+const redactString = (value: string) =>
+  SECRET_VALUES.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value).slice(
+    0,
+    MAX_STRING_LENGTH,
+  );
+
+/**
+ * Copies log data without anything that looks like a credential, cut down to a size worth sending.
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? undefined : value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (value instanceof Error) {
+    // Axios errors carry the request config, headers included; only what describes the failure is kept
+    const status = (value as Error & { status?: number }).status;
+    return { name: value.name, message: redactString(value.message), ...(status ? { status } : {}) };
+  }
+  if (Array.isArray(value)) {
+    return value.slice(0, MAX_KEYS).map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .slice(0, MAX_KEYS)
+      .map(([key, item]) => [key, SECRET_KEY.test(key) ? '[REDACTED]' : redact(item, depth + 1)]),
+  );
+};
+
+/**
+ * Sends warnings and errors to the backend (`POST /client-logs`), so problems players run into can be looked into.
+ * Entries are sampled per level, redacted, rate limited and sent in batches; anything that cannot be sent is dropped.
+ */
+class LogShipper {
+  private queue: ShippedLogEntry[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private windowStart = 0;
+  private sentInWindow = 0;
+  private started = false;
+  private config: LogShippingConfig = {
+    enabled: process.env.NEXT_PUBLIC_CLIENT_LOGS !== 'false',
+    sampleRates: {
+      warn: parseRate(process.env.NEXT_PUBLIC_CLIENT_LOG_WARN_SAMPLE_RATE, 0.2),
+      error: parseRate(process.env.NEXT_PUBLIC_CLIENT_LOG_ERROR_SAMPLE_RATE, 1),
+    },
+    batchSize: 20,
+    flushIntervalMs: 10000,
+    maxEntriesPerMinute: 30,
+  };
+
+  // Whether entries of a level are considered for shipping at all
+  accepts(level: LogLevel): boolean {
+    return this.config.enabled && typeof window !== 'undefined' && (this.config.sampleRates[level] ?? 0) > 0;
+  }
+
+  enqueue(entry: LogEntry): void {
+    if (!this.accepts(entry.level) || Math.random() >= (this.config.sampleRates[entry.level] ?? 0)) {
+      return;
+    }
+    const now = Date.now();
+    if (now - this.windowStart >= 60000) {
+      this.windowStart = now;
+      this.sentInWindow = 0;
+    }
+    if (this.sentInWindow >= this.config.maxEntriesPerMinute) {
+      return;
+    }
+    this.sentInWindow++;
+
+    const error = entry.data instanceof Error ? entry.data : undefined;
+    this.queue.push({
+      level: entry.level,
+      message: redactString(entry.message),
+      component: entry.component,
+      action: entry.action,
+      data: entry.data === undefined ? undefined : redact(entry.data),
+      stack: (error?.stack || entry.stack)?.slice(0, 8000),
+      url: window.location.pathname,
+      timestamp: entry.timestamp.toISOString(),
+    });
+
+    if (this.queue.length >= this.config.batchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.config.flushIntervalMs);
+    }
+  }
+
+  // Sends what is queued; keepalive lets the request outlive the page when it is being closed
+  async flush(keepalive = false): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    const entries = this.queue.splice(0, this.config.batchSize);
+    if (entries.length === 0) {
+      return;
+    }
+    try {
+      const session = (await getSession()) as { accessToken?: string } | null;
+      // Not the shared axios instance: its interceptors log failures, which would be shipped in turn
+      await fetch(`${process.env.NEXT_PUBLIC_API_URL}/client-logs`, {
+        method: 'POST',
+        keepalive,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(session?.accessToken ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+        },
+        body: JSON.stringify({ entries }),
+      });
+    } catch {
+      // Logs are best effort; a failed batch is dropped rather than retried
+    }
+    if (this.queue.length > 0) {
+      void this.flush(keepalive);
+    }
+  }
+
+  // Sends what is left when the page is hidden or closed
+  start(): void {
+    if (this.started || typeof window === 'undefined') {
+      return;
+    }
+    this.started = true;
+    window.addEventListener('pagehide', () => void this.flush(true));
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        void this.flush(true);
+      }
+    });
+  }
+
+  setConfig(config: Partial<LogShippingConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): LogShippingConfig {
+    return { ...this.config, sampleRates: { ...this.config.sampleRates } };
+  }
+}
+
+const logShipper = new LogShipper();
+
+export default logShipper;
@@ -1,3 +1,5 @@
+import logShipper, { LogShippingConfig } from './logShipper';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 export interface LogEntry {
@@ -51,7 +53,10 @@ class Logger {
   }
 
   private addLog(level: LogLevel, message: string, data?: unknown, component?: string, action?: string): void {
-    if (!this.shouldLog(level)) return;
+    const logged = this.shouldLog(level);
+    // Warnings and errors go to the backend even when development mode is off
+    const shipped = logShipper.accepts(level);
+    if (!logged && !shipped) return;
 
     const logEntry: LogEntry = {
       id: this.generateId(),
@@ -61,9 +66,14 @@ class Logger {
       data,
       component,
       action,
-      stack: level === 'error' && this.config.showStack ? new Error().stack : undefined,
+      stack: level === 'error' && (this.config.showStack || shipped) ? new Error().stack : undefined,
     };
 
+    if (shipped) {
+      logShipper.enqueue(logEntry);
+    }
+    if (!logged) return;
+
     this.logs.unshift(logEntry);
     
     // Keep only the most recent logs
@@ -239,6 +249,8 @@ class Logger {
 // Create singleton instance
 const logger = new Logger();
 
+let windowErrorsCaptured = false;
+
 // Function to initialize global objects (called from client-side)
 export const initializeGlobalLogger = () => {
   if (typeof window !== 'undefined') {
@@ -260,6 +272,12 @@ export const initializeGlobalLogger = () => {
       filter: (level?: LogLevel, component?: string, action?: string) => {
         console.log('Filtered logs:', logger.filterLogs(level, component, action));
       },
+      shipping: (config?: Partial<LogShippingConfig>) => {
+        if (config) {
+          logShipper.setConfig(config);
+        }
+        console.log('Log shipping config:', logShipper.getConfig());
+      },
       export: () => {
         const logs = logger.exportLogs();
         const blob = new Blob([logs], { type: 'application/json' });
@@ -286,12 +304,26 @@ FIM Development Logger Commands:
   fimDev.config({...})      - Update configuration
   fimDev.filter(level, component, action) - Filter logs
   fimDev.export()           - Export logs as JSON file
+  fimDev.shipping({...})    - View or update what is sent to the backend
   fimDev.test()             - Test the logger
   fimDev.help()             - Show this help
         `);
       }
     };
 
+    logShipper.start();
+
+    // Uncaught errors would otherwise never reach the logger
+    if (!windowErrorsCaptured) {
+      windowErrorsCaptured = true;
+      window.addEventListener('error', (event) => {
+        logger.error(event.message || 'Uncaught error', event.error, 'WINDOW', 'UNCAUGHT_ERROR');
+      });
+      window.addEventListener('unhandledrejection', (event) => {
+        logger.error('Unhandled promise rejection', event.reason, 'WINDOW', 'UNHANDLED_REJECTION');
+      });
+    }
+
     // Show help on first load
     console.log('FIM Development Logger loaded. Type "fimDev.help()" for available commands.');
     
@@ -0,0 +1,18 @@
+import { TwoFactorStep } from '@/types';
+
+// NextAuth only passes the message of an error thrown in `authorize` on to the login page,
+// so a pending second step is sent as `TWO_FACTOR_<STEP>:<challenge token>`
+const PREFIX = 'TWO_FACTOR_';
+
+export const encodeTwoFactorChallenge = (step: TwoFactorStep, challengeToken: string) =>
+  `${PREFIX}${step.toUpperCase()}:${challengeToken}`;
+
+export const parseTwoFactorChallenge = (
+  error: string | null | undefined,
+): { step: TwoFactorStep; challengeToken: string } | null => {
+  const match = error?.match(new RegExp(`^${PREFIX}(VERIFY|SETUP):(.+)$`));
+  if (!match) {
+    return null;
+  }
+  return { step: match[1].toLowerCase() as TwoFactorStep, challengeToken: match[2] };
+};
@@ -3,9 +3,121 @@ export interface FoundryInstance {
   name: string;
   port: number;
   status: 'RUNNING' | 'STOPPED' | 'CREATING' | 'ERROR' | 'DELETING';
-  healthStatus: 'healthy' | 'unhealthy' | 'unknown' | 'checking';
+  healthStatus: 'healthy' | 'degraded' | 'unhealthy' | 'unknown' | 'checking';
   dockerContainerId?: string | null;
   ownerId?: number | null;
+  image?: string;
+  imageTag?: string;
+  foundryVersion?: string | null;
+  memoryLimitMb?: number | null;
+  cpuLimit?: number | null;
+  // Only sent to users who may manage the instance; invited players get envKeys instead
+  env?: Record<string, string>;
+  envKeys?: string[];
+  restartPolicy?: 'NO' | 'ON_FAILURE' | 'UNLESS_STOPPED' | 'ALWAYS';
+  nextSessionAt?: string | null;
+  // What Foundry reported at the last health check; null unless running
+  foundryStatus?: FoundryStatus | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
+
+// As reported by Foundry's /api/status endpoint
+export interface FoundryStatus {
+  world: string | null;
+  system: string | null;
+  systemVersion: string | null;
+  foundryVersion: string | null;
+  users: number | null;
+  responseTimeMs: number | null;
+  error: string | null;
+}
+
+// A health check of GET /foundry/:instanceId/health/history
+export interface FoundryHealthSample extends FoundryStatus {
+  id: string;
+  instanceId: string;
+  healthStatus: 'healthy' | 'degraded' | 'unhealthy';
+  checkedAt: string;
+}
+
+// An entry of GET /foundry/mine
+export interface MyFoundryGame {
+  id: string;
+  name: string;
+  status: FoundryInstance['status'];
+  healthStatus: FoundryInstance['healthStatus'];
+  port: number;
+  joinUrl: string;
+  nextSessionAt: string | null;
+  access: 'OWNER' | 'MEMBER';
+}
+
+// A line of GET /foundry/:instanceId/logs
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  timestamp: string | null;
+  message: string;
+}
+
+export interface FoundryJob {
+  id: string;
+  type: 'CREATE' | 'START' | 'STOP' | 'DELETE' | 'RESTART' | 'RECREATE' | 'BACKUP' | 'RESTORE' | 'UPDATE';
+  status: 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  progress: number;
+  message?: string | null;
+  error?: string | null;
+  payload?: { backupId?: string; scheduleId?: string; imageTag?: string } | null;
+  instanceId?: string | null;
+  requestedById?: number | null;
+  createdAt?: Date;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+}
+
+export interface FoundryBackup {
+  id: string;
+  instanceId: string | null;
+  instanceName: string;
+  fileName: string;
+  sizeBytes: number;
+  checksum: string;
+  foundryVersion: string | null;
+  image: string;
+  trigger: 'MANUAL' | 'SCHEDULED';
+  createdById: number | null;
+  createdAt: string;
+}
+
+// One backup attempt, including ones that failed or were skipped
+export interface FoundryBackupRun {
+  id: string;
+  instanceId: string | null;
+  trigger: 'MANUAL' | 'SCHEDULED';
+  status: 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+  backupId: string | null;
+  message: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface FoundryBackupSchedule {
+  id: string;
+  instanceId: string;
+  cron: string;
+  timezone: string;
+  keepDaily: number;
+  keepWeekly: number;
+  runningPolicy: 'SKIP' | 'QUIESCE' | 'LIVE';
+  enabled: boolean;
+  nextRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Messages pushed by GET /foundry/events
+export type FoundryEvent =
+  | { type: 'status'; instanceId: string; ownerId: number | null; data: Omit<FoundryInstance, 'healthStatus'> }
+  | { type: 'health'; instanceId: string; ownerId: number | null; data: { healthStatus: FoundryInstance['healthStatus'] } }
+  | { type: 'job'; instanceId: string | null; ownerId: number | null; data: FoundryJob }
+  | { type: 'deleted'; instanceId: string; ownerId: number | null; data: { id: string } };
@@ -7,4 +7,151 @@ export interface User {
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
+}
+
+export interface AuthSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expires: string;
+  current: boolean;
+}
+
+export interface Page {
+  id: number;
+  title: string;
+  url: string;
+  description: string | null;
+  isActive: boolean;
+  createdById: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminPage extends Page {
+  assignedUserIds: number[];
+}
+
+export type RegistrationMode = 'open' | 'invite' | 'closed';
+
+export interface InvitePreview {
+  email: string | null;
+  role: string;
+  instanceNames: string[];
+  expiresAt: string | null;
+}
+
+export interface RegistrationInfo {
+  mode: RegistrationMode;
+  invite: InvitePreview | null;
+}
+
+export interface Invite {
+  id: string;
+  email: string | null;
+  role: string;
+  instances: { id: string; name: string }[];
+  createdBy: string | null;
+  usedBy: string | null;
+  status: 'pending' | 'used' | 'expired';
+  expiresAt: string | null;
+  usedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatedInvite extends Invite {
+  token: string;
+  url: string;
+  emailSent: boolean;
+}
+
+export type TwoFactorStep = 'verify' | 'setup';
+
+export interface TwoFactorChallenge {
+  twoFactor: TwoFactorStep;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface RecoveryCodes {
+  recoveryCodes: string[];
+}
+
+export interface AccountLockout {
+  email: string;
+  userId: number | null;
+  failures: number;
+  lockedUntil: string;
+}
+
+export type AuditTargetType = 'user' | 'instance' | 'page' | 'invite' | 'session';
+
+export interface AuditEvent {
+  id: string;
+  actorId: number | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: AuditTargetType | null;
+  targetId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  details: Record<string, unknown> | null;
+  success: boolean;
+  error: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface ClientLog {
+  id: string;
+  userId: number | null;
+  userEmail: string | null;
+  level: 'warn' | 'error';
+  message: string;
+  component: string | null;
+  action: string | null;
+  data: unknown;
+  stack: string | null;
+  url: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  occurredAt: string;
+  createdAt: string;
+}
+
+export interface HealthComponent {
+  status: 'up' | 'down';
+  message?: string;
+  // Disk space of the instance data
+  path?: string;
+  freeBytes?: number;
+  totalBytes?: number;
+  freePercent?: number;
+  // Running Foundry instances
+  running?: number;
+  healthy?: number;
+  degraded?: string[];
+  unhealthy?: string[];
+}
+
+export interface SystemHealth {
+  status: 'ok' | 'error' | 'shutting_down';
+  info?: Record<string, HealthComponent>;
+  error?: Record<string, HealthComponent>;
+  details: Record<string, HealthComponent>;
 }
\ No newline at end of file